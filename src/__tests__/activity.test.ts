@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import { buildTaskActivity, describeTaskChange } from "@/lib/activity";
+import type { TaskChange, TaskComment } from "@/types/task";
+
+const change = (
+  id: number,
+  createdAt: string,
+  changeType: TaskChange["changeType"] = "update",
+  changedFields: Record<string, { old: unknown; new: unknown }> | null = null
+): TaskChange => ({
+  id,
+  taskId: 1,
+  changeType,
+  changedFields: changedFields && JSON.stringify(changedFields),
+  oldValue: null,
+  newValue: null,
+  changedBy: "system",
+  createdAt,
+});
+
+const comment = (id: number, createdAt: string): TaskComment => ({
+  id,
+  taskId: 1,
+  author: "Me",
+  body: `Comment ${id}`,
+  edits: [],
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe("Activity", () => {
+  it("should interleave comments and changes oldest first", () => {
+    const activity = buildTaskActivity(
+      [
+        change(2, "2024-03-01T12:00:00.000Z"),
+        change(1, "2024-03-01T09:00:00.000Z", "create"),
+      ],
+      [
+        comment(1, "2024-03-01T10:00:00.000Z"),
+        comment(2, "2024-03-02T08:00:00.000Z"),
+      ]
+    );
+    expect(
+      activity.map((entry) =>
+        entry.type === "comment"
+          ? `comment ${entry.comment.id}`
+          : `change ${entry.change.id}`
+      )
+    ).toEqual(["change 1", "comment 1", "change 2", "comment 2"]);
+  });
+
+  it("should put a change before a comment made at the same time", () => {
+    const at = "2024-03-01T09:00:00.000Z";
+    const activity = buildTaskActivity([change(1, at)], [comment(1, at)]);
+    expect(activity.map((entry) => entry.type)).toEqual(["change", "comment"]);
+  });
+
+  describe("describeTaskChange", () => {
+    const at = "2024-03-01T09:00:00.000Z";
+
+    it("should describe changes by their type", () => {
+      expect(describeTaskChange(change(1, at, "create"))).toBe(
+        "Created the task"
+      );
+      expect(describeTaskChange(change(1, at, "complete"))).toBe(
+        "Completed the task"
+      );
+      expect(describeTaskChange(change(1, at, "uncomplete"))).toBe(
+        "Reopened the task"
+      );
+    });
+
+    it("should name the changed fields of an update", () => {
+      expect(
+        describeTaskChange(
+          change(1, at, "update", {
+            title: { old: "a", new: "b" },
+            estimateHours: { old: 1, new: 2 },
+            priority: { old: "low", new: "high" },
+            updatedAt: { old: "x", new: "y" },
+            reminders: { old: [], new: null },
+          })
+        )
+      ).toBe("Changed title, estimate hours and priority");
+      expect(
+        describeTaskChange(
+          change(1, at, "update", { updatedAt: { old: "x", new: "y" } })
+        )
+      ).toBe("Updated the task");
+    });
+
+    it("should describe a task becoming blocked or unblocked", () => {
+      expect(
+        describeTaskChange(
+          change(1, at, "update", { blocked: { old: true, new: false } })
+        )
+      ).toBe("Was unblocked");
+    });
+  });
+});
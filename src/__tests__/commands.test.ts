@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { Command, getRescheduleDates, groupCommands } from "@/lib/commands";
+
+const commands: Command[] = [
+  { id: "view-today", title: "Today", group: "Views" },
+  { id: "task-complete", title: "Complete", group: "Task", forTask: true },
+  { id: "list-1", title: "Home", group: "Lists" },
+  { id: "view-all", title: "All", group: "Views" },
+];
+
+describe("Commands", () => {
+  it("should group commands with the task commands first", () => {
+    const groups = groupCommands(commands, true);
+
+    expect(groups.map((group) => group.name)).toEqual([
+      "Task",
+      "Views",
+      "Lists",
+    ]);
+    expect(groups[1].commands.map((command) => command.id)).toEqual([
+      "view-today",
+      "view-all",
+    ]);
+  });
+
+  it("should leave out task commands without a selected task", () => {
+    const groups = groupCommands(commands, false);
+
+    expect(groups.map((group) => group.name)).toEqual(["Views", "Lists"]);
+  });
+
+  it("should offer the coming weekend and next Monday", () => {
+    // A Wednesday
+    expect(getRescheduleDates("2026-10-21")).toEqual([
+      { title: "Today", date: "2026-10-21" },
+      { title: "Tomorrow", date: "2026-10-22" },
+      { title: "This weekend", date: "2026-10-24" },
+      { title: "Next week", date: "2026-10-26" },
+    ]);
+  });
+
+  it("should reschedule to today on a weekend", () => {
+    const dates = getRescheduleDates("2026-10-25"); // A Sunday
+
+    expect(dates[2]).toEqual({ title: "This weekend", date: "2026-10-25" });
+    expect(dates[3]).toEqual({ title: "Next week", date: "2026-10-26" });
+  });
+});
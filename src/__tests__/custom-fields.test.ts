@@ -0,0 +1,149 @@
+import { describe, it, expect } from "bun:test";
+import {
+  formatCustomValue,
+  matchesCustomFields,
+  matchesTaskFilter,
+  sortByCustomField,
+} from "@/lib/custom-fields";
+import { buildCustomValuesSchema } from "@/lib/validation";
+import type { CustomField, CustomFieldType } from "@/types/task";
+
+const field = (
+  id: number,
+  type: CustomFieldType,
+  options: string[] = []
+): CustomField => ({
+  id,
+  listId: 1,
+  name: `Field ${id}`,
+  type,
+  options,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+const fields = [
+  field(1, "text"),
+  field(2, "number"),
+  field(3, "select", ["Low", "High"]),
+  field(4, "date"),
+  field(5, "checkbox"),
+];
+
+describe("Custom fields", () => {
+  describe("buildCustomValuesSchema", () => {
+    const schema = buildCustomValuesSchema(fields);
+
+    it("should accept values matching their field types", () => {
+      const values = { "1": "Notes", "2": 3.5, "3": "High", "4": "2024-03-01" };
+      expect(schema.parse(values)).toEqual(values);
+      expect(schema.parse({ "5": true, "2": null })).toEqual({
+        "5": true,
+        "2": null,
+      });
+    });
+
+    it("should reject wrong types, unknown options and unknown fields", () => {
+      expect(schema.safeParse({ "2": "3" }).success).toBe(false);
+      expect(schema.safeParse({ "3": "Medium" }).success).toBe(false);
+      expect(schema.safeParse({ "4": "March 1st" }).success).toBe(false);
+      expect(schema.safeParse({ "99": "x" }).success).toBe(false);
+    });
+  });
+
+  it("should format checkbox values as Yes or No", () => {
+    expect(formatCustomValue(fields[4], true)).toBe("Yes");
+    expect(formatCustomValue(fields[4], false)).toBe("No");
+    expect(formatCustomValue(fields[1], 42)).toBe("42");
+    expect(formatCustomValue(fields[0], null)).toBe("");
+  });
+
+  describe("matchesCustomFields", () => {
+    const task = { customValues: { "1": "Call the Bank", "3": "High" } };
+
+    it("should match text by contents, ignoring case", () => {
+      expect(matchesCustomFields(task, { "1": "bank" }, fields)).toBe(true);
+      expect(matchesCustomFields(task, { "1": "shop" }, fields)).toBe(false);
+    });
+
+    it("should require every filtered field to match", () => {
+      expect(
+        matchesCustomFields(task, { "1": "call", "3": "High" }, fields)
+      ).toBe(true);
+      expect(
+        matchesCustomFields(task, { "1": "call", "3": "Low" }, fields)
+      ).toBe(false);
+    });
+
+    it("should treat a missing checkbox value as unchecked", () => {
+      expect(matchesCustomFields(task, { "5": false }, fields)).toBe(true);
+      expect(matchesCustomFields(task, { "5": true }, fields)).toBe(false);
+    });
+  });
+
+  describe("matchesTaskFilter", () => {
+    const task = {
+      title: "Follow up",
+      description: "Ask about the invoice",
+      priority: "high" as const,
+      isCompleted: false,
+      listId: 1,
+      date: "2024-01-15",
+      customValues: { "1": "Call the Bank", "3": "High" },
+    };
+
+    it("should apply the custom fields of the chosen list", () => {
+      const filter = { listId: 1, customFields: { "3": "High" } };
+      expect(matchesTaskFilter(task, filter, fields)).toBe(true);
+      expect(
+        matchesTaskFilter(
+          task,
+          { ...filter, customFields: { "3": "Low" } },
+          fields
+        )
+      ).toBe(false);
+    });
+
+    it("should ignore custom fields without a chosen list", () => {
+      expect(
+        matchesTaskFilter(task, { customFields: { "3": "Low" } }, fields)
+      ).toBe(true);
+    });
+
+    it("should combine custom fields with the other criteria", () => {
+      const filter = { listId: 1, customFields: { "1": "bank" } };
+      expect(
+        matchesTaskFilter(task, { ...filter, search: "invoice" }, fields)
+      ).toBe(true);
+      expect(
+        matchesTaskFilter(task, { ...filter, status: "completed" }, fields)
+      ).toBe(false);
+      expect(matchesTaskFilter(task, { ...filter, listId: 2 }, fields)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("sortByCustomField", () => {
+    const tasks: { id: number; customValues: Record<string, number> }[] = [
+      { id: 1, customValues: { "2": 5 } },
+      { id: 2, customValues: {} },
+      { id: 3, customValues: { "2": 1 } },
+      { id: 4, customValues: { "2": 3 } },
+    ];
+
+    it("should sort by the value with tasks without one last", () => {
+      const ids = (direction: "asc" | "desc") =>
+        sortByCustomField(tasks, { fieldId: 2, direction }).map(
+          (task) => task.id
+        );
+      expect(ids("asc")).toEqual([3, 4, 1, 2]);
+      expect(ids("desc")).toEqual([1, 4, 3, 2]);
+    });
+
+    it("should not change the given tasks", () => {
+      sortByCustomField(tasks, { fieldId: 2, direction: "asc" });
+      expect(tasks.map((task) => task.id)).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "bun:test";
+import { getDaysBetween, shiftDate, shiftTaskDates } from "@/lib/date-shift";
+
+describe("Date shift", () => {
+  it("should count the days between two dates", () => {
+    expect(getDaysBetween("2024-01-30", "2024-02-02")).toBe(3);
+    expect(getDaysBetween("2024-03-10", "2024-03-01")).toBe(-9);
+    expect(getDaysBetween("2024-03-01T17:00", "2024-03-02")).toBe(1);
+  });
+
+  it("should shift dates across months and keep the time", () => {
+    expect(shiftDate("2024-02-28", 2)).toBe("2024-03-01");
+    expect(shiftDate("2024-01-15T17:00", -15)).toBe("2023-12-31T17:00");
+  });
+
+  it("should move every date of a task by the same amount", () => {
+    const shifted = shiftTaskDates(
+      {
+        title: "Launch",
+        date: "2024-01-10",
+        deadline: "2024-01-12T09:30",
+        recurrenceEndDate: "2024-02-01",
+        recurrenceRule: "FREQ=WEEKLY;UNTIL=20240201",
+        recurrenceExceptions: ["2024-01-17"],
+        reminders: [
+          { time: 1, unit: "hours" as const },
+          { at: "2024-01-11T08:00:00.000Z" },
+        ],
+      },
+      7
+    );
+
+    expect(shifted).toEqual({
+      title: "Launch",
+      date: "2024-01-17",
+      deadline: "2024-01-19T09:30",
+      recurrenceEndDate: "2024-02-08",
+      recurrenceRule: "FREQ=WEEKLY;UNTIL=20240208",
+      recurrenceExceptions: ["2024-01-24"],
+      reminders: [
+        { time: 1, unit: "hours" },
+        { at: "2024-01-18T08:00:00.000Z" },
+      ],
+    });
+  });
+});
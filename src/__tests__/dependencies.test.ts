@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import { findDependencyCycle, isTaskBlocked } from "@/lib/dependencies";
+
+describe("Dependencies", () => {
+  describe("findDependencyCycle", () => {
+    it("should reject a task depending on itself", () => {
+      expect(findDependencyCycle([], 1, 1)).toEqual([1, 1]);
+    });
+
+    it("should allow a dependency that closes no cycle", () => {
+      const edges = [
+        { taskId: 2, blockerId: 1 },
+        { taskId: 3, blockerId: 2 },
+      ];
+      expect(findDependencyCycle(edges, 4, 3)).toBeNull();
+      expect(findDependencyCycle(edges, 3, 1)).toBeNull();
+    });
+
+    it("should find a direct cycle", () => {
+      expect(findDependencyCycle([{ taskId: 2, blockerId: 1 }], 1, 2)).toEqual([
+        1, 2, 1,
+      ]);
+    });
+
+    it("should find a cycle through other tasks", () => {
+      const edges = [
+        { taskId: 2, blockerId: 3 },
+        { taskId: 3, blockerId: 4 },
+        { taskId: 3, blockerId: 5 },
+        { taskId: 5, blockerId: 1 },
+      ];
+      expect(findDependencyCycle(edges, 1, 2)).toEqual([1, 2, 3, 5, 1]);
+    });
+  });
+
+  describe("isTaskBlocked", () => {
+    it("should be blocked while a blocker is open", () => {
+      expect(
+        isTaskBlocked({
+          blockedBy: [
+            { id: 1, title: "Done", isCompleted: true },
+            { id: 2, title: "Open", isCompleted: false },
+          ],
+        })
+      ).toBe(true);
+    });
+
+    it("should not be blocked once every blocker is completed", () => {
+      expect(
+        isTaskBlocked({
+          blockedBy: [{ id: 1, title: "Done", isCompleted: true }],
+        })
+      ).toBe(false);
+      expect(isTaskBlocked({})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { mock } from "bun:test";
+import { Database } from "bun:sqlite";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import * as schema from "@/lib/schema";
+
+const MIGRATIONS_DIR = path.join(import.meta.dir, "../../lib/migrations");
+
+// An in-memory database with every migration applied, used in place of
+// @/lib/db. Import this before the services, and import the services
+// dynamically, so that they are loaded against it.
+export const sqlite = new Database(":memory:");
+for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+  sqlite.exec(readFileSync(path.join(MIGRATIONS_DIR, file), "utf8"));
+}
+
+export const db = drizzle(sqlite, { schema });
+mock.module("@/lib/db", () => ({ db }));
+
+// A list to put tasks in; names must be unique across the tests
+export function insertList(name: string): number {
+  const row = sqlite
+    .query(
+      "INSERT INTO lists (name, color, emoji) VALUES (?, '#6366F1', '📋') RETURNING id"
+    )
+    .get(name) as { id: number };
+  return row.id;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { HistoryEntry, useHistoryStore } from "@/store/historyStore";
+import { useTaskStore } from "@/store/taskStore";
+import { useUIStore } from "@/store/uiStore";
+import { TaskWithRelations } from "@/types/task";
+
+// An entry that logs its replays and optionally fails to undo
+const createEntry = (
+  label: string,
+  log: string[],
+  failUndo = false
+): HistoryEntry => ({
+  label,
+  undo: async () => {
+    if (failUndo) throw new Error(`Failed to undo ${label}`);
+    log.push(`undo ${label}`);
+  },
+  redo: async () => {
+    log.push(`redo ${label}`);
+  },
+});
+
+describe("History", () => {
+  beforeEach(() => {
+    useHistoryStore.getState().clear();
+    useUIStore.getState().clearNotifications();
+  });
+
+  it("should undo and redo in reverse order", async () => {
+    const log: string[] = [];
+    const history = useHistoryStore.getState();
+    history.record(createEntry("a", log));
+    history.record(createEntry("b", log));
+
+    await history.undo();
+    await history.undo();
+    await history.redo();
+
+    expect(log).toEqual(["undo b", "undo a", "redo a"]);
+    expect(useHistoryStore.getState().past.map((e) => e.label)).toEqual(["a"]);
+    expect(useHistoryStore.getState().future.map((e) => e.label)).toEqual([
+      "b",
+    ]);
+  });
+
+  it("should drop the redo stack when a new change is recorded", async () => {
+    const log: string[] = [];
+    const history = useHistoryStore.getState();
+    history.record(createEntry("a", log));
+    await history.undo();
+    history.record(createEntry("b", log));
+
+    expect(useHistoryStore.getState().future).toEqual([]);
+  });
+
+  it("should not record changes made while replaying", async () => {
+    const history = useHistoryStore.getState();
+    history.record({
+      label: "a",
+      undo: async () => history.record(createEntry("inverse", [])),
+      redo: async () => {},
+    });
+
+    await history.undo();
+
+    expect(useHistoryStore.getState().past).toEqual([]);
+    expect(useHistoryStore.getState().future.map((e) => e.label)).toEqual([
+      "a",
+    ]);
+  });
+
+  it("should keep a failed entry and report the error", async () => {
+    const history = useHistoryStore.getState();
+    history.record(createEntry("a", [], true));
+
+    await history.undo();
+
+    expect(useHistoryStore.getState().past.map((e) => e.label)).toEqual(["a"]);
+    const notifications = useUIStore.getState().notifications;
+    expect(notifications[notifications.length - 1]).toMatchObject({
+      type: "error",
+      message: "Failed to undo a",
+    });
+  });
+
+  it("should offer undo from the toast of the latest change", async () => {
+    const log: string[] = [];
+    useHistoryStore.getState().record(createEntry("a", log));
+
+    const [toast] = useUIStore.getState().notifications;
+    toast.actions?.[0].onClick();
+    await Promise.resolve();
+
+    expect(log).toEqual(["undo a"]);
+  });
+});
+
+describe("Undoing task edits", () => {
+  const originalFetch = globalThis.fetch;
+  let requests: unknown[] = [];
+
+  beforeEach(() => {
+    useHistoryStore.getState().clear();
+    requests = [];
+    // Answers every update with the task as sent
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+      const body = JSON.parse(String(init?.body));
+      requests.push(body);
+      return Response.json({ ...useTaskStore.getState().byId[1], ...body });
+    }) as typeof fetch;
+
+    const task = {
+      id: 1,
+      title: "Write report",
+      date: "2026-10-19",
+      deadline: null,
+      description: null,
+      priority: "none",
+      listId: 1,
+      isCompleted: false,
+      isRecurring: false,
+    } as unknown as TaskWithRelations;
+    useTaskStore.setState((state) => {
+      state.byId = { 1: task };
+      state.allIds = [1];
+      state.error = null;
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should clear a value that was empty before the edit", async () => {
+    await useTaskStore
+      .getState()
+      .updateTask(1, { deadline: "2026-10-20T17:00", description: "Q3" });
+    await useHistoryStore.getState().undo();
+
+    expect(requests[1]).toEqual({ deadline: null, description: null });
+    expect(useTaskStore.getState().byId[1]).toMatchObject({
+      deadline: null,
+      description: null,
+    });
+  });
+
+  it("should clear every optional field that was empty", async () => {
+    await useTaskStore.getState().updateTask(1, {
+      estimateHours: 1,
+      actualMinutes: 30,
+      isRecurring: true,
+      recurrenceRule: "FREQ=DAILY",
+      recurrenceEndDate: "2026-12-31",
+      reminders: [{ time: 15, unit: "minutes" }],
+    });
+    await useHistoryStore.getState().undo();
+
+    expect(requests[1]).toEqual({
+      estimateHours: null,
+      actualMinutes: null,
+      isRecurring: false,
+      recurrenceRule: null,
+      recurrenceEndDate: null,
+      reminders: null,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, spyOn } from "bun:test";
+import { insertList, sqlite } from "./helpers/db";
+
+const { ListService } = await import("@/services/list-service");
+const { TaskService } = await import("@/services/task-service");
+
+const listService = new ListService();
+const taskService = new TaskService();
+
+const findList = (name: string) =>
+  sqlite.query("SELECT id FROM lists WHERE name = ?").get(name);
+
+describe("ListService", () => {
+  describe("duplicateList", () => {
+    it("should keep the recurrence on the open occurrence only", async () => {
+      const listId = insertList("Routines");
+      const task = await taskService.createTask({
+        title: "Water plants",
+        date: "2024-01-15",
+        listId,
+        priority: "none",
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY",
+      });
+      await taskService.completeTask(task.id!);
+
+      const copy = await listService.duplicateList(listId);
+      const copied = await taskService.getTasks({ listId: copy!.id });
+
+      expect(copied.tasks).toHaveLength(2);
+      const completed = copied.tasks.find((t) => t.isCompleted);
+      const open = copied.tasks.find((t) => !t.isCompleted);
+      expect(completed?.isRecurring).toBe(false);
+      expect(completed?.recurrenceRule).toBeFalsy();
+      expect(open?.isRecurring).toBe(true);
+      expect(await taskService.processRecurringTasks()).toBe(0);
+    });
+
+    it("should leave nothing behind when a copy fails", async () => {
+      const listId = insertList("Errands");
+      await taskService.createTask({
+        title: "Post a parcel",
+        date: "2024-01-15",
+        listId,
+        priority: "none",
+        isRecurring: false,
+      });
+      const createTask = spyOn(
+        TaskService.prototype,
+        "createTask"
+      ).mockRejectedValue(new Error("disk full"));
+
+      try {
+        await expect(
+          listService.duplicateList(listId, { name: "Errands again" })
+        ).rejects.toThrow("Failed to duplicate list");
+      } finally {
+        createTask.mockRestore();
+      }
+      expect(findList("Errands again")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "bun:test";
+import {
+  getTaskReferences,
+  parseInline,
+  parseMarkdown,
+  toggleCheckbox,
+} from "@/lib/markdown";
+
+describe("Markdown", () => {
+  describe("parseInline", () => {
+    it("should parse code, bold, italics and links", () => {
+      expect(
+        parseInline("Run `bun test`, **then** _ship_ [it](https://example.com)")
+      ).toEqual([
+        { type: "text", text: "Run " },
+        { type: "code", text: "bun test" },
+        { type: "text", text: ", " },
+        { type: "strong", children: [{ type: "text", text: "then" }] },
+        { type: "text", text: " " },
+        { type: "emphasis", children: [{ type: "text", text: "ship" }] },
+        { type: "text", text: " " },
+        {
+          type: "link",
+          href: "https://example.com",
+          children: [{ type: "text", text: "it" }],
+        },
+      ]);
+    });
+
+    it("should not parse Markdown inside code", () => {
+      expect(parseInline("`**not bold**`")).toEqual([
+        { type: "code", text: "**not bold**" },
+      ]);
+    });
+
+    it("should leave underscores inside words alone", () => {
+      expect(parseInline("use snake_case_names")).toEqual([
+        { type: "text", text: "use snake_case_names" },
+      ]);
+    });
+
+    it("should show links with unsafe targets as text", () => {
+      expect(parseInline("[click](javascript:void)")).toEqual([
+        { type: "text", text: "[click](javascript:void)" },
+      ]);
+    });
+
+    it("should parse references to tasks by title or ID", () => {
+      expect(parseInline("After [[Book flights]] and #12, not a#3")).toEqual([
+        { type: "text", text: "After " },
+        {
+          type: "taskRef",
+          ref: { title: "Book flights" },
+          text: "[[Book flights]]",
+        },
+        { type: "text", text: " and " },
+        { type: "taskRef", ref: { id: 12 }, text: "#12" },
+        { type: "text", text: ", not a#3" },
+      ]);
+    });
+
+    it("should link bare URLs without trailing punctuation", () => {
+      expect(parseInline("See https://example.com/a.")).toEqual([
+        { type: "text", text: "See " },
+        {
+          type: "link",
+          href: "https://example.com/a",
+          children: [{ type: "text", text: "https://example.com/a" }],
+        },
+        { type: "text", text: "." },
+      ]);
+    });
+  });
+
+  describe("parseMarkdown", () => {
+    it("should split headings, paragraphs, lists, quotes and code", () => {
+      const blocks = parseMarkdown(
+        [
+          "## Plan",
+          "First line",
+          "second line",
+          "",
+          "- one",
+          "- two",
+          "1. first",
+          "> quoted",
+          "```",
+          "const a = 1;",
+          "```",
+        ].join("\n")
+      );
+      expect(blocks.map((block) => block.type)).toEqual([
+        "heading",
+        "paragraph",
+        "list",
+        "list",
+        "quote",
+        "code",
+      ]);
+      expect(blocks[1]).toEqual({
+        type: "paragraph",
+        children: [
+          { type: "text", text: "First line" },
+          { type: "break" },
+          { type: "text", text: "second line" },
+        ],
+      });
+      expect(blocks[2]).toMatchObject({ ordered: false, items: [{}, {}] });
+      expect(blocks[3]).toMatchObject({ ordered: true });
+      expect(blocks[5]).toEqual({ type: "code", text: "const a = 1;" });
+    });
+
+    it("should parse checkbox items with the line they are on", () => {
+      const [, checklist] = parseMarkdown(
+        "Packing\n\n- [ ] Passport\n- [x] Tickets"
+      );
+      expect(checklist).toEqual({
+        type: "list",
+        ordered: false,
+        items: [
+          {
+            children: [{ type: "text", text: "Passport" }],
+            checked: false,
+            line: 2,
+          },
+          {
+            children: [{ type: "text", text: "Tickets" }],
+            checked: true,
+            line: 3,
+          },
+        ],
+      });
+    });
+  });
+
+  it("should toggle the checkbox on a line and leave other lines alone", () => {
+    const source = "- [ ] Passport\n> 1. [X] Tickets\n- Plain item";
+    expect(toggleCheckbox(source, 0)).toBe(
+      "- [x] Passport\n> 1. [X] Tickets\n- Plain item"
+    );
+    expect(toggleCheckbox(source, 1)).toBe(
+      "- [ ] Passport\n> 1. [ ] Tickets\n- Plain item"
+    );
+    expect(toggleCheckbox(source, 2)).toBe(source);
+    expect(toggleCheckbox(source, 9)).toBe(source);
+  });
+
+  it("should find task references outside code", () => {
+    expect(
+      getTaskReferences(
+        "See #4 and **[[Plan trip]]**\n- [ ] After #5\n\n```\n#6\n```"
+      )
+    ).toEqual([{ id: 4 }, { title: "Plan trip" }, { id: 5 }]);
+  });
+});
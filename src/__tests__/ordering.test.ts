@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import {
+  generateKeyBetween,
+  getPlacement,
+  sortByPosition,
+} from "@/lib/ordering";
+
+describe("Ordering", () => {
+  describe("generateKeyBetween", () => {
+    it("should start at the integer zero", () => {
+      expect(generateKeyBetween(null, null)).toBe("a0");
+    });
+
+    it("should append and prepend whole keys", () => {
+      expect(generateKeyBetween("a0", null)).toBe("a1");
+      expect(generateKeyBetween("az", null)).toBe("b00");
+      expect(generateKeyBetween(null, "a0")).toBe("Zz");
+      expect(generateKeyBetween("g0000009", null)).toBe("g000000A");
+    });
+
+    it("should find a key between two neighbours", () => {
+      expect(generateKeyBetween("a0", "a1")).toBe("a0V");
+      expect(generateKeyBetween("a0V", "a1")).toBe("a0l");
+      expect(generateKeyBetween("a0", "a0V")).toBe("a0G");
+    });
+
+    it("should keep keys ordered when inserting repeatedly", () => {
+      const keys = [generateKeyBetween(null, null)];
+      for (let i = 0; i < 50; i++) {
+        keys.push(generateKeyBetween(keys[keys.length - 1], null));
+        keys.unshift(generateKeyBetween(null, keys[0]));
+        const middle = Math.floor(keys.length / 2);
+        keys.splice(
+          middle,
+          0,
+          generateKeyBetween(keys[middle - 1], keys[middle])
+        );
+      }
+      expect([...keys].sort()).toEqual(keys);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it("should reject neighbours out of order", () => {
+      expect(() => generateKeyBetween("a1", "a0")).toThrow();
+      expect(() => generateKeyBetween("a1", "a1")).toThrow();
+    });
+  });
+
+  describe("getPlacement", () => {
+    it("should describe where an item sits", () => {
+      const items = sortByPosition([
+        { id: 3, position: "a2" },
+        { id: 1, position: "a0" },
+        { id: 2, position: "a1" },
+      ]);
+      expect(items.map((item) => item.id)).toEqual([1, 2, 3]);
+      expect(getPlacement(items, 2)).toEqual({ afterId: 1, beforeId: 3 });
+      expect(getPlacement(items, 1)).toEqual({ afterId: null, beforeId: 2 });
+      expect(getPlacement(items, 4)).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "bun:test";
+import { parseQuickAdd } from "@/lib/quick-add";
+
+// A Monday
+const options = {
+  today: "2026-10-19",
+  lists: [
+    { id: 1, name: "Inbox" },
+    { id: 2, name: "Home" },
+  ],
+  labels: [
+    { id: 5, name: "Finance" },
+    { id: 6, name: "Side Project" },
+  ],
+};
+
+describe("Quick add", () => {
+  it("should fill in the fields written in the text", () => {
+    const text =
+      "Pay rent every month on the 1st !high #finance @Home due tomorrow 5pm ~30m";
+    const { task, tokens } = parseQuickAdd(text, options);
+
+    expect(task).toEqual({
+      title: "Pay rent",
+      date: "2026-11-01",
+      priority: "high",
+      isRecurring: true,
+      recurrenceRule: "FREQ=MONTHLY;BYMONTHDAY=1",
+      labels: [5],
+      listId: 2,
+      deadline: "2026-10-20T17:00",
+      estimateHours: 0,
+      estimateMinutes: 30,
+    });
+    expect(tokens.map((token) => [token.type, token.text])).toEqual([
+      ["recurrence", "every month on the 1st"],
+      ["priority", "!high"],
+      ["label", "#finance"],
+      ["list", "@Home"],
+      ["deadline", "due tomorrow 5pm"],
+      ["estimate", "~30m"],
+    ]);
+    expect(text.slice(tokens[0].start, tokens[0].end)).toBe(tokens[0].text);
+  });
+
+  it("should parse recurrences", () => {
+    const rule = (text: string) =>
+      parseQuickAdd(text, options).task.recurrenceRule;
+
+    expect(rule("Water plants every day")).toBe("FREQ=DAILY");
+    expect(rule("Review every other week")).toBe("FREQ=WEEKLY;INTERVAL=2");
+    expect(rule("Backup every 3 months")).toBe("FREQ=MONTHLY;INTERVAL=3");
+    expect(rule("Taxes yearly")).toBe("FREQ=YEARLY");
+    expect(rule("Standup every weekday")).toBe(
+      "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+    );
+    expect(rule("Gym every mon, wed and Friday")).toBe(
+      "FREQ=WEEKLY;BYDAY=MO,WE,FR"
+    );
+    expect(rule("Invoice every month on the last day")).toBe(
+      "FREQ=MONTHLY;BYMONTHDAY=-1"
+    );
+    expect(rule("Nap every 0 days")).toBeUndefined();
+  });
+
+  it("should start recurring tasks on their first day", () => {
+    expect(parseQuickAdd("Gym every friday", options).task.date).toBe(
+      "2026-10-23"
+    );
+    expect(parseQuickAdd("Gym every monday", options).task.date).toBe(
+      "2026-10-19"
+    );
+    expect(parseQuickAdd("Walk every day", options).task.date).toBe(
+      "2026-10-19"
+    );
+  });
+
+  it("should parse deadlines", () => {
+    const deadline = (text: string) =>
+      parseQuickAdd(text, options).task.deadline;
+
+    expect(deadline("Call due today")).toBe("2026-10-19");
+    expect(deadline("Call due fri at 9:30am")).toBe("2026-10-23T09:30");
+    expect(deadline("Call due monday noon")).toBe("2026-10-19T12:00");
+    expect(deadline("Call due in 2 weeks")).toBe("2026-11-02");
+    expect(deadline("Call due 2026-12-24 17:45")).toBe("2026-12-24T17:45");
+    expect(deadline("Call due 12am")).toBe("2026-10-19T00:00");
+    expect(deadline("Call due 13pm")).toBeUndefined();
+    expect(deadline("Due diligence")).toBeUndefined();
+  });
+
+  it("should parse estimates", () => {
+    const estimate = (text: string) => {
+      const { task } = parseQuickAdd(text, options);
+      return [task.estimateHours, task.estimateMinutes];
+    };
+
+    expect(estimate("Read ~1h30m")).toEqual([1, 30]);
+    expect(estimate("Read ~90m")).toEqual([1, 30]);
+    expect(estimate("Read ~2h")).toEqual([2, 0]);
+    expect(estimate("Read ~24h")).toEqual([undefined, undefined]);
+    expect(estimate("Read ~")).toEqual([undefined, undefined]);
+  });
+
+  it("should leave unknown names and repeated fields in the title", () => {
+    const { task, tokens } = parseQuickAdd(
+      "Email #side-project #nope @Work !2 !low",
+      options
+    );
+
+    expect(task.title).toBe("Email #nope @Work !low");
+    expect(task.labels).toEqual([6]);
+    expect(task.listId).toBeUndefined();
+    expect(task.priority).toBe("medium");
+    expect(tokens).toHaveLength(2);
+  });
+
+  it("should not need a title to parse", () => {
+    const { task } = parseQuickAdd("!low", options);
+    expect(task.title).toBe("");
+    expect(task.priority).toBe("low");
+    expect(task.date).toBe("2026-10-19");
+  });
+});
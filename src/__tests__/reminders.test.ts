@@ -0,0 +1,40 @@
+import { describe, it, expect } from "bun:test";
+import { getReminderFireTime } from "@/lib/reminders";
+import { reminderSchema } from "@/types/task";
+
+describe("Reminders", () => {
+  describe("getReminderFireTime", () => {
+    it("should count back from the deadline", () => {
+      expect(
+        getReminderFireTime(
+          { time: 2, unit: "hours" },
+          { date: "2024-01-15", deadline: "2024-01-15T17:00:00Z" }
+        )
+      ).toBe("2024-01-15T15:00:00.000Z");
+    });
+
+    it("should fall back to the start of the task date", () => {
+      expect(
+        getReminderFireTime({ time: 1, unit: "days" }, { date: "2024-01-15" })
+      ).toBe(new Date(2024, 0, 14).toISOString());
+    });
+
+    it("should use an absolute time as is", () => {
+      expect(
+        getReminderFireTime(
+          { at: "2024-01-10T08:30:00Z" },
+          { date: "2024-01-15", deadline: "2024-01-15T17:00:00Z" }
+        )
+      ).toBe("2024-01-10T08:30:00.000Z");
+    });
+  });
+
+  describe("reminderSchema", () => {
+    it("should require an offset or an absolute time", () => {
+      expect(reminderSchema.safeParse({ time: 5 }).success).toBe(false);
+      expect(
+        reminderSchema.safeParse({ at: "2024-01-10T08:30:00Z" }).success
+      ).toBe(true);
+    });
+  });
+});
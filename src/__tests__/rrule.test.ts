@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test";
+import {
+  describeRRule,
+  formatRRule,
+  getNextOccurrence,
+  getOccurrences,
+  getPreviousDate,
+  parseRRule,
+  rebaseRRule,
+  recurrenceTypeToRRule,
+} from "@/lib/rrule";
+
+describe("RRule", () => {
+  describe("parseRRule", () => {
+    it("should parse BYDAY ordinals and BYSETPOS", () => {
+      const rule = parseRRule("RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR;BYSETPOS=1");
+      expect(rule.freq).toBe("MONTHLY");
+      expect(rule.interval).toBe(1);
+      expect(rule.byDay).toEqual([
+        { weekday: "TU", ordinal: 2 },
+        { weekday: "FR", ordinal: -1 },
+      ]);
+      expect(rule.bySetPos).toEqual([1]);
+    });
+
+    it("should reject COUNT together with UNTIL", () => {
+      expect(() => parseRRule("FREQ=DAILY;COUNT=3;UNTIL=20240110")).toThrow();
+    });
+
+    it("should reject rules without FREQ", () => {
+      expect(() => parseRRule("INTERVAL=2")).toThrow();
+    });
+
+    it("should round-trip through formatRRule", () => {
+      const text = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;UNTIL=20240331";
+      expect(formatRRule(parseRRule(text))).toBe(text);
+    });
+  });
+
+  describe("getOccurrences", () => {
+    it("should expand Mon/Wed/Fri", () => {
+      // 2024-01-01 is a Monday
+      const dates = getOccurrences("FREQ=WEEKLY;BYDAY=MO,WE,FR", "2024-01-01", {
+        limit: 5,
+      });
+      expect(dates).toEqual([
+        "2024-01-01",
+        "2024-01-03",
+        "2024-01-05",
+        "2024-01-08",
+        "2024-01-10",
+      ]);
+    });
+
+    it("should expand every 2nd Tuesday of the month", () => {
+      const dates = getOccurrences("FREQ=MONTHLY;BYDAY=2TU", "2024-01-09", {
+        limit: 3,
+      });
+      expect(dates).toEqual(["2024-01-09", "2024-02-13", "2024-03-12"]);
+    });
+
+    it("should expand the last business day of the month", () => {
+      const dates = getOccurrences(
+        "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+        "2024-01-31",
+        { limit: 4 }
+      );
+      expect(dates).toEqual([
+        "2024-01-31",
+        "2024-02-29",
+        "2024-03-29",
+        "2024-04-30",
+      ]);
+    });
+
+    it("should skip months without the start day", () => {
+      const dates = getOccurrences("FREQ=MONTHLY", "2024-01-31", { limit: 3 });
+      expect(dates).toEqual(["2024-01-31", "2024-03-31", "2024-05-31"]);
+    });
+
+    it("should honour COUNT including exception dates", () => {
+      const dates = getOccurrences("FREQ=DAILY;COUNT=4", "2024-01-01", {
+        exceptions: ["2024-01-02"],
+      });
+      expect(dates).toEqual(["2024-01-01", "2024-01-03", "2024-01-04"]);
+    });
+
+    it("should stop at UNTIL", () => {
+      const dates = getOccurrences("FREQ=WEEKLY;UNTIL=20240115", "2024-01-01");
+      expect(dates).toEqual(["2024-01-01", "2024-01-08", "2024-01-15"]);
+    });
+  });
+
+  describe("getNextOccurrence", () => {
+    it("should return the next date after a given day", () => {
+      expect(
+        getNextOccurrence("FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1", "2023-02-28", "2023-02-28")
+      ).toBe("2024-02-29");
+    });
+
+    it("should return null when the series has ended", () => {
+      expect(
+        getNextOccurrence("FREQ=DAILY;COUNT=2", "2024-01-01", "2024-01-02")
+      ).toBeNull();
+    });
+  });
+
+  describe("rebaseRRule", () => {
+    it("should reduce COUNT by the occurrences already passed", () => {
+      const rule = rebaseRRule("FREQ=DAILY;COUNT=5", "2024-01-01", "2024-01-03");
+      expect(rule.count).toBe(3);
+    });
+  });
+
+  describe("getPreviousDate", () => {
+    it("should step back across month and year boundaries", () => {
+      expect(getPreviousDate("2024-03-01")).toBe("2024-02-29");
+      expect(getPreviousDate("2024-01-01")).toBe("2023-12-31");
+    });
+  });
+
+  describe("recurrenceTypeToRRule", () => {
+    it("should map legacy recurrence types", () => {
+      expect(recurrenceTypeToRRule("weekly", 2)).toBe("FREQ=WEEKLY;INTERVAL=2");
+      expect(recurrenceTypeToRRule("weekday", 1)).toBe(
+        "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+      );
+      expect(recurrenceTypeToRRule(undefined)).toBeNull();
+    });
+  });
+
+  describe("describeRRule", () => {
+    it("should describe interval and weekdays", () => {
+      expect(describeRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH")).toBe(
+        "Every 2 weeks on Tue, Thu"
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "bun:test";
+import { splitHighlights, toFtsQuery } from "@/lib/search";
+import {
+  getSearchCompletions,
+  getTextTerms,
+  parseSearchQuery,
+} from "@/lib/search-query";
+
+// A Wednesday
+const TODAY = "2024-01-17";
+
+describe("Search", () => {
+  describe("toFtsQuery", () => {
+    it("should turn words into prefix queries", () => {
+      expect(toFtsQuery("proj", false)).toBe('"proj"*');
+    });
+
+    it("should keep phrases and escape quotes", () => {
+      expect(toFtsQuery('project "plan"', true)).toBe('"project ""plan"""');
+    });
+  });
+
+  describe("parseSearchQuery", () => {
+    it("should parse filters, labels, negation and text", () => {
+      expect(
+        parseSearchQuery(
+          "priority:high list:Work due:<friday #urgent -done report",
+          TODAY
+        )
+      ).toEqual({
+        type: "and",
+        children: [
+          { type: "priority", priority: "high" },
+          { type: "list", name: "Work" },
+          { type: "date", field: "due", to: "2024-01-18" },
+          { type: "label", name: "urgent" },
+          { type: "not", child: { type: "status", completed: true } },
+          { type: "text", text: "report", phrase: false },
+        ],
+      });
+    });
+
+    it("should bind OR looser than AND and honour parentheses", () => {
+      expect(
+        parseSearchQuery('(has:attachments OR has:subtasks) "q1 plan"', TODAY)
+      ).toEqual({
+        type: "and",
+        children: [
+          {
+            type: "or",
+            children: [
+              { type: "has", value: "attachments" },
+              { type: "has", value: "subtasks" },
+            ],
+          },
+          { type: "text", text: "q1 plan", phrase: true },
+        ],
+      });
+    });
+
+    it("should resolve relative dates and ranges", () => {
+      expect(parseSearchQuery("date:today..+1w", TODAY)).toEqual({
+        type: "date",
+        field: "date",
+        from: "2024-01-17",
+        to: "2024-01-24",
+      });
+      expect(parseSearchQuery("due:>=mon", TODAY)).toEqual({
+        type: "date",
+        field: "due",
+        from: "2024-01-22",
+      });
+    });
+
+    it("should accept quoted filter values", () => {
+      expect(parseSearchQuery('list:"Side projects"', TODAY)).toEqual({
+        type: "list",
+        name: "Side projects",
+      });
+    });
+
+    it("should reject invalid queries", () => {
+      expect(() => parseSearchQuery("priority:urgent", TODAY)).toThrow();
+      expect(() => parseSearchQuery("due:someday", TODAY)).toThrow();
+      expect(() => parseSearchQuery("(a OR b", TODAY)).toThrow();
+      expect(() => parseSearchQuery("a OR", TODAY)).toThrow();
+    });
+  });
+
+  describe("getTextTerms", () => {
+    it("should skip negated text", () => {
+      const node = parseSearchQuery("plan -draft OR budget", TODAY);
+      expect(getTextTerms(node).map((term) => term.text)).toEqual([
+        "plan",
+        "budget",
+      ]);
+    });
+  });
+
+  describe("getSearchCompletions", () => {
+    const names = { lists: ["Work", "Side projects"], labels: ["Urgent"] };
+
+    it("should complete filter keys and values", () => {
+      expect(getSearchCompletions("report pri", names)).toEqual([
+        { value: "report priority:", label: "priority:" },
+      ]);
+      expect(getSearchCompletions("list:s", names)).toEqual([
+        { value: 'list:"Side projects" ', label: "list:Side projects" },
+      ]);
+      expect(getSearchCompletions("-#ur", names)).toEqual([
+        { value: "-#Urgent ", label: "#Urgent" },
+      ]);
+    });
+  });
+
+  describe("splitHighlights", () => {
+    it("should split highlighted text into parts", () => {
+      expect(splitHighlights("Write <mark>project</mark> plan")).toEqual([
+        { text: "Write ", highlighted: false },
+        { text: "project", highlighted: true },
+        { text: " plan", highlighted: false },
+      ]);
+    });
+  });
+});
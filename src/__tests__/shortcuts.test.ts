@@ -0,0 +1,103 @@
+import { describe, it, expect } from "bun:test";
+import {
+  findConflicts,
+  findShortcut,
+  formatKey,
+  getActiveScopes,
+  getConflict,
+  getEventKey,
+  normalizeKey,
+  Shortcut,
+  SHORTCUTS,
+} from "@/lib/shortcuts";
+
+const event = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+const shortcuts: Shortcut[] = [
+  { id: "help", title: "Help", scope: "global", key: "?" },
+  { id: "list.next", title: "Next", scope: "list", key: "j" },
+  { id: "form.submit", title: "Save", scope: "form", key: "mod+enter" },
+  { id: "form.cancel", title: "Cancel", scope: "form", key: "escape" },
+  { id: "modal.close", title: "Close", scope: "modal", key: "escape" },
+];
+
+describe("Shortcuts", () => {
+  it("should write keys in one form", () => {
+    expect(normalizeKey("Shift+Ctrl+K")).toBe("mod+shift+k");
+    expect(normalizeKey("Cmd+Enter")).toBe("mod+enter");
+    expect(normalizeKey("shift++")).toBe("shift++");
+    expect(formatKey("mod+enter")).toBe("Ctrl+Enter");
+    expect(formatKey("shift+j")).toBe("Shift+J");
+  });
+
+  it("should read the key pressed", () => {
+    expect(getEventKey(event("j"))).toBe("j");
+    expect(getEventKey(event("J", { shiftKey: true }))).toBe("shift+j");
+    expect(getEventKey(event("#", { shiftKey: true }))).toBe("#");
+    expect(getEventKey(event("k", { metaKey: true }))).toBe("mod+k");
+    expect(getEventKey(event("Escape"))).toBe("escape");
+    expect(getEventKey(event("Shift", { shiftKey: true }))).toBeUndefined();
+  });
+
+  it("should only use the topmost scope with the global one", () => {
+    const all = { modal: false, form: false, list: true };
+
+    expect(getActiveScopes(all)).toEqual(["list", "global"]);
+    expect(getActiveScopes({ ...all, form: true })).toEqual(["form", "global"]);
+    expect(getActiveScopes({ ...all, modal: true, form: true })).toEqual([
+      "modal",
+      "form",
+      "global",
+    ]);
+  });
+
+  it("should find the shortcut of the most specific scope", () => {
+    const scopes = getActiveScopes({ modal: true, form: true, list: true });
+
+    expect(findShortcut(shortcuts, {}, "escape", scopes)?.id).toBe(
+      "modal.close"
+    );
+    expect(findShortcut(shortcuts, {}, "j", scopes)).toBeUndefined();
+    expect(findShortcut(shortcuts, {}, "j", ["list", "global"])?.id).toBe(
+      "list.next"
+    );
+  });
+
+  it("should use the keys the user chose", () => {
+    const keyMap = { "list.next": "n" };
+
+    expect(findShortcut(shortcuts, keyMap, "j", ["list"])).toBeUndefined();
+    expect(findShortcut(shortcuts, keyMap, "n", ["list"])?.id).toBe(
+      "list.next"
+    );
+  });
+
+  it("should only take modified keys and Escape while typing", () => {
+    expect(findShortcut(shortcuts, {}, "?", ["global"], true)).toBeUndefined();
+    expect(findShortcut(shortcuts, {}, "mod+enter", ["form"], true)?.id).toBe(
+      "form.submit"
+    );
+    expect(findShortcut(shortcuts, {}, "escape", ["form"], true)?.id).toBe(
+      "form.cancel"
+    );
+  });
+
+  it("should detect keys bound twice in scopes active together", () => {
+    expect(findConflicts(SHORTCUTS, {})).toEqual([]);
+    // Form and dialog shortcuts take turns on Escape
+    expect(findConflicts(shortcuts, {})).toEqual([]);
+
+    expect(getConflict(shortcuts, {}, "list.next", "?")?.id).toBe("help");
+    expect(getConflict(shortcuts, {}, "form.submit", "escape")?.id).toBe(
+      "form.cancel"
+    );
+    expect(getConflict(shortcuts, {}, "list.next", "escape")).toBeUndefined();
+  });
+});
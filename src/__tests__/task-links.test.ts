@@ -0,0 +1,29 @@
+import { describe, it, expect } from "bun:test";
+import { findBacklinks, resolveTaskReference } from "@/lib/task-links";
+
+const tasks = [
+  { id: 1, title: "Plan trip", description: "Needs #2 and [[book FLIGHTS]]" },
+  { id: 2, title: "Renew passport", description: "" },
+  { id: 3, title: "Book flights", isCompleted: true },
+  { id: 4, title: "Book flights", description: "Before [[Plan trip]]" },
+  { id: 5, title: "Pack", description: "`#2` is code" },
+];
+
+describe("Task links", () => {
+  it("should resolve references by ID or title, preferring open tasks", () => {
+    expect(resolveTaskReference({ id: 2 }, tasks)?.title).toBe(
+      "Renew passport"
+    );
+    expect(resolveTaskReference({ title: " book flights " }, tasks)?.id).toBe(
+      4
+    );
+    expect(resolveTaskReference({ id: 99 }, tasks)).toBeUndefined();
+  });
+
+  it("should find the tasks linking to a task", () => {
+    expect(findBacklinks(tasks[1], tasks).map((task) => task.id)).toEqual([1]);
+    expect(findBacklinks(tasks[3], tasks).map((task) => task.id)).toEqual([1]);
+    expect(findBacklinks(tasks[0], tasks).map((task) => task.id)).toEqual([4]);
+    expect(findBacklinks(tasks[2], tasks)).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "bun:test";
+import { insertList, sqlite } from "./helpers/db";
+
+const { PUT } = await import("@/app/api/tasks/[id]/route");
+const { TaskService } = await import("@/services/task-service");
+const { CustomFieldService } = await import("@/services/custom-field-service");
+
+const taskService = new TaskService();
+const customFieldService = new CustomFieldService();
+
+const put = (id: number, body: unknown, scope?: string) =>
+  PUT(
+    new Request(
+      `http://localhost/api/tasks/${id}${scope ? `?scope=${scope}` : ""}`,
+      { method: "PUT", body: JSON.stringify(body) }
+    ),
+    { params: Promise.resolve({ id: String(id) }) }
+  );
+
+describe("TaskService", () => {
+  describe("updateTask", () => {
+    it("should clear the optional fields sent as null", async () => {
+      const listId = insertList("Cleared fields");
+      const task = await taskService.createTask({
+        title: "Book flights",
+        date: "2024-01-15",
+        listId,
+        priority: "none",
+        estimateHours: 1,
+        isRecurring: true,
+        recurrenceRule: "FREQ=WEEKLY",
+        recurrenceExceptions: ["2024-01-22"],
+        reminders: [{ time: 15, unit: "minutes" }],
+      });
+
+      const response = await put(task.id!, {
+        estimateHours: null,
+        isRecurring: false,
+        recurrenceRule: null,
+        recurrenceExceptions: null,
+        reminders: null,
+      });
+      const updated = await taskService.getTaskById(task.id!);
+
+      expect(response.status).toBe(200);
+      expect(updated?.estimateHours).toBeNull();
+      expect(updated?.recurrenceRule).toBeNull();
+      expect(updated?.recurrenceExceptions).toEqual([]);
+      expect(updated?.reminders).toEqual([]);
+    });
+  });
+
+  describe("uncompleteTask", () => {
+    const recurringTask = async (title: string) =>
+      taskService.createTask({
+        title,
+        date: "2024-01-15",
+        listId: insertList(title),
+        priority: "none",
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY",
+        reminders: [{ time: 15, unit: "minutes" }],
+      });
+    const openTasks = async (listId: number) =>
+      (await taskService.getTasks({ listId })).tasks.filter(
+        (task) => !task.isCompleted
+      );
+
+    it("should remove the instance created on completion", async () => {
+      const task = await recurringTask("Take vitamins");
+      await taskService.completeTask(task.id!);
+
+      await taskService.uncompleteTask(task.id!);
+
+      expect((await openTasks(task.listId)).map((t) => t.id)).toEqual([
+        task.id,
+      ]);
+      await taskService.completeTask(task.id!);
+      expect(await openTasks(task.listId)).toHaveLength(1);
+    });
+
+    it("should keep the next instance once it is edited", async () => {
+      const task = await recurringTask("Stretch");
+      await taskService.completeTask(task.id!);
+      const [next] = await openTasks(task.listId);
+      await taskService.updateTask(next.id!, { description: "Ten minutes" });
+
+      await taskService.uncompleteTask(task.id!);
+
+      expect(await openTasks(task.listId)).toHaveLength(2);
+    });
+  });
+
+  describe("updateTaskInSeries", () => {
+    it("should reject an invalid custom value with 400", async () => {
+      const listId = insertList("Series fields");
+      const field = await customFieldService.createField(listId, {
+        name: "Points",
+        type: "number",
+      });
+      const task = await taskService.createTask({
+        title: "Stand-up",
+        date: "2024-01-15",
+        listId,
+        priority: "none",
+        isRecurring: true,
+        recurrenceRule: "FREQ=DAILY",
+      });
+      const body = {
+        title: "Daily stand-up",
+        customValues: { [field!.id]: "many" },
+      };
+
+      const single = await put(task.id!, body);
+      const scoped = await put(task.id!, body, "all");
+
+      expect(single.status).toBe(400);
+      expect(scoped.status).toBe(400);
+      const series = sqlite
+        .query("SELECT title FROM recurring_series WHERE list_id = ?")
+        .get(listId) as { title: string };
+      expect(series.title).toBe("Stand-up");
+    });
+  });
+});
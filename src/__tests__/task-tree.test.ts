@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  rollUpCompletion,
+} from "@/lib/task-tree";
+
+const task = (
+  id: number,
+  parentTaskId: number | null,
+  isCompleted = false,
+  checklist: boolean[] = []
+) => ({
+  id,
+  parentTaskId,
+  isCompleted,
+  subTasks: checklist.map((done) => ({ isCompleted: done })),
+});
+
+describe("Task tree", () => {
+  describe("buildTaskTree", () => {
+    it("should nest subtasks under their parent at any depth", () => {
+      const tree = buildTaskTree([
+        task(1, null),
+        task(2, 1),
+        task(3, 2),
+        task(4, null),
+      ]);
+      const flat = flattenTaskTree(tree);
+      expect(flat.map((node) => [node.task.id, node.depth])).toEqual([
+        [1, 0],
+        [2, 1],
+        [3, 2],
+        [4, 0],
+      ]);
+    });
+
+    it("should keep the order of the given tasks", () => {
+      const tree = buildTaskTree([task(3, 1), task(1, null), task(2, 1)]);
+      expect(flattenTaskTree(tree).map((node) => node.task.id)).toEqual([
+        1, 3, 2,
+      ]);
+    });
+
+    it("should make tasks whose parent is missing roots", () => {
+      const tree = buildTaskTree([task(2, 1), task(3, 2)]);
+      expect(tree.map((node) => node.task.id)).toEqual([2]);
+      expect(tree[0].children.map((node) => node.task.id)).toEqual([3]);
+    });
+
+    it("should still place tasks caught in a parent cycle", () => {
+      const tree = buildTaskTree([task(1, 2), task(2, 1)]);
+      expect(flattenTaskTree(tree).map((node) => node.task.id)).toEqual([
+        1, 2,
+      ]);
+    });
+  });
+
+  describe("rollUpCompletion", () => {
+    it("should count a completed task as done", () => {
+      const [root] = buildTaskTree([task(1, null, true), task(2, 1)]);
+      expect(rollUpCompletion(root)).toBe(100);
+    });
+
+    it("should average checklist items and subtasks", () => {
+      const [root] = buildTaskTree([
+        task(1, null, false, [true, false]),
+        task(2, 1, true),
+        task(3, 1, false, [true, true, false, false]),
+      ]);
+      // (1 + 0 + 1 + 0.5) / 4
+      expect(rollUpCompletion(root)).toBe(63);
+    });
+
+    it("should be zero for a task with nothing to roll up", () => {
+      const [root] = buildTaskTree([task(1, null)]);
+      expect(rollUpCompletion(root)).toBe(0);
+    });
+  });
+});
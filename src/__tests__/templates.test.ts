@@ -0,0 +1,101 @@
+import { describe, it, expect } from "bun:test";
+import {
+  fillTemplateText,
+  fromTemplateTask,
+  getTemplateVariables,
+  toTemplateTasks,
+} from "@/lib/templates";
+import type { TaskWithRelations } from "@/types/task";
+
+describe("Templates", () => {
+  describe("fillTemplateText", () => {
+    it("should fill the date and weekday, moved by a number of days", () => {
+      expect(fillTemplateText("Release {{date}}", "2024-03-01")).toBe(
+        "Release 2024-03-01"
+      );
+      expect(
+        fillTemplateText("Due {{ weekday + 3 }}, {{date-1}}", "2024-03-01")
+      ).toBe("Due Monday, 2024-02-29");
+    });
+
+    it("should fill given variables and leave unknown ones", () => {
+      expect(
+        fillTemplateText("Onboard {{name}} on {{team}}", "2024-03-01", {
+          name: "Ada",
+        })
+      ).toBe("Onboard Ada on {{team}}");
+    });
+  });
+
+  it("should list the variables to fill in without the built-in ones", () => {
+    expect(
+      getTemplateVariables(
+        [
+          {
+            title: "Welcome {{name}} ({{date}})",
+            priority: "none",
+            dateOffset: 0,
+            checklist: ["Laptop for {{name}}"],
+            subtasks: [
+              { title: "Intro to {{team}}", priority: "none", dateOffset: 1 },
+            ],
+          },
+        ],
+        {
+          name: "{{name}} onboarding",
+          color: "#000000",
+          emoji: "👋",
+          sections: [],
+        }
+      )
+    ).toEqual(["name", "team"]);
+  });
+
+  it("should save dates as offsets and create them again on another day", () => {
+    const task = (
+      id: number,
+      parentTaskId: number | null,
+      fields: Partial<TaskWithRelations>
+    ): TaskWithRelations => ({
+      id,
+      parentTaskId,
+      title: `Task ${id}`,
+      date: "2024-01-10",
+      priority: "none",
+      listId: 1,
+      isCompleted: false,
+      isRecurring: false,
+      ...fields,
+    });
+
+    const [template] = toTemplateTasks([
+      task(1, null, {
+        deadline: "2024-01-12T09:30",
+        reminders: [
+          { time: 1, unit: "hours" },
+          { at: "2024-01-10T08:00:00.000Z" },
+        ],
+      }),
+      task(2, 1, { date: "2024-01-11", title: "Check {{date}}" }),
+    ]);
+    expect(template).toMatchObject({
+      dateOffset: 0,
+      deadlineOffset: 2,
+      deadlineTime: "09:30",
+      reminders: [{ time: 1, unit: "hours" }, { atMinutes: 480 }],
+      subtasks: [{ title: "Check {{date}}", dateOffset: 1 }],
+    });
+
+    expect(fromTemplateTask(template, "2024-03-01")).toMatchObject({
+      date: "2024-03-01",
+      deadline: "2024-03-03T09:30",
+      reminders: [
+        { time: 1, unit: "hours" },
+        { at: "2024-03-01T08:00:00.000Z" },
+      ],
+    });
+    expect(fromTemplateTask(template.subtasks![0], "2024-03-01")).toMatchObject(
+      { title: "Check 2024-03-01", date: "2024-03-02" }
+    );
+  });
+});
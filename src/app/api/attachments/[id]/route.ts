@@ -3,6 +3,16 @@ import { FileService } from "@/services/file-service";
 
 const fileService = new FileService();
 
+// Types a browser shows without running scripts; anything else, HTML and
+// SVG included, is only offered as a download
+const INLINE_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -27,7 +37,38 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(attachment);
+    const { searchParams } = new URL(request.url);
+    if (!searchParams.has("download")) {
+      return NextResponse.json(attachment);
+    }
+
+    const contents = await fileService.readFileContents(attachment);
+
+    if (!contents) {
+      return NextResponse.json(
+        { error: "Attachment contents not found" },
+        { status: 404 }
+      );
+    }
+
+    const disposition = INLINE_MIME_TYPES.includes(
+      attachment.mimeType.toLowerCase()
+    )
+      ? "inline"
+      : "attachment";
+
+    return new NextResponse(new Uint8Array(contents), {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Length": contents.length.toString(),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(
+          attachment.fileName
+        )}`,
+        // The stored type comes from the uploader; browsers must not guess
+        "X-Content-Type-Options": "nosniff",
+        ...(attachment.contentHash && { ETag: `"${attachment.contentHash}"` }),
+      },
+    });
   } catch (error) {
     console.error("Error fetching attachment:", error);
     return NextResponse.json(
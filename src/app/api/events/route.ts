@@ -0,0 +1,62 @@
+import { subscribeToEvents } from "@/lib/events";
+import { SyncEvent } from "@/types/api";
+
+export const dynamic = "force-dynamic";
+
+const KEEP_ALIVE_INTERVAL_MS = 25 * 1000;
+
+// Server-sent event stream of task, list and label changes
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between the event and the write
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToEvents((event: SyncEvent) => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+
+      // Comments keep proxies from closing an idle connection
+      const keepAlive = setInterval(
+        () => send(": keep-alive\n\n"),
+        KEEP_ALIVE_INTERVAL_MS
+      );
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
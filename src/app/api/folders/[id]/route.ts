@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ListService } from "@/services/list-service";
+import { updateListFolderSchema } from "@/types/task";
+
+const listService = new ListService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid folder ID" }, { status: 400 });
+    }
+
+    const folder = await listService.getFolderById(id);
+
+    if (!folder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(folder);
+  } catch (error) {
+    console.error("Error fetching folder:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename, archive or unarchive a folder
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid folder ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateListFolderSchema.parse(body);
+
+    const updatedFolder = await listService.updateFolder(id, validatedData);
+
+    if (!updatedFolder) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedFolder);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating folder:", error);
+    return NextResponse.json(
+      { error: "Failed to update folder" },
+      { status: 500 }
+    );
+  }
+}
+
+// The folder's lists are kept outside any folder
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid folder ID" }, { status: 400 });
+    }
+
+    const deleted = await listService.deleteFolder(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Folder deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting folder:", error);
+    return NextResponse.json(
+      { error: "Failed to delete folder" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ListService } from "@/services/list-service";
+import { listFolderSchema } from "@/types/task";
+
+const listService = new ListService();
+
+export async function GET() {
+  try {
+    const folders = await listService.getFolders();
+    return NextResponse.json(folders);
+  } catch (error) {
+    console.error("Error fetching folders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch folders" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = listFolderSchema.parse(body);
+
+    const newFolder = await listService.createFolder(validatedData);
+
+    return NextResponse.json(newFolder, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating folder:", error);
+    return NextResponse.json(
+      { error: "Failed to create folder" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ListNameTakenError, ListService } from "@/services/list-service";
+import { duplicateListSchema } from "@/types/task";
+
+const listService = new ListService();
+
+// Copy the list with its sections and tasks, optionally from a new start date
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const options = duplicateListSchema.parse(body);
+
+    const newList = await listService.duplicateList(id, options);
+
+    if (!newList) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(newList, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ListNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error duplicating list:", error);
+    return NextResponse.json(
+      { error: "Failed to duplicate list" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { CustomFieldService } from "@/services/custom-field-service";
+import { updateCustomFieldSchema } from "@/types/task";
+
+const customFieldService = new CustomFieldService();
+
+// Renames the field, or changes the options of a select field
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.fieldId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or field ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateCustomFieldSchema.parse(body);
+
+    const updatedField = await customFieldService.updateField(
+      listId,
+      id,
+      validatedData
+    );
+
+    if (!updatedField) {
+      return NextResponse.json({ error: "Field not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedField);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating custom field:", error);
+    return NextResponse.json(
+      { error: "Failed to update custom field" },
+      { status: 500 }
+    );
+  }
+}
+
+// The values tasks hold for the field are deleted with it
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.fieldId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or field ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await customFieldService.deleteField(listId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Field not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Field deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting custom field:", error);
+    return NextResponse.json(
+      { error: "Failed to delete custom field" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { CustomFieldService } from "@/services/custom-field-service";
+import { customFieldSchema } from "@/types/task";
+
+const customFieldService = new CustomFieldService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+
+    if (isNaN(listId)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const fields = await customFieldService.getFields(listId);
+    return NextResponse.json(fields);
+  } catch (error) {
+    console.error("Error fetching custom fields:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch custom fields" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+
+    if (isNaN(listId)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = customFieldSchema.parse(body);
+
+    const newField = await customFieldService.createField(
+      listId,
+      validatedData
+    );
+
+    if (!newField) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(newField, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating custom field:", error);
+    return NextResponse.json(
+      { error: "Failed to create custom field" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ListService } from "@/services/list-service";
+import { moveListToFolderSchema } from "@/types/task";
+
+const listService = new ListService();
+
+// Put the list in a folder, or take it out of its folder with null
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { folderId } = moveListToFolderSchema.parse(body);
+
+    const movedList = await listService.moveListToFolder(id, folderId);
+
+    if (!movedList) {
+      return NextResponse.json(
+        { error: "List or folder not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedList);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error moving list to folder:", error);
+    return NextResponse.json(
+      { error: "Failed to move list to folder" },
+      { status: 500 }
+    );
+  }
+}
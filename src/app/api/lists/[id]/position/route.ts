@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { PositionConflictError } from "@/lib/db-utils";
+import { ListService } from "@/services/list-service";
+import { reorderSchema } from "@/types/task";
+import { z } from "zod";
+
+const listService = new ListService();
+
+// Drag and drop: place the list between the given neighbours
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const placement = reorderSchema.parse(body);
+
+    const movedList = await listService.moveList(id, placement);
+
+    if (!movedList) {
+      return NextResponse.json(
+        { error: "List or its neighbours not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedList);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PositionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error moving list:", error);
+    return NextResponse.json({ error: "Failed to move list" }, { status: 500 });
+  }
+}
@@ -44,13 +44,15 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, color, emoji, isMagic } = body;
+    const { name, color, emoji, isMagic, archived } = body;
 
+    // Archiving the Inbox is refused like a missing list
     const updatedList = await listService.updateList(id, {
       name,
       color,
       emoji,
       isMagic,
+      archived,
     });
 
     if (!updatedList) {
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { SectionService } from "@/services/section-service";
+import { moveSectionSchema } from "@/types/task";
+
+const sectionService = new SectionService();
+
+// Move the section and its tasks to the end of another list
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.sectionId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or section ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { listId: targetListId } = moveSectionSchema.parse(body);
+
+    const movedSection = await sectionService.moveSectionToList(
+      listId,
+      id,
+      targetListId
+    );
+
+    if (!movedSection) {
+      return NextResponse.json(
+        { error: "Section or target list not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedSection);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error moving section:", error);
+    return NextResponse.json(
+      { error: "Failed to move section" },
+      { status: 500 }
+    );
+  }
+}
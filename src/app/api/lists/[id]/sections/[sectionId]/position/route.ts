@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { PositionConflictError } from "@/lib/db-utils";
+import { SectionService } from "@/services/section-service";
+import { reorderSchema } from "@/types/task";
+import { z } from "zod";
+
+const sectionService = new SectionService();
+
+// Drag and drop: place the section between the given neighbours
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.sectionId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or section ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const placement = reorderSchema.parse(body);
+
+    const movedSection = await sectionService.moveSection(
+      listId,
+      id,
+      placement
+    );
+
+    if (!movedSection) {
+      return NextResponse.json(
+        { error: "Section or its neighbours not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedSection);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PositionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error moving section:", error);
+    return NextResponse.json(
+      { error: "Failed to move section" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { SectionService } from "@/services/section-service";
+import { listSectionSchema } from "@/types/task";
+
+const sectionService = new SectionService();
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.sectionId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or section ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = listSectionSchema.partial().parse(body);
+
+    const updatedSection = await sectionService.updateSection(
+      listId,
+      id,
+      validatedData
+    );
+
+    if (!updatedSection) {
+      return NextResponse.json({ error: "Section not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedSection);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating section:", error);
+    return NextResponse.json(
+      { error: "Failed to update section" },
+      { status: 500 }
+    );
+  }
+}
+
+// Its tasks stay in the list without a section
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; sectionId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.sectionId);
+
+    if (isNaN(listId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid list or section ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await sectionService.deleteSection(listId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Section not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Section deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting section:", error);
+    return NextResponse.json(
+      { error: "Failed to delete section" },
+      { status: 500 }
+    );
+  }
+}
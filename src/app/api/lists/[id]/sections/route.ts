@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { SectionService } from "@/services/section-service";
+import { listSectionSchema } from "@/types/task";
+
+const sectionService = new SectionService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+
+    if (isNaN(listId)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const sections = await sectionService.getSections(listId);
+    return NextResponse.json(sections);
+  } catch (error) {
+    console.error("Error fetching sections:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sections" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const listId = parseInt(resolvedParams.id);
+
+    if (isNaN(listId)) {
+      return NextResponse.json({ error: "Invalid list ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = listSectionSchema.parse(body);
+
+    const newSection = await sectionService.createSection(
+      listId,
+      validatedData
+    );
+
+    if (!newSection) {
+      return NextResponse.json({ error: "List not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(newSection, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating section:", error);
+    return NextResponse.json(
+      { error: "Failed to create section" },
+      { status: 500 }
+    );
+  }
+}
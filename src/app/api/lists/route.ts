@@ -3,8 +3,16 @@ import { ListService } from "@/services/list-service";
 
 const listService = new ListService();
 
-export async function GET() {
+// ?groupBy=folder returns the lists grouped by folder as in the sidebar
+export async function GET(request: Request) {
   try {
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get("groupBy") === "folder") {
+      const listTree = await listService.getListTree();
+      return NextResponse.json(listTree);
+    }
+
     const lists = await listService.getLists();
     return NextResponse.json(lists);
   } catch (error) {
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { PreferenceService } from "@/services/preference-service";
+import { preferencesSchema } from "@/types/task";
+
+const preferenceService = new PreferenceService();
+
+export async function GET() {
+  try {
+    const preferences = await preferenceService.getPreferences();
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error("Error fetching preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = preferencesSchema.parse(body);
+
+    const preferences =
+      await preferenceService.updatePreferences(validatedData);
+
+    return NextResponse.json(preferences);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
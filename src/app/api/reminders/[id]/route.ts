@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { ReminderService } from "@/services/reminder-service";
+import { reminderActionSchema } from "@/types/task";
+import { z } from "zod";
+
+const reminderService = new ReminderService();
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid reminder ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const action = reminderActionSchema.parse(body);
+
+    const updatedReminder = await reminderService.updateReminder(id, action);
+
+    if (!updatedReminder) {
+      return NextResponse.json(
+        { error: "Reminder not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(updatedReminder);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating reminder:", error);
+    return NextResponse.json(
+      { error: "Failed to update reminder" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { ReminderService } from "@/services/reminder-service";
+
+const reminderService = new ReminderService();
+
+// Polled by every open tab; returns the reminders that are currently due
+export async function GET() {
+  try {
+    const reminders = await reminderService.getDueReminders();
+    return NextResponse.json(reminders);
+  } catch (error) {
+    console.error("Error fetching reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reminders" },
+      { status: 500 }
+    );
+  }
+}
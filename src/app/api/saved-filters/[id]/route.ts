@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  SavedFilterNameTakenError,
+  SavedFilterService,
+} from "@/services/saved-filter-service";
+import { SearchQueryError } from "@/lib/search-query";
+import { savedFilterSchema } from "@/types/task";
+
+const savedFilterService = new SavedFilterService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid filter ID" }, { status: 400 });
+    }
+
+    const savedFilter = await savedFilterService.getSavedFilterById(id);
+
+    if (!savedFilter) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(savedFilter);
+  } catch (error) {
+    console.error("Error fetching saved filter:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved filter" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid filter ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = savedFilterSchema.partial().parse(body);
+
+    const updatedFilter = await savedFilterService.updateSavedFilter(
+      id,
+      validatedData
+    );
+
+    if (!updatedFilter) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedFilter);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SavedFilterNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating saved filter:", error);
+    return NextResponse.json(
+      { error: "Failed to update saved filter" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid filter ID" }, { status: 400 });
+    }
+
+    const deleted = await savedFilterService.deleteSavedFilter(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Filter deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting saved filter:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved filter" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { SavedFilterService } from "@/services/saved-filter-service";
+
+const savedFilterService = new SavedFilterService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid filter ID" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "100");
+    const offset = parseInt(searchParams.get("offset") || "0");
+
+    const matches = await savedFilterService.getSavedFilterTasks(id, {
+      limit,
+      offset,
+    });
+
+    if (!matches) {
+      return NextResponse.json({ error: "Filter not found" }, { status: 404 });
+    }
+
+    // Returned like the built-in views so the view store can load either
+    return NextResponse.json(matches.results);
+  } catch (error) {
+    console.error("Error fetching saved filter tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved filter tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  SavedFilterNameTakenError,
+  SavedFilterService,
+} from "@/services/saved-filter-service";
+import { SearchQueryError } from "@/lib/search-query";
+import { savedFilterSchema } from "@/types/task";
+
+const savedFilterService = new SavedFilterService();
+
+export async function GET() {
+  try {
+    const filters = await savedFilterService.getSavedFilters();
+    return NextResponse.json(filters);
+  } catch (error) {
+    console.error("Error fetching saved filters:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved filters" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = savedFilterSchema.parse(body);
+
+    const newFilter = await savedFilterService.createSavedFilter(validatedData);
+
+    return NextResponse.json(newFilter, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SavedFilterNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating saved filter:", error);
+    return NextResponse.json(
+      { error: "Failed to create saved filter" },
+      { status: 500 }
+    );
+  }
+}
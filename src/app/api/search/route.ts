@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { SearchService } from "@/services/search-service";
+import { SearchQueryError } from "@/lib/search-query";
+import { prioritySchema } from "@/types/task";
 
 const searchService = new SearchService();
 
@@ -8,13 +10,18 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get("q");
     const type = searchParams.get("type") as
-      | "all"
-      | "tasks"
-      | "labels"
-      | "lists"
-      | undefined;
+      "all" | "tasks" | "labels" | "lists" | undefined;
     const limit = parseInt(searchParams.get("limit") || "50");
     const offset = parseInt(searchParams.get("offset") || "0");
+    const listId = searchParams.get("listId");
+    const priority = prioritySchema.safeParse(searchParams.get("priority"));
+    const completed = searchParams.get("completed");
+
+    const filter = {
+      listId: listId ? parseInt(listId) : undefined,
+      priority: priority.success ? priority.data : undefined,
+      completed: completed ? completed === "true" : undefined,
+    };
 
     if (!query) {
       return NextResponse.json(
@@ -25,6 +32,7 @@ export async function GET(request: Request) {
 
     if (type === "tasks") {
       const tasks = await searchService.searchTasks(query, {
+        ...filter,
         limit,
         offset,
       });
@@ -37,12 +45,16 @@ export async function GET(request: Request) {
       return NextResponse.json(lists);
     } else {
       const results = await searchService.searchAll(query, {
+        ...filter,
         limit,
         offset,
       });
       return NextResponse.json(results);
     }
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error performing search:", error);
     return NextResponse.json(
       { error: "Failed to perform search" },
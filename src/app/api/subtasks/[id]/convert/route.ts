@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { TaskService } from "@/services/task-service";
+
+const taskService = new TaskService();
+
+// Replace a checklist item with a subtask of the same task
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid subtask ID" },
+        { status: 400 }
+      );
+    }
+
+    const task = await taskService.convertSubTaskToTask(id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Subtask not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(task, { status: 201 });
+  } catch (error) {
+    console.error("Error converting subtask:", error);
+    return NextResponse.json(
+      { error: "Failed to convert subtask" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { PositionConflictError } from "@/lib/db-utils";
+import { TaskService } from "@/services/task-service";
+import { reorderSchema } from "@/types/task";
+import { z } from "zod";
+
+const taskService = new TaskService();
+
+// Drag and drop: place the subtask between the given neighbours
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid subtask ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const placement = reorderSchema.parse(body);
+
+    const movedSubTask = await taskService.moveSubTask(id, placement);
+
+    if (!movedSubTask) {
+      return NextResponse.json(
+        { error: "Subtask or its neighbours not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedSubTask);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PositionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error moving subtask:", error);
+    return NextResponse.json(
+      { error: "Failed to move subtask" },
+      { status: 500 }
+    );
+  }
+}
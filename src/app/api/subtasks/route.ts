@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { subTasks } from "@/lib/schema";
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
+import { getLastPosition } from "@/lib/db-utils";
 import { SubTask } from "@/types/task";
 
 export async function GET(request: Request) {
@@ -20,6 +21,7 @@ export async function GET(request: Request) {
       .select()
       .from(subTasks)
       .where(eq(subTasks.taskId, parseInt(taskId)))
+      .orderBy(asc(subTasks.position))
       .all()) as SubTask[];
 
     return NextResponse.json(subtasks);
@@ -50,6 +52,7 @@ export async function POST(request: Request) {
         taskId,
         title,
         isCompleted: false,
+        position: await getLastPosition(subTasks, eq(subTasks.taskId, taskId)),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       })
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { CommentService } from "@/services/comment-service";
+
+const commentService = new CommentService();
+
+// Get the comments and recorded changes of a task, oldest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id);
+
+    if (isNaN(taskId)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const activity = await commentService.getActivity(taskId);
+
+    if (!activity) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(activity);
+  } catch (error) {
+    console.error("Error fetching task activity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch task activity" },
+      { status: 500 }
+    );
+  }
+}
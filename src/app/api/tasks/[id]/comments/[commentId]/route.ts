@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { CommentService } from "@/services/comment-service";
+import { updateTaskCommentSchema } from "@/types/task";
+
+const commentService = new CommentService();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.commentId);
+
+    if (isNaN(taskId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid task or comment ID" },
+        { status: 400 }
+      );
+    }
+
+    const comment = await commentService.getCommentById(taskId, id);
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(comment);
+  } catch (error) {
+    console.error("Error fetching comment:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comment" },
+      { status: 500 }
+    );
+  }
+}
+
+// Edits the body; the previous one is kept in the comment's edits
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.commentId);
+
+    if (isNaN(taskId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid task or comment ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateTaskCommentSchema.parse(body);
+
+    const updatedComment = await commentService.updateComment(
+      taskId,
+      id,
+      validatedData
+    );
+
+    if (!updatedComment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedComment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error updating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to update comment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id);
+    const id = parseInt(resolvedParams.commentId);
+
+    if (isNaN(taskId) || isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid task or comment ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await commentService.deleteComment(taskId, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { DependencyService } from "@/services/dependency-service";
+
+const dependencyService = new DependencyService();
+
+// Stop the task from waiting for the blocker
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; blockerId: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+    const blockerId = parseInt(resolvedParams.blockerId);
+
+    if (isNaN(id) || isNaN(blockerId)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const removed = await dependencyService.removeDependency(id, blockerId);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Dependency not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Dependency removed successfully" });
+  } catch (error) {
+    console.error("Error removing task dependency:", error);
+    return NextResponse.json(
+      { error: "Failed to remove task dependency" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import {
+  DependencyCycleError,
+  DependencyService,
+} from "@/services/dependency-service";
+import { taskDependencySchema } from "@/types/task";
+import { z } from "zod";
+
+const dependencyService = new DependencyService();
+
+// Get the tasks this task waits for and the tasks waiting for it
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const dependencies = await dependencyService.getDependencies(id);
+
+    if (!dependencies) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(dependencies);
+  } catch (error) {
+    console.error("Error fetching task dependencies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch task dependencies" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a blocker the task has to wait for
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { blockerId } = taskDependencySchema.parse(body);
+
+    const task = await dependencyService.addDependency(id, blockerId);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(task, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof DependencyCycleError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error adding task dependency:", error);
+    return NextResponse.json(
+      { error: "Failed to add task dependency" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { PositionConflictError } from "@/lib/db-utils";
+import { TaskService } from "@/services/task-service";
+import { reorderSchema } from "@/types/task";
+import { z } from "zod";
+
+const taskService = new TaskService();
+
+// Drag and drop: place the task between the given neighbours
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const placement = reorderSchema.parse(body);
+
+    const movedTask = await taskService.moveTask(id, placement);
+
+    if (!movedTask) {
+      return NextResponse.json(
+        { error: "Task or its neighbours not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(movedTask);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof PositionConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error moving task:", error);
+    return NextResponse.json({ error: "Failed to move task" }, { status: 500 });
+  }
+}
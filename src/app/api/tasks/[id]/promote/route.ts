@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { TaskService } from "@/services/task-service";
+
+const taskService = new TaskService();
+
+// Move a subtask out of its parent to the top level
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const task = await taskService.promoteTask(id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(task);
+  } catch (error) {
+    console.error("Error promoting task:", error);
+    return NextResponse.json(
+      { error: "Failed to promote task" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,18 @@ import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { tasks } from "@/lib/schema";
 import { eq } from "drizzle-orm";
-import { taskSchema } from "@/types/task";
+import { recurrenceScopeSchema, updateTaskSchema } from "@/types/task";
+import { TaskHierarchyError, TaskService } from "@/services/task-service";
 import { z } from "zod";
 
+const taskService = new TaskService();
+
+// Recurring instances can be edited or deleted with ?scope=this|following|all
+function parseScope(request: Request) {
+  const scope = new URL(request.url).searchParams.get("scope");
+  return recurrenceScopeSchema.optional().parse(scope ?? undefined);
+}
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -45,20 +54,14 @@ export async function PUT(
       return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
     }
 
+    const scope = parseScope(request);
     const body = await request.json();
-    const validatedData = taskSchema.parse(body);
-
-    // Filter out reminders field since it's stored as JSON string
-    const { reminders, ...updateData } = validatedData;
+    const validatedData = updateTaskSchema.parse(body);
 
-    const [updatedTask] = await db
-      .update(tasks)
-      .set({
-        ...updateData,
-        updatedAt: new Date().toISOString(),
-      })
-      .where(eq(tasks.id, id))
-      .returning();
+    // Mutations go through TaskService so that open tabs are notified
+    const updatedTask = scope
+      ? await taskService.updateTaskInSeries(id, validatedData, scope)
+      : await taskService.updateTask(id, validatedData);
 
     if (!updatedTask) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
@@ -72,6 +75,9 @@ export async function PUT(
         { status: 400 }
       );
     }
+    if (error instanceof TaskHierarchyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error updating task:", error);
     return NextResponse.json(
       { error: "Failed to update task" },
@@ -92,17 +98,28 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
     }
 
-    const [deletedTask] = await db
-      .delete(tasks)
-      .where(eq(tasks.id, id))
-      .returning();
+    const scope = parseScope(request);
+
+    // Returned so that the deletion can be undone from the trash
+    const task = scope ? undefined : await taskService.getTaskById(id);
+
+    // Moves the task to the trash and cancels its reminders
+    const deleted = scope
+      ? await taskService.deleteTaskInSeries(id, scope)
+      : await taskService.deleteTask(id);
 
-    if (!deletedTask) {
+    if (!deleted) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ message: "Task deleted successfully" });
+    return NextResponse.json({ message: "Task deleted successfully", task });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
     console.error("Error deleting task:", error);
     return NextResponse.json(
       { error: "Failed to delete task" },
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { TaskService } from "@/services/task-service";
+
+const taskService = new TaskService();
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid task ID" }, { status: 400 });
+    }
+
+    const task = await taskService.getTaskById(id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    // Completing a recurring task also creates its next instance
+    const updatedTask = task.isCompleted
+      ? await taskService.uncompleteTask(id)
+      : await taskService.completeTask(id);
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    console.error("Error toggling task:", error);
+    return NextResponse.json(
+      { error: "Failed to toggle task" },
+      { status: 500 }
+    );
+  }
+}
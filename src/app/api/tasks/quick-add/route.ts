@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TaskService } from "@/services/task-service";
+import { ListService } from "@/services/list-service";
+import { LabelService } from "@/services/label-service";
+import { parseQuickAdd } from "@/lib/quick-add";
+import { quickAddSchema, taskSchema } from "@/types/task";
+
+const taskService = new TaskService();
+const listService = new ListService();
+const labelService = new LabelService();
+
+// Create a task from a line of text such as "Pay rent every month on the
+// 1st !high #finance @Home". Tasks without a list go to the Inbox.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { text, date = new Date().toISOString().split("T")[0] } =
+      quickAddSchema.parse(body);
+
+    const lists = await listService.getLists();
+    const { task } = parseQuickAdd(text, {
+      today: date,
+      lists: lists.filter((list) => !list.archivedAt),
+      labels: await labelService.getLabels(),
+    });
+
+    const { labels, ...fields } = task;
+    const validatedData = taskSchema.parse({
+      ...fields,
+      listId: fields.listId ?? (await listService.getInboxList())?.id,
+    });
+
+    const newTask = await taskService.createTask({ ...validatedData, labels });
+
+    return NextResponse.json(newTask, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error adding task:", error);
+    return NextResponse.json({ error: "Failed to add task" }, { status: 500 });
+  }
+}
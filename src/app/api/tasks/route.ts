@@ -1,10 +1,14 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { tasks } from "@/lib/schema";
+import { inVisibleList } from "@/lib/db-utils";
 import { eq, like, and, isNull } from "drizzle-orm";
 import { taskSchema, TaskFilter, TaskSort } from "@/types/task";
+import { TaskHierarchyError, TaskService } from "@/services/task-service";
 import { z } from "zod";
 
+const taskService = new TaskService();
+
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
@@ -22,7 +26,10 @@ export async function GET(request: Request) {
 
     // Build where conditions
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereConditions: Array<any> = [];
+    const whereConditions: Array<any> = [
+      isNull(tasks.deletedAt),
+      inVisibleList(),
+    ];
 
     // Apply filters
     if (search) {
@@ -73,12 +80,7 @@ export async function GET(request: Request) {
     }
 
     // Create query with where conditions
-    let query;
-    if (whereConditions.length > 0) {
-      query = db.select().from(tasks).where(and(...whereConditions));
-    } else {
-      query = db.select().from(tasks);
-    }
+    let query = db.select().from(tasks).where(and(...whereConditions));
 
     // Apply sorting
     let sortColumn;
@@ -98,6 +100,9 @@ export async function GET(request: Request) {
       case "updatedAt":
         sortColumn = tasks.updatedAt;
         break;
+      case "position":
+        sortColumn = tasks.position;
+        break;
       default:
         sortColumn = tasks.createdAt;
     }
@@ -120,15 +125,7 @@ export async function POST(request: Request) {
     const body = await request.json();
     const validatedData = taskSchema.parse(body);
 
-    const [newTask] = await db
-      .insert(tasks)
-      .values({
-        ...validatedData,
-        reminders: validatedData.reminders ? JSON.stringify(validatedData.reminders) : undefined,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      })
-      .returning();
+    const newTask = await taskService.createTask(validatedData);
 
     return NextResponse.json(newTask, { status: 201 });
   } catch (error) {
@@ -138,6 +135,9 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    if (error instanceof TaskHierarchyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error creating task:", error);
     return NextResponse.json(
       { error: "Failed to create task" },
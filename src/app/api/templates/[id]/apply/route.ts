@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TemplateService } from "@/services/template-service";
+import { ListNameTakenError } from "@/services/list-service";
+import { applyTemplateSchema } from "@/types/task";
+
+const templateService = new TemplateService();
+
+// Create the tasks, or the list, of a template
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const id = parseInt(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const options = applyTemplateSchema.parse(body);
+
+    const applied = await templateService.applyTemplate(id, options);
+
+    if (!applied) {
+      return NextResponse.json(
+        { error: "Template or list not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(applied, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof ListNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error applying template:", error);
+    return NextResponse.json(
+      { error: "Failed to apply template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { TemplateService } from "@/services/template-service";
+import { createTemplateSchema } from "@/types/task";
+
+const templateService = new TemplateService();
+
+export async function GET() {
+  try {
+    const templates = await templateService.getTemplates();
+    return NextResponse.json(templates);
+  } catch (error) {
+    console.error("Error fetching templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a task, with its subtasks, or a list as a template
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validatedData = createTemplateSchema.parse(body);
+
+    const newTemplate = await templateService.createTemplate(validatedData);
+
+    if (!newTemplate) {
+      return NextResponse.json(
+        {
+          error: validatedData.taskId ? "Task not found" : "List not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(newTemplate, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error("Error creating template:", error);
+    return NextResponse.json(
+      { error: "Failed to create template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { TrashConflictError, TrashService } from "@/services/trash-service";
+import { trashItemTypeSchema } from "@/types/task";
+
+const trashService = new TrashService();
+
+type Params = { params: Promise<{ type: string; id: string }> };
+
+async function parseParams(params: Params["params"]) {
+  const resolvedParams = await params;
+  const type = trashItemTypeSchema.safeParse(resolvedParams.type);
+  const id = parseInt(resolvedParams.id);
+  return type.success && !isNaN(id) ? { type: type.data, id } : undefined;
+}
+
+// Restore an item from the trash
+export async function POST(request: Request, { params }: Params) {
+  try {
+    const item = await parseParams(params);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Invalid trash item" },
+        { status: 400 }
+      );
+    }
+
+    const restored = await trashService.restore(item.type, item.id);
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: "Item not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    if (error instanceof TrashConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error restoring from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to restore from trash" },
+      { status: 500 }
+    );
+  }
+}
+
+// Permanently delete an item in the trash
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    const item = await parseParams(params);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Invalid trash item" },
+        { status: 400 }
+      );
+    }
+
+    const purged = await trashService.purge(item.type, item.id);
+
+    if (!purged) {
+      return NextResponse.json(
+        { error: "Item not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Item deleted permanently" });
+  } catch (error) {
+    console.error("Error purging from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to purge from trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { TrashService } from "@/services/trash-service";
+
+const trashService = new TrashService();
+
+export async function GET() {
+  try {
+    const trash = await trashService.getTrash();
+    return NextResponse.json(trash);
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
+
+// Empty the trash, permanently deleting everything in it
+export async function DELETE() {
+  try {
+    const purged = await trashService.emptyTrash();
+    return NextResponse.json({ message: "Trash emptied successfully", purged });
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    return NextResponse.json(
+      { error: "Failed to empty trash" },
+      { status: 500 }
+    );
+  }
+}
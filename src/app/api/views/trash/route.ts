@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { TaskService } from "@/services/task-service";
+
+const taskService = new TaskService();
+
+export async function GET() {
+  try {
+    const tasks = await taskService.getTrashedTasks();
+    return NextResponse.json(tasks);
+  } catch (error) {
+    console.error("Error fetching trashed tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trashed tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,21 +7,135 @@ import { UpcomingView } from "@/components/views/UpcomingView";
 import { AllView } from "@/components/views/AllView";
 import { InboxView } from "@/components/views/InboxView";
 import { TaskManagement } from "@/components/views/TaskManagement";
+import { SavedFilterView } from "@/components/views/SavedFilterView";
+import { TrashView } from "@/components/views/TrashView";
+import { TemplatesView } from "@/components/views/TemplatesView";
 import { useUIStore } from "@/store/uiStore";
+import {
+  getSavedFilterId,
+  getSavedFilterView,
+  ViewType,
+} from "@/store/viewStore";
+import { useListStore } from "@/store/listStore";
+import { useLabelStore } from "@/store/labelStore";
+import { useSavedFilterStore } from "@/store/savedFilterStore";
+import { useCommandStore } from "@/store/commandStore";
+import { Command } from "@/lib/commands";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { Header } from "@/components/layout/Header";
 import { Button } from "@/components/ui/button";
+import { Toaster } from "@/components/ui/Toaster";
+import { CommandPalette } from "@/components/CommandPalette";
+import { ShortcutHelp } from "@/components/ShortcutHelp";
+import { useReminders } from "@/hooks/useReminders";
+import { useSync } from "@/hooks/useSync";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
+import { useShortcuts } from "@/hooks/useShortcuts";
 
 export default function HomePage() {
-  const [view, setView] = React.useState("today");
-  const [showManagement, setShowManagement] = React.useState(false);
+  const [view, setView] = React.useState<ViewType>("today");
+  // Pages shown instead of the current view
+  const [page, setPage] = React.useState<"management" | "templates" | null>(
+    null
+  );
+  // Filters the management page opens with, set when jumping to a list or
+  // label from the command palette
+  const [managementFilter, setManagementFilter] = React.useState<{
+    listId?: number;
+    labelId?: number;
+  }>({});
+
+  const listsById = useListStore((state) => state.byId);
+  const labelsById = useLabelStore((state) => state.byId);
+  const savedFiltersById = useSavedFilterStore((state) => state.byId);
+
+  useReminders();
+  useSync();
+  useUndoShortcuts();
+  useShortcuts();
+
+  // Navigation commands for the command palette
+  React.useEffect(() => {
+    const showView = (newView: ViewType) => {
+      setView(newView);
+      setPage(null);
+    };
+    const showManagement = (filter: { listId?: number; labelId?: number }) => {
+      setManagementFilter(filter);
+      setPage("management");
+    };
+
+    const views: [ViewType, string][] = [
+      ["today", "Today"],
+      ["next7days", "Next 7 Days"],
+      ["upcoming", "Upcoming"],
+      ["all", "All"],
+      ["inbox", "Inbox"],
+      ["trash", "Trash"],
+    ];
+    const commands: Command[] = [
+      ...views.map(([id, title]) => ({
+        id: `view-${id}`,
+        title,
+        group: "Views",
+        run: () => showView(id),
+      })),
+      ...Object.values(savedFiltersById).map((filter) => ({
+        id: `view-filter-${filter.id}`,
+        title: `${filter.emoji} ${filter.name}`,
+        group: "Views",
+        keywords: [filter.name, "saved filter"],
+        run: () => showView(getSavedFilterView(filter.id)),
+      })),
+      {
+        id: "page-templates",
+        title: "Templates",
+        group: "Views",
+        run: () => setPage("templates"),
+      },
+      {
+        id: "page-management",
+        title: "Management",
+        group: "Views",
+        run: () => showManagement({}),
+      },
+      ...Object.values(listsById)
+        .filter((list) => !list.archivedAt)
+        .map((list) => ({
+          id: `list-${list.id}`,
+          title: `${list.emoji} ${list.name}`,
+          group: "Lists",
+          keywords: [list.name],
+          run: () => showManagement({ listId: list.id }),
+        })),
+      ...Object.values(labelsById).map((label) => ({
+        id: `label-${label.id}`,
+        title: `${label.icon} ${label.name}`,
+        group: "Labels",
+        keywords: [label.name],
+        run: () => showManagement({ labelId: label.id }),
+      })),
+    ];
+
+    return useCommandStore.getState().registerCommands(commands);
+  }, [listsById, labelsById, savedFiltersById]);
+
+  const savedFilterId = getSavedFilterId(view);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <Header />
 
       <div className="flex">
-        <Sidebar open={true} onClose={() => {}} />
+        <Sidebar
+          open={true}
+          onClose={() => {}}
+          currentView={view}
+          onViewChange={(newView) => {
+            setView(newView);
+            setPage(null);
+          }}
+        />
 
         <main className="flex-1 p-6">
           <div className="max-w-7xl mx-auto">
@@ -39,7 +153,7 @@ export default function HomePage() {
                   variant={view === "today" ? "secondary" : "outline"}
                   onClick={() => {
                     setView("today");
-                    setShowManagement(false);
+                    setPage(null);
                   }}
                 >
                   Today
@@ -48,7 +162,7 @@ export default function HomePage() {
                   variant={view === "next7days" ? "secondary" : "outline"}
                   onClick={() => {
                     setView("next7days");
-                    setShowManagement(false);
+                    setPage(null);
                   }}
                 >
                   Next 7 Days
@@ -57,7 +171,7 @@ export default function HomePage() {
                   variant={view === "upcoming" ? "secondary" : "outline"}
                   onClick={() => {
                     setView("upcoming");
-                    setShowManagement(false);
+                    setPage(null);
                   }}
                 >
                   Upcoming
@@ -66,7 +180,7 @@ export default function HomePage() {
                   variant={view === "all" ? "secondary" : "outline"}
                   onClick={() => {
                     setView("all");
-                    setShowManagement(false);
+                    setPage(null);
                   }}
                 >
                   All
@@ -75,29 +189,56 @@ export default function HomePage() {
                   variant={view === "inbox" ? "secondary" : "outline"}
                   onClick={() => {
                     setView("inbox");
-                    setShowManagement(false);
+                    setPage(null);
                   }}
                 >
                   Inbox
                 </Button>
                 <Button
-                  variant={showManagement ? "secondary" : "outline"}
-                  onClick={() => setShowManagement(true)}
+                  variant={page === "templates" ? "secondary" : "outline"}
+                  onClick={() => setPage("templates")}
+                >
+                  Templates
+                </Button>
+                <Button
+                  variant={page === "management" ? "secondary" : "outline"}
+                  onClick={() => {
+                    setManagementFilter({});
+                    setPage("management");
+                  }}
                 >
                   Management
                 </Button>
               </div>
             </div>
 
-            {!showManagement && view === "today" && <TodayView />}
-            {!showManagement && view === "next7days" && <Next7DaysView />}
-            {!showManagement && view === "upcoming" && <UpcomingView />}
-            {!showManagement && view === "all" && <AllView />}
-            {!showManagement && view === "inbox" && <InboxView />}
-            {showManagement && <TaskManagement />}
+            {!page && view === "today" && <TodayView />}
+            {!page && view === "next7days" && <Next7DaysView />}
+            {!page && view === "upcoming" && <UpcomingView />}
+            {!page && view === "all" && <AllView />}
+            {!page && view === "inbox" && <InboxView />}
+            {!page && view === "trash" && <TrashView />}
+            {!page && savedFilterId !== undefined && (
+              <SavedFilterView
+                filterId={savedFilterId}
+                onDeleted={() => setView("today")}
+              />
+            )}
+            {page === "management" && (
+              // Remounted so a new filter replaces the current one
+              <TaskManagement
+                key={`${managementFilter.listId}-${managementFilter.labelId}`}
+                {...managementFilter}
+              />
+            )}
+            {page === "templates" && <TemplatesView />}
           </div>
         </main>
       </div>
+
+      <CommandPalette />
+      <ShortcutHelp />
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,280 @@
+"use client";
+
+import * as React from "react";
+import { Command as Cmdk } from "cmdk";
+import { Priority, TaskWithRelations } from "@/types/task";
+import { useTaskStore } from "@/store/taskStore";
+import { useListStore } from "@/store/listStore";
+import { useLabelStore } from "@/store/labelStore";
+import { useCommandStore } from "@/store/commandStore";
+import { useDebounce } from "@/hooks/useDebounce";
+import { useShortcut, useShortcutScope } from "@/hooks/useShortcuts";
+import { Command, getRescheduleDates, groupCommands } from "@/lib/commands";
+
+const TASK_GROUP = "Selected task";
+
+const PRIORITIES: { priority: Priority; title: string }[] = [
+  { priority: "high", title: "High" },
+  { priority: "medium", title: "Medium" },
+  { priority: "low", title: "Low" },
+  { priority: "none", title: "None" },
+];
+
+const ITEM_CLASSES =
+  "flex cursor-pointer items-center justify-between rounded-md px-3 py-2 text-sm text-gray-700 data-[selected=true]:bg-gray-100 dark:text-gray-200 dark:data-[selected=true]:bg-gray-700";
+
+const GROUP_CLASSES =
+  "[&_[cmdk-group-heading]]:px-3 [&_[cmdk-group-heading]]:py-1 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:font-semibold [&_[cmdk-group-heading]]:text-gray-500";
+
+// The actions on the selected task
+const TASK_COMMANDS: Command[] = [
+  {
+    id: "task-complete",
+    title: "Complete or reopen",
+    group: TASK_GROUP,
+    keywords: ["done", "finish", "toggle"],
+    forTask: true,
+    run: (task) => useTaskStore.getState().toggleTask(task.id!),
+  },
+  {
+    id: "task-reschedule",
+    title: "Reschedule",
+    group: TASK_GROUP,
+    keywords: ["date", "postpone", "move"],
+    forTask: true,
+    getOptions: (task) =>
+      getRescheduleDates(new Date().toISOString().split("T")[0]).map(
+        ({ title, date }) => ({
+          id: `reschedule-${title}`,
+          title: `${title} (${date})`,
+          run: () => useTaskStore.getState().moveTaskTo(task.id!, { date }),
+        })
+      ),
+  },
+  {
+    id: "task-priority",
+    title: "Set priority",
+    group: TASK_GROUP,
+    forTask: true,
+    getOptions: (task) =>
+      PRIORITIES.map(({ priority, title }) => ({
+        id: `priority-${priority}`,
+        title,
+        run: () => useTaskStore.getState().updateTask(task.id!, { priority }),
+      })),
+  },
+  {
+    id: "task-move",
+    title: "Move to list",
+    group: TASK_GROUP,
+    forTask: true,
+    getOptions: (task) => {
+      const { allIds, byId } = useListStore.getState();
+      return allIds
+        .map((id) => byId[id])
+        .filter((list) => list.id !== task.listId && !list.archivedAt)
+        .map((list) => ({
+          id: `list-${list.id}`,
+          title: `${list.emoji} ${list.name}`,
+          keywords: [list.name],
+          run: () =>
+            useTaskStore.getState().moveTaskTo(task.id!, { listId: list.id }),
+        }));
+    },
+  },
+  {
+    id: "task-label",
+    title: "Add label",
+    group: TASK_GROUP,
+    keywords: ["tag"],
+    forTask: true,
+    getOptions: (task) => {
+      const { allIds, byId } = useLabelStore.getState();
+      const labelIds = (task.labels ?? []).map((label) => label.id);
+      return allIds
+        .filter((id) => !labelIds.includes(id))
+        .map((id) => ({
+          id: `label-${id}`,
+          title: `${byId[id].icon} ${byId[id].name}`,
+          keywords: [byId[id].name],
+          run: () =>
+            useTaskStore.getState().setTaskLabels(task.id!, [...labelIds, id]),
+        }));
+    },
+  },
+  {
+    id: "task-delete",
+    title: "Delete",
+    group: TASK_GROUP,
+    keywords: ["remove", "trash"],
+    forTask: true,
+    run: async (task) => {
+      if (confirm("Are you sure you want to delete this task?")) {
+        await useTaskStore.getState().deleteTask(task.id!);
+      }
+    },
+  },
+];
+
+// Ctrl+K (Cmd+K on macOS), or the key chosen for it, opens a palette of the
+// registered commands and searches tasks; picking a task selects it for the
+// task commands
+export function CommandPalette() {
+  const isOpen = useCommandStore((state) => state.isOpen);
+  const commands = useCommandStore((state) => state.commands);
+  const taskResults = useCommandStore((state) => state.taskResults);
+  // A command asking for a value shows its options instead
+  const optionsPage = useCommandStore((state) => state.page);
+  const selectedTask = useTaskStore((state) =>
+    state.selectedTaskId === null ? undefined : state.byId[state.selectedTaskId]
+  );
+
+  const [search, setSearch] = React.useState("");
+  const debouncedSearch = useDebounce(search, 200);
+
+  React.useEffect(
+    () => useCommandStore.getState().registerCommands(TASK_COMMANDS),
+    []
+  );
+
+  const close = () => {
+    useCommandStore.getState().setOpen(false);
+    setSearch("");
+  };
+
+  useShortcut("command-palette", () => {
+    if (isOpen) {
+      close();
+    } else {
+      useCommandStore.getState().setOpen(true);
+    }
+  });
+  useShortcutScope("modal", isOpen);
+
+  React.useEffect(() => {
+    if (isOpen && !optionsPage) {
+      void useCommandStore.getState().searchTasks(debouncedSearch);
+    }
+  }, [debouncedSearch, isOpen, optionsPage]);
+
+  const runCommand = (command: Command) => {
+    useCommandStore.getState().runCommand(command.id, selectedTask);
+    setSearch("");
+  };
+
+  const selectTask = (task: TaskWithRelations) => {
+    useTaskStore.getState().selectTask(task.id ?? null);
+    setSearch("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Backspace in an empty search goes back from the options
+    if (e.key === "Backspace" && !search && optionsPage) {
+      e.preventDefault();
+      useCommandStore.getState().setPage(null);
+    }
+  };
+
+  return (
+    <Cmdk.Dialog
+      open={isOpen}
+      onOpenChange={(open) =>
+        open ? useCommandStore.getState().setOpen(true) : close()
+      }
+      label="Command palette"
+      overlayClassName="fixed inset-0 z-50 bg-black/50"
+      contentClassName="fixed left-1/2 top-24 z-50 w-full max-w-xl -translate-x-1/2 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-xl dark:border-gray-700 dark:bg-gray-800"
+    >
+      <Cmdk.Input
+        value={search}
+        onValueChange={setSearch}
+        onKeyDown={handleKeyDown}
+        placeholder={
+          optionsPage
+            ? `${optionsPage.title}...`
+            : "Type a command or search tasks..."
+        }
+        className="w-full border-b border-gray-200 bg-transparent px-4 py-3 text-sm text-gray-900 outline-none placeholder:text-gray-400 dark:border-gray-700 dark:text-white"
+      />
+      <Cmdk.List className="max-h-96 overflow-y-auto p-2">
+        <Cmdk.Empty className="px-3 py-6 text-center text-sm text-gray-500">
+          No results
+        </Cmdk.Empty>
+
+        {optionsPage ? (
+          <Cmdk.Group heading={optionsPage.title} className={GROUP_CLASSES}>
+            {optionsPage.options.map((option) => (
+              <Cmdk.Item
+                key={option.id}
+                value={option.id}
+                keywords={[option.title, ...(option.keywords ?? [])]}
+                onSelect={() => {
+                  close();
+                  void option.run();
+                }}
+                className={ITEM_CLASSES}
+              >
+                {option.title}
+              </Cmdk.Item>
+            ))}
+          </Cmdk.Group>
+        ) : (
+          <>
+            {groupCommands(commands, selectedTask !== undefined).map(
+              (group) => (
+                <Cmdk.Group
+                  key={group.name}
+                  heading={
+                    group.name === TASK_GROUP && selectedTask
+                      ? `${TASK_GROUP}: ${selectedTask.title}`
+                      : group.name
+                  }
+                  className={GROUP_CLASSES}
+                >
+                  {group.commands.map((command) => (
+                    <Cmdk.Item
+                      key={command.id}
+                      value={command.id}
+                      keywords={[
+                        command.title,
+                        command.group,
+                        ...(command.keywords ?? []),
+                      ]}
+                      onSelect={() => runCommand(command)}
+                      className={ITEM_CLASSES}
+                    >
+                      {command.title}
+                      {command.getOptions && (
+                        <span className="text-gray-400">›</span>
+                      )}
+                    </Cmdk.Item>
+                  ))}
+                </Cmdk.Group>
+              )
+            )}
+
+            {/* Found by the server, so they are not filtered again */}
+            {search.trim() && taskResults.length > 0 && (
+              <Cmdk.Group heading="Tasks" forceMount className={GROUP_CLASSES}>
+                {taskResults.map((task) => (
+                  <Cmdk.Item
+                    key={task.id}
+                    value={`task-${task.id}`}
+                    forceMount
+                    onSelect={() => selectTask(task)}
+                    className={ITEM_CLASSES}
+                  >
+                    <span className={task.isCompleted ? "line-through" : ""}>
+                      {task.title}
+                    </span>
+                    <span className="text-xs text-gray-400">{task.date}</span>
+                  </Cmdk.Item>
+                ))}
+              </Cmdk.Group>
+            )}
+          </>
+        )}
+      </Cmdk.List>
+    </Cmdk.Dialog>
+  );
+}
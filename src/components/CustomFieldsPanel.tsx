@@ -0,0 +1,190 @@
+"use client";
+
+import * as React from "react";
+import { CustomField, CustomFieldType } from "@/types/task";
+import { useCustomFieldStore } from "@/store/customFieldStore";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select } from "./ui/select";
+
+const TYPE_OPTIONS: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Select" },
+  { value: "date", label: "Date" },
+  { value: "checkbox", label: "Checkbox" },
+];
+
+// Options are entered comma-separated
+const parseOptions = (text: string) =>
+  text
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+interface CustomFieldsPanelProps {
+  listId: number;
+  fields: CustomField[];
+}
+
+// Defines the custom fields the tasks of a list have
+export function CustomFieldsPanel({ listId, fields }: CustomFieldsPanelProps) {
+  const error = useCustomFieldStore((state) => state.error);
+  const [open, setOpen] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [type, setType] = React.useState<CustomFieldType>("text");
+  const [options, setOptions] = React.useState("");
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    await useCustomFieldStore.getState().createField(listId, {
+      name: name.trim(),
+      type,
+      options: type === "select" ? parseOptions(options) : undefined,
+    });
+    if (!useCustomFieldStore.getState().error) {
+      setName("");
+      setOptions("");
+    }
+  };
+
+  const handleRename = async (field: CustomField) => {
+    const newName = prompt("Field name", field.name)?.trim();
+    if (newName && newName !== field.name) {
+      await useCustomFieldStore
+        .getState()
+        .updateField(field.id, { name: newName });
+    }
+  };
+
+  const handleEditOptions = async (field: CustomField) => {
+    const text = prompt(
+      "Options, separated by commas. Tasks lose values that are removed.",
+      field.options.join(", ")
+    );
+    if (text === null) return;
+    await useCustomFieldStore
+      .getState()
+      .updateField(field.id, { options: parseOptions(text) });
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (
+      confirm(
+        `Delete the field "${field.name}"? Its values are removed from every task.`
+      )
+    ) {
+      await useCustomFieldStore.getState().deleteField(field.id);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center space-x-2 text-left"
+      >
+        <span className="text-gray-500">{open ? "▾" : "▸"}</span>
+        <span className="font-medium text-gray-900 dark:text-white">
+          Custom fields
+        </span>
+        <Badge variant="outline">{fields.length}</Badge>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {fields.map((field) => (
+            <div
+              key={field.id}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <span className="truncate text-sm text-gray-900 dark:text-white">
+                  {field.name}
+                </span>
+                <Badge variant="secondary">{field.type}</Badge>
+                {field.type === "select" && (
+                  <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+                    {field.options.join(", ")}
+                  </span>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRename(field)}
+                >
+                  Rename
+                </Button>
+                {field.type === "select" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEditOptions(field)}
+                  >
+                    Options
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(field)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form
+            onSubmit={handleAdd}
+            className="flex flex-wrap items-center gap-2"
+          >
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New field"
+              className="max-w-xs"
+            />
+            <Select
+              value={type}
+              onChange={(e) => setType(e.target.value as CustomFieldType)}
+              options={TYPE_OPTIONS}
+              className="w-32"
+            />
+            {type === "select" && (
+              <Input
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                placeholder="Options, separated by commas"
+                className="max-w-xs"
+              />
+            )}
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              disabled={
+                !name.trim() ||
+                (type === "select" && parseOptions(options).length === 0)
+              }
+            >
+              Add field
+            </Button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
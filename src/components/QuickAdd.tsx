@@ -0,0 +1,208 @@
+"use client";
+
+import * as React from "react";
+import { Priority } from "@/types/task";
+import { useTaskStore } from "@/store/taskStore";
+import { useListStore } from "@/store/listStore";
+import { useLabelStore } from "@/store/labelStore";
+import { useUIStore } from "@/store/uiStore";
+import { parseQuickAdd, QuickAddTokenType } from "@/lib/quick-add";
+import { describeRRule } from "@/lib/rrule";
+import { Button } from "./ui/button";
+
+const TOKEN_CLASSES: Record<QuickAddTokenType, string> = {
+  recurrence:
+    "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  priority: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  label:
+    "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  list: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  deadline:
+    "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  estimate: "bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200",
+};
+
+const PRIORITY_NAMES: Record<Priority, string> = {
+  none: "None",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+const formatDeadline = (deadline: string) =>
+  deadline.includes("T")
+    ? new Date(deadline).toLocaleString()
+    : new Date(`${deadline}T00:00:00`).toLocaleDateString();
+
+// One line of text that becomes a task, such as "Pay rent every month on
+// the 1st !high #finance @Home due tomorrow 5pm ~30m". The parts that set
+// fields are highlighted and the task is previewed until Enter adds it.
+export function QuickAdd() {
+  const [text, setText] = React.useState("");
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const listsById = useListStore((state) => state.byId);
+  const labelsById = useLabelStore((state) => state.byId);
+  const lists = React.useMemo(
+    () => Object.values(listsById).filter((list) => !list.archivedAt),
+    [listsById]
+  );
+  const labels = React.useMemo(() => Object.values(labelsById), [labelsById]);
+
+  const today = new Date().toISOString().split("T")[0];
+  const { task, tokens } = React.useMemo(
+    () => parseQuickAdd(text, { today, lists, labels }),
+    [text, today, lists, labels]
+  );
+
+  const list = task.listId
+    ? listsById[task.listId]
+    : lists.find((item) => item.isMagic);
+  const showPreview = isOpen && text.trim() !== "";
+
+  const reset = () => {
+    setText("");
+    setError(null);
+    setIsOpen(false);
+  };
+
+  const handleSubmit = async () => {
+    if (!task.title || isSaving) return;
+    setIsSaving(true);
+    const newTask = await useTaskStore
+      .getState()
+      .quickAddTask({ text, date: today });
+    setIsSaving(false);
+
+    if (!newTask) {
+      setError(useTaskStore.getState().error ?? "Failed to add task");
+      return;
+    }
+    reset();
+    useUIStore.getState().addNotification({
+      type: "success",
+      message: `Added "${newTask.title}"`,
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      void handleSubmit();
+    } else if (e.key === "Escape") {
+      reset();
+    }
+  };
+
+  // The text with the parts that set fields highlighted
+  const highlighted: React.ReactNode[] = [];
+  let last = 0;
+  tokens.forEach((token) => {
+    highlighted.push(text.slice(last, token.start));
+    highlighted.push(
+      <mark
+        key={token.start}
+        className={`rounded px-0.5 ${TOKEN_CLASSES[token.type]}`}
+      >
+        {token.text}
+      </mark>
+    );
+    last = token.end;
+  });
+  highlighted.push(text.slice(last));
+
+  const fields: [string, React.ReactNode][] = [
+    ["List", list ? `${list.emoji} ${list.name}` : "Inbox"],
+  ];
+  if (task.labels?.length) {
+    fields.push([
+      "Labels",
+      task.labels.map((id) => labelsById[id]?.name).join(", "),
+    ]);
+  }
+  if (task.priority !== "none") {
+    fields.push(["Priority", PRIORITY_NAMES[task.priority]]);
+  }
+  if (task.deadline) {
+    fields.push(["Deadline", formatDeadline(task.deadline)]);
+  }
+  if (task.estimateHours || task.estimateMinutes) {
+    fields.push([
+      "Estimate",
+      `${task.estimateHours ?? 0}h ${task.estimateMinutes ?? 0}m`,
+    ]);
+  }
+  if (task.recurrenceRule) {
+    fields.push(["Repeats", describeRRule(task.recurrenceRule)]);
+  }
+  if (task.date !== today) {
+    fields.push(["Starts", task.date]);
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(null);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Add a task: Pay rent every month on the 1st !high #finance"
+        aria-label="Quick add task"
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+      />
+
+      {showPreview && (
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-2 space-y-3 rounded-lg border border-gray-200 bg-white p-4 shadow-lg dark:border-gray-700 dark:bg-gray-800"
+          // Keeps the input focused while the preview is used
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <p className="whitespace-pre-wrap break-words text-sm text-gray-700 dark:text-gray-300">
+            {highlighted}
+          </p>
+
+          <div>
+            <p className="font-medium text-gray-900 dark:text-white">
+              {task.title || <span className="text-gray-400">Add a title</span>}
+            </p>
+            <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {fields.map(([name, value]) => (
+                <React.Fragment key={name}>
+                  <dt className="text-gray-500 dark:text-gray-400">{name}</dt>
+                  <dd className="text-gray-900 dark:text-white">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-400">
+              Enter to add, Esc to cancel
+            </span>
+            <Button
+              size="sm"
+              onClick={() => void handleSubmit()}
+              disabled={!task.title || isSaving}
+            >
+              Add task
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
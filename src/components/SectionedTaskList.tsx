@@ -0,0 +1,248 @@
+"use client";
+
+import * as React from "react";
+import { CustomFieldSort, ListSection } from "@/types/task";
+import { sortByPosition } from "@/lib/ordering";
+import { useCustomFieldStore } from "@/store/customFieldStore";
+import { useListStore } from "@/store/listStore";
+import { useSectionStore } from "@/store/sectionStore";
+import { useUIStore } from "@/store/uiStore";
+import { CustomFieldsPanel } from "./CustomFieldsPanel";
+import { TaskList, TaskListProps } from "./TaskList";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Select } from "./ui/select";
+
+interface SectionedTaskListProps extends TaskListProps {
+  listId: number;
+}
+
+// The tasks of one list grouped under its section headers. Tasks without a
+// section come first. Each section can be sorted by a custom field of the
+// list.
+export function SectionedTaskList({
+  listId,
+  tasks,
+  ...taskListProps
+}: SectionedTaskListProps) {
+  const sectionsById = useSectionStore((state) => state.byId);
+  const sectionError = useSectionStore((state) => state.error);
+  const listsById = useListStore((state) => state.byId);
+  const collapsedSections = useUIStore((state) => state.collapsedSections);
+  const customFieldsById = useCustomFieldStore((state) => state.byId);
+  const [newSectionName, setNewSectionName] = React.useState("");
+  // The sort applies to the list it was chosen in
+  const [sortState, setSortState] = React.useState<{
+    listId: number;
+    sortBy?: CustomFieldSort;
+  }>();
+  const sortBy = sortState?.listId === listId ? sortState.sortBy : undefined;
+  const setSortBy = (sortBy?: CustomFieldSort) =>
+    setSortState({ listId, sortBy });
+
+  React.useEffect(() => {
+    void useSectionStore.getState().fetchSections(listId);
+    void useCustomFieldStore.getState().fetchFields(listId);
+  }, [listId]);
+
+  const sections = React.useMemo(
+    () =>
+      sortByPosition(
+        Object.values(sectionsById).filter(
+          (section) => section.listId === listId
+        )
+      ),
+    [sectionsById, listId]
+  );
+  const customFields = Object.values(customFieldsById)
+    .filter((field) => field.listId === listId)
+    .sort((a, b) => a.id - b.id);
+  const otherLists = Object.values(listsById).filter(
+    (list) => list.id !== listId
+  );
+
+  // Tasks whose section has not loaded yet are shown without one
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const unsectionedTasks = tasks.filter(
+    (task) => !task.sectionId || !sectionIds.has(task.sectionId)
+  );
+
+  const handleAddSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newSectionName.trim();
+    if (!name) return;
+    await useSectionStore.getState().createSection(listId, name);
+    setNewSectionName("");
+  };
+
+  const handleRename = async (section: ListSection) => {
+    const name = prompt("Section name", section.name)?.trim();
+    if (name && name !== section.name) {
+      await useSectionStore.getState().renameSection(section.id, name);
+    }
+  };
+
+  const handleDelete = async (section: ListSection) => {
+    if (
+      confirm(
+        `Delete the section "${section.name}"? Its tasks stay in the list.`
+      )
+    ) {
+      await useSectionStore.getState().deleteSection(section.id);
+    }
+  };
+
+  // A single list shows loading and errors once
+  if (taskListProps.error || (taskListProps.loading && tasks.length === 0)) {
+    return <TaskList tasks={tasks} {...taskListProps} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {sectionError && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+          {sectionError}
+        </div>
+      )}
+
+      {customFields.length > 0 && (
+        <div className="flex items-center justify-end gap-2">
+          <Select
+            value={sortBy?.fieldId.toString() ?? ""}
+            onChange={(e) =>
+              setSortBy(
+                e.target.value
+                  ? {
+                      fieldId: Number(e.target.value),
+                      direction: sortBy?.direction ?? "asc",
+                    }
+                  : undefined
+              )
+            }
+            options={[
+              { value: "", label: "Manual order" },
+              ...customFields.map((field) => ({
+                value: field.id.toString(),
+                label: `Sort by ${field.name}`,
+              })),
+            ]}
+            aria-label="Sort by"
+            className="h-8 w-48"
+          />
+          {sortBy && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setSortBy({
+                  ...sortBy,
+                  direction: sortBy.direction === "asc" ? "desc" : "asc",
+                })
+              }
+              aria-label="Reverse the order"
+            >
+              {sortBy.direction === "asc" ? "↑" : "↓"}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(unsectionedTasks.length > 0 || sections.length === 0) && (
+        <TaskList tasks={unsectionedTasks} {...taskListProps} sortBy={sortBy} />
+      )}
+
+      {sections.map((section) => {
+        const collapsed = collapsedSections[section.id];
+        const sectionTasks = tasks.filter(
+          (task) => task.sectionId === section.id
+        );
+
+        return (
+          <section key={section.id}>
+            <div className="mb-3 flex items-center justify-between border-b border-gray-200 pb-2 dark:border-gray-700">
+              <button
+                type="button"
+                onClick={() =>
+                  useUIStore.getState().toggleSectionCollapsed(section.id)
+                }
+                aria-expanded={!collapsed}
+                className="flex items-center space-x-2 text-left"
+              >
+                <span className="text-gray-500">{collapsed ? "▸" : "▾"}</span>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {section.name}
+                </h3>
+                <Badge variant="outline">{sectionTasks.length}</Badge>
+              </button>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRename(section)}
+                >
+                  Rename
+                </Button>
+                {otherLists.length > 0 && (
+                  <Select
+                    value=""
+                    onChange={(e) =>
+                      useSectionStore
+                        .getState()
+                        .moveSectionToList(section.id, Number(e.target.value))
+                    }
+                    placeholder="Move to list…"
+                    options={otherLists.map((list) => ({
+                      value: list.id,
+                      label: `${list.emoji} ${list.name}`,
+                    }))}
+                    className="h-8 w-40"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(section)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {!collapsed && (
+              <TaskList
+                tasks={sectionTasks}
+                {...taskListProps}
+                sortBy={sortBy}
+                emptyState={
+                  <div className="text-gray-500 dark:text-gray-400">
+                    No tasks in this section yet.
+                  </div>
+                }
+              />
+            )}
+          </section>
+        );
+      })}
+
+      <form onSubmit={handleAddSection} className="flex items-center gap-2">
+        <Input
+          value={newSectionName}
+          onChange={(e) => setNewSectionName(e.target.value)}
+          placeholder="New section"
+          className="max-w-xs"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          disabled={!newSectionName.trim()}
+        >
+          Add section
+        </Button>
+      </form>
+
+      <CustomFieldsPanel listId={listId} fields={customFields} />
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import * as React from "react";
+import { useShortcutStore } from "@/store/shortcutStore";
+import {
+  findConflicts,
+  formatKey,
+  getActiveScopes,
+  getConflict,
+  getEventKey,
+  getKey,
+  SCOPE_NAMES,
+  Shortcut,
+  ShortcutScope,
+  SHORTCUTS,
+} from "@/lib/shortcuts";
+import { Modal } from "./ui/modal";
+import { Button } from "./ui/button";
+
+const SCOPES: ShortcutScope[] = ["global", "list", "form", "modal"];
+
+const describeConflict = (key: string, conflict: Shortcut) =>
+  `${formatKey(key)} is already used by "${conflict.title}" (${SCOPE_NAMES[conflict.scope]})`;
+
+// The shortcuts, opened with "?", with the keys they are bound to. A key
+// is changed by clicking "Change" and pressing the new key.
+export function ShortcutHelp() {
+  const isOpen = useShortcutStore((state) => state.isHelpOpen);
+  const keyMap = useShortcutStore((state) => state.keyMap);
+  const error = useShortcutStore((state) => state.error);
+  const openForms = useShortcutStore((state) => state.openForms);
+  const hasList = useShortcutStore((state) => state.taskLists.length > 0);
+
+  // The shortcut waiting for its new key
+  const [recordingId, setRecordingId] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  // The scopes active under this dialog
+  const activeScopes = getActiveScopes({
+    modal: false,
+    form: openForms > 0,
+    list: hasList,
+  });
+  const conflicts = findConflicts(SHORTCUTS, keyMap);
+
+  React.useEffect(() => {
+    if (!recordingId) return;
+
+    // Caught before the shortcuts see the key
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = getEventKey(event);
+      if (!key) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (key === "escape") {
+        setRecordingId(null);
+        return;
+      }
+      const { keyMap, setKey } = useShortcutStore.getState();
+      const conflict = getConflict(SHORTCUTS, keyMap, recordingId, key);
+      if (conflict) {
+        setMessage(describeConflict(key, conflict));
+        return;
+      }
+      setRecordingId(null);
+      setMessage(null);
+      void setKey(recordingId, key);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+    };
+  }, [recordingId]);
+
+  const handleReset = (shortcut: Shortcut) => {
+    // Another shortcut may have been given the default key since
+    const conflict = getConflict(SHORTCUTS, keyMap, shortcut.id, shortcut.key);
+    if (conflict) {
+      setMessage(describeConflict(shortcut.key, conflict));
+      return;
+    }
+    setMessage(null);
+    void useShortcutStore.getState().setKey(shortcut.id, null);
+  };
+
+  const close = () => {
+    setRecordingId(null);
+    setMessage(null);
+    useShortcutStore.getState().setHelpOpen(false);
+  };
+
+  return (
+    <Modal
+      open={isOpen}
+      onOpenChange={(open) => !open && close()}
+      title="Keyboard shortcuts"
+      description="Shortcuts of the highlighted groups work here. Text fields only take shortcuts with Ctrl, Cmd or Alt, and Esc."
+      size="lg"
+    >
+      <div className="max-h-[60vh] space-y-6 overflow-y-auto">
+        {(message || error) && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+            {message ?? error}
+          </div>
+        )}
+        {conflicts.map(([first, second]) => (
+          <div
+            key={`${first.id}-${second.id}`}
+            className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800"
+          >
+            &quot;{first.title}&quot; and &quot;{second.title}&quot; are both
+            bound to {formatKey(getKey(first, keyMap))}
+          </div>
+        ))}
+
+        {SCOPES.map((scope) => (
+          <section key={scope}>
+            <h3
+              className={`mb-2 text-sm font-semibold ${
+                activeScopes.includes(scope)
+                  ? "text-blue-600 dark:text-blue-400"
+                  : "text-gray-500 dark:text-gray-400"
+              }`}
+            >
+              {SCOPE_NAMES[scope]}
+            </h3>
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {SHORTCUTS.filter((shortcut) => shortcut.scope === scope).map(
+                (shortcut) => (
+                  <li
+                    key={shortcut.id}
+                    className="flex items-center justify-between py-2 text-sm"
+                  >
+                    <span className="text-gray-700 dark:text-gray-200">
+                      {shortcut.title}
+                    </span>
+                    <div className="flex items-center space-x-2">
+                      <kbd className="rounded border border-gray-300 bg-gray-50 px-2 py-0.5 font-mono text-xs text-gray-700 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200">
+                        {recordingId === shortcut.id
+                          ? "Press a key…"
+                          : formatKey(getKey(shortcut, keyMap))}
+                      </kbd>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setMessage(null);
+                          setRecordingId(
+                            recordingId === shortcut.id ? null : shortcut.id
+                          );
+                        }}
+                      >
+                        {recordingId === shortcut.id ? "Cancel" : "Change"}
+                      </Button>
+                      {keyMap[shortcut.id] && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleReset(shortcut)}
+                        >
+                          Reset
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from "react";
+import { TaskChange, TaskComment } from "@/types/task";
+import { useCommentStore } from "@/store/commentStore";
+import { describeTaskChange } from "@/lib/activity";
+import { Button } from "./ui/button";
+import { Markdown } from "./ui/Markdown";
+
+const TEXTAREA_CLASSES =
+  "block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-gray-600 dark:bg-gray-700 dark:text-white";
+
+const CHANGE_COLORS: Record<TaskChange["changeType"], string> = {
+  create: "bg-green-500",
+  complete: "bg-purple-500",
+  uncomplete: "bg-yellow-500",
+  delete: "bg-red-500",
+  update: "bg-blue-500",
+};
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+interface TaskActivityFeedProps {
+  taskId: number;
+  // Changes to the task add entries to its history
+  updatedAt?: string;
+}
+
+function CommentEntry({ comment }: { comment: TaskComment }) {
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(comment.body);
+  const [showEdits, setShowEdits] = React.useState(false);
+
+  const handleSave = async () => {
+    await useCommentStore.getState().editComment(comment, draft);
+    if (!useCommentStore.getState().error) setIsEditing(false);
+  };
+
+  const handleDelete = async () => {
+    if (confirm("Delete this comment?")) {
+      await useCommentStore.getState().deleteComment(comment);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-3 dark:border-gray-700">
+      <div className="flex items-center justify-between">
+        <p className="text-sm">
+          <span className="font-medium text-gray-900 dark:text-white">
+            {comment.author}
+          </span>{" "}
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {formatTimestamp(comment.createdAt)}
+          </span>
+          {comment.edits.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowEdits(!showEdits)}
+              className="ml-2 text-xs text-gray-500 underline dark:text-gray-400"
+            >
+              edited
+            </button>
+          )}
+        </p>
+        {!isEditing && (
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft(comment.body);
+                setIsEditing(true);
+              }}
+            >
+              Edit
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleDelete}>
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            className={TEXTAREA_CLASSES}
+            aria-label="Edit comment"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!draft.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Markdown source={comment.body} className="mt-2 text-sm" />
+      )}
+
+      {/* Previous versions, newest first */}
+      {showEdits && (
+        <div className="mt-3 space-y-2 border-t border-gray-200 pt-3 dark:border-gray-700">
+          {[...comment.edits].reverse().map((edit, index) => (
+            <div key={index}>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Replaced {formatTimestamp(edit.editedAt)}
+              </p>
+              <Markdown
+                source={edit.body}
+                className="text-sm text-gray-500 dark:text-gray-400"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The comments of a task interleaved with its recorded changes, oldest
+// first, and a form to add a comment
+export function TaskActivityFeed({ taskId, updatedAt }: TaskActivityFeedProps) {
+  const activity = useCommentStore((state) => state.activityByTask[taskId]);
+  const error = useCommentStore((state) => state.error);
+  const [body, setBody] = React.useState("");
+
+  React.useEffect(() => {
+    void useCommentStore.getState().fetchActivity(taskId);
+  }, [taskId, updatedAt]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    await useCommentStore.getState().addComment(taskId, body);
+    if (!useCommentStore.getState().error) setBody("");
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {activity?.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No activity yet
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {activity?.map((entry) =>
+          entry.type === "comment" ? (
+            <CommentEntry
+              key={`comment-${entry.comment.id}`}
+              comment={entry.comment}
+            />
+          ) : (
+            <div
+              key={`change-${entry.change.id}`}
+              className="flex items-center space-x-3"
+            >
+              <div
+                className={`w-2 h-2 rounded-full ${
+                  CHANGE_COLORS[entry.change.changeType]
+                }`}
+              />
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {describeTaskChange(entry.change)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatTimestamp(entry.createdAt)}
+                </p>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          className={TEXTAREA_CLASSES}
+          placeholder="Add a comment (Markdown supported)"
+          aria-label="New comment"
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={!body.trim()}>
+            Comment
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
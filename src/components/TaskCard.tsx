@@ -2,9 +2,11 @@
 
 import * as React from "react";
 import { TaskWithRelations } from "@/types/task";
+import { isTaskBlocked } from "@/lib/dependencies";
 import { Button } from "./ui/button";
 import { Checkbox } from "./ui/checkbox";
 import { Badge } from "./ui/badge";
+import { HighlightedText } from "./ui/HighlightedText";
 // import { format } from "date-fns";
 
 interface TaskCardProps {
@@ -15,6 +17,9 @@ interface TaskCardProps {
   onDuplicate?: (task: TaskWithRelations) => void;
   onAddSubTask?: (task: TaskWithRelations) => void;
   onAddAttachment?: (task: TaskWithRelations) => void;
+  childCount?: number; // Subtasks nested under this task in the list
+  completion?: number; // Rolled-up percentage, defaults to task.completion
+  selected?: boolean; // Selected for keyboard shortcuts
   compact?: boolean;
   showLabels?: boolean;
   showSubTasks?: boolean;
@@ -30,6 +35,9 @@ export function TaskCard({
   onDuplicate,
   onAddSubTask,
   onAddAttachment,
+  childCount = 0,
+  completion = task.completion,
+  selected = false,
   compact = false,
   showLabels = true,
   showSubTasks = true,
@@ -61,9 +69,14 @@ export function TaskCard({
   const subTasksCompleted =
     task.subTasks?.filter((st) => st.isCompleted).length || 0;
   const subTasksTotal = task.subTasks?.length || 0;
+  const openBlockers = task.blockedBy?.filter((b) => !b.isCompleted) ?? [];
 
   return (
-    <div className="rounded-lg border bg-white p-4 shadow-sm dark:bg-gray-800">
+    <div
+      className={`rounded-lg border bg-white p-4 shadow-sm dark:bg-gray-800 ${
+        selected ? "ring-2 ring-blue-500" : ""
+      }`}
+    >
       <div className="flex items-start justify-between">
         <div className="flex items-start space-x-3">
           <Checkbox
@@ -80,13 +93,23 @@ export function TaskCard({
                   : "text-gray-900 dark:text-white"
               }`}
             >
-              {task.title}
+              {task.match ? (
+                <HighlightedText text={task.match.title} />
+              ) : (
+                task.title
+              )}
             </h3>
 
-            {task.description && (
+            {task.match && task.match.snippet !== task.match.title ? (
               <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
-                {task.description}
+                <HighlightedText text={task.match.snippet} />
               </p>
+            ) : (
+              task.description && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                  {task.description}
+                </p>
+              )
             )}
 
             {!compact && (
@@ -110,7 +133,7 @@ export function TaskCard({
                 {showSubTasks && task.subTasks && task.subTasks.length > 0 && (
                   <div className="mt-2">
                     <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
-                      <span>Subtasks</span>
+                      <span>Checklist</span>
                       <span>
                         {subTasksCompleted}/{subTasksTotal}
                       </span>
@@ -175,6 +198,29 @@ export function TaskCard({
 
         <div className="flex flex-col items-end space-y-2">
           <div className="flex items-center space-x-2">
+            {!task.isCompleted && isTaskBlocked(task) && (
+              <Badge
+                className="bg-orange-100 text-orange-800 text-xs"
+                title={`Waiting for ${openBlockers
+                  .map((blocker) => blocker.title)
+                  .join(", ")}`}
+              >
+                ⛔ Blocked
+              </Badge>
+            )}
+
+            {childCount > 0 && (
+              <Badge variant="outline" className="text-xs">
+                ⤷ {childCount}
+              </Badge>
+            )}
+
+            {completion !== undefined && (childCount > 0 || completion > 0) && (
+              <Badge variant="outline" className="text-xs">
+                {completion}% done
+              </Badge>
+            )}
+
             <Badge className={priorityColors[task.priority]}>
               {task.priority}
             </Badge>
@@ -1,17 +1,25 @@
 "use client";
 
 import * as React from "react";
-import {
-  Task,
-  TaskWithRelations,
-  Priority,
-  RecurrenceType,
-} from "@/types/task";
+import { Task, TaskWithRelations, Priority } from "@/types/task";
+import { recurrenceTypeToRRule } from "@/lib/rrule";
+import { sortByPosition } from "@/lib/ordering";
+import { resolveTaskReference } from "@/lib/task-links";
+import { validateCustomFieldValue } from "@/lib/validation";
+import { useCustomFieldStore } from "@/store/customFieldStore";
+import { useSectionStore } from "@/store/sectionStore";
+import { useTaskStore } from "@/store/taskStore";
+import { useTemplateStore } from "@/store/templateStore";
+import { useUIStore } from "@/store/uiStore";
+import { useShortcut, useShortcutScope } from "@/hooks/useShortcuts";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Select } from "./ui/select";
 import { Checkbox } from "./ui/checkbox";
 import { Modal } from "./ui/modal";
+import { CustomFieldInput } from "./ui/CustomFieldInput";
+import { MarkdownEditor } from "./ui/MarkdownEditor";
+import { RecurrenceBuilder } from "./ui/RecurrenceBuilder";
 
 interface TaskFormProps {
   task?: TaskWithRelations;
@@ -47,233 +55,470 @@ export function TaskForm({
     actualMinutes: task?.actualMinutes || 0,
     priority: task?.priority || "none",
     listId: task?.listId || lists[0]?.id || 0,
+    sectionId: task?.sectionId ?? null,
     isCompleted: task?.isCompleted || false,
     completedAt: task?.completedAt || "",
     isRecurring: task?.isRecurring || false,
     recurrenceType: task?.recurrenceType || undefined,
     recurrenceInterval: task?.recurrenceInterval || 1,
     recurrenceEndDate: task?.recurrenceEndDate || "",
+    recurrenceRule:
+      task?.recurrenceRule ||
+      recurrenceTypeToRRule(task?.recurrenceType, task?.recurrenceInterval) ||
+      undefined,
+    recurrenceExceptions: task?.recurrenceExceptions || [],
     reminders: task?.reminders || [],
+    customValues: task?.customValues || {},
   });
 
+  const sectionsById = useSectionStore((state) => state.byId);
+  const sections = sortByPosition(
+    Object.values(sectionsById).filter(
+      (section) => section.listId === formData.listId
+    )
+  );
+
+  const customFieldsById = useCustomFieldStore((state) => state.byId);
+  // Tasks the description can link to
+  const tasksById = useTaskStore((state) => state.byId);
+  const customFields = Object.values(customFieldsById)
+    .filter((field) => field.listId === formData.listId)
+    .sort((a, b) => a.id - b.id);
+  const customFieldErrors = Object.fromEntries(
+    customFields.map((field) => [
+      field.id,
+      validateCustomFieldValue(field, formData.customValues?.[field.id]),
+    ])
+  );
+
+  React.useEffect(() => {
+    if (formData.listId) {
+      void useSectionStore.getState().fetchSections(formData.listId);
+      void useCustomFieldStore.getState().fetchFields(formData.listId);
+    }
+  }, [formData.listId]);
+
+  const templatesById = useTemplateStore((state) => state.byId);
+  const templateError = useTemplateStore((state) => state.error);
+  const taskTemplates = Object.values(templatesById).filter(
+    (template) => template.kind === "task"
+  );
+
+  React.useEffect(() => {
+    if (mode === "create" && useTemplateStore.getState().loading === "idle") {
+      void useTemplateStore.getState().fetchTemplates();
+    }
+  }, [mode]);
+
+  // Template waiting for the values of its variables, and the values typed
+  const [templateToUse, setTemplateToUse] = React.useState<number | null>(null);
+  const [variableValues, setVariableValues] = React.useState<
+    Record<string, string>
+  >({});
+  // Name for the template the task is saved as; null while not asked for
+  const [templateName, setTemplateName] = React.useState<string | null>(null);
+
+  // The template creates the task with its subtasks in the chosen list and
+  // from the chosen date, which closes the form
+  const applyTemplate = async (
+    templateId: number,
+    variables: Record<string, string>
+  ) => {
+    const applied = await useTemplateStore
+      .getState()
+      .applyTemplate(templateId, {
+        listId: formData.listId,
+        date: formData.date,
+        variables,
+      });
+    if (applied) onCancel?.();
+  };
+
+  // A template with variables asks for their values first
+  const handleUseTemplate = async (templateId: number) => {
+    const template = templatesById[templateId];
+    if (!template) return;
+
+    if (template.variables.length > 0) {
+      setVariableValues(
+        Object.fromEntries(template.variables.map((variable) => [variable, ""]))
+      );
+      setTemplateToUse(templateId);
+      return;
+    }
+    await applyTemplate(templateId, {});
+  };
+
+  const handleVariablesSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (templateToUse === null) return;
+    setTemplateToUse(null);
+    await applyTemplate(templateToUse, variableValues);
+  };
+
+  const handleSaveAsTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = templateName?.trim();
+    if (task?.id === undefined || !name) return;
+    setTemplateName(null);
+
+    const template = await useTemplateStore
+      .getState()
+      .createTemplate({ name, taskId: task.id });
+    if (template) {
+      useUIStore.getState().addNotification({
+        type: "success",
+        message: `Saved template "${template.name}"`,
+      });
+    }
+  };
+
   const handleInputChange = (field: keyof Task, value: unknown) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (Object.values(customFieldErrors).some(Boolean)) return;
     await onSubmit(formData);
   };
 
-  return (
-    <form onSubmit={handleSubmit} className="space-y-4">
-      {error && (
-        <div className="rounded-md bg-red-50 p-4 text-red-700">{error}</div>
-      )}
-
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-        <div className="sm:col-span-2">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Title *
-          </label>
-          <Input
-            value={formData.title}
-            onChange={(e) => handleInputChange("title", e.target.value)}
-            placeholder="Task title"
-            required
-          />
-        </div>
+  const formRef = React.useRef<HTMLFormElement>(null);
+  useShortcutScope("form");
+  useShortcut("form.submit", () => formRef.current?.requestSubmit());
+  useShortcut("form.cancel", () => onCancel?.(), onCancel !== undefined);
 
-        <div className="sm:col-span-2">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Description
-          </label>
-          <textarea
-            value={formData.description || ""}
-            onChange={(e) => handleInputChange("description", e.target.value)}
-            rows={3}
-            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-gray-600 dark:bg-gray-700 dark:text-white"
-            placeholder="Task description"
-          />
-        </div>
+  return (
+    <>
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
+        {(error || templateError) && (
+          <div className="rounded-md bg-red-50 p-4 text-red-700">
+            {error || templateError}
+          </div>
+        )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Date *
-          </label>
-          <Input
-            type="date"
-            value={formData.date}
-            onChange={(e) => handleInputChange("date", e.target.value)}
-            required
+        {mode === "create" && taskTemplates.length > 0 && (
+          <Select
+            value=""
+            onChange={(e) => handleUseTemplate(Number(e.target.value))}
+            placeholder="Create from a template…"
+            options={taskTemplates.map((template) => ({
+              value: template.id,
+              label: template.name,
+            }))}
           />
-        </div>
+        )}
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Deadline
-          </label>
-          <Input
-            type="datetime-local"
-            value={formData.deadline || ""}
-            onChange={(e) => handleInputChange("deadline", e.target.value)}
-          />
-        </div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Title *
+            </label>
+            <Input
+              value={formData.title}
+              onChange={(e) => handleInputChange("title", e.target.value)}
+              placeholder="Task title"
+              required
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Priority
-          </label>
-          <Select
-            value={formData.priority}
-            onChange={(e) =>
-              handleInputChange("priority", e.target.value as Priority)
-            }
-            options={[
-              { value: "none", label: "No priority" },
-              { value: "low", label: "Low" },
-              { value: "medium", label: "Medium" },
-              { value: "high", label: "High" },
-            ]}
-          />
-        </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Description
+            </label>
+            <MarkdownEditor
+              value={formData.description || ""}
+              onChange={(value) => handleInputChange("description", value)}
+              resolveTask={(ref) =>
+                resolveTaskReference(ref, Object.values(tasksById))
+              }
+              className="mt-1"
+              placeholder="Task description"
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            List
-          </label>
-          <Select
-            value={formData.listId.toString()}
-            onChange={(e) =>
-              handleInputChange("listId", Number(e.target.value))
-            }
-            options={lists.map((list) => ({
-              value: list.id.toString(),
-              label: `${list.emoji} ${list.name}`,
-            }))}
-          />
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Date *
+            </label>
+            <Input
+              type="date"
+              value={formData.date}
+              onChange={(e) => handleInputChange("date", e.target.value)}
+              required
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Estimate Hours
-          </label>
-          <Input
-            type="number"
-            min="0"
-            max="23"
-            value={formData.estimateHours || 0}
-            onChange={(e) =>
-              handleInputChange("estimateHours", Number(e.target.value))
-            }
-          />
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Deadline
+            </label>
+            <Input
+              type="datetime-local"
+              value={formData.deadline || ""}
+              onChange={(e) => handleInputChange("deadline", e.target.value)}
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            Estimate Minutes
-          </label>
-          <Input
-            type="number"
-            min="0"
-            max="59"
-            value={formData.estimateMinutes || 0}
-            onChange={(e) =>
-              handleInputChange("estimateMinutes", Number(e.target.value))
-            }
-          />
-        </div>
-      </div>
-
-      <div className="flex items-center space-x-4">
-        <Checkbox
-          checked={formData.isCompleted}
-          onChange={(checked) => handleInputChange("isCompleted", checked)}
-          label="Mark as completed"
-        />
-
-        <Checkbox
-          checked={formData.isRecurring}
-          onChange={(checked) => handleInputChange("isRecurring", checked)}
-          label="Recurring task"
-        />
-      </div>
-
-      {formData.isRecurring && (
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Recurrence Type
+              Priority
             </label>
             <Select
-              value={formData.recurrenceType || ""}
+              value={formData.priority}
               onChange={(e) =>
-                handleInputChange(
-                  "recurrenceType",
-                  e.target.value as RecurrenceType
-                )
+                handleInputChange("priority", e.target.value as Priority)
               }
               options={[
-                { value: "", label: "Select recurrence type" },
-                { value: "daily", label: "Daily" },
-                { value: "weekly", label: "Weekly" },
-                { value: "weekday", label: "Weekdays" },
-                { value: "monthly", label: "Monthly" },
-                { value: "yearly", label: "Yearly" },
+                { value: "none", label: "No priority" },
+                { value: "low", label: "Low" },
+                { value: "medium", label: "Medium" },
+                { value: "high", label: "High" },
               ]}
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              Interval
+              List
+            </label>
+            <Select
+              value={formData.listId.toString()}
+              onChange={(e) =>
+                // Sections and custom fields belong to a single list
+                setFormData((prev) => ({
+                  ...prev,
+                  listId: Number(e.target.value),
+                  sectionId: null,
+                  customValues: {},
+                }))
+              }
+              options={lists.map((list) => ({
+                value: list.id.toString(),
+                label: `${list.emoji} ${list.name}`,
+              }))}
+            />
+          </div>
+
+          {sections.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Section
+              </label>
+              <Select
+                value={formData.sectionId?.toString() ?? ""}
+                onChange={(e) =>
+                  handleInputChange(
+                    "sectionId",
+                    e.target.value ? Number(e.target.value) : null
+                  )
+                }
+                options={[
+                  { value: "", label: "No section" },
+                  ...sections.map((section) => ({
+                    value: section.id.toString(),
+                    label: section.name,
+                  })),
+                ]}
+              />
+            </div>
+          )}
+
+          {customFields.map((field) => (
+            <div key={field.id}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {field.name}
+              </label>
+              <CustomFieldInput
+                field={field}
+                value={formData.customValues?.[field.id]}
+                onChange={(value) =>
+                  handleInputChange("customValues", {
+                    ...formData.customValues,
+                    [field.id]: value,
+                  })
+                }
+              />
+              {customFieldErrors[field.id] && (
+                <p className="mt-1 text-sm text-red-600">
+                  {customFieldErrors[field.id]}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Estimate Hours
             </label>
             <Input
               type="number"
-              min="1"
-              value={formData.recurrenceInterval || 1}
+              min="0"
+              max="23"
+              value={formData.estimateHours || 0}
               onChange={(e) =>
-                handleInputChange("recurrenceInterval", Number(e.target.value))
+                handleInputChange("estimateHours", Number(e.target.value))
               }
             />
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-              End Date
+              Estimate Minutes
             </label>
             <Input
-              type="date"
-              value={formData.recurrenceEndDate || ""}
+              type="number"
+              min="0"
+              max="59"
+              value={formData.estimateMinutes || 0}
               onChange={(e) =>
-                handleInputChange("recurrenceEndDate", e.target.value)
+                handleInputChange("estimateMinutes", Number(e.target.value))
               }
             />
           </div>
         </div>
-      )}
-
-      <div className="flex justify-end space-x-3">
-        {onDelete && task && (
-          <Button
-            type="button"
-            variant="destructive"
-            onClick={() => onDelete(task)}
-          >
-            Delete
-          </Button>
+
+        <div className="flex items-center space-x-4">
+          <Checkbox
+            checked={formData.isCompleted}
+            onChange={(checked) => handleInputChange("isCompleted", checked)}
+            label="Mark as completed"
+          />
+
+          <Checkbox
+            checked={formData.isRecurring}
+            onChange={(checked) => {
+              handleInputChange("isRecurring", checked);
+              if (!formData.recurrenceRule) {
+                handleInputChange("recurrenceRule", "FREQ=WEEKLY");
+              }
+            }}
+            label="Recurring task"
+          />
+        </div>
+
+        {formData.isRecurring && (
+          <RecurrenceBuilder
+            value={formData.recurrenceRule}
+            startDate={formData.date}
+            exceptions={formData.recurrenceExceptions}
+            onChange={(rule) => handleInputChange("recurrenceRule", rule)}
+            onExceptionsChange={(dates) =>
+              handleInputChange("recurrenceExceptions", dates)
+            }
+          />
         )}
-        <Button type="button" variant="outline" onClick={onCancel}>
-          Cancel
-        </Button>
-        <Button type="submit" disabled={loading}>
-          {loading
-            ? "Saving..."
-            : mode === "create"
-            ? "Create Task"
-            : "Update Task"}
-        </Button>
-      </div>
-    </form>
+
+        <div className="flex justify-end space-x-3">
+          {mode === "edit" && task?.id !== undefined && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setTemplateName(task.title)}
+            >
+              Save as template
+            </Button>
+          )}
+          {onDelete && task && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => onDelete(task)}
+            >
+              Delete
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={loading}>
+            {loading
+              ? "Saving..."
+              : mode === "create"
+                ? "Create Task"
+                : "Update Task"}
+          </Button>
+        </div>
+      </form>
+
+      <Modal
+        open={templateToUse !== null}
+        onOpenChange={(open) => {
+          if (!open) setTemplateToUse(null);
+        }}
+        title={
+          templateToUse !== null
+            ? templatesById[templateToUse]?.name
+            : undefined
+        }
+        description="Fill in the template's variables"
+        size="sm"
+      >
+        <form onSubmit={handleVariablesSubmit} className="space-y-4">
+          {Object.keys(variableValues).map((variable, index) => (
+            <div key={variable}>
+              <label
+                htmlFor={`template-variable-${variable}`}
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                {`{{${variable}}}`}
+              </label>
+              <Input
+                id={`template-variable-${variable}`}
+                value={variableValues[variable]}
+                onChange={(e) =>
+                  setVariableValues((prev) => ({
+                    ...prev,
+                    [variable]: e.target.value,
+                  }))
+                }
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setTemplateToUse(null)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">Create Task</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal
+        open={templateName !== null}
+        onOpenChange={(open) => {
+          if (!open) setTemplateName(null);
+        }}
+        title="Save as template"
+        size="sm"
+      >
+        <form onSubmit={handleSaveAsTemplate} className="space-y-4">
+          <Input
+            value={templateName ?? ""}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name"
+            aria-label="Template name"
+            autoFocus
+          />
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setTemplateName(null)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!templateName?.trim()}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </>
   );
 }
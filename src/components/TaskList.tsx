@@ -1,12 +1,32 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import {
+  CustomFieldSort,
+  Placement,
+  TaskDestination,
+  TaskWithRelations,
+} from "@/types/task";
+import { sortByCustomField } from "@/lib/custom-fields";
+import { getPlacement, sortByPosition } from "@/lib/ordering";
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  rollUpCompletion,
+  TaskNode,
+} from "@/lib/task-tree";
 import { TaskCard } from "./TaskCard";
+import {
+  AnimatedDraggableItem,
+  AnimatedReorderItem,
+  AnimatedReorderList,
+} from "./ui/AnimatedTaskCard";
+import { useTaskStore } from "@/store/taskStore";
+import { useShortcutStore } from "@/store/shortcutStore";
 import { LoadingSpinner } from "./ui/LoadingSpinner";
 import { ErrorMessage } from "./ui/ErrorMessage";
 
-interface TaskListProps {
+export interface TaskListProps {
   tasks: TaskWithRelations[];
   loading?: boolean;
   error?: string;
@@ -15,6 +35,19 @@ interface TaskListProps {
   onTaskDelete?: (task: TaskWithRelations) => void;
   onTaskDuplicate?: (task: TaskWithRelations) => void;
   onTaskClick?: (task: TaskWithRelations) => void;
+  // Enables drag and drop; tasks are then shown in their manual order
+  onTaskReorder?: (
+    task: TaskWithRelations,
+    placement: Placement
+  ) => Promise<void>;
+  // Lets tasks be dragged onto another day or list instead
+  onTaskDrop?: (
+    task: TaskWithRelations,
+    destination: TaskDestination
+  ) => Promise<void>;
+  // Orders tasks by a custom field of their list instead, without drag
+  // and drop
+  sortBy?: CustomFieldSort;
   emptyState?: React.ReactNode;
   compact?: boolean;
   showLabels?: boolean;
@@ -34,6 +67,9 @@ export function TaskList({
   onTaskDelete,
   onTaskDuplicate,
   onTaskClick,
+  onTaskReorder,
+  onTaskDrop,
+  sortBy,
   emptyState,
   compact = false,
   showLabels = true,
@@ -44,6 +80,31 @@ export function TaskList({
   onScrollToBottom,
 }: TaskListProps) {
   const containerRef = React.useRef<HTMLDivElement>(null);
+  const reorderable = onTaskReorder && !sortBy;
+  // Subtasks are indented under their parent when both are in the list
+  const nodes = React.useMemo(() => {
+    const ordered = onTaskReorder ? sortByPosition(tasks) : tasks;
+    return flattenTaskTree(
+      buildTaskTree(sortBy ? sortByCustomField(ordered, sortBy) : ordered)
+    );
+  }, [tasks, onTaskReorder, sortBy]);
+  // The order shown while a task is dragged, until the move is saved
+  const [dragOrder, setDragOrder] = React.useState<
+    TaskNode<TaskWithRelations>[] | null
+  >(null);
+  const selectedTaskId = useTaskStore((state) => state.selectedTaskId);
+
+  // The list shortcuts move through and act on the tasks shown here
+  React.useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    return useShortcutStore.getState().registerTaskList({
+      element,
+      tasks: nodes.map((node) => node.task),
+      onToggle: onTaskToggle,
+      onEdit: onTaskEdit,
+    });
+  }, [nodes, onTaskToggle, onTaskEdit, loading, error]);
 
   React.useEffect(() => {
     const container = containerRef.current;
@@ -62,6 +123,55 @@ export function TaskList({
     return () => container.removeEventListener("scroll", handleScroll);
   }, [onScrollToBottom]);
 
+  // A task keeps its place among the tasks sharing its parent
+  const handleDragEnd = async (dragged: TaskNode<TaskWithRelations>) => {
+    if (!dragOrder || !onTaskReorder || dragged.task.id === undefined) return;
+    const siblingsIn = (order: TaskNode<TaskWithRelations>[]) =>
+      order
+        .filter(
+          (node) =>
+            node.depth === dragged.depth &&
+            (node.depth === 0 ||
+              node.task.parentTaskId === dragged.task.parentTaskId)
+        )
+        .map((node) => node.task);
+
+    const placement = getPlacement(siblingsIn(dragOrder), dragged.task.id);
+    const previous = getPlacement(siblingsIn(nodes), dragged.task.id);
+    if (
+      placement.afterId !== previous.afterId ||
+      placement.beforeId !== previous.beforeId
+    ) {
+      await onTaskReorder(dragged.task, placement);
+    }
+    setDragOrder(null);
+  };
+
+  const renderCard = (node: TaskNode<TaskWithRelations>) => (
+    <div
+      data-task-id={node.task.id}
+      onClick={() => useTaskStore.getState().selectTask(node.task.id ?? null)}
+    >
+      <TaskCard
+        task={node.task}
+        onToggle={onTaskToggle}
+        onEdit={onTaskEdit}
+        onDelete={onTaskDelete}
+        onDuplicate={onTaskDuplicate}
+        childCount={node.children.length}
+        completion={
+          node.children.length > 0 ? rollUpCompletion(node) : undefined
+        }
+        selected={node.task.id === selectedTaskId}
+        compact={compact}
+        showLabels={showLabels}
+        showSubTasks={showSubTasks}
+        showAttachments={showAttachments}
+        showActions={showActions}
+      />
+    </div>
+  );
+
   if (loading && tasks.length === 0) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -102,21 +212,47 @@ export function TaskList({
         virtualized ? "max-h-[600px] overflow-y-auto" : ""
       }`}
     >
-      {tasks.map((task) => (
-        <TaskCard
-          key={task.id}
-          task={task}
-          onToggle={onTaskToggle}
-          onEdit={onTaskEdit}
-          onDelete={onTaskDelete}
-          onDuplicate={onTaskDuplicate}
-          compact={compact}
-          showLabels={showLabels}
-          showSubTasks={showSubTasks}
-          showAttachments={showAttachments}
-          showActions={showActions}
-        />
-      ))}
+      {reorderable ? (
+        <AnimatedReorderList
+          values={dragOrder ?? nodes}
+          onReorder={setDragOrder}
+          className="space-y-3"
+        >
+          {(dragOrder ?? nodes).map((node, index) => (
+            <AnimatedReorderItem
+              key={node.task.id}
+              value={node}
+              index={index}
+              onDragEnd={() => void handleDragEnd(node)}
+              className="cursor-grab active:cursor-grabbing"
+              style={{ marginLeft: `${node.depth * 1.5}rem` }}
+            >
+              {renderCard(node)}
+            </AnimatedReorderItem>
+          ))}
+        </AnimatedReorderList>
+      ) : onTaskDrop ? (
+        nodes.map((node, index) => (
+          <AnimatedDraggableItem
+            key={node.task.id}
+            index={index}
+            onDrop={(destination) => void onTaskDrop(node.task, destination)}
+            className="cursor-grab active:z-10 active:cursor-grabbing"
+            style={{ marginLeft: `${node.depth * 1.5}rem` }}
+          >
+            {renderCard(node)}
+          </AnimatedDraggableItem>
+        ))
+      ) : (
+        nodes.map((node) => (
+          <div
+            key={node.task.id}
+            style={{ marginLeft: `${node.depth * 1.5}rem` }}
+          >
+            {renderCard(node)}
+          </div>
+        ))
+      )}
 
       {loading && (
         <div className="flex justify-center py-4">
@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import { Button } from "../ui/button";
+import { QuickAdd } from "../QuickAdd";
 
 interface HeaderProps {
   title?: string;
@@ -48,8 +49,11 @@ export function Header({
           </div>
         </div>
 
-        <div className="flex flex-1 items-center justify-center px-4">
+        <div className="flex flex-1 items-center justify-center space-x-2 px-4">
           <div className="w-full max-w-2xl">
+            <QuickAdd />
+          </div>
+          <div className="w-full max-w-xs">
             <div className="relative">
               <input
                 type="text"
@@ -2,14 +2,48 @@
 
 import * as React from "react";
 import { Button } from "../ui/button";
+import {
+  AnimatedReorderItem,
+  AnimatedReorderList,
+} from "../ui/AnimatedTaskCard";
+import { Select } from "../ui/select";
+import { useListStore } from "@/store/listStore";
+import { useFolderStore } from "@/store/folderStore";
+import { useSavedFilterStore } from "@/store/savedFilterStore";
+import { useTemplateStore } from "@/store/templateStore";
+import { useUIStore } from "@/store/uiStore";
+import { getPlacement, sortByPosition } from "@/lib/ordering";
+import { List, ListFolder } from "@/types/task";
+import { getSavedFilterView, ViewType } from "@/store/viewStore";
 // import { X } from "lucide-react";
 
 interface SidebarProps {
   open: boolean;
   onClose: () => void;
+  currentView?: string;
+  onViewChange?: (view: ViewType) => void;
 }
 
-export function Sidebar({ open, onClose }: SidebarProps) {
+export function Sidebar({
+  open,
+  onClose,
+  currentView,
+  onViewChange,
+}: SidebarProps) {
+  const { allIds: savedFilterIds, byId: savedFiltersById } =
+    useSavedFilterStore();
+
+  const listsById = useListStore((state) => state.byId);
+  const foldersById = useFolderStore((state) => state.byId);
+  const listTaskCounts = useFolderStore((state) => state.listTaskCounts);
+  const collapsedFolders = useUIStore((state) => state.collapsedFolders);
+
+  React.useEffect(() => {
+    void useListStore.getState().fetchLists();
+    void useFolderStore.getState().fetchFolders();
+    void useSavedFilterStore.getState().fetchSavedFilters();
+  }, []);
+
   const navigation = [
     { name: "Today", href: "/today", icon: "📅" },
     { name: "Next 7 Days", href: "/next-7-days", icon: "📆" },
@@ -18,11 +52,182 @@ export function Sidebar({ open, onClose }: SidebarProps) {
     { name: "Inbox", href: "/inbox", icon: "📥" },
   ];
 
-  const lists = [
-    { name: "Personal", color: "#FF5733", emoji: "🏠" },
-    { name: "Work", color: "#33FF57", emoji: "💼" },
-    { name: "Shopping", color: "#3357FF", emoji: "🛒" },
-  ];
+  // Inbox is listed under Views
+  const inboxId = Object.values(listsById).find((list) => list.isMagic)?.id;
+  const lists = React.useMemo(
+    () =>
+      sortByPosition(Object.values(listsById).filter((list) => !list.isMagic)),
+    [listsById]
+  );
+  const folders = sortByPosition(Object.values(foldersById));
+  const archivedFolders = folders.filter((folder) => folder.archivedAt);
+  const archivedLists = lists.filter((list) => list.archivedAt);
+  // Archived lists and lists in an archived folder are hidden
+  const visibleLists = lists.filter(
+    (list) =>
+      !list.archivedAt &&
+      (!list.folderId || !foldersById[list.folderId]?.archivedAt)
+  );
+  const isInFolder = (list: List) =>
+    !!list.folderId && foldersById[list.folderId] !== undefined;
+
+  // The order shown while a list is dragged within its folder, or outside
+  // any folder, until the move is saved
+  const [dragOrder, setDragOrder] = React.useState<{
+    folderId: number | null;
+    lists: List[];
+  } | null>(null);
+
+  const handleDragEnd = async (list: List, folderLists: List[]) => {
+    if (!dragOrder || list.id === undefined) return;
+    const placement = getPlacement(dragOrder.lists, list.id);
+    const previous = getPlacement(folderLists, list.id);
+    if (
+      placement.afterId !== previous.afterId ||
+      placement.beforeId !== previous.beforeId
+    ) {
+      await useListStore.getState().moveList(list.id, placement);
+    }
+    setDragOrder(null);
+  };
+
+  const handleCreateFolder = async () => {
+    const name = prompt("Folder name")?.trim();
+    if (name) await useFolderStore.getState().createFolder(name);
+  };
+
+  const handleRenameFolder = async (folder: ListFolder) => {
+    const name = prompt("Folder name", folder.name)?.trim();
+    if (name && name !== folder.name) {
+      await useFolderStore.getState().updateFolder(folder.id, { name });
+    }
+  };
+
+  const handleDeleteFolder = async (folder: ListFolder) => {
+    if (confirm(`Delete the folder "${folder.name}"? Its lists are kept.`)) {
+      await useFolderStore.getState().deleteFolder(folder.id);
+    }
+  };
+
+  const handleDuplicateList = async (list: List) => {
+    const startDate = prompt(
+      `Copy "${list.name}" starting on (YYYY-MM-DD), or leave empty to keep its dates`
+    );
+    if (startDate === null) return;
+    await useListStore
+      .getState()
+      .duplicateList(
+        list.id,
+        startDate.trim() ? { startDate: startDate.trim() } : {}
+      );
+  };
+
+  const handleSaveListAsTemplate = async (list: List) => {
+    const name = prompt("Template name", list.name)?.trim();
+    if (!name) return;
+    const template = await useTemplateStore
+      .getState()
+      .createTemplate({ name, listId: list.id });
+    if (template) {
+      useUIStore.getState().addNotification({
+        type: "success",
+        message: `Saved template "${template.name}"`,
+      });
+    }
+  };
+
+  // The lists of a folder, or those in no folder when folderId is null,
+  // followed by a picker that moves another list in
+  const renderListGroup = (folderId: number | null, folderLists: List[]) => {
+    const shownLists =
+      dragOrder?.folderId === folderId ? dragOrder.lists : folderLists;
+    const otherLists = visibleLists.filter((list) =>
+      folderId === null ? isInFolder(list) : list.folderId !== folderId
+    );
+
+    return (
+      <>
+        <AnimatedReorderList
+          values={shownLists}
+          onReorder={(order) => setDragOrder({ folderId, lists: order })}
+        >
+          {shownLists.map((list, index) => (
+            <AnimatedReorderItem
+              key={list.id}
+              value={list}
+              index={index}
+              onDragEnd={() => void handleDragEnd(list, folderLists)}
+              className="cursor-grab active:cursor-grabbing"
+            >
+              <div className="group flex items-center rounded-md hover:bg-gray-100 dark:hover:bg-gray-800">
+                <a
+                  href={`/lists/${list.name.toLowerCase()}`}
+                  draggable={false}
+                  data-drop-list-id={list.id}
+                  className="flex flex-1 items-center space-x-3 px-2 py-2 text-gray-700 dark:text-gray-200"
+                >
+                  <span
+                    className="inline-block h-6 w-6 rounded"
+                    style={{ backgroundColor: list.color }}
+                  >
+                    <span className="ml-1">{list.emoji}</span>
+                  </span>
+                  <span className="flex-1 truncate">{list.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {listTaskCounts[list.id] ?? 0}
+                  </span>
+                </a>
+                <div className="hidden items-center pr-1 group-hover:flex">
+                  <button
+                    type="button"
+                    title="Duplicate list"
+                    onClick={() => handleDuplicateList(list)}
+                    className="px-1 text-gray-500 hover:text-gray-700"
+                  >
+                    ⧉
+                  </button>
+                  <button
+                    type="button"
+                    title="Save list as a template"
+                    onClick={() => handleSaveListAsTemplate(list)}
+                    className="px-1 text-gray-500 hover:text-gray-700"
+                  >
+                    📋
+                  </button>
+                  <button
+                    type="button"
+                    title="Archive list"
+                    onClick={() =>
+                      useListStore.getState().setListArchived(list.id, true)
+                    }
+                    className="px-1 text-gray-500 hover:text-gray-700"
+                  >
+                    🗄️
+                  </button>
+                </div>
+              </div>
+            </AnimatedReorderItem>
+          ))}
+        </AnimatedReorderList>
+        {otherLists.length > 0 && (
+          <Select
+            value=""
+            onChange={(e) =>
+              useListStore
+                .getState()
+                .moveListToFolder(Number(e.target.value), folderId)
+            }
+            placeholder={folderId === null ? "Take a list out…" : "Add a list…"}
+            options={otherLists.map((list) => ({
+              value: list.id,
+              label: `${list.emoji} ${list.name}`,
+            }))}
+            className="mt-1 h-8 text-xs"
+          />
+        )}
+      </>
+    );
+  };
 
   return (
     <>
@@ -64,6 +269,8 @@ export function Sidebar({ open, onClose }: SidebarProps) {
               <a
                 key={item.name}
                 href={item.href}
+                // Tasks dragged from a view can be dropped on a list
+                data-drop-list-id={item.name === "Inbox" ? inboxId : undefined}
                 className="flex items-center space-x-3 rounded-md px-2 py-2 text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
               >
                 <span>{item.icon}</span>
@@ -73,24 +280,186 @@ export function Sidebar({ open, onClose }: SidebarProps) {
           </div>
 
           <div>
-            <h3 className="px-2 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
-              Lists
-            </h3>
-            {lists.map((list) => (
-              <a
-                key={list.name}
-                href={`/lists/${list.name.toLowerCase()}`}
-                className="flex items-center space-x-3 rounded-md px-2 py-2 text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                Lists
+              </h3>
+              <button
+                type="button"
+                onClick={handleCreateFolder}
+                className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
               >
-                <span
-                  className="inline-block h-6 w-6 rounded"
-                  style={{ backgroundColor: list.color }}
-                >
-                  <span className="ml-1">{list.emoji}</span>
-                </span>
-                <span>{list.name}</span>
-              </a>
-            ))}
+                + Folder
+              </button>
+            </div>
+
+            {folders
+              .filter((folder) => !folder.archivedAt)
+              .map((folder) => {
+                const folderLists = visibleLists.filter(
+                  (list) => list.folderId === folder.id
+                );
+                const collapsed = collapsedFolders[folder.id];
+                return (
+                  <div key={folder.id}>
+                    <div className="group flex items-center rounded-md hover:bg-gray-100 dark:hover:bg-gray-800">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          useUIStore.getState().toggleFolderCollapsed(folder.id)
+                        }
+                        aria-expanded={!collapsed}
+                        className="flex flex-1 items-center space-x-2 px-2 py-2 text-left text-gray-700 dark:text-gray-200"
+                      >
+                        <span className="text-gray-500">
+                          {collapsed ? "▸" : "▾"}
+                        </span>
+                        <span>📁</span>
+                        <span className="flex-1 truncate">{folder.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {folderLists.reduce(
+                            (total, list) =>
+                              total + (listTaskCounts[list.id] ?? 0),
+                            0
+                          )}
+                        </span>
+                      </button>
+                      <div className="hidden items-center pr-1 group-hover:flex">
+                        <button
+                          type="button"
+                          title="Rename folder"
+                          onClick={() => handleRenameFolder(folder)}
+                          className="px-1 text-gray-500 hover:text-gray-700"
+                        >
+                          ✎
+                        </button>
+                        <button
+                          type="button"
+                          title="Archive folder"
+                          onClick={() =>
+                            useFolderStore
+                              .getState()
+                              .updateFolder(folder.id, { archived: true })
+                          }
+                          className="px-1 text-gray-500 hover:text-gray-700"
+                        >
+                          🗄️
+                        </button>
+                        <button
+                          type="button"
+                          title="Delete folder"
+                          onClick={() => handleDeleteFolder(folder)}
+                          className="px-1 text-gray-500 hover:text-gray-700"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                    {!collapsed && (
+                      <div className="ml-4">
+                        {renderListGroup(folder.id, folderLists)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+            {renderListGroup(
+              null,
+              visibleLists.filter((list) => !isInFolder(list))
+            )}
+
+            {(archivedFolders.length > 0 || archivedLists.length > 0) && (
+              <div className="mt-2">
+                <h4 className="px-2 text-xs text-gray-500 dark:text-gray-400">
+                  Archived
+                </h4>
+                {archivedLists.map((list) => (
+                  <div
+                    key={list.id}
+                    className="flex items-center justify-between px-2 py-1 text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    <span className="truncate">
+                      {list.emoji} {list.name}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        useListStore.getState().setListArchived(list.id, false)
+                      }
+                    >
+                      Unarchive
+                    </Button>
+                  </div>
+                ))}
+                {archivedFolders.map((folder) => (
+                  <div
+                    key={folder.id}
+                    className="flex items-center justify-between px-2 py-1 text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    <span className="truncate">📁 {folder.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        useFolderStore
+                          .getState()
+                          .updateFolder(folder.id, { archived: false })
+                      }
+                    >
+                      Unarchive
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {savedFilterIds.length > 0 && (
+            <div className="mt-4">
+              <h3 className="px-2 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                Smart Lists
+              </h3>
+              {savedFilterIds.map((id) => {
+                const savedFilter = savedFiltersById[id];
+                const view = getSavedFilterView(id);
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => onViewChange?.(view)}
+                    className={`flex w-full items-center space-x-3 rounded-md px-2 py-2 text-left text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800 ${
+                      currentView === view ? "bg-gray-100 dark:bg-gray-800" : ""
+                    }`}
+                  >
+                    <span
+                      className="inline-block h-6 w-6 rounded"
+                      style={{ backgroundColor: savedFilter.color }}
+                    >
+                      <span className="ml-1">{savedFilter.emoji}</span>
+                    </span>
+                    <span className="flex-1 truncate">{savedFilter.name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {savedFilter.taskCount}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4 border-t pt-4">
+            <button
+              type="button"
+              onClick={() => onViewChange?.("trash")}
+              className={`flex w-full items-center space-x-3 rounded-md px-2 py-2 text-left text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800 ${
+                currentView === "trash" ? "bg-gray-100 dark:bg-gray-800" : ""
+              }`}
+            >
+              <span>🗑️</span>
+              <span>Trash</span>
+            </button>
           </div>
         </nav>
       </aside>
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import {
   Filter,
   Calendar,
@@ -10,27 +10,30 @@ import {
   Save,
   Folder,
   Search,
+  SlidersHorizontal,
 } from "lucide-react";
 import { Button } from "./button";
 import { Input } from "./input";
 import { Badge } from "./badge";
-import { Priority, TaskFilter } from "@/types/task";
+import {
+  CustomField,
+  CustomFieldValue,
+  Priority,
+  SavedFilterCriteria,
+  TaskFilter,
+} from "@/types/task";
+import { formatCustomValue } from "@/lib/custom-fields";
+import { useCustomFieldStore } from "@/store/customFieldStore";
 import { useListStore } from "@/store/listStore";
+import { useSavedFilterStore } from "@/store/savedFilterStore";
 
 interface AdvancedFilterBarProps {
   filters: TaskFilter;
   onFiltersChange: (filters: TaskFilter) => void;
-  onClear: () => void;
+  onClear?: () => void;
   className?: string;
 }
 
-interface SavedFilter {
-  id: string;
-  name: string;
-  filters: TaskFilter;
-  createdAt: Date;
-}
-
 export function AdvancedFilterBar({
   filters,
   onFiltersChange,
@@ -38,14 +41,40 @@ export function AdvancedFilterBar({
   className,
 }: AdvancedFilterBarProps) {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
-  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [saveFilterName, setSaveFilterName] = useState("");
+  const [saveFilterEmoji, setSaveFilterEmoji] = useState("🔍");
+  const [saveFilterColor, setSaveFilterColor] = useState("#6366F1");
+
+  const savedFilters = useSavedFilterStore((state) =>
+    state.allIds.map((id) => state.byId[id])
+  );
+  const savedFiltersLoading = useSavedFilterStore((state) => state.loading);
+  const saveError = useSavedFilterStore((state) => state.error);
+
+  useEffect(() => {
+    if (savedFiltersLoading === "idle") {
+      void useSavedFilterStore.getState().fetchSavedFilters();
+    }
+  }, [savedFiltersLoading]);
 
   const lists = useListStore((state) =>
     state.allIds.map((id) => state.byId[id])
   );
 
+  // Custom fields can be filtered once a list is chosen
+  const customFieldsById = useCustomFieldStore((state) => state.byId);
+  const customFields = Object.values(customFieldsById)
+    .filter((field) => field.listId === filters.listId)
+    .sort((a, b) => a.id - b.id);
+  const customFieldFilters = filters.customFields ?? {};
+
+  useEffect(() => {
+    if (filters.listId) {
+      void useCustomFieldStore.getState().fetchFields(filters.listId);
+    }
+  }, [filters.listId]);
+
   const priorityOptions: Priority[] = ["none", "low", "medium", "high"];
   const statusOptions = [
     { value: "all", label: "All" },
@@ -57,6 +86,93 @@ export function AdvancedFilterBar({
     onFiltersChange({ ...filters, ...updates });
   };
 
+  // Undefined stops filtering on the field
+  const handleCustomFieldChange = (
+    field: CustomField,
+    value: CustomFieldValue | undefined
+  ) => {
+    const customFields = { ...customFieldFilters };
+    delete customFields[field.id];
+    if (value !== undefined && value !== "") customFields[field.id] = value;
+    handleFilterChange({
+      customFields:
+        Object.keys(customFields).length > 0 ? customFields : undefined,
+    });
+  };
+
+  const renderCustomFieldFilter = (field: CustomField) => {
+    const value = customFieldFilters[field.id];
+    switch (field.type) {
+      case "checkbox":
+        return (
+          <select
+            value={value === undefined ? "any" : String(value)}
+            onChange={(e) =>
+              handleCustomFieldChange(
+                field,
+                e.target.value === "any" ? undefined : e.target.value === "true"
+              )
+            }
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="any">Any</option>
+            <option value="true">Checked</option>
+            <option value="false">Unchecked</option>
+          </select>
+        );
+      case "select":
+        return (
+          <select
+            value={typeof value === "string" ? value : "any"}
+            onChange={(e) =>
+              handleCustomFieldChange(
+                field,
+                e.target.value === "any" ? undefined : e.target.value
+              )
+            }
+            className="w-full px-3 py-2 border rounded-md"
+          >
+            <option value="any">Any</option>
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case "number":
+        return (
+          <Input
+            type="number"
+            step="any"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) =>
+              handleCustomFieldChange(
+                field,
+                e.target.value === "" ? undefined : Number(e.target.value)
+              )
+            }
+          />
+        );
+      case "date":
+        return (
+          <Input
+            type="date"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => handleCustomFieldChange(field, e.target.value)}
+          />
+        );
+      case "text":
+        return (
+          <Input
+            placeholder="Contains…"
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => handleCustomFieldChange(field, e.target.value)}
+          />
+        );
+    }
+  };
+
   const clearAllFilters = () => {
     onFiltersChange({
       search: "",
@@ -70,8 +186,37 @@ export function AdvancedFilterBar({
       orderBy: "createdAt",
       orderDirection: "desc",
       completed: undefined,
+      customFields: undefined,
     });
-    onClear();
+    onClear?.();
+  };
+
+  // Only the criteria are saved; paging and sorting stay with the view
+  const handleSaveFilter = async () => {
+    if (!saveFilterName.trim()) return;
+
+    const criteria: SavedFilterCriteria = {
+      search: filters.search || undefined,
+      priority: filters.priority,
+      status: filters.status,
+      listId: filters.listId,
+      date: filters.date || undefined,
+      customFields: filters.customFields,
+    };
+
+    const savedFilter = await useSavedFilterStore
+      .getState()
+      .createSavedFilter({
+        name: saveFilterName.trim(),
+        emoji: saveFilterEmoji,
+        color: saveFilterColor,
+        filter: criteria,
+      });
+
+    if (savedFilter) {
+      setSaveFilterName("");
+      setShowSaveDialog(false);
+    }
   };
 
   const activeFiltersCount = useMemo(() => {
@@ -81,6 +226,7 @@ export function AdvancedFilterBar({
     if (filters.status !== "all") count++;
     if (filters.listId) count++;
     if (filters.date) count++;
+    count += Object.keys(filters.customFields ?? {}).length;
     return count;
   }, [filters]);
 
@@ -130,8 +276,10 @@ export function AdvancedFilterBar({
         <select
           value={filters.listId?.toString() || "all"}
           onChange={(e) =>
+            // Custom fields belong to the list
             handleFilterChange({
               listId: e.target.value === "all" ? undefined : parseInt(e.target.value),
+              customFields: undefined,
             })
           }
           className="w-[200px] px-3 py-2 border rounded-md"
@@ -199,6 +347,18 @@ export function AdvancedFilterBar({
             </div>
           </div>
 
+          {/* Custom Fields of the chosen list */}
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {customFields.map((field) => (
+                <div key={field.id} className="space-y-2">
+                  <label className="text-xs text-gray-500">{field.name}</label>
+                  {renderCustomFieldFilter(field)}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Saved Filters */}
           {savedFilters.length > 0 && (
             <div className="space-y-2">
@@ -210,18 +370,30 @@ export function AdvancedFilterBar({
                     className="flex items-center justify-between p-2 border rounded"
                   >
                     <div className="flex items-center gap-2">
-                      <Folder className="h-4 w-4 text-gray-500" />
+                      <span>{filter.emoji}</span>
                       <span className="text-sm">{filter.name}</span>
                       <Badge variant="secondary" className="text-xs">
-                        {filter.filters.search || "Custom"}
+                        {filter.filter.search || "Custom"}
                       </Badge>
+                      <span className="text-xs text-gray-500">
+                        {filter.taskCount}
+                      </span>
                     </div>
                     <div className="flex items-center gap-2">
                       <Button
                         variant="ghost"
                         size="sm"
                         onClick={() => {
-                          onFiltersChange(filter.filters);
+                          onFiltersChange({
+                            ...filters,
+                            search: "",
+                            priority: undefined,
+                            status: "all",
+                            listId: undefined,
+                            date: undefined,
+                            customFields: undefined,
+                            ...filter.filter,
+                          });
                           setIsAdvancedOpen(false);
                         }}
                       >
@@ -230,7 +402,11 @@ export function AdvancedFilterBar({
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => setSavedFilters(savedFilters.filter(f => f.id !== filter.id))}
+                        onClick={() =>
+                          useSavedFilterStore
+                            .getState()
+                            .deleteSavedFilter(filter.id)
+                        }
                       >
                         <X className="h-4 w-4" />
                       </Button>
@@ -248,7 +424,8 @@ export function AdvancedFilterBar({
         filters.priority ||
         filters.status !== "all" ||
         filters.listId ||
-        filters.date) && (
+        filters.date ||
+        filters.customFields) && (
         <div className="flex items-center gap-2 flex-wrap">
           <span className="text-sm text-gray-500">Active filters:</span>
           {filters.search && (
@@ -316,6 +493,26 @@ export function AdvancedFilterBar({
               </Button>
             </Badge>
           )}
+          {customFields
+            .filter((field) => customFieldFilters[field.id] !== undefined)
+            .map((field) => (
+              <Badge
+                key={field.id}
+                variant="secondary"
+                className="flex items-center gap-2"
+              >
+                <SlidersHorizontal className="h-3 w-3" />
+                {field.name}:{" "}
+                {formatCustomValue(field, customFieldFilters[field.id])}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCustomFieldChange(field, undefined)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </Badge>
+            ))}
         </div>
       )}
 
@@ -330,6 +527,25 @@ export function AdvancedFilterBar({
               onChange={(e) => setSaveFilterName(e.target.value)}
               className="mb-4"
             />
+            <div className="flex gap-2 mb-4">
+              <Input
+                placeholder="Emoji"
+                value={saveFilterEmoji}
+                onChange={(e) => setSaveFilterEmoji(e.target.value)}
+                maxLength={4}
+                className="w-20"
+              />
+              <input
+                type="color"
+                value={saveFilterColor}
+                onChange={(e) => setSaveFilterColor(e.target.value.toUpperCase())}
+                className="h-10 w-14 border rounded-md"
+                aria-label="Colour"
+              />
+            </div>
+            {saveError && (
+              <p className="text-sm text-red-600 mb-4">{saveError}</p>
+            )}
             <div className="flex gap-2 justify-end">
               <Button
                 variant="outline"
@@ -338,19 +554,8 @@ export function AdvancedFilterBar({
                 Cancel
               </Button>
               <Button
-                onClick={() => {
-                  if (!saveFilterName.trim()) return;
-                  const newFilter: SavedFilter = {
-                    id: Date.now().toString(),
-                    name: saveFilterName,
-                    filters: { ...filters },
-                    createdAt: new Date(),
-                  };
-                  setSavedFilters([...savedFilters, newFilter]);
-                  setSaveFilterName("");
-                  setShowSaveDialog(false);
-                }}
-                disabled={!saveFilterName.trim()}
+                onClick={handleSaveFilter}
+                disabled={!saveFilterName.trim() || !saveFilterEmoji.trim()}
               >
                 <Save className="h-4 w-4 mr-2" />
                 Save Filter
@@ -1,14 +1,26 @@
 "use client";
 
 import React, { useState, useEffect, useMemo, useRef } from "react";
-import { Search, X, Clock, Star, Tag, Filter, Sparkles } from "lucide-react";
+import {
+  Search,
+  X,
+  Clock,
+  Star,
+  Tag,
+  Filter,
+  Sparkles,
+  CornerDownRight,
+} from "lucide-react";
 import { Input } from "./input";
 import { Button } from "./button";
 import { Badge } from "./badge";
 import { Command } from "cmdk";
 import { useSearchStore } from "@/store/searchStore";
 import { useTaskStore } from "@/store/taskStore";
+import { useListStore } from "@/store/listStore";
+import { useLabelStore } from "@/store/labelStore";
 import { useDebounce } from "@/hooks/useDebounce";
+import { getSearchCompletions } from "@/lib/search-query";
 
 interface AdvancedSearchBarProps {
   value?: string;
@@ -25,7 +37,8 @@ interface AdvancedSearchBarProps {
 interface SearchSuggestion {
   id: string;
   text: string;
-  type: "recent" | "saved" | "popular";
+  label?: string;
+  type: "completion" | "recent" | "saved" | "popular";
   icon?: React.ReactNode;
 }
 
@@ -46,12 +59,29 @@ export function AdvancedSearchBar({
 
   const { searchHistory, filters, setFilters } = useSearchStore();
   const { allIds, byId } = useTaskStore();
+  const { allIds: listIds, byId: listsById } = useListStore();
+  const { allIds: labelIds, byId: labelsById } = useLabelStore();
   const debouncedValue = useDebounce(internalValue, debounce);
 
-  // Update suggestions based on search history and popular searches
+  // Update suggestions based on the term being typed, search history and
+  // popular searches
   const suggestions = useMemo(() => {
     const suggestions: SearchSuggestion[] = [];
 
+    const completions = getSearchCompletions(internalValue, {
+      lists: listIds.map((id) => listsById[id].name),
+      labels: labelIds.map((id) => labelsById[id].name),
+    });
+    if (completions.length > 0) {
+      return completions.map((completion, index) => ({
+        id: `completion-${index}`,
+        text: completion.value,
+        label: completion.label,
+        type: "completion" as const,
+        icon: <CornerDownRight className="h-4 w-4 text-blue-500" />,
+      }));
+    }
+
     // Recent searches
     if (searchHistory.length > 0) {
       suggestions.push(
@@ -82,12 +112,14 @@ export function AdvancedSearchBar({
     );
 
     return suggestions;
-  }, [searchHistory]);
+  }, [internalValue, searchHistory, listIds, listsById, labelIds, labelsById]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     setInternalValue(newValue);
     onChange?.(newValue);
+    setIsOpen(true);
+    setSelectedIndex(0);
   };
 
   const handleSearch = () => {
@@ -97,7 +129,11 @@ export function AdvancedSearchBar({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
+    const suggestion = suggestions[selectedIndex];
+    if (e.key === "Tab" && isOpen && suggestion?.type === "completion") {
+      e.preventDefault();
+      handleSuggestionClick(suggestion);
+    } else if (e.key === "Enter") {
       e.preventDefault();
       handleSearch();
     } else if (e.key === "ArrowDown") {
@@ -115,6 +151,11 @@ export function AdvancedSearchBar({
   const handleSuggestionClick = (suggestion: SearchSuggestion) => {
     setInternalValue(suggestion.text);
     onChange?.(suggestion.text);
+    setSelectedIndex(0);
+
+    // Completions only finish the term being typed
+    if (suggestion.type === "completion") return;
+
     setIsOpen(false);
     setSelectedIndex(0);
     setTimeout(handleSearch, 0);
@@ -187,7 +228,8 @@ export function AdvancedSearchBar({
                 Quick Actions
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400">
-                Type / to search, or use filters below
+                Filter with priority:, list:, #label, due:, is:, has:, - and
+                OR
               </div>
             </div>
 
@@ -206,11 +248,12 @@ export function AdvancedSearchBar({
                         ? "bg-gray-100 dark:bg-gray-800"
                         : ""
                     )}
+                    onMouseDown={(e) => e.preventDefault()}
                     onClick={() => handleSuggestionClick(suggestion)}
                   >
                     <div className="flex items-center gap-2">
                       {suggestion.icon}
-                      <span>{suggestion.text}</span>
+                      <span>{suggestion.label || suggestion.text}</span>
                       <Badge variant="secondary" className="ml-auto">
                         {suggestion.type}
                       </Badge>
@@ -1,9 +1,9 @@
 "use client";
 
 import React from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import { motion, AnimatePresence, Reorder } from "framer-motion";
 import { TaskCard } from "../TaskCard";
-import { TaskWithRelations } from "@/types/task";
+import { TaskDestination, TaskWithRelations } from "@/types/task";
 
 interface AnimatedTaskCardProps {
   task: TaskWithRelations;
@@ -127,6 +127,127 @@ export function AnimatedTaskList({
   );
 }
 
+interface AnimatedReorderListProps<T> {
+  values: T[];
+  onReorder: (values: T[]) => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+// A vertical list whose AnimatedReorderItem children can be dragged into a
+// new order; onReorder gets the new order while dragging
+export function AnimatedReorderList<T>({
+  values,
+  onReorder,
+  children,
+  className,
+}: AnimatedReorderListProps<T>) {
+  return (
+    <Reorder.Group
+      as="div"
+      axis="y"
+      values={values}
+      onReorder={onReorder}
+      className={className}
+    >
+      {children}
+    </Reorder.Group>
+  );
+}
+
+interface AnimatedReorderItemProps<T> {
+  value: T;
+  index: number;
+  onDragEnd: () => void;
+  children: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Animates in like AnimatedTaskCard and lifts while it is dragged
+export function AnimatedReorderItem<T>({
+  value,
+  index,
+  onDragEnd,
+  children,
+  className,
+  style,
+}: AnimatedReorderItemProps<T>) {
+  return (
+    <Reorder.Item
+      as="div"
+      value={value}
+      custom={index}
+      variants={cardVariants}
+      initial="hidden"
+      animate="visible"
+      whileDrag="hover"
+      onDragEnd={onDragEnd}
+      className={className}
+      style={{ position: "relative", ...style }}
+    >
+      {children}
+    </Reorder.Item>
+  );
+}
+
+interface AnimatedDraggableItemProps {
+  index: number;
+  onDrop: (destination: TaskDestination) => void;
+  children: React.ReactNode;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Can be dragged anywhere and springs back when let go; dropping it on an
+// element marked with data-drop-date or data-drop-list-id reports that
+// day or list
+export function AnimatedDraggableItem({
+  index,
+  onDrop,
+  children,
+  className,
+  style,
+}: AnimatedDraggableItemProps) {
+  return (
+    <motion.div
+      custom={index}
+      variants={cardVariants}
+      initial="hidden"
+      animate="visible"
+      drag
+      dragSnapToOrigin
+      whileDrag="hover"
+      onDragEnd={(event, info) => {
+        const destination = getDropDestination(info.point);
+        if (destination) onDrop(destination);
+      }}
+      className={className}
+      style={{ position: "relative", ...style }}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+// The innermost drop target under a point given in page coordinates
+function getDropDestination(point: {
+  x: number;
+  y: number;
+}): TaskDestination | null {
+  const elements = document.elementsFromPoint(
+    point.x - window.scrollX,
+    point.y - window.scrollY
+  );
+  for (const element of elements) {
+    if (!(element instanceof HTMLElement)) continue;
+    const { dropDate, dropListId } = element.dataset;
+    if (dropDate) return { date: dropDate };
+    if (dropListId) return { listId: parseInt(dropListId) };
+  }
+  return null;
+}
+
 interface AnimatedPageWrapperProps {
   children: React.ReactNode;
   className?: string;
@@ -0,0 +1,83 @@
+"use client";
+
+import * as React from "react";
+import { CustomField, CustomFieldValue } from "@/types/task";
+import { Checkbox } from "./checkbox";
+import { Input } from "./input";
+import { Select } from "./select";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  // Emptying the input clears the value with null
+  onChange: (value: CustomFieldValue | null) => void;
+  className?: string;
+}
+
+// The input matching the type of a custom field
+export function CustomFieldInput({
+  field,
+  value,
+  onChange,
+  className,
+}: CustomFieldInputProps) {
+  switch (field.type) {
+    case "checkbox":
+      return (
+        <Checkbox
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          aria-label={field.name}
+          className={className}
+        />
+      );
+    case "select":
+      return (
+        <Select
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+          options={[
+            { value: "", label: "None" },
+            ...field.options.map((option) => ({
+              value: option,
+              label: option,
+            })),
+          ]}
+          aria-label={field.name}
+          className={className}
+        />
+      );
+    case "number":
+      return (
+        <Input
+          type="number"
+          step="any"
+          value={typeof value === "number" ? value : ""}
+          onChange={(e) =>
+            onChange(e.target.value === "" ? null : Number(e.target.value))
+          }
+          aria-label={field.name}
+          className={className}
+        />
+      );
+    case "date":
+      return (
+        <Input
+          type="date"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+          aria-label={field.name}
+          className={className}
+        />
+      );
+    case "text":
+      return (
+        <Input
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value || null)}
+          aria-label={field.name}
+          className={className}
+        />
+      );
+  }
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import * as React from "react";
+import { splitHighlights } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Render search highlights without interpreting the rest of the text as HTML
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlights(text).map((part, index) =>
+        part.highlighted ? (
+          <mark
+            key={index}
+            className="rounded bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import * as React from "react";
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  parseMarkdown,
+  TaskReference,
+} from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+// What a task link needs to show
+export type LinkedTask = {
+  id?: number;
+  title: string;
+  isCompleted?: boolean;
+};
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+  // Checkboxes are read-only unless they can be toggled
+  onToggleCheckbox?: (line: number) => void;
+  // Task references are shown as written unless they can be resolved
+  resolveTask?: (ref: TaskReference) => LinkedTask | undefined;
+  onOpenTask?: (task: LinkedTask) => void;
+}
+
+type RenderOptions = Omit<MarkdownProps, "source" | "className">;
+
+const HEADING_CLASSES = [
+  "text-xl font-bold",
+  "text-lg font-bold",
+  "text-base font-semibold",
+];
+
+const LINK_CLASSES =
+  "text-blue-600 underline hover:text-blue-700 dark:text-blue-400";
+
+function renderTaskRef(
+  node: Extract<MarkdownInline, { type: "taskRef" }>,
+  index: number,
+  { resolveTask, onOpenTask }: RenderOptions
+): React.ReactNode {
+  const task = resolveTask?.(node.ref);
+  if (!task) {
+    return (
+      <span
+        key={index}
+        className="text-gray-500 dark:text-gray-400"
+        title={resolveTask ? "No such task" : undefined}
+      >
+        {node.text}
+      </span>
+    );
+  }
+
+  const label = "id" in node.ref ? `#${node.ref.id} ${task.title}` : task.title;
+  const className = cn(LINK_CLASSES, task.isCompleted && "line-through");
+  return onOpenTask ? (
+    <button
+      key={index}
+      type="button"
+      onClick={() => onOpenTask(task)}
+      className={className}
+    >
+      {label}
+    </button>
+  ) : (
+    <span key={index} className={className}>
+      {label}
+    </span>
+  );
+}
+
+function renderInline(
+  nodes: MarkdownInline[],
+  options: RenderOptions
+): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 py-0.5 font-mono text-sm dark:bg-gray-700"
+          >
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={index}>{renderInline(node.children, options)}</strong>
+        );
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target={node.href.startsWith("http") ? "_blank" : undefined}
+            rel="noopener noreferrer"
+            className={LINK_CLASSES}
+          >
+            {renderInline(node.children, options)}
+          </a>
+        );
+      case "taskRef":
+        return renderTaskRef(node, index, options);
+      case "break":
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlock(
+  block: MarkdownBlock,
+  index: number,
+  options: RenderOptions
+): React.ReactNode {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as "h3";
+      return (
+        <Heading
+          key={index}
+          className={HEADING_CLASSES[block.level - 1] ?? "font-semibold"}
+        >
+          {renderInline(block.children, options)}
+        </Heading>
+      );
+    }
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children, options)}</p>;
+    case "code":
+      return (
+        <pre
+          key={index}
+          className="overflow-x-auto rounded-md bg-gray-100 p-3 font-mono text-sm dark:bg-gray-900"
+        >
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote
+          key={index}
+          className="space-y-2 border-l-4 border-gray-300 pl-3 text-gray-600 dark:border-gray-600 dark:text-gray-400"
+        >
+          {block.children.map((child, childIndex) =>
+            renderBlock(child, childIndex, options)
+          )}
+        </blockquote>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      const isChecklist = block.items.some(
+        (item) => item.checked !== undefined
+      );
+      return (
+        <List
+          key={index}
+          className={cn(
+            "space-y-1",
+            isChecklist && "list-none pl-1",
+            !isChecklist && "pl-6",
+            !isChecklist && (block.ordered ? "list-decimal" : "list-disc")
+          )}
+        >
+          {block.items.map((item) =>
+            item.checked === undefined ? (
+              <li key={item.line}>{renderInline(item.children, options)}</li>
+            ) : (
+              <li key={item.line} className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  disabled={!options.onToggleCheckbox}
+                  onChange={() => options.onToggleCheckbox?.(item.line)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span
+                  className={cn(item.checked && "text-gray-500 line-through")}
+                >
+                  {renderInline(item.children, options)}
+                </span>
+              </li>
+            )
+          )}
+        </List>
+      );
+    }
+  }
+}
+
+// Renders Markdown source; headings start at h3 so they nest under the
+// card titles they are shown in
+export function Markdown({ source, className, ...options }: MarkdownProps) {
+  const blocks = React.useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div
+      className={cn(
+        "space-y-2 break-words text-gray-700 dark:text-gray-300",
+        className
+      )}
+    >
+      {blocks.map((block, index) => renderBlock(block, index, options))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import * as React from "react";
+import { TaskReference } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import { LinkedTask, Markdown } from "./Markdown";
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  resolveTask?: (ref: TaskReference) => LinkedTask | undefined;
+}
+
+const TAB_CLASSES = "rounded-md px-2 py-1 text-xs font-medium";
+
+// A textarea for Markdown with a preview of how it will be shown
+export function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  rows = 3,
+  className,
+  resolveTask,
+}: MarkdownEditorProps) {
+  const [isPreview, setIsPreview] = React.useState(false);
+
+  const tab = (preview: boolean, label: string) => (
+    <button
+      type="button"
+      onClick={() => setIsPreview(preview)}
+      aria-pressed={isPreview === preview}
+      className={cn(
+        TAB_CLASSES,
+        isPreview === preview
+          ? "bg-gray-200 text-gray-900 dark:bg-gray-600 dark:text-white"
+          : "text-gray-500 hover:text-gray-700 dark:text-gray-400"
+      )}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className={className}>
+      <div className="mb-1 flex items-center space-x-1">
+        {tab(false, "Write")}
+        {tab(true, "Preview")}
+        <span className="ml-auto text-xs text-gray-400">
+          Markdown, - [ ] checkboxes, [[Task title]] or #id links
+        </span>
+      </div>
+      {isPreview ? (
+        <div className="min-h-[5rem] rounded-md border border-gray-300 px-3 py-2 dark:border-gray-600">
+          {value.trim() ? (
+            <Markdown
+              source={value}
+              resolveTask={resolveTask}
+              className="text-sm"
+            />
+          ) : (
+            <p className="text-sm text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          className="block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          placeholder={placeholder}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import * as React from "react";
+import {
+  Frequency,
+  RRule,
+  Weekday,
+  WEEKDAYS,
+  describeRRule,
+  formatRRule,
+  getOccurrences,
+  parseRRule,
+} from "@/lib/rrule";
+import { Button } from "./button";
+import { Input } from "./input";
+import { Select } from "./select";
+
+interface RecurrenceBuilderProps {
+  value?: string;
+  startDate: string;
+  exceptions?: string[];
+  onChange: (rule: string) => void;
+  onExceptionsChange: (exceptions: string[]) => void;
+  previewCount?: number;
+}
+
+type MonthlyMode = "monthDay" | "nthWeekday" | "lastBusinessDay";
+type EndMode = "never" | "until" | "count";
+
+interface BuilderState {
+  freq: Frequency;
+  interval: number;
+  weekdays: Weekday[];
+  monthlyMode: MonthlyMode;
+  monthDay: number;
+  nth: number;
+  nthWeekday: Weekday;
+  endMode: EndMode;
+  until: string;
+  count: number;
+}
+
+const BUSINESS_DAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+const WEEK_ORDER: Weekday[] = [...BUSINESS_DAYS, "SA", "SU"];
+
+function startWeekday(startDate: string): Weekday {
+  return WEEKDAYS[new Date(`${startDate}T00:00:00Z`).getUTCDay()];
+}
+
+function toState(value: string | undefined, startDate: string): BuilderState {
+  const state: BuilderState = {
+    freq: "WEEKLY",
+    interval: 1,
+    weekdays: [],
+    monthlyMode: "monthDay",
+    monthDay: Number(startDate.split("-")[2]) || 1,
+    nth: 1,
+    nthWeekday: startWeekday(startDate),
+    endMode: "never",
+    until: "",
+    count: 10,
+  };
+
+  let rule: RRule;
+  try {
+    rule = parseRRule(value || "FREQ=WEEKLY");
+  } catch {
+    return state;
+  }
+
+  state.freq = rule.freq;
+  state.interval = rule.interval;
+
+  if (rule.until) {
+    state.endMode = "until";
+    state.until = rule.until;
+  } else if (rule.count !== undefined) {
+    state.endMode = "count";
+    state.count = rule.count;
+  }
+
+  if (rule.freq === "WEEKLY") {
+    state.weekdays = (rule.byDay || []).map((d) => d.weekday);
+  } else if (rule.freq === "MONTHLY") {
+    const ordinal = rule.byDay?.find((d) => d.ordinal !== undefined);
+    if (rule.bySetPos?.[0] === -1 && rule.byDay?.length === 5) {
+      state.monthlyMode = "lastBusinessDay";
+    } else if (ordinal) {
+      state.monthlyMode = "nthWeekday";
+      state.nth = ordinal.ordinal!;
+      state.nthWeekday = ordinal.weekday;
+    } else if (rule.byMonthDay?.length) {
+      state.monthDay = rule.byMonthDay[0];
+    }
+  }
+
+  return state;
+}
+
+function toRule(state: BuilderState): RRule {
+  const rule: RRule = { freq: state.freq, interval: Math.max(state.interval, 1) };
+
+  if (state.freq === "WEEKLY" && state.weekdays.length > 0) {
+    // Keep BYDAY in calendar order regardless of click order
+    rule.byDay = WEEK_ORDER
+      .filter((wd) => state.weekdays.includes(wd))
+      .map((weekday) => ({ weekday }));
+  }
+
+  if (state.freq === "MONTHLY") {
+    if (state.monthlyMode === "monthDay") {
+      rule.byMonthDay = [state.monthDay];
+    } else if (state.monthlyMode === "nthWeekday") {
+      rule.byDay = [{ weekday: state.nthWeekday, ordinal: state.nth }];
+    } else {
+      rule.byDay = BUSINESS_DAYS.map((weekday) => ({ weekday }));
+      rule.bySetPos = [-1];
+    }
+  }
+
+  if (state.endMode === "until" && state.until) {
+    rule.until = state.until;
+  } else if (state.endMode === "count") {
+    rule.count = Math.max(state.count, 1);
+  }
+
+  return rule;
+}
+
+export function RecurrenceBuilder({
+  value,
+  startDate,
+  exceptions = [],
+  onChange,
+  onExceptionsChange,
+  previewCount = 5,
+}: RecurrenceBuilderProps) {
+  const [state, setState] = React.useState<BuilderState>(() =>
+    toState(value, startDate)
+  );
+  const [newException, setNewException] = React.useState("");
+
+  const rule = React.useMemo(() => toRule(state), [state]);
+
+  const preview = React.useMemo(
+    () => getOccurrences(rule, startDate, { limit: previewCount, exceptions }),
+    [rule, startDate, previewCount, exceptions]
+  );
+
+  const update = (patch: Partial<BuilderState>) => {
+    const next = { ...state, ...patch };
+    setState(next);
+    onChange(formatRRule(toRule(next)));
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    update({
+      weekdays: state.weekdays.includes(weekday)
+        ? state.weekdays.filter((wd) => wd !== weekday)
+        : [...state.weekdays, weekday],
+    });
+  };
+
+  const addException = () => {
+    if (newException && !exceptions.includes(newException)) {
+      onExceptionsChange([...exceptions, newException].sort());
+    }
+    setNewException("");
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border border-gray-200 p-4 dark:border-gray-700">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Repeat
+          </label>
+          <Select
+            value={state.freq}
+            onChange={(e) => update({ freq: e.target.value as Frequency })}
+            options={[
+              { value: "DAILY", label: "Daily" },
+              { value: "WEEKLY", label: "Weekly" },
+              { value: "MONTHLY", label: "Monthly" },
+              { value: "YEARLY", label: "Yearly" },
+            ]}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Interval
+          </label>
+          <Input
+            type="number"
+            min="1"
+            value={state.interval}
+            onChange={(e) => update({ interval: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {state.freq === "WEEKLY" && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            On
+          </label>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {WEEK_ORDER.map((weekday) => (
+              <Button
+                key={weekday}
+                type="button"
+                size="sm"
+                variant={state.weekdays.includes(weekday) ? "primary" : "outline"}
+                onClick={() => toggleWeekday(weekday)}
+              >
+                {weekday}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {state.freq === "MONTHLY" && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Monthly on
+            </label>
+            <Select
+              value={state.monthlyMode}
+              onChange={(e) =>
+                update({ monthlyMode: e.target.value as MonthlyMode })
+              }
+              options={[
+                { value: "monthDay", label: "Day of month" },
+                { value: "nthWeekday", label: "Weekday of month" },
+                { value: "lastBusinessDay", label: "Last business day" },
+              ]}
+            />
+          </div>
+
+          {state.monthlyMode === "monthDay" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Day
+              </label>
+              <Select
+                value={state.monthDay}
+                onChange={(e) => update({ monthDay: Number(e.target.value) })}
+                options={[
+                  ...Array.from({ length: 31 }, (_, i) => ({
+                    value: i + 1,
+                    label: String(i + 1),
+                  })),
+                  { value: -1, label: "Last day" },
+                ]}
+              />
+            </div>
+          )}
+
+          {state.monthlyMode === "nthWeekday" && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Week
+                </label>
+                <Select
+                  value={state.nth}
+                  onChange={(e) => update({ nth: Number(e.target.value) })}
+                  options={[
+                    { value: 1, label: "First" },
+                    { value: 2, label: "Second" },
+                    { value: 3, label: "Third" },
+                    { value: 4, label: "Fourth" },
+                    { value: -1, label: "Last" },
+                  ]}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Weekday
+                </label>
+                <Select
+                  value={state.nthWeekday}
+                  onChange={(e) =>
+                    update({ nthWeekday: e.target.value as Weekday })
+                  }
+                  options={WEEK_ORDER.map((wd) => ({
+                    value: wd,
+                    label: wd,
+                  }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Ends
+          </label>
+          <Select
+            value={state.endMode}
+            onChange={(e) => update({ endMode: e.target.value as EndMode })}
+            options={[
+              { value: "never", label: "Never" },
+              { value: "until", label: "On date" },
+              { value: "count", label: "After occurrences" },
+            ]}
+          />
+        </div>
+
+        {state.endMode === "until" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              End Date
+            </label>
+            <Input
+              type="date"
+              value={state.until}
+              onChange={(e) => update({ until: e.target.value })}
+            />
+          </div>
+        )}
+
+        {state.endMode === "count" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Occurrences
+            </label>
+            <Input
+              type="number"
+              min="1"
+              value={state.count}
+              onChange={(e) => update({ count: Number(e.target.value) })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Skip dates
+        </label>
+        <div className="mt-1 flex gap-2">
+          <Input
+            type="date"
+            value={newException}
+            onChange={(e) => setNewException(e.target.value)}
+          />
+          <Button type="button" variant="outline" onClick={addException}>
+            Add
+          </Button>
+        </div>
+        {exceptions.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {exceptions.map((date) => (
+              <button
+                key={date}
+                type="button"
+                onClick={() =>
+                  onExceptionsChange(exceptions.filter((d) => d !== date))
+                }
+                className="rounded-full bg-gray-100 px-2 py-1 text-xs text-gray-700 hover:bg-red-100 hover:text-red-700 dark:bg-gray-700 dark:text-gray-300"
+              >
+                {date} ×
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {describeRRule(rule)}
+        </p>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Next: {preview.length > 0 ? preview.join(", ") : "no occurrences"}
+        </p>
+      </div>
+    </div>
+  );
+}
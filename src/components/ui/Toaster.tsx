@@ -0,0 +1,67 @@
+"use client";
+
+import * as React from "react";
+import { X } from "lucide-react";
+import { useUIStore } from "@/store/uiStore";
+import { Button } from "./button";
+
+const typeClasses = {
+  success: "border-green-200 dark:border-green-800",
+  error: "border-red-200 dark:border-red-800",
+  warning: "border-yellow-200 dark:border-yellow-800",
+  info: "border-gray-200 dark:border-gray-700",
+};
+
+// Shows the notifications queued on the UI store, with their actions
+export function Toaster() {
+  const notifications = useUIStore((state) => state.notifications);
+  const removeNotification = useUIStore((state) => state.removeNotification);
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {notifications.map((notification) => (
+        <div
+          key={notification.id}
+          role={notification.type === "error" ? "alert" : "status"}
+          className={`flex items-center gap-3 rounded-lg border bg-white dark:bg-gray-800 p-3 shadow-lg ${
+            typeClasses[notification.type]
+          }`}
+        >
+          <div className="flex-1 min-w-0">
+            {notification.title && (
+              <p className="text-sm font-medium text-gray-900 dark:text-white">
+                {notification.title}
+              </p>
+            )}
+            <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
+              {notification.message}
+            </p>
+          </div>
+          {notification.actions?.map((action) => (
+            <Button
+              key={action.label}
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                action.onClick();
+                removeNotification(notification.id);
+              }}
+            >
+              {action.label}
+            </Button>
+          ))}
+          <button
+            type="button"
+            onClick={() => removeNotification(notification.id)}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
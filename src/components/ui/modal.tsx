@@ -1,6 +1,7 @@
 "use client";
 
 import * as React from "react";
+import { useShortcut, useShortcutScope } from "@/hooks/useShortcuts";
 
 export interface ModalProps {
   open: boolean;
@@ -35,23 +36,18 @@ const Modal = ({
     full: "max-w-full w-full",
   };
 
-  React.useEffect(() => {
-    const handleEscape = (event: KeyboardEvent) => {
-      if (event.key === "Escape" && closeOnEscape && open) {
-        onOpenChange(false);
-      }
-    };
+  useShortcutScope("modal", open);
+  useShortcut("modal.close", () => onOpenChange(false), open && closeOnEscape);
 
+  React.useEffect(() => {
     if (open) {
-      document.addEventListener("keydown", handleEscape);
       document.body.style.overflow = "hidden";
     }
 
     return () => {
-      document.removeEventListener("keydown", handleEscape);
       document.body.style.overflow = "unset";
     };
-  }, [open, closeOnEscape, onOpenChange]);
+  }, [open]);
 
   if (!open) return null;
 
@@ -4,14 +4,14 @@ import * as React from "react";
 import { TaskWithRelations } from "@/types/task";
 import { TaskList } from "@/components/TaskList";
 import { TaskForm } from "@/components/TaskForm";
-import { SearchBar } from "@/components/ui/SearchBar";
-import { FilterBar } from "@/components/ui/FilterBar";
+import { AdvancedFilterBar } from "@/components/ui/AdvancedFilterBar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { matchesTaskFilter } from "@/lib/custom-fields";
 import { useTaskStore } from "@/store/taskStore";
 import { useListStore } from "@/store/listStore";
 import { useLabelStore } from "@/store/labelStore";
-import { useSearchStore } from "@/store/searchStore";
+import { useCustomFieldStore } from "@/store/customFieldStore";
 
 export function AllView() {
   const [showForm, setShowForm] = React.useState(false);
@@ -26,17 +26,19 @@ export function AllView() {
     state.allIds.map((id) => state.byId[id])
   );
   const labels = useLabelStore((state) => state.allIds.map(id => state.byId[id]));
-  const searchQuery = useSearchStore((state) => state.query);
-  const searchResults = useSearchStore((state) => state.results);
-  const isSearching = useSearchStore((state) => state.isSearching);
+  const filter = useTaskStore((state) => state.filter);
+  const customFieldsById = useCustomFieldStore((state) => state.byId);
 
   // Get all tasks
   const allTasks = React.useMemo(() => {
     return Object.values(tasks);
   }, [tasks]);
 
-  // Use search results if searching
-  const displayTasks = isSearching ? searchResults : allTasks;
+  // The tasks meeting the filter bar's criteria
+  const displayTasks = React.useMemo(() => {
+    const fields = Object.values(customFieldsById);
+    return allTasks.filter((task) => matchesTaskFilter(task, filter, fields));
+  }, [allTasks, filter, customFieldsById]);
 
   // Handle task operations
   const handleTaskToggle = async (task: TaskWithRelations) => {
@@ -73,10 +75,6 @@ export function AllView() {
     setSelectedTask(null);
   };
 
-  const handleSearch = (query: string) => {
-    useSearchStore.getState().search(query);
-  };
-
   // Calculate statistics
   const totalTasks = allTasks.length;
   const completedTasks = allTasks.filter(
@@ -159,32 +157,12 @@ export function AllView() {
 
       {/* Search and Filters */}
       <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
-        <div className="flex flex-col lg:flex-row gap-4">
-          <div className="flex-1">
-            <SearchBar
-              value={searchQuery}
-              onChange={(value) =>
-                useSearchStore.getState().setSearchTerm(value)
-              }
-              onSearch={handleSearch}
-              placeholder="Search all tasks..."
-            />
-          </div>
-          <FilterBar
-            filters={{
-              search: searchQuery,
-              priority: "",
-              status: "all",
-              listId: undefined,
-              labelIds: [],
-            }}
-            lists={lists}
-            labels={labels}
-            onFilterChange={(newFilters) => {
-              // Handle filter changes
-            }}
-          />
-        </div>
+        <AdvancedFilterBar
+          filters={filter}
+          onFiltersChange={(newFilter) =>
+            useTaskStore.getState().setFilter(newFilter)
+          }
+        />
       </div>
 
       {/* Tasks List */}
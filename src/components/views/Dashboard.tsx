@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import { RecurrenceScope, TaskWithRelations } from "@/types/task";
 import { useTaskStore } from "@/store/taskStore";
 import { useListStore } from "@/store/listStore";
 import { useLabelStore } from "@/store/labelStore";
@@ -34,14 +34,24 @@ export function Dashboard() {
   };
 
   // Handle task operations
-  const handleTaskEdit = (task: TaskWithRelations) => {
+  const handleTaskEdit = async (
+    task: TaskWithRelations,
+    scope?: RecurrenceScope
+  ) => {
+    if (task.id !== undefined) {
+      await useTaskStore.getState().updateTask(task.id, task, scope);
+    }
     setSelectedTask(task);
   };
 
-  const handleTaskDelete = async (task: TaskWithRelations) => {
-    if (confirm("Are you sure you want to delete this task?")) {
+  // Recurring tasks have already been confirmed through the scope prompt
+  const handleTaskDelete = async (
+    task: TaskWithRelations,
+    scope?: RecurrenceScope
+  ) => {
+    if (scope || confirm("Are you sure you want to delete this task?")) {
       if (task.id !== undefined) {
-        await useTaskStore.getState().deleteTask(task.id);
+        await useTaskStore.getState().deleteTask(task.id, scope);
         setSelectedTask(null);
       }
     }
@@ -248,11 +258,13 @@ export function Dashboard() {
           <div className="bg-white dark:bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <TaskDetailView
+                key={selectedTask.id}
                 task={selectedTask}
                 onClose={() => setSelectedTask(null)}
                 onEdit={handleTaskEdit}
                 onDelete={handleTaskDelete}
                 onDuplicate={handleTaskDuplicate}
+                onOpenTask={setSelectedTask}
               />
             </div>
           </div>
@@ -1,8 +1,9 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
-import { TaskList } from "@/components/TaskList";
+import { Placement, TaskWithRelations } from "@/types/task";
+import { TaskList, TaskListProps } from "@/components/TaskList";
+import { SectionedTaskList } from "@/components/SectionedTaskList";
 import { TaskForm } from "@/components/TaskForm";
 import { SearchBar } from "@/components/ui/SearchBar";
 import { FilterBar } from "@/components/ui/FilterBar";
@@ -39,8 +40,11 @@ export function InboxView() {
     });
   }, [tasks, lists]);
 
-  // Use search results if searching
-  const displayTasks = isSearching ? searchResults : inboxTasks;
+  // Use search results once a search has been made
+  const displayTasks = searchQuery ? searchResults : inboxTasks;
+  const inboxListId = lists.find(
+    (list) => list.isMagic && list.name === "Inbox"
+  )?.id;
 
   // Handle task operations
   const handleTaskToggle = async (task: TaskWithRelations) => {
@@ -67,6 +71,31 @@ export function InboxView() {
     await useTaskStore.getState().createTask(taskData);
   };
 
+  const handleTaskReorder = async (
+    task: TaskWithRelations,
+    placement: Placement
+  ) => {
+    if (task.id !== undefined) {
+      await useTaskStore.getState().moveTask(task.id, placement);
+    }
+  };
+
+  const taskListProps: TaskListProps = {
+    tasks: displayTasks,
+    loading: loading === "loading" || isSearching,
+    error: error || undefined,
+    onTaskToggle: handleTaskToggle,
+    onTaskEdit: handleTaskEdit,
+    onTaskDelete: handleTaskDelete,
+    onTaskDuplicate: handleTaskDuplicate,
+    // Search results keep their relevance order
+    onTaskReorder: searchQuery ? undefined : handleTaskReorder,
+    showLabels: true,
+    showSubTasks: true,
+    showAttachments: true,
+    showActions: true,
+  };
+
   const handleFormSubmit = async (taskData: Omit<TaskWithRelations, "id">) => {
     if (selectedTask && selectedTask.id !== undefined) {
       await useTaskStore.getState().updateTask(selectedTask.id, taskData);
@@ -207,21 +236,13 @@ export function InboxView() {
         </div>
       </div>
 
-      {/* Tasks List */}
+      {/* Tasks List, grouped by section unless showing search results */}
       <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
-        <TaskList
-          tasks={displayTasks}
-          loading={loading === "loading"}
-          error={error || undefined}
-          onTaskToggle={handleTaskToggle}
-          onTaskEdit={handleTaskEdit}
-          onTaskDelete={handleTaskDelete}
-          onTaskDuplicate={handleTaskDuplicate}
-          showLabels={true}
-          showSubTasks={true}
-          showAttachments={true}
-          showActions={true}
-        />
+        {!searchQuery && inboxListId !== undefined ? (
+          <SectionedTaskList listId={inboxListId} {...taskListProps} />
+        ) : (
+          <TaskList {...taskListProps} />
+        )}
       </div>
 
       {/* Task Form Modal */}
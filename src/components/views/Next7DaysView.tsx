@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import { TaskDestination, TaskWithRelations } from "@/types/task";
 import { TaskList } from "@/components/TaskList";
 import { TaskForm } from "@/components/TaskForm";
 import { SearchBar } from "@/components/ui/SearchBar";
@@ -85,6 +85,15 @@ export function Next7DaysView() {
     await useTaskStore.getState().createTask(taskData);
   };
 
+  const handleTaskDrop = async (
+    task: TaskWithRelations,
+    destination: TaskDestination
+  ) => {
+    if (task.id !== undefined) {
+      await useTaskStore.getState().moveTaskTo(task.id, destination);
+    }
+  };
+
   const handleFormSubmit = async (taskData: TaskWithRelations) => {
     if (selectedTask && selectedTask.id !== undefined) {
       await useTaskStore.getState().updateTask(selectedTask.id, taskData);
@@ -213,15 +222,15 @@ export function Next7DaysView() {
         </div>
       </div>
 
-      {/* Date Groups */}
+      {/* Date Groups, shown even when empty so tasks can be dropped on them */}
       <div className="space-y-6">
         {next7Days.map((date) => {
           const tasksForDate = tasksByDate[date] || [];
-          if (tasksForDate.length === 0) return null;
 
           return (
             <div
               key={date}
+              data-drop-date={date}
               className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm"
             >
               <div className="flex items-center justify-between mb-4">
@@ -238,6 +247,12 @@ export function Next7DaysView() {
                 onTaskEdit={handleTaskEdit}
                 onTaskDelete={handleTaskDelete}
                 onTaskDuplicate={handleTaskDuplicate}
+                onTaskDrop={handleTaskDrop}
+                emptyState={
+                  <div className="text-gray-500 dark:text-gray-400">
+                    Nothing planned. Drag a task here to move it to this day.
+                  </div>
+                }
                 showLabels={true}
                 showSubTasks={true}
                 showAttachments={true}
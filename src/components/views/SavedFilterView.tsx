@@ -0,0 +1,106 @@
+"use client";
+
+import * as React from "react";
+import { TaskWithRelations } from "@/types/task";
+import { TaskList } from "@/components/TaskList";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useTaskStore } from "@/store/taskStore";
+import { useViewStore, getSavedFilterView } from "@/store/viewStore";
+import { useSavedFilterStore } from "@/store/savedFilterStore";
+
+interface SavedFilterViewProps {
+  filterId: number;
+  onDeleted?: () => void;
+}
+
+export function SavedFilterView({ filterId, onDeleted }: SavedFilterViewProps) {
+  // Store hooks
+  const savedFilter = useSavedFilterStore((state) => state.byId[filterId]);
+  const tasks = useViewStore((state) => state.tasks);
+  const loading = useViewStore((state) => state.loading);
+  const error = useViewStore((state) => state.error);
+
+  React.useEffect(() => {
+    void useViewStore.getState().setView(getSavedFilterView(filterId));
+  }, [filterId]);
+
+  // Handle task operations
+  const handleTaskToggle = async (task: TaskWithRelations) => {
+    if (task.id !== undefined) {
+      await useTaskStore.getState().toggleTask(task.id);
+    }
+  };
+
+  const handleTaskDelete = async (task: TaskWithRelations) => {
+    if (confirm("Are you sure you want to delete this task?")) {
+      if (task.id !== undefined) {
+        await useTaskStore.getState().deleteTask(task.id);
+      }
+    }
+  };
+
+  const handleFilterDelete = async () => {
+    if (confirm("Are you sure you want to delete this smart list?")) {
+      await useSavedFilterStore.getState().deleteSavedFilter(filterId);
+      onDeleted?.();
+    }
+  };
+
+  if (!savedFilter) {
+    return null;
+  }
+
+  const criteria = [
+    savedFilter.filter.search,
+    savedFilter.filter.priority && `priority:${savedFilter.filter.priority}`,
+    savedFilter.filter.status &&
+      savedFilter.filter.status !== "all" &&
+      `is:${savedFilter.filter.status}`,
+    savedFilter.filter.date && `date:${savedFilter.filter.date}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <span
+            className="flex h-10 w-10 items-center justify-center rounded-lg text-xl"
+            style={{ backgroundColor: savedFilter.color }}
+          >
+            {savedFilter.emoji}
+          </span>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {savedFilter.name}
+          </h1>
+          <Badge variant="secondary">{tasks.length} tasks</Badge>
+        </div>
+        <Button variant="outline" onClick={handleFilterDelete}>
+          Delete Smart List
+        </Button>
+      </div>
+
+      {criteria.length > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {criteria.join(" ")}
+        </p>
+      )}
+
+      {/* Tasks List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+        <TaskList
+          tasks={tasks}
+          loading={loading}
+          error={error || undefined}
+          onTaskToggle={handleTaskToggle}
+          onTaskDelete={handleTaskDelete}
+          showLabels={true}
+          showSubTasks={true}
+          showAttachments={true}
+          showActions={true}
+        />
+      </div>
+    </div>
+  );
+}
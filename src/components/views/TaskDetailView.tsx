@@ -1,37 +1,112 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import { RecurrenceScope, SubTask, TaskWithRelations } from "@/types/task";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Modal } from "@/components/ui/modal";
+import {
+  AnimatedReorderItem,
+  AnimatedReorderList,
+} from "@/components/ui/AnimatedTaskCard";
+import { Select } from "@/components/ui/select";
 import { TaskForm } from "@/components/TaskForm";
 import { TaskCard } from "@/components/TaskCard";
+import { TaskActivityFeed } from "@/components/TaskActivityFeed";
+import { Markdown } from "@/components/ui/Markdown";
 import { useTaskStore } from "@/store/taskStore";
 import { useListStore } from "@/store/listStore";
 import { useLabelStore } from "@/store/labelStore";
+import { useCustomFieldStore } from "@/store/customFieldStore";
+import { describeRRule } from "@/lib/rrule";
+import { formatCustomValue } from "@/lib/custom-fields";
+import { TaskReference, toggleCheckbox } from "@/lib/markdown";
+import { findBacklinks, resolveTaskReference } from "@/lib/task-links";
+import { isTaskBlocked } from "@/lib/dependencies";
+import { buildTaskTree, flattenTaskTree } from "@/lib/task-tree";
+import { getPlacement, sortByPosition } from "@/lib/ordering";
 
 interface TaskDetailViewProps {
   task: TaskWithRelations;
   onClose: () => void;
-  onEdit: (task: TaskWithRelations) => void;
-  onDelete: (task: TaskWithRelations) => void;
+  onEdit: (task: TaskWithRelations, scope?: RecurrenceScope) => void;
+  onDelete: (task: TaskWithRelations, scope?: RecurrenceScope) => void;
   onDuplicate: (task: TaskWithRelations) => void;
+  // Follows a link to another task
+  onOpenTask?: (task: TaskWithRelations) => void;
 }
 
+// Edit or delete of a recurring task waiting for the user to pick a scope
+type PendingSeriesAction =
+  | { type: "edit"; task: TaskWithRelations }
+  | { type: "delete"; task: TaskWithRelations };
+
+const SCOPE_OPTIONS: { scope: RecurrenceScope; label: string }[] = [
+  { scope: "this", label: "This task" },
+  { scope: "following", label: "This and following tasks" },
+  { scope: "all", label: "All tasks in the series" },
+];
+
 export function TaskDetailView({
   task,
   onClose,
   onEdit,
   onDelete,
   onDuplicate,
+  onOpenTask,
 }: TaskDetailViewProps) {
   const [isEditing, setIsEditing] = React.useState(false);
+  const [pendingSeriesAction, setPendingSeriesAction] =
+    React.useState<PendingSeriesAction | null>(null);
   const lists = useListStore((state) =>
     state.allIds.map((id) => state.byId[id])
   );
   const labels = useLabelStore((state) =>
     state.allIds.map((id) => state.byId[id])
   );
+  const [dependencyError, setDependencyError] = React.useState<string | null>(
+    null
+  );
+  // The same array until the tasks change, so that backlinks are memoized
+  const taskIds = useTaskStore((state) => state.allIds);
+  const tasksById = useTaskStore((state) => state.byId);
+  const allTasks = React.useMemo(
+    () => taskIds.map((id) => tasksById[id]).filter(Boolean),
+    [taskIds, tasksById]
+  );
+  // Dependencies change without the task being reopened
+  const storedTask = useTaskStore((state) =>
+    task.id !== undefined ? state.byId[task.id] : undefined
+  );
+  const blockedBy = storedTask?.blockedBy ?? task.blockedBy ?? [];
+  const blocking = storedTask?.blocking ?? task.blocking ?? [];
+  const isBlocked = !task.isCompleted && isTaskBlocked({ blockedBy });
+  const checklist = sortByPosition(storedTask?.subTasks ?? task.subTasks ?? []);
+  // The checklist order shown while an item is dragged, until it is saved
+  const [dragOrder, setDragOrder] = React.useState<SubTask[] | null>(null);
+  const completion = storedTask?.completion ?? task.completion;
+  // Ticking a checkbox in the description saves it without reopening
+  const description = storedTask?.description ?? task.description;
+  // Every description is parsed, so only redone when the tasks change
+  const taskId = task.id;
+  const backlinks = React.useMemo(
+    () => findBacklinks({ id: taskId }, allTasks),
+    [allTasks, taskId]
+  );
+  const customFieldsById = useCustomFieldStore((state) => state.byId);
+  const customFields = Object.values(customFieldsById)
+    .filter((field) => field.listId === task.listId)
+    .sort((a, b) => a.id - b.id);
+  // Subtasks at every depth, indented under their own parent
+  const subtaskNodes = flattenTaskTree(
+    flattenTaskTree(buildTaskTree(sortByPosition(allTasks))).find(
+      (node) => node.task.id === task.id
+    )?.children ?? []
+  );
+
+  React.useEffect(() => {
+    void useCustomFieldStore.getState().fetchFields(task.listId);
+  }, [task.listId]);
 
   const formatDate = (dateString: string | undefined) => {
     if (!dateString) return "";
@@ -56,9 +131,94 @@ export function TaskDetailView({
     return `${hoursResult}h ${minutesResult}m`;
   };
 
-  const subTasksCompleted =
-    task.subTasks?.filter((st) => st.isCompleted).length || 0;
-  const subTasksTotal = task.subTasks?.length || 0;
+  // Recurring tasks ask which instances of the series the change applies to
+  const handleEdit = (editedTask: TaskWithRelations) => {
+    if (task.isRecurring) {
+      setPendingSeriesAction({ type: "edit", task: editedTask });
+    } else {
+      onEdit(editedTask);
+    }
+    setIsEditing(false);
+  };
+
+  const handleDelete = (deletedTask: TaskWithRelations) => {
+    if (deletedTask.isRecurring) {
+      setPendingSeriesAction({ type: "delete", task: deletedTask });
+    } else {
+      onDelete(deletedTask);
+    }
+  };
+
+  const handleScopeSelect = (scope: RecurrenceScope) => {
+    if (!pendingSeriesAction) return;
+    if (pendingSeriesAction.type === "edit") {
+      onEdit(pendingSeriesAction.task, scope);
+    } else {
+      onDelete(pendingSeriesAction.task, scope);
+    }
+    setPendingSeriesAction(null);
+  };
+
+  const handleAddBlocker = async (blockerId: number) => {
+    if (task.id === undefined) return;
+    await useTaskStore.getState().addDependency(task.id, blockerId);
+    setDependencyError(useTaskStore.getState().error);
+  };
+
+  const handleRemoveBlocker = async (blockerId: number) => {
+    if (task.id === undefined) return;
+    await useTaskStore.getState().removeDependency(task.id, blockerId);
+    setDependencyError(useTaskStore.getState().error);
+  };
+
+  const handleConvertSubTask = async (subTaskId: number) => {
+    await useTaskStore.getState().convertSubTask(subTaskId);
+  };
+
+  const handleChecklistDragEnd = async (subTask: SubTask) => {
+    if (!dragOrder || task.id === undefined) return;
+    const placement = getPlacement(dragOrder, subTask.id);
+    const previous = getPlacement(checklist, subTask.id);
+    if (
+      placement.afterId !== previous.afterId ||
+      placement.beforeId !== previous.beforeId
+    ) {
+      await useTaskStore.getState().moveSubTask(task.id, subTask.id, placement);
+    }
+    setDragOrder(null);
+  };
+
+  const handleToggleCheckbox = async (line: number) => {
+    if (task.id === undefined || !description) return;
+    await useTaskStore.getState().updateTask(task.id, {
+      description: toggleCheckbox(description, line),
+    });
+  };
+
+  const resolveTask = (ref: TaskReference) =>
+    resolveTaskReference(ref, allTasks);
+
+  const openTask = (linked: { id?: number }) => {
+    const linkedTask = allTasks.find((other) => other.id === linked.id);
+    if (linkedTask) onOpenTask?.(linkedTask);
+  };
+
+  const handlePromote = async (subtaskId: number) => {
+    await useTaskStore.getState().promoteTask(subtaskId);
+  };
+
+  // Open tasks that this one does not wait for yet
+  const blockerOptions = allTasks
+    .filter(
+      (candidate) =>
+        candidate.id !== task.id &&
+        !candidate.isCompleted &&
+        !blockedBy.some((blocker) => blocker.id === candidate.id)
+    )
+    .map((candidate) => ({ value: candidate.id!, label: candidate.title }));
+
+  const subTasksCompleted = checklist.filter((st) => st.isCompleted).length;
+  const subTasksTotal = checklist.length;
 
   return (
     <div className="space-y-6">
@@ -91,7 +251,7 @@ export function TaskDetailView({
           </Button>
           <Button
             variant="destructive"
-            onClick={() => onDelete(task)}
+            onClick={() => handleDelete(task)}
             className="flex items-center space-x-2"
           >
             <span>🗑️</span>
@@ -110,40 +270,47 @@ export function TaskDetailView({
                 task={task}
                 lists={lists}
                 labels={labels}
-                onSubmit={(data) => {
-                  onEdit({ ...task, ...data });
-                  setIsEditing(false);
-                }}
+                onSubmit={(data) => handleEdit({ ...task, ...data })}
                 onCancel={() => setIsEditing(false)}
-                onDelete={onDelete}
+                onDelete={handleDelete}
                 mode="edit"
               />
             </div>
           ) : (
             <>
               {/* Description */}
-              {task.description && (
+              {description && (
                 <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
                   <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
                     Description
                   </h2>
-                  <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
-                    {task.description}
-                  </p>
+                  <Markdown
+                    source={description}
+                    onToggleCheckbox={handleToggleCheckbox}
+                    resolveTask={resolveTask}
+                    onOpenTask={onOpenTask && openTask}
+                  />
                 </div>
               )}
 
-              {/* Subtasks */}
-              {task.subTasks && task.subTasks.length > 0 && (
+              {/* Checklist */}
+              {checklist.length > 0 && (
                 <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
                   <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                    Subtasks
+                    Checklist
                   </h2>
-                  <div className="space-y-3">
-                    {task.subTasks.map((subTask) => (
-                      <div
+                  <AnimatedReorderList
+                    values={dragOrder ?? checklist}
+                    onReorder={setDragOrder}
+                    className="space-y-3"
+                  >
+                    {(dragOrder ?? checklist).map((subTask, index) => (
+                      <AnimatedReorderItem
                         key={subTask.id}
-                        className="flex items-center space-x-3"
+                        value={subTask}
+                        index={index}
+                        onDragEnd={() => void handleChecklistDragEnd(subTask)}
+                        className="flex items-center space-x-3 cursor-grab active:cursor-grabbing"
                       >
                         <input
                           type="checkbox"
@@ -162,9 +329,17 @@ export function TaskDetailView({
                         >
                           {subTask.title}
                         </span>
-                      </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto"
+                          onClick={() => handleConvertSubTask(subTask.id)}
+                        >
+                          Convert to subtask
+                        </Button>
+                      </AnimatedReorderItem>
                     ))}
-                  </div>
+                  </AnimatedReorderList>
                   <div className="mt-4 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
                     <span>
                       {subTasksCompleted}/{subTasksTotal} completed
@@ -185,6 +360,41 @@ export function TaskDetailView({
                 </div>
               )}
 
+              {/* Subtasks */}
+              {subtaskNodes.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    Subtasks
+                  </h2>
+                  <div className="space-y-2">
+                    {subtaskNodes.map(({ task: subtask, depth }) => (
+                      <div
+                        key={subtask.id}
+                        className="flex items-center justify-between"
+                        style={{ paddingLeft: `${(depth - 1) * 1.5}rem` }}
+                      >
+                        <span
+                          className={`text-sm ${
+                            subtask.isCompleted
+                              ? "text-gray-500 line-through"
+                              : "text-gray-900 dark:text-white"
+                          }`}
+                        >
+                          {subtask.isCompleted ? "✅" : "⤷"} {subtask.title}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handlePromote(subtask.id!)}
+                        >
+                          Move to top level
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Attachments */}
               {task.attachments && task.attachments.length > 0 && (
                 <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
@@ -209,7 +419,13 @@ export function TaskDetailView({
                             </p>
                           </div>
                         </div>
-                        <Button variant="outline" size="sm">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            window.location.href = `/api/attachments/${attachment.id}?download=1`;
+                          }}
+                        >
                           Download
                         </Button>
                       </div>
@@ -218,51 +434,18 @@ export function TaskDetailView({
                 </div>
               )}
 
-              {/* Task Changes History */}
-              <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
-                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                  Activity
-                </h2>
-                <div className="space-y-3">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-green-500 rounded-full" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-900 dark:text-white">
-                        Task created
-                      </p>
-                      <p className="text-xs text-gray-500 dark:text-gray-400">
-                        {formatDate(task.createdAt)}
-                      </p>
-                    </div>
-                  </div>
-                  {task.updatedAt !== task.createdAt && (
-                    <div className="flex items-center space-x-3">
-                      <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          Task updated
-                        </p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">
-                          {formatDate(task.updatedAt)}
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                  {task.isCompleted && task.completedAt && (
-                    <div className="flex items-center space-x-3">
-                      <div className="w-2 h-2 bg-purple-500 rounded-full" />
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          Task completed
-                        </p>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">
-                          {formatDate(task.completedAt)}
-                        </p>
-                      </div>
-                    </div>
-                  )}
+              {/* Comments and history */}
+              {task.id !== undefined && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                    Activity
+                  </h2>
+                  <TaskActivityFeed
+                    taskId={task.id}
+                    updatedAt={storedTask?.updatedAt ?? task.updatedAt}
+                  />
                 </div>
-              </div>
+              )}
             </>
           )}
         </div>
@@ -354,20 +537,39 @@ export function TaskDetailView({
                   className={`mt-1 ${
                     task.isCompleted
                       ? "bg-green-100 text-green-800"
+                      : isBlocked
+                      ? "bg-orange-100 text-orange-800"
                       : "bg-gray-100 text-gray-800"
                   }`}
                 >
-                  {task.isCompleted ? "Completed" : "Pending"}
+                  {task.isCompleted
+                    ? "Completed"
+                    : isBlocked
+                    ? "Blocked"
+                    : "Pending"}
                 </Badge>
               </div>
 
+              {completion !== undefined && (
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    Progress
+                  </span>
+                  <p className="mt-1 text-gray-900 dark:text-white">
+                    {completion}% done
+                  </p>
+                </div>
+              )}
+
               {task.isRecurring && (
                 <div>
                   <span className="text-sm text-gray-500 dark:text-gray-400">
                     Recurring
                   </span>
                   <p className="mt-1 text-gray-900 dark:text-white">
-                    {task.recurrenceType} (every {task.recurrenceInterval})
+                    {task.recurrenceRule
+                      ? describeRRule(task.recurrenceRule)
+                      : `${task.recurrenceType} (every ${task.recurrenceInterval})`}
                   </p>
                   {task.recurrenceEndDate && (
                     <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -385,7 +587,9 @@ export function TaskDetailView({
                   <div className="mt-1 space-y-1">
                     {task.reminders.map((reminder, index) => (
                       <Badge key={index} variant="outline" className="text-xs">
-                        {reminder.time} {reminder.unit}
+                        {reminder.at
+                          ? formatDate(reminder.at)
+                          : `${reminder.time} ${reminder.unit} before`}
                       </Badge>
                     ))}
                   </div>
@@ -394,6 +598,30 @@ export function TaskDetailView({
             </div>
           </div>
 
+          {/* Custom fields of the task's list */}
+          {customFields.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Fields
+              </h2>
+              <div className="space-y-4">
+                {customFields.map((field) => (
+                  <div key={field.id}>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {field.name}
+                    </span>
+                    <p className="mt-1 break-words text-gray-900 dark:text-white">
+                      {formatCustomValue(
+                        field,
+                        task.customValues?.[field.id]
+                      ) || "—"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Labels */}
           {task.labels && task.labels.length > 0 && (
             <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
@@ -416,6 +644,112 @@ export function TaskDetailView({
             </div>
           )}
 
+          {/* Tasks whose description links here */}
+          {backlinks.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Linked from
+              </h2>
+              <div className="space-y-1">
+                {backlinks.map((backlink) =>
+                  onOpenTask ? (
+                    <button
+                      key={backlink.id}
+                      type="button"
+                      onClick={() => onOpenTask(backlink)}
+                      className="block text-left text-sm text-blue-600 hover:underline dark:text-blue-400"
+                    >
+                      {backlink.title}
+                    </button>
+                  ) : (
+                    <p
+                      key={backlink.id}
+                      className="text-sm text-gray-900 dark:text-white"
+                    >
+                      {backlink.title}
+                    </p>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Dependencies */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Dependencies
+            </h2>
+            <div className="space-y-4">
+              <div>
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  Waiting for
+                </span>
+                {blockedBy.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                    Nothing
+                  </p>
+                ) : (
+                  <div className="mt-1 space-y-1">
+                    {blockedBy.map((blocker) => (
+                      <div
+                        key={blocker.id}
+                        className="flex items-center justify-between"
+                      >
+                        <span
+                          className={`text-sm ${
+                            blocker.isCompleted
+                              ? "text-gray-500 line-through"
+                              : "text-gray-900 dark:text-white"
+                          }`}
+                        >
+                          {blocker.isCompleted ? "✅" : "⛔"} {blocker.title}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveBlocker(blocker.id)}
+                          aria-label={`Stop waiting for ${blocker.title}`}
+                        >
+                          ✕
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {blockerOptions.length > 0 && (
+                  <Select
+                    className="mt-2"
+                    value=""
+                    placeholder="Add a task to wait for..."
+                    options={blockerOptions}
+                    onChange={(e) => handleAddBlocker(Number(e.target.value))}
+                  />
+                )}
+                {dependencyError && (
+                  <p className="mt-1 text-sm text-red-600">{dependencyError}</p>
+                )}
+              </div>
+
+              {blocking.length > 0 && (
+                <div>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    Blocking
+                  </span>
+                  <div className="mt-1 space-y-1">
+                    {blocking.map((dependent) => (
+                      <p
+                        key={dependent.id}
+                        className="text-sm text-gray-900 dark:text-white"
+                      >
+                        {dependent.title}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Quick Actions */}
           <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -449,6 +783,37 @@ export function TaskDetailView({
           </div>
         </div>
       </div>
+
+      <Modal
+        open={pendingSeriesAction !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingSeriesAction(null);
+        }}
+        title={
+          pendingSeriesAction?.type === "delete"
+            ? "Delete recurring task"
+            : "Edit recurring task"
+        }
+        description="This task is part of a recurring series. Apply the change to:"
+        size="sm"
+      >
+        <div className="space-y-2">
+          {SCOPE_OPTIONS.map(({ scope, label }) => (
+            <Button
+              key={scope}
+              variant={
+                pendingSeriesAction?.type === "delete" && scope !== "this"
+                  ? "destructive"
+                  : "outline"
+              }
+              onClick={() => handleScopeSelect(scope)}
+              className="w-full"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </Modal>
     </div>
   );
 }
@@ -2,7 +2,8 @@
 
 import * as React from "react";
 import { TaskWithRelations } from "@/types/task";
-import { TaskList } from "@/components/TaskList";
+import { TaskList, TaskListProps } from "@/components/TaskList";
+import { SectionedTaskList } from "@/components/SectionedTaskList";
 import { TaskForm } from "@/components/TaskForm";
 import { SearchBar } from "@/components/ui/SearchBar";
 import { FilterBar } from "@/components/ui/FilterBar";
@@ -14,7 +15,13 @@ import { useListStore } from "@/store/listStore";
 import { useLabelStore } from "@/store/labelStore";
 import { useSearchStore } from "@/store/searchStore";
 
-export function TaskManagement() {
+interface TaskManagementProps {
+  // Filters to start with, such as when jumping to a list
+  listId?: number;
+  labelId?: number;
+}
+
+export function TaskManagement({ listId, labelId }: TaskManagementProps) {
   const [showForm, setShowForm] = React.useState(false);
   const [selectedTask, setSelectedTask] =
     React.useState<TaskWithRelations | null>(null);
@@ -37,8 +44,8 @@ export function TaskManagement() {
   const [filters, setFilters] = React.useState({
     priority: "",
     status: "all",
-    listId: undefined as number | undefined,
-    labelIds: [] as number[],
+    listId: listId as number | undefined,
+    labelIds: (labelId ? [labelId] : []) as number[],
   });
 
   // Filter tasks based on filters
@@ -192,6 +199,20 @@ export function TaskManagement() {
     (t) => !t.isCompleted
   ).length;
 
+  const taskListProps: TaskListProps = {
+    tasks: displayTasks,
+    loading: loading === "loading",
+    error: error || undefined,
+    onTaskToggle: handleTaskToggle,
+    onTaskEdit: handleTaskEdit,
+    onTaskDelete: handleTaskDelete,
+    onTaskDuplicate: handleTaskDuplicate,
+    showLabels: true,
+    showSubTasks: true,
+    showAttachments: true,
+    showActions: true,
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -320,19 +341,12 @@ export function TaskManagement() {
           </div>
         </div>
 
-        <TaskList
-          tasks={displayTasks}
-          loading={loading === "loading"}
-          error={error || undefined}
-          onTaskToggle={handleTaskToggle}
-          onTaskEdit={handleTaskEdit}
-          onTaskDelete={handleTaskDelete}
-          onTaskDuplicate={handleTaskDuplicate}
-          showLabels={true}
-          showSubTasks={true}
-          showAttachments={true}
-          showActions={true}
-        />
+        {/* A single list is grouped by its sections */}
+        {!isSearching && filters.listId ? (
+          <SectionedTaskList listId={filters.listId} {...taskListProps} />
+        ) : (
+          <TaskList {...taskListProps} />
+        )}
       </div>
 
       {/* Task Form Modal */}
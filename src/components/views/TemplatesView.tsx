@@ -0,0 +1,372 @@
+"use client";
+
+import * as React from "react";
+import { Template, TemplateTask } from "@/types/task";
+import { fillTemplateText } from "@/lib/templates";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { useListStore } from "@/store/listStore";
+import { useTemplateStore } from "@/store/templateStore";
+
+// Template tasks in outline order, each with the indices leading to it
+type OutlineRow = { task: TemplateTask; path: number[] };
+
+function getOutline(tasks: TemplateTask[], path: number[] = []): OutlineRow[] {
+  return tasks.flatMap((task, index) => [
+    { task, path: [...path, index] },
+    ...getOutline(task.subtasks ?? [], [...path, index]),
+  ]);
+}
+
+function updateTemplateTask(
+  tasks: TemplateTask[],
+  [index, ...rest]: number[],
+  changes: Partial<TemplateTask>
+): TemplateTask[] {
+  return tasks.map((task, i) => {
+    if (i !== index) return task;
+    if (rest.length === 0) return { ...task, ...changes };
+    return {
+      ...task,
+      subtasks: updateTemplateTask(task.subtasks ?? [], rest, changes),
+    };
+  });
+}
+
+const formatOffset = (days: number) =>
+  days === 0 ? "Day 0" : `Day ${days > 0 ? "+" : ""}${days}`;
+
+export function TemplatesView() {
+  const templatesById = useTemplateStore((state) => state.byId);
+  const loading = useTemplateStore((state) => state.loading);
+  const error = useTemplateStore((state) => state.error);
+  const lists = useListStore((state) =>
+    state.allIds.map((id) => state.byId[id])
+  );
+
+  React.useEffect(() => {
+    void useTemplateStore.getState().fetchTemplates();
+  }, []);
+
+  const templates = Object.values(templatesById).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  const groups = [
+    {
+      title: "Task templates",
+      templates: templates.filter((template) => template.kind === "task"),
+    },
+    {
+      title: "List templates",
+      templates: templates.filter((template) => template.kind === "list"),
+    },
+  ];
+
+  const handleSaveList = async (listId: number) => {
+    const list = lists.find((list) => list.id === listId);
+    const name = prompt("Template name", list?.name)?.trim();
+    if (name) {
+      await useTemplateStore.getState().createTemplate({ name, listId });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Templates
+          </h1>
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline">📋</Badge>
+            <Badge variant="secondary">{templates.length} templates</Badge>
+          </div>
+        </div>
+        <Select
+          value=""
+          onChange={(e) => handleSaveList(Number(e.target.value))}
+          placeholder="Save a list as a template…"
+          options={lists
+            .filter((list) => !list.deletedAt)
+            .map((list) => ({
+              value: list.id,
+              label: `${list.emoji} ${list.name}`,
+            }))}
+          className="w-64"
+        />
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Save a task from its edit form, or a whole list, to create it again
+        later. Dates are kept as days after the day the template is used on.
+        Titles may hold {"{{date}}"}, {"{{weekday}}"} or any {"{{name}}"},
+        filled in when the template is used.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading === "loading" && templates.length === 0 ? (
+        <LoadingSpinner />
+      ) : (
+        groups.map(
+          (group) =>
+            group.templates.length > 0 && (
+              <div key={group.title} className="space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {group.title}
+                </h2>
+                {group.templates.map((template) => (
+                  <TemplateCard key={template.id} template={template} />
+                ))}
+              </div>
+            )
+        )
+      )}
+
+      {loading !== "loading" && templates.length === 0 && (
+        <p className="text-center text-gray-500 dark:text-gray-400">
+          No templates yet.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function TemplateCard({ template }: { template: Template }) {
+  const lists = useListStore((state) =>
+    state.allIds
+      .map((id) => state.byId[id])
+      .filter((list) => !list.deletedAt && !list.archivedAt)
+  );
+  const [mode, setMode] = React.useState<"view" | "edit" | "use">("view");
+  const [draft, setDraft] = React.useState(template.tasks);
+  const [date, setDate] = React.useState(
+    new Date().toISOString().split("T")[0]
+  );
+  const [listId, setListId] = React.useState<number | undefined>();
+  const [listName, setListName] = React.useState("");
+  const [variables, setVariables] = React.useState<Record<string, string>>({});
+
+  const outline = getOutline(mode === "edit" ? draft : template.tasks);
+
+  const handleRename = async () => {
+    const name = prompt("Template name", template.name)?.trim();
+    if (name && name !== template.name) {
+      await useTemplateStore.getState().updateTemplate(template.id, { name });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm(`Delete the template "${template.name}"?`)) {
+      await useTemplateStore.getState().deleteTemplate(template.id);
+    }
+  };
+
+  const handleSaveEdits = async () => {
+    await useTemplateStore
+      .getState()
+      .updateTemplate(template.id, { tasks: draft });
+    setMode("view");
+  };
+
+  const handleUse = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const applied = await useTemplateStore
+      .getState()
+      .applyTemplate(template.id, {
+        date,
+        listId: template.list ? undefined : listId,
+        name: template.list ? listName.trim() || undefined : undefined,
+        variables,
+      });
+    if (applied) setMode("view");
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="truncate font-medium text-gray-900 dark:text-white">
+            {template.list && `${template.list.emoji} `}
+            {template.name}
+          </p>
+          {template.variables.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-1">
+              {template.variables.map((variable) => (
+                <Badge key={variable} variant="outline">
+                  {`{{${variable}}}`}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 space-x-2">
+          <Button
+            size="sm"
+            onClick={() => setMode(mode === "use" ? "view" : "use")}
+          >
+            Use
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setDraft(template.tasks);
+              setMode(mode === "edit" ? "view" : "edit");
+            }}
+          >
+            Edit
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleRename}>
+            Rename
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDelete}>
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {mode === "use" && (
+        <form
+          onSubmit={handleUse}
+          className="mt-4 grid grid-cols-1 gap-3 border-t border-gray-200 pt-4 sm:grid-cols-2 dark:border-gray-700"
+        >
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            Starting on
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+            />
+          </label>
+          {template.list ? (
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              List name
+              <Input
+                value={listName}
+                onChange={(e) => setListName(e.target.value)}
+                placeholder={fillTemplateText(
+                  template.list.name,
+                  date,
+                  variables
+                )}
+              />
+            </label>
+          ) : (
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              List
+              <Select
+                value={listId?.toString() ?? ""}
+                onChange={(e) =>
+                  setListId(e.target.value ? Number(e.target.value) : undefined)
+                }
+                options={[
+                  { value: "", label: "Inbox" },
+                  ...lists
+                    .filter((list) => !list.isMagic)
+                    .map((list) => ({
+                      value: list.id.toString(),
+                      label: `${list.emoji} ${list.name}`,
+                    })),
+                ]}
+              />
+            </label>
+          )}
+          {template.variables.map((variable) => (
+            <label
+              key={variable}
+              className="text-sm text-gray-700 dark:text-gray-300"
+            >
+              {variable}
+              <Input
+                value={variables[variable] ?? ""}
+                onChange={(e) =>
+                  setVariables({ ...variables, [variable]: e.target.value })
+                }
+                required
+              />
+            </label>
+          ))}
+          <div className="flex items-end sm:col-span-2">
+            <Button type="submit">
+              {template.list ? "Create list" : "Create task"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <ul className="mt-4 space-y-1">
+        {outline.map(({ task, path }) => (
+          <li
+            key={path.join(".")}
+            className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300"
+            style={{ paddingLeft: `${(path.length - 1) * 1.5}rem` }}
+          >
+            {mode === "edit" ? (
+              <>
+                <Input
+                  value={task.title}
+                  onChange={(e) =>
+                    setDraft(
+                      updateTemplateTask(draft, path, {
+                        title: e.target.value,
+                      })
+                    )
+                  }
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  value={task.dateOffset}
+                  onChange={(e) =>
+                    setDraft(
+                      updateTemplateTask(draft, path, {
+                        dateOffset: Number(e.target.value),
+                      })
+                    )
+                  }
+                  title="Days after the start date"
+                  className="w-20"
+                />
+              </>
+            ) : (
+              <>
+                <span className="flex-1 truncate">{task.title}</span>
+                {task.sectionName && (
+                  <Badge variant="outline">{task.sectionName}</Badge>
+                )}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatOffset(task.dateOffset)}
+                </span>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {mode === "edit" && (
+        <div className="mt-4 flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setMode("view")}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleSaveEdits}
+            disabled={outline.some(({ task }) => !task.title.trim())}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import { Placement, TaskWithRelations } from "@/types/task";
 import { TaskList } from "@/components/TaskList";
 import { TaskForm } from "@/components/TaskForm";
 import { SearchBar } from "@/components/ui/SearchBar";
@@ -66,6 +66,15 @@ export function TodayView() {
     await useTaskStore.getState().createTask(taskData);
   };
 
+  const handleTaskReorder = async (
+    task: TaskWithRelations,
+    placement: Placement
+  ) => {
+    if (task.id !== undefined) {
+      await useTaskStore.getState().moveTask(task.id, placement);
+    }
+  };
+
   const handleFormSubmit = async (taskData: TaskWithRelations) => {
     if (selectedTask && selectedTask.id !== undefined) {
       await useTaskStore.getState().updateTask(selectedTask.id, taskData);
@@ -202,6 +211,8 @@ export function TodayView() {
           onTaskEdit={handleTaskEdit}
           onTaskDelete={handleTaskDelete}
           onTaskDuplicate={handleTaskDuplicate}
+          // Search results keep their relevance order
+          onTaskReorder={isSearching ? undefined : handleTaskReorder}
           showLabels={true}
           showSubTasks={true}
           showAttachments={true}
@@ -0,0 +1,182 @@
+"use client";
+
+import * as React from "react";
+import { TrashItemType } from "@/types/task";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { useViewStore } from "@/store/viewStore";
+import { useTrashStore } from "@/store/trashStore";
+
+interface TrashItem {
+  id: number;
+  name: string;
+  detail?: string;
+  deletedAt?: string | null;
+}
+
+export function TrashView() {
+  // Store hooks
+  const tasks = useViewStore((state) => state.tasks);
+  const loading = useViewStore((state) => state.loading);
+  const viewError = useViewStore((state) => state.error);
+  const lists = useTrashStore((state) => state.lists);
+  const labels = useTrashStore((state) => state.labels);
+  const retentionDays = useTrashStore((state) => state.retentionDays);
+  const trashError = useTrashStore((state) => state.error);
+
+  React.useEffect(() => {
+    void useViewStore.getState().setView("trash");
+    void useTrashStore.getState().fetchTrash();
+  }, []);
+
+  const handleRestore = async (type: TrashItemType, id: number) => {
+    await useTrashStore.getState().restore(type, id);
+  };
+
+  const handlePurge = async (type: TrashItemType, item: TrashItem) => {
+    if (confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) {
+      await useTrashStore.getState().purge(type, item.id);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (confirm("Permanently delete everything in the trash?")) {
+      await useTrashStore.getState().emptyTrash();
+    }
+  };
+
+  const sections: { type: TrashItemType; title: string; items: TrashItem[] }[] =
+    [
+      {
+        type: "tasks",
+        title: "Tasks",
+        items: tasks.map((task) => ({
+          id: task.id!,
+          name: task.title,
+          detail: task.list?.name,
+          deletedAt: task.deletedAt,
+        })),
+      },
+      {
+        type: "lists",
+        title: "Lists",
+        items: lists.map((list) => ({
+          id: list.id,
+          name: `${list.emoji} ${list.name}`,
+          deletedAt: list.deletedAt,
+        })),
+      },
+      {
+        type: "labels",
+        title: "Labels",
+        items: labels.map((label) => ({
+          id: label.id,
+          name: `${label.icon} ${label.name}`,
+          deletedAt: label.deletedAt,
+        })),
+      },
+    ];
+  const total = sections.reduce(
+    (count, section) => count + section.items.length,
+    0
+  );
+  const error = trashError || viewError;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Trash
+          </h1>
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline">🗑️</Badge>
+            <Badge variant="secondary">{total} items</Badge>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleEmptyTrash}
+          disabled={total === 0}
+        >
+          Empty Trash
+        </Button>
+      </div>
+
+      {retentionDays !== null && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Items in the trash are deleted permanently after {retentionDays} days.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading && total === 0 ? (
+        <LoadingSpinner />
+      ) : (
+        sections.map(
+          (section) =>
+            section.items.length > 0 && (
+              <div
+                key={section.type}
+                className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm"
+              >
+                <h2 className="mb-4 text-lg font-semibold text-gray-900 dark:text-white">
+                  {section.title}
+                </h2>
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {section.items.map((item) => (
+                    <li
+                      key={item.id}
+                      className="flex items-center justify-between gap-4 py-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-gray-900 dark:text-white">
+                          {item.name}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {item.detail && `${item.detail} · `}
+                          Deleted{" "}
+                          {item.deletedAt
+                            ? new Date(item.deletedAt).toLocaleString()
+                            : ""}
+                        </p>
+                      </div>
+                      <div className="flex shrink-0 space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(section.type, item.id)}
+                        >
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePurge(section.type, item)}
+                        >
+                          Delete forever
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+        )
+      )}
+
+      {!loading && total === 0 && (
+        <p className="text-center text-gray-500 dark:text-gray-400">
+          The trash is empty.
+        </p>
+      )}
+    </div>
+  );
+}
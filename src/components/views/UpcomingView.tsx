@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { TaskWithRelations } from "@/types/task";
+import { TaskDestination, TaskWithRelations } from "@/types/task";
 import { TaskList } from "@/components/TaskList";
 import { TaskForm } from "@/components/TaskForm";
 import { SearchBar } from "@/components/ui/SearchBar";
@@ -68,6 +68,14 @@ export function UpcomingView() {
     return grouped;
   }, [upcomingTasks, today]);
 
+  // A task dropped on a week moves to its first day
+  const weekStarts: Record<string, string> = {};
+  ["This Week", "Next Week", "In 2 Weeks", "In 3 Weeks"].forEach((week, i) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i * 7 + 1);
+    weekStarts[week] = date.toISOString().split("T")[0];
+  });
+
   // Use search results if searching
   const displayTasks = isSearching ? searchResults : upcomingTasks;
 
@@ -96,6 +104,20 @@ export function UpcomingView() {
     await useTaskStore.getState().createTask(taskData);
   };
 
+  const handleTaskDrop = async (
+    task: TaskWithRelations,
+    destination: TaskDestination
+  ) => {
+    // Dropped back on its own week
+    const week = Object.keys(weekStarts).find(
+      (week) => weekStarts[week] === destination.date
+    );
+    if (week && tasksByWeek[week].some((t) => t.id === task.id)) return;
+    if (task.id !== undefined) {
+      await useTaskStore.getState().moveTaskTo(task.id, destination);
+    }
+  };
+
   const handleFormSubmit = async (taskData: TaskWithRelations) => {
     if (selectedTask && selectedTask.id !== undefined) {
       await useTaskStore.getState().updateTask(selectedTask.id, taskData);
@@ -221,14 +243,13 @@ export function UpcomingView() {
         </div>
       </div>
 
-      {/* Week Groups */}
+      {/* Week Groups, shown even when empty so tasks can be dropped on them */}
       <div className="space-y-6">
         {Object.entries(tasksByWeek).map(([week, tasksForWeek]) => {
-          if (tasksForWeek.length === 0) return null;
-
           return (
             <div
               key={week}
+              data-drop-date={weekStarts[week]}
               className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-sm"
             >
               <div className="flex items-center justify-between mb-4">
@@ -245,6 +266,13 @@ export function UpcomingView() {
                 onTaskEdit={handleTaskEdit}
                 onTaskDelete={handleTaskDelete}
                 onTaskDuplicate={handleTaskDuplicate}
+                onTaskDrop={handleTaskDrop}
+                emptyState={
+                  <div className="text-gray-500 dark:text-gray-400">
+                    Nothing planned. Drag a task here to move it to{" "}
+                    {weekStarts[week]}.
+                  </div>
+                }
                 showLabels={true}
                 showSubTasks={true}
                 showAttachments={true}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+import { NotificationService } from "@/services/notification-service";
+
+// Deliver server-side reminders as browser notifications while mounted
+export function useReminders(intervalMs?: number) {
+  useEffect(() => {
+    const notificationService = NotificationService.getInstance();
+
+    void notificationService.requestPermission();
+    notificationService.startReminderPolling(intervalMs);
+
+    return () => {
+      notificationService.stopReminderPolling();
+    };
+  }, [intervalMs]);
+}
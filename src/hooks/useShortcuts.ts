@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  findShortcut,
+  getActiveScopes,
+  getEventKey,
+  isEditableTarget,
+  SHORTCUTS,
+} from "@/lib/shortcuts";
+import { useShortcutStore } from "@/store/shortcutStore";
+import { useTaskStore } from "@/store/taskStore";
+import { useCommandStore } from "@/store/commandStore";
+
+// The tasks of every list on screen, top to bottom
+function getVisibleTasks() {
+  const lists = [...useShortcutStore.getState().taskLists].sort((a, b) =>
+    a.element.compareDocumentPosition(b.element) &
+    Node.DOCUMENT_POSITION_FOLLOWING
+      ? -1
+      : 1
+  );
+  return lists.flatMap((list) => list.tasks.map((task) => ({ task, list })));
+}
+
+// The selected task, when it is on screen
+function getSelected() {
+  const { selectedTaskId } = useTaskStore.getState();
+  return getVisibleTasks().find(({ task }) => task.id === selectedTaskId);
+}
+
+function moveSelection(step: 1 | -1) {
+  const visible = getVisibleTasks();
+  if (visible.length === 0) return;
+
+  const { selectedTaskId, selectTask } = useTaskStore.getState();
+  const index = visible.findIndex(({ task }) => task.id === selectedTaskId);
+  const next =
+    index === -1
+      ? visible[step === 1 ? 0 : visible.length - 1]
+      : visible[Math.min(Math.max(index + step, 0), visible.length - 1)];
+  selectTask(next.task.id ?? null);
+  next.list.element
+    .querySelector(`[data-task-id="${next.task.id}"]`)
+    ?.scrollIntoView({ block: "nearest" });
+}
+
+// Shortcuts that do not belong to a component
+const HANDLERS: Record<string, () => void> = {
+  "list.next": () => moveSelection(1),
+  "list.previous": () => moveSelection(-1),
+  "list.complete": () => {
+    const selected = getSelected();
+    if (!selected?.task.id) return;
+    if (selected.list.onToggle) {
+      selected.list.onToggle(selected.task);
+    } else {
+      void useTaskStore.getState().toggleTask(selected.task.id);
+    }
+  },
+  "list.edit": () => {
+    const selected = getSelected();
+    if (selected) selected.list.onEdit?.(selected.task);
+  },
+  // Dates and labels are picked in the command palette
+  "list.date": () => {
+    const selected = getSelected();
+    if (selected) {
+      useCommandStore.getState().runCommand("task-reschedule", selected.task);
+    }
+  },
+  "list.label": () => {
+    const selected = getSelected();
+    if (selected) {
+      useCommandStore.getState().runCommand("task-label", selected.task);
+    }
+  },
+  help: () => {
+    const { isHelpOpen, setHelpOpen } = useShortcutStore.getState();
+    setHelpOpen(!isHelpOpen);
+  },
+};
+
+// Runs the keyboard shortcuts of the scopes that are active, with the keys
+// the user chose
+export function useShortcuts() {
+  useEffect(() => {
+    void useShortcutStore.getState().fetchKeyMap();
+    const unregister = useShortcutStore.getState().registerHandlers(HANDLERS);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const key = getEventKey(event);
+      if (!key) return;
+
+      const { keyMap, handlers, openModals, openForms, taskLists } =
+        useShortcutStore.getState();
+      const scopes = getActiveScopes({
+        modal: openModals > 0,
+        form: openForms > 0,
+        list: taskLists.length > 0,
+      });
+      const shortcut = findShortcut(
+        SHORTCUTS.filter((item) => handlers[item.id]?.length),
+        keyMap,
+        key,
+        scopes,
+        isEditableTarget(event.target)
+      );
+      if (!shortcut) return;
+
+      event.preventDefault();
+      const stack = handlers[shortcut.id];
+      stack[stack.length - 1]();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      unregister();
+    };
+  }, []);
+}
+
+// Runs handler when the shortcut with the ID is pressed, while enabled
+export function useShortcut(id: string, handler: () => void, enabled = true) {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return useShortcutStore
+      .getState()
+      .registerHandlers({ [id]: () => handlerRef.current() });
+  }, [id, enabled]);
+}
+
+// Makes the form or modal scope active while the component shows it
+export function useShortcutScope(scope: "form" | "modal", active = true) {
+  useEffect(() => {
+    if (!active) return;
+    return useShortcutStore.getState().enterScope(scope);
+  }, [scope, active]);
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect } from "react";
+import { SyncEvent } from "@/types/api";
+import { useTaskStore } from "@/store/taskStore";
+import { useListStore } from "@/store/listStore";
+import { useLabelStore } from "@/store/labelStore";
+import { useViewStore } from "@/store/viewStore";
+import { useSavedFilterStore } from "@/store/savedFilterStore";
+import { useFolderStore } from "@/store/folderStore";
+
+// How long to wait for more events before refetching server-side counts
+const REFRESH_DELAY = 500;
+
+// Calls fn once events stop asking for it for the delay, so that a bulk
+// edit causes one request rather than one per task
+function debounce(fn: () => void, delay: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return () => {
+    clearTimeout(timer);
+    timer = setTimeout(fn, delay);
+  };
+}
+
+// Smart list counts are computed on the server; there are none to refresh
+// until a saved filter exists
+const refreshSavedFilters = debounce(() => {
+  const { allIds, fetchSavedFilters } = useSavedFilterStore.getState();
+  if (allIds.length > 0) void fetchSavedFilters();
+}, REFRESH_DELAY);
+
+// Folder counts are computed on the server from their lists
+const refreshFolders = debounce(
+  () => void useFolderStore.getState().fetchFolders(),
+  REFRESH_DELAY
+);
+
+function applySyncEvent(event: SyncEvent) {
+  switch (event.type) {
+    case "task_created":
+    case "task_updated":
+    case "task_deleted":
+    case "task_completed":
+      useTaskStore.getState().applyTaskEvent(event);
+      useViewStore.getState().applyTaskEvent(event);
+      refreshSavedFilters();
+      break;
+    case "list_created":
+    case "list_updated":
+    case "list_deleted":
+      useListStore.getState().applyListEvent(event);
+      refreshFolders();
+      break;
+    case "label_created":
+    case "label_updated":
+    case "label_deleted":
+      useLabelStore.getState().applyLabelEvent(event);
+      break;
+  }
+}
+
+// Events missed while disconnected are recovered by refetching everything
+function refetchAll() {
+  void useTaskStore.getState().fetchTasks();
+  void useListStore.getState().fetchLists();
+  void useLabelStore.getState().fetchLabels();
+  void useSavedFilterStore.getState().fetchSavedFilters();
+  void useFolderStore.getState().fetchFolders();
+  void useViewStore.getState().refreshAllViews();
+}
+
+// Keep the stores in sync with changes made in other tabs
+export function useSync() {
+  useEffect(() => {
+    const source = new EventSource("/api/events");
+    let disconnected = false;
+
+    source.onmessage = (message) => {
+      applySyncEvent(JSON.parse(message.data));
+    };
+    source.onerror = () => {
+      disconnected = true;
+    };
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false;
+        refetchAll();
+      }
+    };
+
+    return () => {
+      source.close();
+    };
+  }, []);
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect } from "react";
+import { useHistoryStore } from "@/store/historyStore";
+import { isEditableTarget } from "@/lib/shortcuts";
+
+// Ctrl+Z undoes and Ctrl+Shift+Z (or Ctrl+Y) redoes the last task, list or
+// label change; Cmd replaces Ctrl on macOS
+export function useUndoShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Text fields keep their native undo
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        void useHistoryStore.getState().undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        void useHistoryStore.getState().redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+}
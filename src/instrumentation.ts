@@ -0,0 +1,20 @@
+export async function register() {
+  // The schedulers need the SQLite database, so only run them on the Node.js runtime.
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+
+  // Set RECURRENCE_SCHEDULER=off when running the standalone worker instead.
+  if (process.env.RECURRENCE_SCHEDULER !== "off") {
+    const { RecurrenceScheduler } = await import(
+      "@/services/recurrence-scheduler"
+    );
+    RecurrenceScheduler.getInstance().start();
+  }
+
+  // Set TRASH_PURGE=off when running the standalone trash worker instead.
+  if (process.env.TRASH_PURGE !== "off") {
+    const { TrashScheduler } = await import("@/services/trash-scheduler");
+    TrashScheduler.getInstance().start();
+  }
+}
@@ -0,0 +1,85 @@
+import type { TaskActivity, TaskChange, TaskComment } from "@/types/task";
+
+/**
+ * The activity stream of a task interleaves its comments with the changes
+ * the audit log recorded for it. Both carry ISO timestamps, which sort
+ * chronologically.
+ */
+
+// Bookkeeping columns rather than something the user changed
+const IGNORED_FIELDS = new Set(["updatedAt", "createdAt", "position"]);
+
+// Oldest first; a change and a comment made at the same moment keep the
+// change first
+export function buildTaskActivity(
+  changes: TaskChange[],
+  comments: TaskComment[]
+): TaskActivity[] {
+  const activity: TaskActivity[] = [
+    ...changes.map((change) => ({
+      type: "change" as const,
+      createdAt: change.createdAt,
+      change,
+    })),
+    ...comments.map((comment) => ({
+      type: "comment" as const,
+      createdAt: comment.createdAt,
+      comment,
+    })),
+  ];
+  return activity.sort(
+    (a, b) =>
+      Date.parse(a.createdAt) - Date.parse(b.createdAt) ||
+      (a.type === b.type ? 0 : a.type === "change" ? -1 : 1)
+  );
+}
+
+// The log compares stored rows with parsed tasks, so an untouched list
+// field can go from [] to null
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+// "estimateHours" -> "estimate hours"
+const toWords = (field: string) =>
+  field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+
+// A sentence describing a change, such as "Changed title and priority"
+export function describeTaskChange(change: TaskChange): string {
+  switch (change.changeType) {
+    case "create":
+      return "Created the task";
+    case "delete":
+      return "Deleted the task";
+    case "complete":
+      return "Completed the task";
+    case "uncomplete":
+      return "Reopened the task";
+    case "update":
+      break;
+  }
+
+  let changedFields: Record<string, { old: unknown; new: unknown }> = {};
+  try {
+    changedFields = JSON.parse(change.changedFields ?? "{}") ?? {};
+  } catch {
+    // Older entries may hold anything; describe them generically
+  }
+
+  if ("blocked" in changedFields) {
+    return changedFields.blocked.new ? "Became blocked" : "Was unblocked";
+  }
+
+  const fields = Object.entries(changedFields)
+    .filter(
+      ([field, values]) =>
+        !IGNORED_FIELDS.has(field) &&
+        !(isEmpty(values?.old) && isEmpty(values?.new))
+    )
+    .map(([field]) => toWords(field));
+  if (fields.length === 0) return "Updated the task";
+  if (fields.length === 1) return `Changed ${fields[0]}`;
+  return `Changed ${fields.slice(0, -1).join(", ")} and ${fields[fields.length - 1]}`;
+}
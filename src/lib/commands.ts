@@ -0,0 +1,79 @@
+import { shiftDate } from "@/lib/date-shift";
+import type { TaskWithRelations } from "@/types/task";
+
+/**
+ * Commands of the command palette. Features contribute commands by
+ * registering them on the command store; a command either runs straight
+ * away or, when it asks for a value such as a priority, lists options on a
+ * page of its own. Task commands act on the selected task and are only
+ * offered while a task is selected.
+ */
+
+export interface CommandOption {
+  id: string;
+  title: string;
+  keywords?: string[];
+  run: () => void | Promise<void>;
+}
+
+type CommandBase = {
+  id: string; // Registering a command with the same id replaces it
+  title: string;
+  group: string; // Heading the palette lists it under
+  keywords?: string[];
+};
+
+export type Command =
+  | (CommandBase & {
+      forTask?: false;
+      run?: () => void | Promise<void>;
+      getOptions?: () => CommandOption[];
+    })
+  | (CommandBase & {
+      forTask: true;
+      run?: (task: TaskWithRelations) => void | Promise<void>;
+      getOptions?: (task: TaskWithRelations) => CommandOption[];
+    });
+
+export type CommandGroup = {
+  name: string;
+  commands: Command[];
+};
+
+// The commands in their groups, in the order the groups were first
+// registered; task commands come first and are left out without a task
+export function groupCommands(
+  commands: Command[],
+  hasTask: boolean
+): CommandGroup[] {
+  const groups = new Map<string, Command[]>();
+  const available = commands.filter((command) => hasTask || !command.forTask);
+  [
+    ...available.filter((command) => command.forTask),
+    ...available.filter((command) => !command.forTask),
+  ].forEach((command) => {
+    groups.set(command.group, [...(groups.get(command.group) ?? []), command]);
+  });
+  return Array.from(groups, ([name, grouped]) => ({
+    name,
+    commands: grouped,
+  }));
+}
+
+// Days a task is commonly moved to: today, tomorrow, the coming weekend
+// (today on a weekend) and the start of next week
+export function getRescheduleDates(
+  today: string
+): { title: string; date: string }[] {
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const isWeekend = weekday === 0 || weekday === 6;
+  return [
+    { title: "Today", date: today },
+    { title: "Tomorrow", date: shiftDate(today, 1) },
+    {
+      title: "This weekend",
+      date: isWeekend ? today : shiftDate(today, 6 - weekday),
+    },
+    { title: "Next week", date: shiftDate(today, 7 - ((weekday + 6) % 7)) },
+  ];
+}
@@ -0,0 +1,110 @@
+import type {
+  CustomField,
+  CustomFieldSort,
+  CustomFieldValue,
+  Task,
+  TaskFilter,
+} from "@/types/task";
+
+/**
+ * Custom fields are task fields defined per list. A task holds its values
+ * in customValues, keyed by field ID, for the fields of its current list;
+ * values are validated by buildCustomValuesSchema in lib/validation.
+ */
+
+type ValuedTask = {
+  customValues?: Record<string, CustomFieldValue | null>;
+};
+
+// A value as shown next to the field name
+export function formatCustomValue(
+  field: CustomField,
+  value: CustomFieldValue | null | undefined
+): string {
+  if (value === null || value === undefined) return "";
+  if (field.type === "checkbox") return value ? "Yes" : "No";
+  return value.toString();
+}
+
+// Every filtered field must match: text fields contain the value, ignoring
+// case, and an unchecked checkbox matches tasks without a value. Filters
+// on fields the list does not have are ignored.
+export function matchesCustomFields(
+  task: ValuedTask,
+  filters: Record<string, CustomFieldValue>,
+  fields: CustomField[]
+): boolean {
+  return fields.every((field) => {
+    const wanted = filters[field.id];
+    if (wanted === undefined || wanted === "") return true;
+    const value = task.customValues?.[field.id];
+
+    switch (field.type) {
+      case "text":
+        return (
+          typeof value === "string" &&
+          value.toLowerCase().includes(wanted.toString().toLowerCase())
+        );
+      case "checkbox":
+        return (value ?? false) === wanted;
+      default:
+        return value === wanted;
+    }
+  });
+}
+
+// Whether the task meets the criteria of a filter bar. Search text is
+// looked for in the title and description, and custom fields only filter
+// with a list chosen, against that list's fields.
+export function matchesTaskFilter(
+  task: ValuedTask &
+    Pick<
+      Task,
+      "title" | "description" | "priority" | "isCompleted" | "listId" | "date"
+    >,
+  filter: TaskFilter,
+  fields: CustomField[]
+): boolean {
+  const search = filter.search?.trim().toLowerCase();
+  if (
+    search &&
+    !`${task.title} ${task.description ?? ""}`.toLowerCase().includes(search)
+  ) {
+    return false;
+  }
+  if (filter.priority && task.priority !== filter.priority) return false;
+  if (filter.status === "completed" && !task.isCompleted) return false;
+  if (filter.status === "pending" && task.isCompleted) return false;
+  if (filter.listId && task.listId !== filter.listId) return false;
+  if (filter.date && task.date !== filter.date) return false;
+
+  return (
+    !filter.listId ||
+    !filter.customFields ||
+    matchesCustomFields(
+      task,
+      filter.customFields,
+      fields.filter((field) => field.listId === filter.listId)
+    )
+  );
+}
+
+// A copy sorted by the field; tasks without a value keep their order
+// after the others
+export function sortByCustomField<T extends ValuedTask>(
+  tasks: T[],
+  { fieldId, direction }: CustomFieldSort
+): T[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...tasks].sort((a, b) => {
+    const valueA = a.customValues?.[fieldId] ?? null;
+    const valueB = b.customValues?.[fieldId] ?? null;
+    if (valueA === null || valueB === null) {
+      return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+    }
+    if (typeof valueA === "string" && typeof valueB === "string") {
+      return sign * valueA.localeCompare(valueB);
+    }
+    return sign * (Number(valueA) - Number(valueB));
+  });
+}
@@ -0,0 +1,71 @@
+import { formatRRule, parseRRule } from "./rrule";
+import type { Reminder } from "@/types/task";
+
+/**
+ * Moving tasks in time, as when a list is copied to start on another day.
+ * Every date of a task moves by the same number of days, so the gaps
+ * between them are kept.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DatedTask = {
+  date: string;
+  deadline?: string | null;
+  recurrenceEndDate?: string | null;
+  recurrenceRule?: string | null;
+  recurrenceExceptions?: string[];
+  reminders?: Reminder[];
+};
+
+// Whole days from one ISO date to another
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to.slice(0, 10)}T00:00:00Z`) -
+      Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) /
+      DAY_MS
+  );
+}
+
+// Shift an ISO date, keeping the time of a YYYY-MM-DDTHH:mm value
+export function shiftDate(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10) + isoDate.slice(10);
+}
+
+export function shiftTaskDates<T extends DatedTask>(task: T, days: number): T {
+  if (days === 0) return task;
+
+  let recurrenceRule = task.recurrenceRule;
+  if (recurrenceRule) {
+    const rule = parseRRule(recurrenceRule);
+    if (rule.until) {
+      recurrenceRule = formatRRule({
+        ...rule,
+        until: shiftDate(rule.until, days),
+      });
+    }
+  }
+
+  return {
+    ...task,
+    date: shiftDate(task.date, days),
+    deadline: task.deadline && shiftDate(task.deadline, days),
+    recurrenceEndDate:
+      task.recurrenceEndDate && shiftDate(task.recurrenceEndDate, days),
+    recurrenceRule,
+    recurrenceExceptions: task.recurrenceExceptions?.map((date) =>
+      shiftDate(date, days)
+    ),
+    // Reminders relative to the deadline move with it
+    reminders: task.reminders?.map((reminder) =>
+      reminder.at
+        ? {
+            ...reminder,
+            at: new Date(Date.parse(reminder.at) + days * DAY_MS).toISOString(),
+          }
+        : reminder
+    ),
+  };
+}
@@ -1,11 +1,30 @@
-import { and, asc, count, desc, eq, inArray, like, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  sql,
+} from "drizzle-orm";
 import { db } from "./db";
+import {
+  calculateTaskCompletion,
+  getLastPosition,
+  inVisibleList,
+} from "./db-utils";
 import {
   attachments,
+  customFields,
   labels,
   lists,
   subTasks,
   taskChanges,
+  taskCustomValues,
+  taskDependencies,
   taskLabels,
   tasks,
 } from "./schema";
@@ -16,13 +35,25 @@ import type {
   SubTask,
   Task,
   TaskChange,
+  TaskDependency,
   TaskWithRelations,
 } from "@/types/task";
 
+// Labels in the trash are hidden from the tasks that carry them
+const activeLabelJoin = and(
+  eq(taskLabels.labelId, labels.id),
+  isNull(labels.deletedAt)
+);
+
 export class DatabaseService {
   // Lists operations
   async getLists(): Promise<List[]> {
-    return db.select().from(lists).all() as List[];
+    return db
+      .select()
+      .from(lists)
+      .where(isNull(lists.deletedAt))
+      .orderBy(asc(lists.position))
+      .all() as List[];
   }
 
   async getListById(id: number): Promise<List | undefined> {
@@ -36,7 +67,7 @@ export class DatabaseService {
   ): Promise<List> {
     const [newList] = (await db
       .insert(lists)
-      .values(list)
+      .values({ ...list, position: await getLastPosition(lists) })
       .returning()
       .all()) as List[];
     return newList;
@@ -55,13 +86,22 @@ export class DatabaseService {
     return updatedList;
   }
 
+  // Moves the list to the trash; see TrashService for restoring and purging
   async deleteList(id: number): Promise<void> {
-    await db.delete(lists).where(eq(lists.id, id)).run();
+    await db
+      .update(lists)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(eq(lists.id, id))
+      .run();
   }
 
   // Labels operations
   async getLabels(): Promise<Label[]> {
-    return db.select().from(labels).all() as Label[];
+    return db
+      .select()
+      .from(labels)
+      .where(isNull(labels.deletedAt))
+      .all() as Label[];
   }
 
   async createLabel(label: Omit<Label, "id" | "createdAt">): Promise<Label> {
@@ -74,7 +114,11 @@ export class DatabaseService {
   }
 
   async deleteLabel(id: number): Promise<void> {
-    await db.delete(labels).where(eq(labels.id, id)).run();
+    await db
+      .update(labels)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(eq(labels.id, id))
+      .run();
   }
 
   // Tasks operations
@@ -87,8 +131,9 @@ export class DatabaseService {
       date?: string;
       limit?: number;
       offset?: number;
-      orderBy?: keyof Task;
+      orderBy?: Exclude<keyof Task, "customValues"> | "deletedAt" | "position";
       orderDirection?: "asc" | "desc";
+      trashed?: boolean; // Only tasks in the trash instead of none of them
     } = {}
   ): Promise<{ tasks: TaskWithRelations[]; total: number }> {
     const {
@@ -101,12 +146,17 @@ export class DatabaseService {
       offset = 0,
       orderBy = "date",
       orderDirection = "asc",
+      trashed = false,
     } = options;
 
     // Build where conditions
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereConditions: Array<any> = [];
+    const whereConditions: Array<any> = [
+      trashed ? isNotNull(tasks.deletedAt) : isNull(tasks.deletedAt),
+    ];
     if (listId) whereConditions.push(eq(tasks.listId, listId));
+    // A list asked for by ID is shown even when its folder is archived
+    else if (!trashed) whereConditions.push(inVisibleList());
     if (priority) whereConditions.push(eq(tasks.priority, priority));
     if (completed !== undefined)
       whereConditions.push(eq(tasks.isCompleted, completed));
@@ -115,9 +165,7 @@ export class DatabaseService {
       whereConditions.push(like(tasks.title, `%${search}%`));
     }
 
-    const whereClause = whereConditions.length
-      ? and(...whereConditions)
-      : undefined;
+    const whereClause = and(...whereConditions);
 
     // Get total count
     const totalResult = await db
@@ -145,12 +193,14 @@ export class DatabaseService {
       .from(tasks)
       .leftJoin(lists, eq(tasks.listId, lists.id))
       .leftJoin(taskLabels, eq(tasks.id, taskLabels.taskId))
-      .leftJoin(labels, eq(taskLabels.labelId, labels.id))
+      .leftJoin(labels, activeLabelJoin)
       .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
       .leftJoin(attachments, eq(tasks.id, attachments.taskId))
       .where(whereClause)
       .orderBy(
-        orderDirection === "asc" ? asc(tasks[orderBy]) : desc(tasks[orderBy])
+        orderDirection === "asc" ? asc(tasks[orderBy]) : desc(tasks[orderBy]),
+        asc(tasks.position),
+        asc(subTasks.position)
       )
       .limit(limit)
       .offset(offset);
@@ -172,6 +222,9 @@ export class DatabaseService {
           subTasks: [],
           attachments: [],
           reminders: row.task.reminders ? JSON.parse(row.task.reminders) : [],
+          recurrenceExceptions: row.task.recurrenceExceptions
+            ? JSON.parse(row.task.recurrenceExceptions)
+            : [],
         });
       }
 
@@ -200,7 +253,9 @@ export class DatabaseService {
     });
 
     return {
-      tasks: Array.from(tasksMap.values()),
+      tasks: await this.withCustomValues(
+        await this.withDependencies(Array.from(tasksMap.values()))
+      ),
       total,
     };
   }
@@ -222,10 +277,11 @@ export class DatabaseService {
       .from(tasks)
       .leftJoin(lists, eq(tasks.listId, lists.id))
       .leftJoin(taskLabels, eq(tasks.id, taskLabels.taskId))
-      .leftJoin(labels, eq(taskLabels.labelId, labels.id))
+      .leftJoin(labels, activeLabelJoin)
       .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
       .leftJoin(attachments, eq(tasks.id, attachments.taskId))
       .where(eq(tasks.id, id))
+      .orderBy(asc(subTasks.position))
       .all();
 
     if (results.length === 0) return undefined;
@@ -237,6 +293,9 @@ export class DatabaseService {
       subTasks: [],
       attachments: [],
       reminders: results[0].task.reminders ? JSON.parse(results[0].task.reminders) : [],
+      recurrenceExceptions: results[0].task.recurrenceExceptions
+        ? JSON.parse(results[0].task.recurrenceExceptions)
+        : [],
     } as TaskWithRelations;
 
     // Group related data
@@ -259,7 +318,95 @@ export class DatabaseService {
       }
     });
 
-    return task;
+    const [taskWithDependencies] = await this.withCustomValues(
+      await this.withDependencies([task])
+    );
+    return {
+      ...taskWithDependencies,
+      completion: await calculateTaskCompletion(id),
+    };
+  }
+
+  // Fill in the tasks each task waits for and the tasks waiting for it;
+  // tasks in the trash neither block nor wait
+  private async withDependencies(
+    taskList: TaskWithRelations[]
+  ): Promise<TaskWithRelations[]> {
+    const ids = taskList.map((task) => task.id!);
+    if (ids.length === 0) return taskList;
+
+    const dependencyFields = {
+      id: tasks.id,
+      title: tasks.title,
+      isCompleted: tasks.isCompleted,
+    };
+    const [blockerRows, dependentRows] = await Promise.all([
+      db
+        .select({ ...dependencyFields, of: taskDependencies.taskId })
+        .from(taskDependencies)
+        .innerJoin(tasks, eq(taskDependencies.blockerId, tasks.id))
+        .where(
+          and(inArray(taskDependencies.taskId, ids), isNull(tasks.deletedAt))
+        )
+        .all() as Promise<(TaskDependency & { of: number })[]>,
+      db
+        .select({ ...dependencyFields, of: taskDependencies.blockerId })
+        .from(taskDependencies)
+        .innerJoin(tasks, eq(taskDependencies.taskId, tasks.id))
+        .where(
+          and(inArray(taskDependencies.blockerId, ids), isNull(tasks.deletedAt))
+        )
+        .all() as Promise<(TaskDependency & { of: number })[]>,
+    ]);
+
+    const dependenciesOf = (
+      rows: (TaskDependency & { of: number })[],
+      taskId: number | undefined
+    ): TaskDependency[] =>
+      rows
+        .filter((row) => row.of === taskId)
+        .map(({ id, title, isCompleted }) => ({ id, title, isCompleted }));
+
+    return taskList.map((task) => ({
+      ...task,
+      blockedBy: dependenciesOf(blockerRows, task.id),
+      blocking: dependenciesOf(dependentRows, task.id),
+    }));
+  }
+
+  // Fill in each task's values for the custom fields of its list
+  private async withCustomValues(
+    taskList: TaskWithRelations[]
+  ): Promise<TaskWithRelations[]> {
+    const ids = taskList.map((task) => task.id!);
+    if (ids.length === 0) return taskList;
+
+    const rows = (await db
+      .select({
+        taskId: taskCustomValues.taskId,
+        fieldId: taskCustomValues.fieldId,
+        value: taskCustomValues.value,
+      })
+      .from(taskCustomValues)
+      .innerJoin(tasks, eq(taskCustomValues.taskId, tasks.id))
+      .innerJoin(
+        customFields,
+        and(
+          eq(taskCustomValues.fieldId, customFields.id),
+          eq(customFields.listId, tasks.listId)
+        )
+      )
+      .where(inArray(taskCustomValues.taskId, ids))
+      .all()) as { taskId: number; fieldId: number; value: string }[];
+
+    return taskList.map((task) => ({
+      ...task,
+      customValues: Object.fromEntries(
+        rows
+          .filter((row) => row.taskId === task.id)
+          .map((row) => [row.fieldId, JSON.parse(row.value)])
+      ),
+    }));
   }
 
   async createTask(
@@ -269,7 +416,11 @@ export class DatabaseService {
       .insert(tasks)
       .values({
         ...task,
+        position: await getLastPosition(tasks),
         reminders: task.reminders ? JSON.stringify(task.reminders) : undefined,
+        recurrenceExceptions: task.recurrenceExceptions
+          ? JSON.stringify(task.recurrenceExceptions)
+          : undefined,
       })
       .returning()
       .all()) as unknown as Task[];
@@ -290,6 +441,9 @@ export class DatabaseService {
       .set({
         ...updates,
         reminders: updates.reminders ? JSON.stringify(updates.reminders) : undefined,
+        recurrenceExceptions: updates.recurrenceExceptions
+          ? JSON.stringify(updates.recurrenceExceptions)
+          : undefined,
         updatedAt: sql`CURRENT_TIMESTAMP`
       })
       .where(eq(tasks.id, id))
@@ -302,7 +456,11 @@ export class DatabaseService {
   }
 
   async deleteTask(id: number): Promise<void> {
-    await db.delete(tasks).where(eq(tasks.id, id)).run();
+    await db
+      .update(tasks)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(eq(tasks.id, id))
+      .run();
   }
 
   async completeTask(id: number): Promise<TaskWithRelations | undefined> {
@@ -363,7 +521,13 @@ export class DatabaseService {
   ): Promise<SubTask> {
     const [newSubTask] = (await db
       .insert(subTasks)
-      .values(subTask)
+      .values({
+        ...subTask,
+        position: await getLastPosition(
+          subTasks,
+          eq(subTasks.taskId, subTask.taskId)
+        ),
+      })
       .returning()
       .all()) as SubTask[];
     return newSubTask;
@@ -423,7 +587,7 @@ export class DatabaseService {
     const today = new Date().toISOString().split("T")[0];
     const { tasks } = await this.getTasks({
       date: today,
-      orderBy: "deadline",
+      orderBy: "position",
       orderDirection: "asc",
     });
     return tasks;
@@ -455,6 +619,16 @@ export class DatabaseService {
     return tasks;
   }
 
+  async getTrashedTasks(): Promise<TaskWithRelations[]> {
+    const { tasks } = await this.getTasks({
+      trashed: true,
+      limit: -1, // No limit
+      orderBy: "deletedAt",
+      orderDirection: "desc",
+    });
+    return tasks;
+  }
+
   async getInboxTasks(): Promise<TaskWithRelations[]> {
     const inboxList = (await db
       .select()
@@ -466,8 +640,8 @@ export class DatabaseService {
 
     const { tasks } = await this.getTasks({
       listId: inboxList.id,
-      orderBy: "createdAt",
-      orderDirection: "desc",
+      orderBy: "position",
+      orderDirection: "asc",
     });
 
     return tasks;
@@ -1,7 +1,19 @@
 import { db } from "./db";
-import { tasks } from "./schema";
-import { sql } from "drizzle-orm";
-import type { Task } from "@/types/task";
+import { listFolders, lists, listSections, subTasks, tasks } from "./schema";
+import { generateKeyBetween } from "./ordering";
+import { buildTaskTree, rollUpCompletion } from "./task-tree";
+import {
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  lt,
+  notInArray,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import type { Placement, Task } from "@/types/task";
 
 /**
  * Format time estimate/actual time to HH:mm format
@@ -31,12 +43,154 @@ export function parseTime(timeString: string): { hours: number; minutes: number
 }
 
 /**
- * Calculate task completion percentage based on sub-tasks
+ * Calculate task completion percentage, rolled up from its subtasks at every
+ * depth and the checklist items of each
  */
 export async function calculateTaskCompletion(taskId: number): Promise<number> {
-  // This would need to be implemented with sub-tasks query
-  // For now, return 0 or implement based on your sub-task logic
-  return 0;
+  const subtree = (await db.all(sql`
+    WITH RECURSIVE subtree(id) AS (
+      SELECT ${taskId}
+      UNION
+      SELECT ${tasks.id} FROM ${tasks}
+      JOIN subtree ON ${tasks.parentTaskId} = subtree.id
+      WHERE ${tasks.deletedAt} IS NULL
+    )
+    SELECT ${tasks.id} AS id, ${tasks.parentTaskId} AS parentTaskId,
+      ${tasks.isCompleted} AS isCompleted
+    FROM ${tasks} WHERE ${tasks.id} IN (SELECT id FROM subtree)
+  `)) as { id: number; parentTaskId: number | null; isCompleted: number }[];
+  if (subtree.length === 0) return 0;
+
+  const checklist = (await db
+    .select({ taskId: subTasks.taskId, isCompleted: subTasks.isCompleted })
+    .from(subTasks)
+    .where(
+      inArray(
+        subTasks.taskId,
+        subtree.map((task) => task.id)
+      )
+    )
+    .all()) as { taskId: number; isCompleted: boolean }[];
+
+  const [root] = buildTaskTree(
+    subtree.map((task) => ({
+      ...task,
+      // The root's own parent is outside the subtree
+      parentTaskId: task.id === taskId ? null : task.parentTaskId,
+      isCompleted: Boolean(task.isCompleted),
+      subTasks: checklist.filter((item) => item.taskId === task.id),
+    }))
+  ).filter((node) => node.task.id === taskId);
+
+  return root ? rollUpCompletion(root) : 0;
+}
+
+// The neighbours of a moved item are no longer in the order the client saw
+export class PositionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PositionConflictError";
+  }
+}
+
+type OrderedTable =
+  | typeof tasks
+  | typeof subTasks
+  | typeof lists
+  | typeof listSections
+  | typeof listFolders;
+
+/**
+ * Position for an item moved between two neighbours from the same table,
+ * or undefined when a neighbour does not exist. An open side is closed
+ * with the nearest position in the whole table, so that a move to the
+ * start or end of one list does not reuse a key from another.
+ */
+export async function getPositionBetween(
+  table: OrderedTable,
+  { afterId, beforeId }: Placement
+): Promise<string | undefined> {
+  const positionOf = async (id: number | null | undefined) => {
+    if (!id) return null;
+    const row: { position: string } | undefined = await db
+      .select({ position: table.position })
+      .from(table)
+      .where(eq(table.id, id))
+      .get();
+    return row?.position;
+  };
+
+  const nearest = async (where: SQL, aggregate: "max" | "min") => {
+    const row: { position: string | null } | undefined = await db
+      .select({
+        position: sql<string | null>`${sql.raw(aggregate)}(${table.position})`,
+      })
+      .from(table)
+      .where(where)
+      .get();
+    return row?.position ?? null;
+  };
+
+  let after = await positionOf(afterId);
+  let before = await positionOf(beforeId);
+  if (after === undefined || before === undefined) return undefined;
+  if (after !== null && before !== null && after >= before) {
+    throw new PositionConflictError("The items were reordered elsewhere");
+  }
+
+  if (after === null && before !== null) {
+    after = await nearest(lt(table.position, before), "max");
+  } else if (before === null && after !== null) {
+    before = await nearest(gt(table.position, after), "min");
+  }
+  return generateKeyBetween(after, before);
+}
+
+/**
+ * Position after every item matching the condition, for a new item
+ */
+export async function getLastPosition(
+  table: OrderedTable,
+  where?: SQL
+): Promise<string> {
+  const last: { position: string | null } | undefined = await db
+    .select({ position: sql<string | null>`max(${table.position})` })
+    .from(table)
+    .where(where)
+    .get();
+  return generateKeyBetween(last?.position ?? null, null);
+}
+
+/**
+ * Condition leaving out the tasks of archived lists and of lists in an
+ * archived folder, which are hidden from the views
+ */
+export function inVisibleList(): SQL {
+  return notInArray(
+    tasks.listId,
+    db
+      .select({ id: lists.id })
+      .from(lists)
+      .leftJoin(listFolders, eq(lists.folderId, listFolders.id))
+      .where(or(isNotNull(lists.archivedAt), isNotNull(listFolders.archivedAt)))
+  );
+}
+
+/**
+ * Run work that writes through the services in a single transaction, rolled
+ * back when it throws. db.transaction only takes a synchronous callback, and
+ * the services write through db rather than a transaction handle.
+ */
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  db.run(sql`BEGIN`);
+  try {
+    const result = await work();
+    db.run(sql`COMMIT`);
+    return result;
+  } catch (error) {
+    db.run(sql`ROLLBACK`);
+    throw error;
+  }
 }
 
 /**
@@ -0,0 +1,56 @@
+import type { TaskDependency } from "@/types/task";
+
+/**
+ * Task dependencies. A task is blocked while any task it depends on is not
+ * completed; dependencies may not form a cycle, since none of the tasks in
+ * it could ever start.
+ */
+
+export type DependencyEdge = {
+  taskId: number;
+  blockerId: number;
+};
+
+export function isTaskBlocked(task: { blockedBy?: TaskDependency[] }): boolean {
+  return task.blockedBy?.some((blocker) => !blocker.isCompleted) ?? false;
+}
+
+// Returns the chain of task ids that making taskId wait for blockerId would
+// close, starting and ending with taskId, or null when there is none
+export function findDependencyCycle(
+  edges: DependencyEdge[],
+  taskId: number,
+  blockerId: number
+): number[] | null {
+  if (taskId === blockerId) return [taskId, taskId];
+
+  const blockersOf = new Map<number, number[]>();
+  for (const edge of edges) {
+    blockersOf.set(edge.taskId, [
+      ...(blockersOf.get(edge.taskId) ?? []),
+      edge.blockerId,
+    ]);
+  }
+
+  // Walk the tasks blockerId waits for, remembering how each was reached
+  const reachedFrom = new Map<number, number>([[blockerId, taskId]]);
+  const queue = [blockerId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of blockersOf.get(current) ?? []) {
+      if (next === taskId) {
+        const chain = [taskId];
+        for (let id = current; id !== taskId; id = reachedFrom.get(id)!) {
+          chain.unshift(id);
+        }
+        return [taskId, ...chain];
+      }
+      if (!reachedFrom.has(next)) {
+        reachedFrom.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { EventEmitter } from "events";
+import type { LabelEvent, ListEvent, SyncEvent, TaskEvent } from "@/types/api";
+
+/**
+ * In-process bus for data change events. Services publish to it after each
+ * mutation and /api/events streams the events to every open tab. The bus
+ * lives on globalThis so that all route bundles share the same instance.
+ */
+
+type SyncEventInput =
+  | Omit<TaskEvent, "timestamp">
+  | Omit<ListEvent, "timestamp">
+  | Omit<LabelEvent, "timestamp">;
+
+const globalForEvents = globalThis as typeof globalThis & {
+  syncEvents?: EventEmitter;
+};
+
+const emitter = (globalForEvents.syncEvents ??= new EventEmitter());
+
+// Every open tab adds a listener
+emitter.setMaxListeners(0);
+
+export function publishEvent(event: SyncEventInput): void {
+  emitter.emit("event", {
+    ...event,
+    timestamp: new Date().toISOString(),
+  } as SyncEvent);
+}
+
+export function subscribeToEvents(
+  listener: (event: SyncEvent) => void
+): () => void {
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
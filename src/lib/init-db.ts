@@ -1,6 +1,7 @@
 import { db } from "./db";
 import { lists, labels, tasks } from "./schema";
 import { sql } from "drizzle-orm";
+import { getLastPosition } from "./db-utils";
 
 /**
  * Initialize the database with default data
@@ -26,6 +27,7 @@ export async function initializeDatabase() {
           color: "#3B82F6",
           emoji: "📥",
           isMagic: true,
+          position: await getLastPosition(lists),
         })
         .run();
       console.log("✓ Magic Inbox list created");
@@ -74,13 +76,25 @@ export async function resetDatabase() {
   try {
     // Drop all tables in correct order (respecting foreign keys)
     await db.run(sql`
+      DROP TABLE IF EXISTS preferences;
+      DROP TABLE IF EXISTS task_dependencies;
+      DROP TABLE IF EXISTS templates;
+      DROP TABLE IF EXISTS saved_filters;
+      DROP TABLE IF EXISTS task_search;
+      DROP TABLE IF EXISTS reminder_queue;
       DROP TABLE IF EXISTS task_changes;
       DROP TABLE IF EXISTS attachments;
       DROP TABLE IF EXISTS sub_tasks;
       DROP TABLE IF EXISTS task_labels;
+      DROP TABLE IF EXISTS task_comments;
+      DROP TABLE IF EXISTS task_custom_values;
       DROP TABLE IF EXISTS tasks;
+      DROP TABLE IF EXISTS custom_fields;
+      DROP TABLE IF EXISTS list_sections;
+      DROP TABLE IF EXISTS recurring_series;
       DROP TABLE IF EXISTS labels;
       DROP TABLE IF EXISTS lists;
+      DROP TABLE IF EXISTS list_folders;
     `);
 
     console.log("✓ All tables dropped");
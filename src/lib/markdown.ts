@@ -0,0 +1,249 @@
+/**
+ * A small Markdown parser for descriptions and comments. It covers the
+ * common subset: headings, paragraphs, block quotes, flat bulleted and
+ * numbered lists with `- [ ]` checkboxes, fenced code, and inline code,
+ * bold, italics and links, plus references to other tasks written as
+ * `[[Task title]]` or `#123`. The result is a tree that
+ * components/ui/Markdown renders as React elements, so the source is never
+ * injected as HTML.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "taskRef"; ref: TaskReference; text: string }
+  | { type: "break" };
+
+// A task referred to by ID or by title
+export type TaskReference = { id: number } | { title: string };
+
+export type MarkdownListItem = {
+  children: MarkdownInline[];
+  checked?: boolean; // Set on checkbox items
+  line: number; // Index of the item's line in the source
+};
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; items: MarkdownListItem[] };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const FENCE = /^```/;
+const QUOTE = /^>\s?(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+// The box of a checkbox item, also inside block quotes
+const CHECKBOX_LINE = /^((?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\])/;
+
+// Links to anything else, such as javascript:, are shown as text
+const SAFE_HREF = /^(https?:|mailto:|\/|#)/i;
+
+// Code spans first so that their contents are not parsed
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:.*?[^*\s])?)\*|(?<!\w)_([^_\s](?:.*?[^_\s])?)_(?!\w)|\[\[([^\]]+)\]\]|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,:;"')\]])|(?<![\w&#])#(\d+)\b/g;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      nodes.push({ type: "text", text: text.slice(last, index) });
+    }
+    last = index + match[0].length;
+
+    const [, code, strong, strongAlt, emphasis, emphasisAlt] = match;
+    const [taskTitle, linkText, linkHref, url, taskId] = match.slice(6);
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({
+        type: "strong",
+        children: parseInline(strong ?? strongAlt),
+      });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({
+        type: "emphasis",
+        children: parseInline(emphasis ?? emphasisAlt),
+      });
+    } else if (taskTitle !== undefined && taskTitle.trim()) {
+      nodes.push({
+        type: "taskRef",
+        ref: { title: taskTitle.trim() },
+        text: match[0],
+      });
+    } else if (taskId !== undefined) {
+      nodes.push({
+        type: "taskRef",
+        ref: { id: Number(taskId) },
+        text: match[0],
+      });
+    } else if (linkText !== undefined && SAFE_HREF.test(linkHref)) {
+      nodes.push({
+        type: "link",
+        href: linkHref,
+        children: parseInline(linkText),
+      });
+    } else if (url !== undefined) {
+      nodes.push({
+        type: "link",
+        href: url,
+        children: [{ type: "text", text: url }],
+      });
+    } else {
+      nodes.push({ type: "text", text: match[0] });
+    }
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: "text", text: text.slice(last) });
+  }
+  return nodes;
+}
+
+// Lines of a paragraph keep their line breaks
+const parseLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, index) =>
+    index === 0 ? parseInline(line) : [{ type: "break" }, ...parseInline(line)]
+  );
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  return parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+// firstLine is the index in the source of lines[0]
+function parseBlocks(lines: string[], firstLine: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // The closing fence, if any
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2].trim()),
+      });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoteStart = i;
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({
+        type: "quote",
+        children: parseBlocks(quoted, firstLine + quoteStart),
+      });
+      continue;
+    }
+
+    const ordered = NUMBERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const pattern = ordered ? NUMBERED_ITEM : BULLET_ITEM;
+      const items: MarkdownListItem[] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        const text = lines[i].match(pattern)![1];
+        const checkbox = text.match(CHECKBOX);
+        items.push(
+          checkbox
+            ? {
+                children: parseInline(checkbox[2]),
+                checked: checkbox[1] !== " ",
+                line: firstLine + i,
+              }
+            : { children: parseInline(text), line: firstLine + i }
+        );
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    // A paragraph runs until a blank line or another kind of block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !QUOTE.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !NUMBERED_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseLines(paragraph) });
+  }
+
+  return blocks;
+}
+
+// The source with the checkbox item on the given line ticked or unticked;
+// unchanged when the line holds no checkbox
+export function toggleCheckbox(source: string, line: number): string {
+  const lines = source.split("\n");
+  if (line < 0 || line >= lines.length) return source;
+  lines[line] = lines[line].replace(
+    CHECKBOX_LINE,
+    (_match, before: string, mark: string, after: string) =>
+      `${before}${mark === " " ? "x" : " "}${after}`
+  );
+  return lines.join("\n");
+}
+
+const collectReferences = (
+  nodes: MarkdownInline[],
+  refs: TaskReference[]
+): void => {
+  nodes.forEach((node) => {
+    if (node.type === "taskRef") refs.push(node.ref);
+    if ("children" in node) collectReferences(node.children, refs);
+  });
+};
+
+// The tasks the source refers to, outside code
+export function getTaskReferences(source: string): TaskReference[] {
+  const refs: TaskReference[] = [];
+  const visit = (blocks: MarkdownBlock[]) =>
+    blocks.forEach((block) => {
+      if (block.type === "quote") visit(block.children);
+      else if (block.type === "list")
+        block.items.forEach((item) => collectReferences(item.children, refs));
+      else if (block.type !== "code") collectReferences(block.children, refs);
+    });
+  visit(parseMarkdown(source));
+  return refs;
+}
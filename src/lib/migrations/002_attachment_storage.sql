@@ -0,0 +1,7 @@
+-- Attachment storage backend
+-- Attachments now point at content-addressed blobs; the hash lets
+-- identical uploads share one blob and tells us when a blob is orphaned
+
+ALTER TABLE attachments ADD COLUMN content_hash TEXT;
+
+CREATE INDEX attachment_content_hash_idx ON attachments(content_hash);
@@ -0,0 +1,23 @@
+-- RRULE based recurrence
+-- Adds RFC 5545 recurrence rules and exception dates to tasks and
+-- converts existing fixed recurrence types into equivalent rules
+
+ALTER TABLE tasks ADD COLUMN recurrence_rule TEXT;
+ALTER TABLE tasks ADD COLUMN recurrence_exceptions TEXT; -- JSON array of ISO dates
+
+UPDATE tasks
+SET recurrence_rule = CASE recurrence_type
+    WHEN 'daily' THEN 'FREQ=DAILY'
+    WHEN 'custom' THEN 'FREQ=DAILY'
+    WHEN 'weekly' THEN 'FREQ=WEEKLY'
+    WHEN 'monthly' THEN 'FREQ=MONTHLY'
+    WHEN 'yearly' THEN 'FREQ=YEARLY'
+  END || CASE
+    WHEN recurrence_interval > 1 THEN ';INTERVAL=' || recurrence_interval
+    ELSE ''
+  END
+WHERE is_recurring = 1 AND recurrence_type IN ('daily', 'custom', 'weekly', 'monthly', 'yearly');
+
+UPDATE tasks
+SET recurrence_rule = 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+WHERE is_recurring = 1 AND recurrence_type = 'weekday';
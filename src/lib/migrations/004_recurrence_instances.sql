@@ -0,0 +1,25 @@
+-- Recurring task instances
+-- Links each generated recurring task to the instance it was generated
+-- from, so the scheduler creates exactly one successor per instance
+
+ALTER TABLE tasks ADD COLUMN previous_occurrence_id INTEGER;
+
+-- Link existing instances to the preceding recurring task with the same
+-- title in the same list (ordered by date, then id)
+UPDATE tasks
+SET previous_occurrence_id = (
+  SELECT previous.id
+  FROM tasks AS previous
+  WHERE previous.is_recurring = 1
+    AND previous.title = tasks.title
+    AND previous.list_id = tasks.list_id
+    AND (
+      previous.date < tasks.date
+      OR (previous.date = tasks.date AND previous.id < tasks.id)
+    )
+  ORDER BY previous.date DESC, previous.id DESC
+  LIMIT 1
+)
+WHERE is_recurring = 1;
+
+CREATE UNIQUE INDEX task_previous_occurrence_idx ON tasks(previous_occurrence_id);
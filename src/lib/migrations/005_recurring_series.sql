@@ -0,0 +1,55 @@
+-- Recurring series
+-- Groups the instances of a recurring task under one series that holds
+-- the template and rule used to generate new instances
+
+CREATE TABLE recurring_series (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'none' CHECK (priority IN ('none', 'low', 'medium', 'high')),
+  list_id INTEGER NOT NULL,
+  estimate_hours INTEGER,
+  estimate_minutes INTEGER,
+  reminders TEXT, -- JSON string
+  label_ids TEXT, -- JSON array of label IDs
+  start_date TEXT NOT NULL,
+  recurrence_rule TEXT NOT NULL,
+  recurrence_exceptions TEXT, -- JSON array of ISO dates
+  recurrence_end_date TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX series_list_idx ON recurring_series(list_id);
+
+ALTER TABLE tasks ADD COLUMN series_id INTEGER;
+
+CREATE INDEX task_series_idx ON tasks(series_id);
+
+-- Every existing chain of instances becomes one series, using the
+-- first instance's id as the series id and its fields as the template
+INSERT INTO recurring_series (
+  id, title, description, priority, list_id, estimate_hours, estimate_minutes,
+  reminders, label_ids, start_date, recurrence_rule, recurrence_exceptions,
+  recurrence_end_date
+)
+SELECT
+  id, title, description, priority, list_id, estimate_hours, estimate_minutes,
+  reminders,
+  (SELECT json_group_array(label_id) FROM task_labels WHERE task_id = tasks.id),
+  date, recurrence_rule, recurrence_exceptions, recurrence_end_date
+FROM tasks
+WHERE is_recurring = 1
+  AND recurrence_rule IS NOT NULL
+  AND previous_occurrence_id IS NULL;
+
+WITH RECURSIVE chain(task_id, series_id) AS (
+  SELECT id, id FROM recurring_series
+  UNION ALL
+  SELECT tasks.id, chain.series_id
+  FROM tasks
+  JOIN chain ON tasks.previous_occurrence_id = chain.task_id
+)
+UPDATE tasks
+SET series_id = (SELECT series_id FROM chain WHERE chain.task_id = tasks.id)
+WHERE id IN (SELECT task_id FROM chain);
@@ -0,0 +1,21 @@
+-- Reminder queue
+-- Stores the fire time and delivery state of every reminder so that
+-- reminders are delivered by the server and survive page reloads;
+-- reminders of existing tasks are queued on the first poll
+
+CREATE TABLE reminder_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id INTEGER NOT NULL,
+  reminder_index INTEGER NOT NULL,
+  fire_at TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fired', 'dismissed')),
+  fired_at TEXT,
+  snoozed_until TEXT,
+  dismissed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX reminder_task_reminder_idx ON reminder_queue(task_id, reminder_index);
+CREATE INDEX reminder_status_fire_at_idx ON reminder_queue(status, fire_at);
@@ -0,0 +1,94 @@
+-- Full-text task search
+-- Indexes each task's title, description, sub-task titles, label names
+-- and attachment file names in an FTS5 table whose rowid is the task id;
+-- triggers keep it in sync with the source tables
+
+CREATE VIRTUAL TABLE task_search USING fts5(
+  title,
+  description,
+  sub_tasks,
+  labels,
+  attachments,
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+INSERT INTO task_search (rowid, title, description, sub_tasks, labels, attachments)
+SELECT
+  t.id,
+  t.title,
+  t.description,
+  (SELECT group_concat(s.title, ' ') FROM sub_tasks s WHERE s.task_id = t.id),
+  (SELECT group_concat(l.name, ' ') FROM task_labels tl JOIN labels l ON l.id = tl.label_id WHERE tl.task_id = t.id),
+  (SELECT group_concat(a.file_name, ' ') FROM attachments a WHERE a.task_id = t.id)
+FROM tasks t;
+
+-- Tasks
+CREATE TRIGGER task_search_task_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO task_search (rowid, title, description) VALUES (new.id, new.title, new.description);
+END;
+
+CREATE TRIGGER task_search_task_update AFTER UPDATE OF title, description ON tasks BEGIN
+  UPDATE task_search SET title = new.title, description = new.description WHERE rowid = new.id;
+END;
+
+CREATE TRIGGER task_search_task_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_search WHERE rowid = old.id;
+END;
+
+-- Sub-tasks
+CREATE TRIGGER task_search_subtask_insert AFTER INSERT ON sub_tasks BEGIN
+  UPDATE task_search
+  SET sub_tasks = (SELECT group_concat(title, ' ') FROM sub_tasks WHERE task_id = new.task_id)
+  WHERE rowid = new.task_id;
+END;
+
+CREATE TRIGGER task_search_subtask_update AFTER UPDATE OF title, task_id ON sub_tasks BEGIN
+  UPDATE task_search
+  SET sub_tasks = (SELECT group_concat(title, ' ') FROM sub_tasks WHERE task_id = task_search.rowid)
+  WHERE rowid IN (old.task_id, new.task_id);
+END;
+
+CREATE TRIGGER task_search_subtask_delete AFTER DELETE ON sub_tasks BEGIN
+  UPDATE task_search
+  SET sub_tasks = (SELECT group_concat(title, ' ') FROM sub_tasks WHERE task_id = old.task_id)
+  WHERE rowid = old.task_id;
+END;
+
+-- Labels
+CREATE TRIGGER task_search_task_label_insert AFTER INSERT ON task_labels BEGIN
+  UPDATE task_search
+  SET labels = (SELECT group_concat(l.name, ' ') FROM task_labels tl JOIN labels l ON l.id = tl.label_id WHERE tl.task_id = new.task_id)
+  WHERE rowid = new.task_id;
+END;
+
+CREATE TRIGGER task_search_task_label_delete AFTER DELETE ON task_labels BEGIN
+  UPDATE task_search
+  SET labels = (SELECT group_concat(l.name, ' ') FROM task_labels tl JOIN labels l ON l.id = tl.label_id WHERE tl.task_id = old.task_id)
+  WHERE rowid = old.task_id;
+END;
+
+CREATE TRIGGER task_search_label_update AFTER UPDATE OF name ON labels BEGIN
+  UPDATE task_search
+  SET labels = (SELECT group_concat(l.name, ' ') FROM task_labels tl JOIN labels l ON l.id = tl.label_id WHERE tl.task_id = task_search.rowid)
+  WHERE rowid IN (SELECT task_id FROM task_labels WHERE label_id = new.id);
+END;
+
+-- Attachments
+CREATE TRIGGER task_search_attachment_insert AFTER INSERT ON attachments BEGIN
+  UPDATE task_search
+  SET attachments = (SELECT group_concat(file_name, ' ') FROM attachments WHERE task_id = new.task_id)
+  WHERE rowid = new.task_id;
+END;
+
+CREATE TRIGGER task_search_attachment_update AFTER UPDATE OF file_name, task_id ON attachments BEGIN
+  UPDATE task_search
+  SET attachments = (SELECT group_concat(file_name, ' ') FROM attachments WHERE task_id = task_search.rowid)
+  WHERE rowid IN (old.task_id, new.task_id);
+END;
+
+CREATE TRIGGER task_search_attachment_delete AFTER DELETE ON attachments BEGIN
+  UPDATE task_search
+  SET attachments = (SELECT group_concat(file_name, ' ') FROM attachments WHERE task_id = old.task_id)
+  WHERE rowid = old.task_id;
+END;
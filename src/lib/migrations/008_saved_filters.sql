@@ -0,0 +1,15 @@
+-- Saved filters
+-- Task filters saved by name, shown in the sidebar as smart lists with
+-- their own emoji and colour
+
+CREATE TABLE saved_filters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL CHECK (length(color) = 7), -- Hex color like #FF5733
+  emoji TEXT NOT NULL CHECK (length(emoji) <= 4), -- Emoji icon
+  filter TEXT NOT NULL DEFAULT '{}', -- JSON TaskFilter
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX saved_filter_name_idx ON saved_filters(name);
@@ -0,0 +1,18 @@
+-- Trash
+-- Deleted tasks, lists and labels are marked with deleted_at and kept until
+-- they are restored or purged
+
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT; -- ISO datetime the task was moved to the trash
+ALTER TABLE lists ADD COLUMN deleted_at TEXT;
+ALTER TABLE labels ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX task_deleted_idx ON tasks(deleted_at);
+CREATE INDEX list_deleted_idx ON lists(deleted_at);
+CREATE INDEX label_deleted_idx ON labels(deleted_at);
+
+-- Names only need to be unique among lists and labels that are not trashed
+DROP INDEX list_name_idx;
+CREATE UNIQUE INDEX list_name_idx ON lists(name) WHERE deleted_at IS NULL;
+
+DROP INDEX label_name_idx;
+CREATE UNIQUE INDEX label_name_idx ON labels(name) WHERE deleted_at IS NULL;
@@ -0,0 +1,16 @@
+-- Task dependencies
+-- A task is blocked while any of the tasks it depends on is not completed
+
+CREATE TABLE task_dependencies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id INTEGER NOT NULL, -- The blocked task
+  blocker_id INTEGER NOT NULL, -- The task it waits for
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(task_id, blocker_id),
+  CHECK (task_id != blocker_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (blocker_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX task_dependency_task_idx ON task_dependencies(task_id);
+CREATE INDEX task_dependency_blocker_idx ON task_dependencies(blocker_id);
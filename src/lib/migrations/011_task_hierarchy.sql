@@ -0,0 +1,7 @@
+-- Task hierarchy
+-- Tasks can be nested under a parent task to any depth; sub_tasks stay as
+-- a plain checklist on each task
+
+ALTER TABLE tasks ADD COLUMN parent_task_id INTEGER REFERENCES tasks(id);
+
+CREATE INDEX task_parent_idx ON tasks(parent_task_id);
@@ -0,0 +1,31 @@
+-- Manual ordering
+-- Tasks, sub-tasks and lists are ordered by a fractional index key (see
+-- lib/ordering.ts). Existing rows are numbered in creation order with keys
+-- of the form g0000001, which sort the same way.
+
+ALTER TABLE tasks ADD COLUMN position TEXT NOT NULL DEFAULT 'a0';
+ALTER TABLE sub_tasks ADD COLUMN position TEXT NOT NULL DEFAULT 'a0';
+ALTER TABLE lists ADD COLUMN position TEXT NOT NULL DEFAULT 'a0';
+
+UPDATE tasks SET position = (
+  SELECT printf('g%07d', ranked.n)
+  FROM (SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS n FROM tasks) ranked
+  WHERE ranked.id = tasks.id
+);
+
+UPDATE sub_tasks SET position = (
+  SELECT printf('g%07d', ranked.n)
+  FROM (SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS n FROM sub_tasks) ranked
+  WHERE ranked.id = sub_tasks.id
+);
+
+-- The Inbox comes first
+UPDATE lists SET position = (
+  SELECT printf('g%07d', ranked.n)
+  FROM (SELECT id, ROW_NUMBER() OVER (ORDER BY is_magic DESC, created_at, id) AS n FROM lists) ranked
+  WHERE ranked.id = lists.id
+);
+
+CREATE INDEX task_position_idx ON tasks(position);
+CREATE INDEX subtask_position_idx ON sub_tasks(task_id, position);
+CREATE INDEX list_position_idx ON lists(position);
@@ -0,0 +1,19 @@
+-- List sections
+-- A list can be split into named, ordered sections, and each of its tasks
+-- can belong to one of them. Tasks without a section are shown first.
+
+CREATE TABLE list_sections (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  list_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  position TEXT NOT NULL DEFAULT 'a0', -- Order within the list, see lib/ordering.ts
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE
+);
+
+CREATE INDEX list_section_list_idx ON list_sections(list_id, position);
+
+ALTER TABLE tasks ADD COLUMN section_id INTEGER REFERENCES list_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX task_section_idx ON tasks(section_id);
@@ -0,0 +1,18 @@
+-- List folders
+-- Folders group lists in the sidebar. A list is in at most one folder;
+-- archiving a folder hides its lists and their tasks from the views.
+
+CREATE TABLE list_folders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  position TEXT NOT NULL DEFAULT 'a0', -- Sidebar order, see lib/ordering.ts
+  archived_at TEXT, -- Set while the folder is archived
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX list_folder_position_idx ON list_folders(position);
+
+ALTER TABLE lists ADD COLUMN folder_id INTEGER REFERENCES list_folders(id) ON DELETE SET NULL;
+
+CREATE INDEX list_folder_idx ON lists(folder_id);
@@ -0,0 +1,7 @@
+-- List archiving
+-- Archived lists are hidden from the sidebar and the views but keep their
+-- tasks, which stay searchable until the list is unarchived.
+
+ALTER TABLE lists ADD COLUMN archived_at TEXT;
+
+CREATE INDEX list_archived_idx ON lists(archived_at);
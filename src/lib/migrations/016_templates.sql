@@ -0,0 +1,14 @@
+-- Templates
+-- Tasks, with their subtasks, and whole lists saved to be created again.
+-- Dates are stored as day offsets and text may hold {{variables}}.
+
+CREATE TABLE templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('task', 'list')),
+  content TEXT NOT NULL DEFAULT '{}', -- JSON tasks, and list for list templates
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX template_kind_idx ON templates(kind);
@@ -0,0 +1,27 @@
+-- Custom fields
+-- Lists can define their own task fields, such as "Customer" or "Story
+-- points". Each task stores a value per field of its list.
+
+CREATE TABLE custom_fields (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  list_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'select', 'date', 'checkbox')),
+  options TEXT NOT NULL DEFAULT '[]', -- JSON choices of a select field
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (list_id) REFERENCES lists(id) ON DELETE CASCADE
+);
+
+CREATE INDEX custom_field_list_idx ON custom_fields(list_id);
+
+CREATE TABLE task_custom_values (
+  task_id INTEGER NOT NULL,
+  field_id INTEGER NOT NULL,
+  value TEXT NOT NULL, -- JSON string, number or boolean
+  PRIMARY KEY (task_id, field_id),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
+);
+
+CREATE INDEX task_custom_value_field_idx ON task_custom_values(field_id);
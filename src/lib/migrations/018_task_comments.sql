@@ -0,0 +1,16 @@
+-- Task comments
+-- A running discussion on a task, kept apart from its description. Edits
+-- keep the previous bodies so the history of a comment can be shown.
+
+CREATE TABLE task_comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id INTEGER NOT NULL,
+  author TEXT NOT NULL,
+  body TEXT NOT NULL, -- Markdown
+  edits TEXT NOT NULL DEFAULT '[]', -- JSON previous bodies with when they were replaced
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX task_comment_task_idx ON task_comments(task_id, created_at);
@@ -0,0 +1,9 @@
+-- Preferences
+-- Settings of the app kept between sessions, one JSON value per key, such
+-- as the keys chosen for keyboard shortcuts
+
+CREATE TABLE preferences (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL, -- JSON
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
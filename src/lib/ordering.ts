@@ -0,0 +1,180 @@
+import type { Placement } from "@/types/task";
+
+/**
+ * Manual ordering. Tasks, sub-tasks and lists carry a position: a
+ * fractional index key that sorts as a plain string, so an item is moved
+ * by giving it a key between its new neighbours without renumbering the
+ * others. Keys have an integer part, whose first character encodes its
+ * length, followed by an optional fraction, both in base 62.
+ */
+
+const DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const INTEGER_ZERO = "a0";
+const SMALLEST_INTEGER = "A" + "0".repeat(26);
+
+// Key sorting after `a` and before `b`; null means no neighbour on that side
+export function generateKeyBetween(
+  a: string | null,
+  b: string | null
+): string {
+  if (a !== null) validateKey(a);
+  if (b !== null) validateKey(b);
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Position ${a} is not before ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) return INTEGER_ZERO;
+    const integerB = getIntegerPart(b);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint("", b.slice(integerB.length));
+    }
+    if (integerB < b) return integerB;
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) throw new Error("No position before " + b);
+    return decremented;
+  }
+
+  const integerA = getIntegerPart(a);
+  const fractionA = a.slice(integerA.length);
+  if (b === null) {
+    const incremented = incrementInteger(integerA);
+    return incremented ?? integerA + midpoint(fractionA, null);
+  }
+
+  const integerB = getIntegerPart(b);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, b.slice(integerB.length));
+  }
+  const incremented = incrementInteger(integerA);
+  if (incremented !== null && incremented < b) return incremented;
+  return integerA + midpoint(fractionA, null);
+}
+
+// Keys for items appended one after another following `a`
+export function generateKeysAfter(a: string | null, count: number): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < count; i++) {
+    a = generateKeyBetween(a, null);
+    keys.push(a);
+  }
+  return keys;
+}
+
+export function comparePositions(
+  a: { position?: string },
+  b: { position?: string }
+): number {
+  const positionA = a.position ?? "";
+  const positionB = b.position ?? "";
+  return positionA < positionB ? -1 : positionA > positionB ? 1 : 0;
+}
+
+export function sortByPosition<T extends { position?: string }>(
+  items: T[]
+): T[] {
+  return [...items].sort(comparePositions);
+}
+
+// The neighbours of an item in an ordered list, as a placement that puts
+// it back where it is
+export function getPlacement<T extends { id?: number }>(
+  items: T[],
+  id: number
+): Placement {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) return {};
+  return {
+    afterId: items[index - 1]?.id ?? null,
+    beforeId: items[index + 1]?.id ?? null,
+  };
+}
+
+// Fraction strictly between two fractions; b === null means 1
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the common prefix and split the rest
+    let n = 0;
+    while ((a[n] || "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// "a".."z" hold 1 to 26 digits, "Z".."A" the negative integers likewise
+function getIntegerLength(head: string): number {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error("Invalid position: " + head);
+}
+
+function getIntegerPart(key: string): string {
+  const length = getIntegerLength(key[0]);
+  if (length > key.length) throw new Error("Invalid position: " + key);
+  return key.slice(0, length);
+}
+
+function validateKey(key: string) {
+  if (key === SMALLEST_INTEGER) throw new Error("Invalid position: " + key);
+  const integer = getIntegerPart(key);
+  // A trailing zero would leave no room before the key
+  if (key.length > integer.length && key.endsWith("0")) {
+    throw new Error("Invalid position: " + key);
+  }
+}
+
+function incrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split("");
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit === DIGITS.length) {
+      digits[i] = "0";
+    } else {
+      digits[i] = DIGITS[digit];
+      carry = false;
+    }
+  }
+  if (!carry) return head + digits.join("");
+
+  if (head === "Z") return INTEGER_ZERO;
+  if (head === "z") return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") digits.push("0");
+  else digits.pop();
+  return nextHead + digits.join("");
+}
+
+function decrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split("");
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit === -1) {
+      digits[i] = DIGITS[DIGITS.length - 1];
+    } else {
+      digits[i] = DIGITS[digit];
+      borrow = false;
+    }
+  }
+  if (!borrow) return head + digits.join("");
+
+  if (head === "a") return "Z" + DIGITS[DIGITS.length - 1];
+  if (head === "A") return null;
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < "Z") digits.push(DIGITS[DIGITS.length - 1]);
+  else digits.pop();
+  return previousHead + digits.join("");
+}
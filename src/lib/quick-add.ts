@@ -0,0 +1,330 @@
+/**
+ * Quick add: a task written as one line of text, such as
+ *
+ *   Pay rent every month on the 1st !high #finance @Home due tomorrow 5pm ~30m
+ *
+ *   !high, !medium, !low        priority; also !1 (high) to !3 (low)
+ *   #finance                    label, by name
+ *   @Home                       list, by name
+ *   due tomorrow 5pm            deadline: today, tomorrow, a weekday name
+ *                               (the next one, counting today), in 3 days,
+ *                               next week or an ISO date, with an optional
+ *                               time such as 5pm, 9:30am, 17:00 or noon
+ *   ~30m, ~1h, ~1h30m           estimate
+ *   every day, every 2 weeks    recurrence; also daily, weekly, monthly,
+ *   every weekday               yearly, every other week, every monday and
+ *   every month on the 1st      thursday, and every month on the last day
+ *
+ * Names match ignoring case, spaces, dashes and underscores, so
+ * #side-project finds the label "Side Project". Labels and lists that do
+ * not exist, and a second priority, deadline, estimate or recurrence, are
+ * left in the title. Whatever is left becomes the title.
+ */
+
+import { formatRRule, getOccurrences, RRule, Weekday } from "@/lib/rrule";
+import { shiftDate } from "@/lib/date-shift";
+import type { Priority, TaskFormData } from "@/types/task";
+
+export type QuickAddTokenType =
+  "priority" | "label" | "list" | "deadline" | "estimate" | "recurrence";
+
+// A part of the text that set a field, with its offsets in the text
+export type QuickAddToken = {
+  type: QuickAddTokenType;
+  text: string;
+  start: number;
+  end: number;
+};
+
+export type QuickAddResult = {
+  task: TaskFormData;
+  tokens: QuickAddToken[]; // In the order they appear
+};
+
+type Named = { id: number; name: string };
+
+export interface QuickAddOptions {
+  today: string; // Relative dates count from this ISO date
+  lists?: Named[];
+  labels?: Named[];
+}
+
+type Matcher = {
+  type: QuickAddTokenType;
+  pattern: RegExp;
+  // Sets the fields of the match; false leaves it in the title
+  apply: (
+    match: RegExpMatchArray,
+    task: TaskFormData,
+    options: QuickAddOptions
+  ) => boolean;
+};
+
+const PRIORITIES: Record<string, Priority> = {
+  high: "high",
+  medium: "medium",
+  med: "medium",
+  low: "low",
+  "1": "high",
+  "2": "medium",
+  "3": "low",
+};
+
+const WEEKDAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Full names before short ones so that the longest name matches
+const WEEKDAY = `(?:${WEEKDAY_NAMES.join("|")}|${WEEKDAY_NAMES.map((name) =>
+  name.slice(0, 3)
+).join("|")})`;
+
+const DATE = `today|tomorrow|${WEEKDAY}|in\\s+\\d+\\s+(?:days?|weeks?)|next\\s+week|\\d{4}-\\d{2}-\\d{2}`;
+
+const TIME = `\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}|noon|midnight`;
+
+// Letters, digits, dashes and underscores after # or @
+const NAME = `([\\p{L}\\p{N}_-]+)(?!\\S)`;
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[\s_-]/g, "");
+
+const findByName = <T extends Named>(name: string, items: T[] = []) =>
+  items.find((item) => normalizeName(item.name) === normalizeName(name));
+
+function resolveDate(expression: string, today: string): string | null {
+  const value = expression.toLowerCase().replace(/\s+/g, " ");
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isNaN(Date.parse(value)) ? null : value;
+  }
+  if (value === "today") return today;
+  if (value === "tomorrow") return shiftDate(today, 1);
+  if (value === "next week") return shiftDate(today, 7);
+
+  const offset = /^in (\d+) (day|week)s?$/.exec(value);
+  if (offset) {
+    const amount = parseInt(offset[1]);
+    return shiftDate(today, offset[2] === "week" ? amount * 7 : amount);
+  }
+
+  const weekday = WEEKDAY_NAMES.findIndex(
+    (name) => name === value || name.slice(0, 3) === value
+  );
+  if (weekday < 0) return null;
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  return shiftDate(today, (weekday - todayWeekday + 7) % 7);
+}
+
+// A time as HH:mm
+function resolveTime(expression: string): string | null {
+  const value = expression.toLowerCase().replace(/\s+/g, "");
+  if (value === "noon") return "12:00";
+  if (value === "midnight") return "00:00";
+
+  const time = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(value);
+  if (!time) return null;
+  let hours = parseInt(time[1]);
+  const minutes = time[2] ? parseInt(time[2]) : 0;
+  if (minutes > 59) return null;
+  if (time[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (time[3] === "pm" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function parseInterval(every: string | undefined): number {
+  if (every === undefined) return 1;
+  return every.toLowerCase() === "other" ? 2 : parseInt(every);
+}
+
+function applyRecurrence(task: TaskFormData, rule: RRule): boolean {
+  if (!(rule.interval >= 1)) return false;
+  task.isRecurring = true;
+  task.recurrenceRule = formatRRule(rule);
+  return true;
+}
+
+const FREQUENCIES: Record<string, RRule["freq"]> = {
+  day: "DAILY",
+  daily: "DAILY",
+  week: "WEEKLY",
+  weekly: "WEEKLY",
+  month: "MONTHLY",
+  monthly: "MONTHLY",
+  year: "YEARLY",
+  yearly: "YEARLY",
+};
+
+// Tried in order; a part of the text sets one field at most
+const MATCHERS: Matcher[] = [
+  {
+    type: "recurrence",
+    pattern: /\bevery\s+weekday\b/gi,
+    apply: (_match, task) =>
+      applyRecurrence(task, {
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: (["MO", "TU", "WE", "TH", "FR"] as Weekday[]).map((weekday) => ({
+          weekday,
+        })),
+      }),
+  },
+  {
+    type: "recurrence",
+    pattern: new RegExp(
+      `\\bevery\\s+${WEEKDAY}s?(?:(?:\\s*,\\s*|\\s*,?\\s+and\\s+)${WEEKDAY}s?)*\\b`,
+      "gi"
+    ),
+    apply: (match, task) => {
+      const days = Array.from(
+        match[0].slice(5).matchAll(new RegExp(WEEKDAY, "gi")),
+        (day) => day[0].slice(0, 2).toUpperCase() as Weekday
+      );
+      return applyRecurrence(task, {
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: Array.from(new Set(days), (weekday) => ({ weekday })),
+      });
+    },
+  },
+  {
+    type: "recurrence",
+    pattern:
+      /\b(?:every\s+(?:(other|\d+)\s+)?months?|monthly)\s+on\s+the\s+(?:(\d{1,2})(?:st|nd|rd|th)|last\s+day)\b/gi,
+    apply: (match, task) => {
+      const day = match[2] ? parseInt(match[2]) : -1;
+      if (day === 0 || day > 31) return false;
+      return applyRecurrence(task, {
+        freq: "MONTHLY",
+        interval: parseInterval(match[1]),
+        byMonthDay: [day],
+      });
+    },
+  },
+  {
+    type: "recurrence",
+    pattern:
+      /\b(?:every\s+(?:(other|\d+)\s+)?(day|week|month|year)s?|(daily|weekly|monthly|yearly))\b/gi,
+    apply: (match, task) =>
+      applyRecurrence(task, {
+        freq: FREQUENCIES[(match[2] ?? match[3]).toLowerCase()],
+        interval: parseInterval(match[1]),
+      }),
+  },
+  {
+    type: "deadline",
+    pattern: new RegExp(
+      `\\bdue\\s+(?:(${DATE})(?:\\s+(?:at\\s+)?(${TIME}))?|(?:at\\s+)?(${TIME}))\\b`,
+      "gi"
+    ),
+    apply: (match, task, { today }) => {
+      const date = match[1] ? resolveDate(match[1], today) : today;
+      const timeText = match[2] ?? match[3];
+      const time = timeText ? resolveTime(timeText) : undefined;
+      if (!date || time === null) return false;
+      task.deadline = time ? `${date}T${time}` : date;
+      return true;
+    },
+  },
+  {
+    type: "priority",
+    pattern: /(?<!\S)!(high|medium|med|low|[123])(?!\S)/gi,
+    apply: (match, task) => {
+      task.priority = PRIORITIES[match[1].toLowerCase()];
+      return true;
+    },
+  },
+  {
+    type: "estimate",
+    pattern: /(?<!\S)~(?:(\d+)h)?(?:(\d+)m)?(?!\S)/gi,
+    apply: (match, task) => {
+      const total = parseInt(match[1] ?? "0") * 60 + parseInt(match[2] ?? "0");
+      // The form takes up to 23 hours and 59 minutes
+      if (total < 1 || total >= 24 * 60) return false;
+      task.estimateHours = Math.floor(total / 60);
+      task.estimateMinutes = total % 60;
+      return true;
+    },
+  },
+  {
+    type: "label",
+    pattern: new RegExp(`(?<!\\S)#${NAME}`, "gu"),
+    apply: (match, task, { labels }) => {
+      const label = findByName(match[1], labels);
+      if (!label) return false;
+      task.labels = task.labels ?? [];
+      if (!task.labels.includes(label.id)) task.labels.push(label.id);
+      return true;
+    },
+  },
+  {
+    type: "list",
+    pattern: new RegExp(`(?<!\\S)@${NAME}`, "gu"),
+    apply: (match, task, { lists }) => {
+      const list = findByName(match[1], lists);
+      if (!list) return false;
+      task.listId = list.id;
+      return true;
+    },
+  },
+];
+
+export function parseQuickAdd(
+  text: string,
+  options: QuickAddOptions
+): QuickAddResult {
+  const task: TaskFormData = {
+    title: "",
+    date: options.today,
+    priority: "none",
+    isRecurring: false,
+  };
+  const tokens: QuickAddToken[] = [];
+
+  for (const { type, pattern, apply } of MATCHERS) {
+    for (const match of text.matchAll(pattern)) {
+      if (type !== "label" && tokens.some((token) => token.type === type)) {
+        break;
+      }
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const overlaps = tokens.some(
+        (token) => start < token.end && token.start < end
+      );
+      if (!overlaps && apply(match, task, options)) {
+        tokens.push({ type, text: match[0], start, end });
+      }
+    }
+  }
+  tokens.sort((a, b) => a.start - b.start);
+
+  // Recurring tasks start on the first day that matches their rule
+  if (task.recurrenceRule && /BY(DAY|MONTHDAY)=/.test(task.recurrenceRule)) {
+    const yesterday = shiftDate(options.today, -1);
+    task.date =
+      getOccurrences(task.recurrenceRule, yesterday, {
+        after: yesterday,
+        limit: 1,
+      })[0] ?? options.today;
+  }
+
+  let title = "";
+  let last = 0;
+  for (const token of tokens) {
+    title += `${text.slice(last, token.start)} `;
+    last = token.end;
+  }
+  task.title = (title + text.slice(last)).replace(/\s+/g, " ").trim();
+
+  return { task, tokens };
+}
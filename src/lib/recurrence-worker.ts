@@ -0,0 +1,14 @@
+import { RecurrenceScheduler } from "../services/recurrence-scheduler";
+
+// Standalone recurring-task worker.
+// Usage: bun src/lib/recurrence-worker.ts [--once]
+
+const scheduler = RecurrenceScheduler.getInstance();
+
+if (process.argv.includes("--once")) {
+  const created = await scheduler.runOnce();
+  console.log(`Created ${created} recurring task instance(s)`);
+} else {
+  console.log("Recurring task worker started");
+  scheduler.start();
+}
@@ -0,0 +1,39 @@
+import type { Reminder } from "@/types/task";
+
+/**
+ * Reminder fire times. Relative reminders count back from the task's
+ * deadline, or from the start of its date when it has none; reminders with
+ * an absolute `at` time fire then. Times are returned as ISO timestamps.
+ */
+
+const UNIT_MS = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+// Date-only values mean the start of that day in local time
+function parseDateTime(value: string): Date {
+  return new Date(
+    /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value
+  );
+}
+
+export function getReminderFireTime(
+  reminder: Reminder,
+  task: { date: string; deadline?: string | null }
+): string | null {
+  let fireTime: Date;
+  if (reminder.at) {
+    fireTime = parseDateTime(reminder.at);
+  } else if (reminder.time && reminder.unit) {
+    const anchor = parseDateTime(task.deadline || task.date);
+    fireTime = new Date(
+      anchor.getTime() - reminder.time * UNIT_MS[reminder.unit]
+    );
+  } else {
+    return null;
+  }
+
+  return isNaN(fireTime.getTime()) ? null : fireTime.toISOString();
+}
@@ -0,0 +1,545 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE subset) for date-only tasks.
+ *
+ * Supports FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with
+ * ordinals such as 2TU or -1FR), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT,
+ * UNTIL and WKST. Exception dates (EXDATE) are passed separately.
+ * All dates are ISO date strings (YYYY-MM-DD) and computed in UTC.
+ */
+
+import type { RecurrenceType } from "@/types/task";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  ordinal?: number; // 2 = second, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: string;
+  wkst?: Weekday;
+}
+
+export class RRuleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleParseError";
+  }
+}
+
+// Indexed like Date.getUTCDay()
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Guards against rules that can never produce another occurrence
+const MAX_PERIODS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(isoDate: string): Date {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function parseIntList(
+  key: string,
+  value: string,
+  min: number,
+  max: number
+): number[] {
+  return value.split(",").map((part) => {
+    const num = Number(part);
+    if (!Number.isInteger(num) || num === 0 || num < min || num > max) {
+      throw new RRuleParseError(`Invalid ${key} value: ${part}`);
+    }
+    return num;
+  });
+}
+
+function parseUntil(value: string): string {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) {
+    throw new RRuleParseError(`Invalid UNTIL value: ${value}`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+ */
+export function parseRRule(input: string): RRule {
+  const text = input.trim().replace(/^RRULE:/i, "");
+  if (!text) {
+    throw new RRuleParseError("Recurrence rule is empty");
+  }
+
+  const rule: Partial<RRule> = { interval: 1 };
+
+  for (const part of text.split(";")) {
+    if (!part) continue;
+    const [rawKey, value] = part.split("=");
+    const key = rawKey?.toUpperCase();
+    if (!key || value === undefined || value === "") {
+      throw new RRuleParseError(`Malformed rule part: ${part}`);
+    }
+
+    switch (key) {
+      case "FREQ": {
+        const freq = value.toUpperCase() as Frequency;
+        if (!FREQUENCIES.includes(freq)) {
+          throw new RRuleParseError(`Unsupported FREQ: ${value}`);
+        }
+        rule.freq = freq;
+        break;
+      }
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new RRuleParseError(`Invalid INTERVAL: ${value}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new RRuleParseError(`Invalid COUNT: ${value}`);
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL":
+        rule.until = parseUntil(value);
+        break;
+      case "BYDAY":
+        rule.byDay = value.split(",").map((entry) => {
+          const match = entry.toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) {
+            throw new RRuleParseError(`Invalid BYDAY value: ${entry}`);
+          }
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new RRuleParseError(`Invalid BYDAY ordinal: ${entry}`);
+          }
+          return { weekday: match[2] as Weekday, ordinal };
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseIntList(key, value, -31, 31);
+        break;
+      case "BYMONTH":
+        rule.byMonth = parseIntList(key, value, 1, 12);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = parseIntList(key, value, -366, 366);
+        break;
+      case "WKST": {
+        const wkst = value.toUpperCase() as Weekday;
+        if (!WEEKDAYS.includes(wkst)) {
+          throw new RRuleParseError(`Invalid WKST: ${value}`);
+        }
+        rule.wkst = wkst;
+        break;
+      }
+      default:
+        throw new RRuleParseError(`Unsupported rule part: ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new RRuleParseError("FREQ is required");
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RRuleParseError("COUNT and UNTIL cannot both be set");
+  }
+  if (
+    rule.byDay?.some((day) => day.ordinal !== undefined) &&
+    rule.freq !== "MONTHLY" &&
+    rule.freq !== "YEARLY"
+  ) {
+    throw new RRuleParseError(
+      "BYDAY ordinals are only allowed with MONTHLY or YEARLY rules"
+    );
+  }
+
+  return rule as RRule;
+}
+
+/**
+ * Check whether a string is a valid RRULE
+ */
+export function isValidRRule(input: string): boolean {
+  try {
+    parseRRule(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE string
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ""}${day.weekday}`)
+        .join(",")}`
+    );
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+
+  return parts.join(";");
+}
+
+function matchesMonthDay(date: Date, byMonthDay: number[]): boolean {
+  const day = date.getUTCDate();
+  const dim = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return byMonthDay.some((md) => (md > 0 ? md : dim + 1 + md) === day);
+}
+
+// Dates in [start, end) that fall on a BYDAY entry, honouring ordinals
+function expandWeekdays(start: Date, end: Date, byDay: WeekdayRule[]): Date[] {
+  const result: Date[] = [];
+
+  for (const { weekday, ordinal } of byDay) {
+    const matches: Date[] = [];
+    for (let day = start; day < end; day = addDays(day, 1)) {
+      if (WEEKDAYS[day.getUTCDay()] === weekday) {
+        matches.push(day);
+      }
+    }
+    if (ordinal === undefined) {
+      result.push(...matches);
+    } else {
+      const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (picked) result.push(picked);
+    }
+  }
+
+  return result;
+}
+
+function expandMonth(
+  year: number,
+  month: number,
+  rule: RRule,
+  dtstart: Date
+): Date[] {
+  const dim = daysInMonth(year, month);
+  const monthStart = new Date(Date.UTC(year, month, 1));
+  const monthEnd = new Date(Date.UTC(year, month + 1, 1));
+
+  if (rule.byDay?.length) {
+    const days = expandWeekdays(monthStart, monthEnd, rule.byDay);
+    return rule.byMonthDay?.length
+      ? days.filter((day) => matchesMonthDay(day, rule.byMonthDay!))
+      : days;
+  }
+
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map((md) => (md > 0 ? md : dim + 1 + md))
+      .filter((day) => day >= 1 && day <= dim)
+      .map((day) => new Date(Date.UTC(year, month, day)));
+  }
+
+  // Default to the start date's day of month, skipping short months
+  const day = dtstart.getUTCDate();
+  return day <= dim ? [new Date(Date.UTC(year, month, day))] : [];
+}
+
+// Candidate dates for the period-th period after the start
+function expandPeriod(rule: RRule, dtstart: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = addDays(dtstart, step);
+      if (rule.byMonth?.length && !rule.byMonth.includes(day.getUTCMonth() + 1)) {
+        return [];
+      }
+      if (rule.byMonthDay?.length && !matchesMonthDay(day, rule.byMonthDay)) {
+        return [];
+      }
+      if (
+        rule.byDay?.length &&
+        !rule.byDay.some((d) => d.weekday === WEEKDAYS[day.getUTCDay()])
+      ) {
+        return [];
+      }
+      return [day];
+    }
+
+    case "WEEKLY": {
+      const wkst = WEEKDAYS.indexOf(rule.wkst || "MO");
+      const offset = (dtstart.getUTCDay() - wkst + 7) % 7;
+      const weekStart = addDays(dtstart, step * 7 - offset);
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map((d) => d.weekday)
+        : [WEEKDAYS[dtstart.getUTCDay()]];
+      return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(
+        (day) =>
+          weekdays.includes(WEEKDAYS[day.getUTCDay()]) &&
+          (!rule.byMonth?.length || rule.byMonth.includes(day.getUTCMonth() + 1))
+      );
+    }
+
+    case "MONTHLY": {
+      const monthIndex = dtstart.getUTCMonth() + step;
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      if (rule.byMonth?.length && !rule.byMonth.includes(month + 1)) {
+        return [];
+      }
+      return expandMonth(year, month, rule, dtstart);
+    }
+
+    case "YEARLY": {
+      const year = dtstart.getUTCFullYear() + step;
+      const hasOrdinalDays = rule.byDay?.some((d) => d.ordinal !== undefined);
+
+      // "The 20th Monday of the year" style rules are scoped to the whole year
+      if (hasOrdinalDays && !rule.byMonth?.length && !rule.byMonthDay?.length) {
+        return expandWeekdays(
+          new Date(Date.UTC(year, 0, 1)),
+          new Date(Date.UTC(year + 1, 0, 1)),
+          rule.byDay!
+        );
+      }
+
+      const months = rule.byMonth?.length
+        ? rule.byMonth.map((m) => m - 1)
+        : rule.byDay?.length || rule.byMonthDay?.length
+          ? Array.from({ length: 12 }, (_, i) => i)
+          : [dtstart.getUTCMonth()];
+      return months.flatMap((month) => expandMonth(year, month, rule, dtstart));
+    }
+  }
+}
+
+function applySetPos(dates: Date[], bySetPos: number[] | undefined): Date[] {
+  const sorted = Array.from(new Set(dates.map((d) => d.getTime())))
+    .sort((a, b) => a - b)
+    .map((time) => new Date(time));
+
+  if (!bySetPos?.length) return sorted;
+
+  const picked = bySetPos
+    .map((pos) => (pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos]))
+    .filter((date): date is Date => !!date);
+  return applySetPos(picked, undefined);
+}
+
+/**
+ * List occurrences of a rule starting at dtstart (which is always the first
+ * occurrence). Occurrences on or before `after` and exception dates are
+ * skipped; COUNT still counts excluded dates, as RFC 5545 requires.
+ */
+export function getOccurrences(
+  ruleInput: RRule | string,
+  dtstart: string,
+  options: { after?: string; limit?: number; exceptions?: string[] } = {}
+): string[] {
+  const rule = typeof ruleInput === "string" ? parseRRule(ruleInput) : ruleInput;
+  const { after, limit = 50, exceptions = [] } = options;
+  const exceptionSet = new Set(exceptions);
+  const start = toDate(dtstart);
+
+  const results: string[] = [];
+  let emitted = 0;
+
+  const emit = (date: string): boolean => {
+    if (rule.until && date > rule.until) return false;
+    emitted++;
+    if ((!after || date > after) && !exceptionSet.has(date)) {
+      results.push(date);
+    }
+    if (rule.count !== undefined && emitted >= rule.count) return false;
+    return results.length < limit;
+  };
+
+  if (!emit(dtstart)) return results;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = applySetPos(expandPeriod(rule, start, period), rule.bySetPos);
+    for (const candidate of candidates) {
+      if (candidate <= start) continue;
+      if (!emit(toIsoDate(candidate))) return results;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get the first occurrence strictly after a given date
+ */
+export function getNextOccurrence(
+  rule: RRule | string,
+  dtstart: string,
+  after: string,
+  exceptions: string[] = []
+): string | null {
+  return getOccurrences(rule, dtstart, { after, limit: 1, exceptions })[0] ?? null;
+}
+
+/**
+ * Re-anchor a rule on a later occurrence so that COUNT keeps describing
+ * the remaining occurrences of the whole series
+ */
+export function rebaseRRule(
+  ruleInput: RRule | string,
+  dtstart: string,
+  newStart: string
+): RRule {
+  const rule = typeof ruleInput === "string" ? parseRRule(ruleInput) : ruleInput;
+  if (rule.count === undefined) return rule;
+
+  const previous = getOccurrences({ ...rule, until: undefined }, dtstart, {
+    limit: rule.count,
+  }).filter((date) => date < newStart).length;
+
+  return { ...rule, count: Math.max(rule.count - previous, 1) };
+}
+
+/**
+ * The day before an ISO date, e.g. the last day of a series split at it
+ */
+export function getPreviousDate(isoDate: string): string {
+  return toIsoDate(addDays(toDate(isoDate), -1));
+}
+
+/**
+ * Translate the legacy recurrence type/interval pair into an RRULE string
+ */
+export function recurrenceTypeToRRule(
+  recurrenceType: RecurrenceType | null | undefined,
+  interval?: number | null
+): string | null {
+  const every = interval && interval > 1 ? `;INTERVAL=${interval}` : "";
+
+  switch (recurrenceType) {
+    case "daily":
+    case "custom":
+      return `FREQ=DAILY${every}`;
+    case "weekly":
+      return `FREQ=WEEKLY${every}`;
+    case "weekday":
+      return "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+    case "monthly":
+      return `FREQ=MONTHLY${every}`;
+    case "yearly":
+      return `FREQ=YEARLY${every}`;
+    default:
+      return null;
+  }
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+const MONTH_NAMES = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+function ordinalName(n: number): string {
+  if (n === -1) return "last";
+  if (n < 0) return `${ordinalName(-n)} to last`;
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] || "th";
+  return `${n}${suffix}`;
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Tue, Thu"
+ */
+export function describeRRule(ruleInput: RRule | string): string {
+  const rule = typeof ruleInput === "string" ? parseRRule(ruleInput) : ruleInput;
+  const units = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+  const unit = units[rule.freq];
+  const parts = [rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`];
+
+  const isWorkdays =
+    rule.byDay?.length === 5 &&
+    ["MO", "TU", "WE", "TH", "FR"].every((wd) =>
+      rule.byDay!.some((d) => d.weekday === wd && d.ordinal === undefined)
+    );
+
+  if (rule.byMonth?.length) {
+    parts.push(`in ${rule.byMonth.map((m) => MONTH_NAMES[m - 1]).join(", ")}`);
+  }
+  if (rule.byDay?.length) {
+    const days = isWorkdays
+      ? rule.bySetPos?.length ? "weekday" : "weekdays"
+      : rule.byDay
+          .map((d) =>
+            d.ordinal !== undefined
+              ? `the ${ordinalName(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}`
+              : WEEKDAY_NAMES[d.weekday]
+          )
+          .join(", ");
+    parts.push(
+      rule.bySetPos?.length
+        ? `on the ${rule.bySetPos.map(ordinalName).join(", ")} ${days}`
+        : `on ${days}`
+    );
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(
+      `on the ${rule.byMonthDay
+        .map((md) => (md === -1 ? "last day" : ordinalName(md)))
+        .join(", ")}`
+    );
+  }
+  if (rule.count !== undefined) {
+    parts.push(`${rule.count} time${rule.count === 1 ? "" : "s"}`);
+  }
+  if (rule.until) {
+    parts.push(`until ${rule.until}`);
+  }
+
+  return parts.join(" ");
+}
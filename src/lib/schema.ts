@@ -2,11 +2,32 @@ import { relations, sql } from "drizzle-orm";
 import {
   index,
   integer,
+  primaryKey,
   sqliteTable,
   text,
   uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 
+// List folders table - groups lists in the sidebar
+export const listFolders = sqliteTable(
+  "list_folders",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    position: text("position").notNull().default("a0"), // Sidebar order, see lib/ordering
+    archivedAt: text("archived_at"), // Set while the folder is archived
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    positionIdx: index("list_folder_position_idx").on(table.position),
+  })
+);
+
 // Lists table - supports magic Inbox and custom lists
 export const lists = sqliteTable(
   "lists",
@@ -22,10 +43,77 @@ export const lists = sqliteTable(
     updatedAt: text("updated_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
+    deletedAt: text("deleted_at"), // Set while the list is in the trash
+    position: text("position").notNull().default("a0"), // Sidebar order, see lib/ordering
+    folderId: integer("folder_id", { mode: "number" }), // Folder the list is grouped under
+    archivedAt: text("archived_at"), // Set while the list is archived
   },
   (table) => ({
-    nameIdx: uniqueIndex("list_name_idx").on(table.name),
+    nameIdx: uniqueIndex("list_name_idx")
+      .on(table.name)
+      .where(sql`deleted_at IS NULL`),
     magicIdx: index("magic_list_idx").on(table.isMagic),
+    deletedIdx: index("list_deleted_idx").on(table.deletedAt),
+    positionIdx: index("list_position_idx").on(table.position),
+    folderIdx: index("list_folder_idx").on(table.folderId),
+    archivedIdx: index("list_archived_idx").on(table.archivedAt),
+  })
+);
+
+// List sections table - named, ordered headings that split up a list
+export const listSections = sqliteTable(
+  "list_sections",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    listId: integer("list_id", { mode: "number" }).notNull(),
+    name: text("name").notNull(),
+    position: text("position").notNull().default("a0"), // Order within the list
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    listIdx: index("list_section_list_idx").on(table.listId, table.position),
+  })
+);
+
+// Custom fields table - task fields defined by a list
+export const customFields = sqliteTable(
+  "custom_fields",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    listId: integer("list_id", { mode: "number" }).notNull(),
+    name: text("name").notNull(),
+    type: text("type", {
+      enum: ["text", "number", "select", "date", "checkbox"],
+    }).notNull(),
+    options: text("options").notNull().default("[]"), // JSON choices of a select field
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    listIdx: index("custom_field_list_idx").on(table.listId),
+  })
+);
+
+// Task custom values - a task's value for a custom field of its list
+export const taskCustomValues = sqliteTable(
+  "task_custom_values",
+  {
+    taskId: integer("task_id", { mode: "number" }).notNull(),
+    fieldId: integer("field_id", { mode: "number" }).notNull(),
+    value: text("value").notNull(), // JSON string, number or boolean
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.fieldId] }),
+    fieldIdx: index("task_custom_value_field_idx").on(table.fieldId),
   })
 );
 
@@ -43,9 +131,13 @@ export const labels = sqliteTable(
     updatedAt: text("updated_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
+    deletedAt: text("deleted_at"), // Set while the label is in the trash
   },
   (table) => ({
-    nameIdx: uniqueIndex("label_name_idx").on(table.name),
+    nameIdx: uniqueIndex("label_name_idx")
+      .on(table.name)
+      .where(sql`deleted_at IS NULL`),
+    deletedIdx: index("label_deleted_idx").on(table.deletedAt),
   })
 );
 
@@ -90,6 +182,14 @@ export const tasks = sqliteTable(
     }),
     recurrenceInterval: integer("recurrence_interval", { mode: "number" }), // For custom recurrence
     recurrenceEndDate: text("recurrence_end_date"), // ISO date when recurrence ends
+    recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR
+    recurrenceExceptions: text("recurrence_exceptions"), // JSON array of excluded ISO dates (EXDATE)
+    previousOccurrenceId: integer("previous_occurrence_id", { mode: "number" }), // Recurring instance this one was generated from
+    seriesId: integer("series_id", { mode: "number" }), // Recurring series this instance belongs to
+    parentTaskId: integer("parent_task_id", { mode: "number" }), // Task this one is nested under
+    sectionId: integer("section_id", { mode: "number" }), // Section of its list, if any
+    position: text("position").notNull().default("a0"), // Manual order, see lib/ordering
+    deletedAt: text("deleted_at"), // Set while the task is in the trash
 
     // Reminders configuration (stored as JSON array of reminder objects)
     reminders: text("reminders"), // JSON string of array of { time: string, unit: 'minutes'|'hours'|'days' }
@@ -111,6 +211,15 @@ export const tasks = sqliteTable(
     completedIdx: index("task_completed_idx").on(table.isCompleted),
     listIdx: index("task_list_idx").on(table.listId),
     recurringIdx: index("task_recurring_idx").on(table.isRecurring),
+    seriesIdx: index("task_series_idx").on(table.seriesId),
+    parentIdx: index("task_parent_idx").on(table.parentTaskId),
+    sectionIdx: index("task_section_idx").on(table.sectionId),
+    deletedIdx: index("task_deleted_idx").on(table.deletedAt),
+    positionIdx: index("task_position_idx").on(table.position),
+    // One generated successor per recurring instance
+    previousOccurrenceIdx: uniqueIndex("task_previous_occurrence_idx").on(
+      table.previousOccurrenceId
+    ),
 
     // Composite indexes for common queries
     listPriorityIdx: index("task_list_priority_idx").on(
@@ -145,6 +254,27 @@ export const taskLabels = sqliteTable(
   })
 );
 
+// Task dependencies table
+export const taskDependencies = sqliteTable(
+  "task_dependencies",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    taskId: integer("task_id", { mode: "number" }).notNull(), // The blocked task
+    blockerId: integer("blocker_id", { mode: "number" }).notNull(), // The task it waits for
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    uniqueDependency: uniqueIndex("unique_task_dependency").on(
+      table.taskId,
+      table.blockerId
+    ),
+    taskIdx: index("task_dependency_task_idx").on(table.taskId),
+    blockerIdx: index("task_dependency_blocker_idx").on(table.blockerId),
+  })
+);
+
 // Sub-tasks table
 export const subTasks = sqliteTable(
   "sub_tasks",
@@ -156,6 +286,7 @@ export const subTasks = sqliteTable(
       .notNull()
       .default(false),
     completedAt: text("completed_at"), // ISO datetime when completed
+    position: text("position").notNull().default("a0"), // Order within the task
     createdAt: text("created_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -166,6 +297,7 @@ export const subTasks = sqliteTable(
   (table) => ({
     taskIdx: index("subtask_task_idx").on(table.taskId),
     completedIdx: index("subtask_completed_idx").on(table.isCompleted),
+    positionIdx: index("subtask_position_idx").on(table.taskId, table.position),
   })
 );
 
@@ -176,9 +308,10 @@ export const attachments = sqliteTable(
     id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
     taskId: integer("task_id", { mode: "number" }).notNull(),
     fileName: text("file_name").notNull(),
-    filePath: text("file_path").notNull(), // Path or URL to the file
+    filePath: text("file_path").notNull(), // Storage key of the blob
     fileSize: integer("file_size", { mode: "number" }), // Size in bytes
     mimeType: text("mime_type").notNull(),
+    contentHash: text("content_hash"), // SHA-256 of the contents, shared by duplicates
     createdAt: text("created_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -186,6 +319,7 @@ export const attachments = sqliteTable(
   (table) => ({
     taskIdx: index("attachment_task_idx").on(table.taskId),
     fileNameIdx: index("attachment_filename_idx").on(table.fileName),
+    contentHashIdx: index("attachment_content_hash_idx").on(table.contentHash),
   })
 );
 
@@ -213,11 +347,185 @@ export const taskChanges = sqliteTable(
   })
 );
 
+// Task comments - a discussion thread on a task
+export const taskComments = sqliteTable(
+  "task_comments",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    taskId: integer("task_id", { mode: "number" }).notNull(),
+    author: text("author").notNull(),
+    body: text("body").notNull(), // Markdown
+    edits: text("edits").notNull().default("[]"), // JSON previous bodies
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    taskIdx: index("task_comment_task_idx").on(table.taskId, table.createdAt),
+  })
+);
+
+// Recurring series - the template every instance of a recurring task is generated from
+export const recurringSeries = sqliteTable(
+  "recurring_series",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    title: text("title").notNull(),
+    description: text("description"),
+    priority: text("priority", {
+      enum: ["none", "low", "medium", "high"],
+    })
+      .notNull()
+      .default("none"),
+    listId: integer("list_id", { mode: "number" }).notNull(),
+    estimateHours: integer("estimate_hours", { mode: "number" }),
+    estimateMinutes: integer("estimate_minutes", { mode: "number" }),
+    reminders: text("reminders"), // JSON string, same shape as tasks.reminders
+    labelIds: text("label_ids"), // JSON array of label IDs applied to new instances
+
+    // Recurrence, anchored at startDate (the rule's DTSTART)
+    startDate: text("start_date").notNull(),
+    recurrenceRule: text("recurrence_rule").notNull(),
+    recurrenceExceptions: text("recurrence_exceptions"), // JSON array of excluded ISO dates
+    recurrenceEndDate: text("recurrence_end_date"),
+
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    listIdx: index("series_list_idx").on(table.listId),
+  })
+);
+
+// Reminder queue - fire time and delivery state of each reminder of a task
+export const reminderQueue = sqliteTable(
+  "reminder_queue",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    taskId: integer("task_id", { mode: "number" }).notNull(),
+    reminderIndex: integer("reminder_index", { mode: "number" }).notNull(), // Position in tasks.reminders
+    fireAt: text("fire_at").notNull(), // ISO timestamp the reminder is due
+    status: text("status", {
+      enum: ["pending", "fired", "dismissed"],
+    })
+      .notNull()
+      .default("pending"),
+    firedAt: text("fired_at"),
+    snoozedUntil: text("snoozed_until"), // Replaces fireAt while set
+    dismissedAt: text("dismissed_at"),
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    taskReminderIdx: uniqueIndex("reminder_task_reminder_idx").on(
+      table.taskId,
+      table.reminderIndex
+    ),
+    statusFireAtIdx: index("reminder_status_fire_at_idx").on(
+      table.status,
+      table.fireAt
+    ),
+  })
+);
+
+// Saved filters - named task filters shown as smart lists
+export const savedFilters = sqliteTable(
+  "saved_filters",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    color: text("color", { length: 7 }).notNull(), // Hex color like #FF5733
+    emoji: text("emoji", { length: 4 }).notNull(), // Emoji icon
+    filter: text("filter").notNull().default("{}"), // JSON TaskFilter
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    nameIdx: uniqueIndex("saved_filter_name_idx").on(table.name),
+  })
+);
+
+// Templates - tasks and lists saved to be created again
+export const templates = sqliteTable(
+  "templates",
+  {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    name: text("name").notNull(),
+    kind: text("kind", { enum: ["task", "list"] }).notNull(),
+    content: text("content").notNull().default("{}"), // JSON tasks and list
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: text("updated_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    kindIdx: index("template_kind_idx").on(table.kind),
+  })
+);
+
+// Preferences - app settings kept between sessions, by key
+export const preferences = sqliteTable("preferences", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(), // JSON
+  updatedAt: text("updated_at")
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+});
+
 // Relations
-export const listsRelations = relations(lists, ({ many }) => ({
+export const listFoldersRelations = relations(listFolders, ({ many }) => ({
+  lists: many(lists),
+}));
+
+export const listsRelations = relations(lists, ({ one, many }) => ({
+  folder: one(listFolders, {
+    fields: [lists.folderId],
+    references: [listFolders.id],
+  }),
   tasks: many(tasks),
+  sections: many(listSections),
+  customFields: many(customFields),
 }));
 
+export const listSectionsRelations = relations(
+  listSections,
+  ({ one, many }) => ({
+    list: one(lists, {
+      fields: [listSections.listId],
+      references: [lists.id],
+    }),
+    tasks: many(tasks),
+  })
+);
+
+export const customFieldsRelations = relations(
+  customFields,
+  ({ one, many }) => ({
+    list: one(lists, {
+      fields: [customFields.listId],
+      references: [lists.id],
+    }),
+    values: many(taskCustomValues),
+  })
+);
+
 export const labelsRelations = relations(labels, ({ many }) => ({
   taskLabels: many(taskLabels),
 }));
@@ -228,11 +536,37 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [lists.id],
   }),
   taskLabels: many(taskLabels),
+  blockedBy: many(taskDependencies, { relationName: "blockedTask" }),
+  blocking: many(taskDependencies, { relationName: "blockerTask" }),
   subTasks: many(subTasks),
   attachments: many(attachments),
   changes: many(taskChanges),
+  comments: many(taskComments),
+  customValues: many(taskCustomValues),
+  queuedReminders: many(reminderQueue),
+  series: one(recurringSeries, {
+    fields: [tasks.seriesId],
+    references: [recurringSeries.id],
+  }),
+  section: one(listSections, {
+    fields: [tasks.sectionId],
+    references: [listSections.id],
+  }),
+  parent: one(tasks, {
+    fields: [tasks.parentTaskId],
+    references: [tasks.id],
+    relationName: "taskHierarchy",
+  }),
+  children: many(tasks, { relationName: "taskHierarchy" }),
 }));
 
+export const recurringSeriesRelations = relations(
+  recurringSeries,
+  ({ many }) => ({
+    tasks: many(tasks),
+  })
+);
+
 export const taskLabelsRelations = relations(taskLabels, ({ one }) => ({
   task: one(tasks, {
     fields: [taskLabels.taskId],
@@ -244,6 +578,22 @@ export const taskLabelsRelations = relations(taskLabels, ({ one }) => ({
   }),
 }));
 
+export const taskDependenciesRelations = relations(
+  taskDependencies,
+  ({ one }) => ({
+    task: one(tasks, {
+      fields: [taskDependencies.taskId],
+      references: [tasks.id],
+      relationName: "blockedTask",
+    }),
+    blocker: one(tasks, {
+      fields: [taskDependencies.blockerId],
+      references: [tasks.id],
+      relationName: "blockerTask",
+    }),
+  })
+);
+
 export const subTasksRelations = relations(subTasks, ({ one }) => ({
   task: one(tasks, {
     fields: [subTasks.taskId],
@@ -264,3 +614,31 @@ export const taskChangesRelations = relations(taskChanges, ({ one }) => ({
     references: [tasks.id],
   }),
 }));
+
+export const taskCommentsRelations = relations(taskComments, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskComments.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const reminderQueueRelations = relations(reminderQueue, ({ one }) => ({
+  task: one(tasks, {
+    fields: [reminderQueue.taskId],
+    references: [tasks.id],
+  }),
+}));
+
+export const taskCustomValuesRelations = relations(
+  taskCustomValues,
+  ({ one }) => ({
+    task: one(tasks, {
+      fields: [taskCustomValues.taskId],
+      references: [tasks.id],
+    }),
+    field: one(customFields, {
+      fields: [taskCustomValues.fieldId],
+      references: [customFields.id],
+    }),
+  })
+);
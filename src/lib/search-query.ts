@@ -0,0 +1,429 @@
+/**
+ * Search query language.
+ *
+ * Terms separated by spaces must all match; `OR` between terms matches
+ * either side, a leading `-` negates a term and parentheses group terms:
+ *
+ *   priority:high              none, low, medium or high
+ *   list:Work                  list name, quoted when it has spaces
+ *   label:Urgent, #Urgent      label name
+ *   due:<friday                deadline; date: filters the task date
+ *   is:done, is:pending        completion status; `done` alone means is:done
+ *   has:attachments            also has:subtasks, has:labels, has:deadline
+ *   word, "some phrase"        full-text match, words match by prefix
+ *
+ * Dates are ISO dates, today, tomorrow, yesterday, weekday names (the next
+ * one, counting today) or offsets such as +3d, -1w and 2m. They can be
+ * prefixed with <, <=, > or >=, or given as a range: due:today..friday.
+ * Relative dates are resolved when the query is parsed.
+ */
+
+import { prioritySchema, type Priority } from "@/types/task";
+
+export type DateField = "due" | "date";
+
+export type HasValue = "attachments" | "subtasks" | "labels" | "deadline";
+
+export type SearchNode =
+  | { type: "and"; children: SearchNode[] }
+  | { type: "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode }
+  | { type: "text"; text: string; phrase: boolean }
+  | { type: "priority"; priority: Priority }
+  | { type: "list"; name: string }
+  | { type: "label"; name: string }
+  | { type: "date"; field: DateField; from?: string; to?: string }
+  | { type: "status"; completed: boolean }
+  | { type: "has"; value: HasValue };
+
+export interface SearchCompletion {
+  value: string; // The whole query with the last term completed
+  label: string;
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+type Token =
+  | { type: "lparen" | "rparen" | "or" | "not" }
+  | { type: "term"; text: string; quoted: boolean };
+
+const FILTER_KEYS = [
+  "priority",
+  "list",
+  "label",
+  "due",
+  "date",
+  "is",
+  "has",
+] as const;
+
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+const STATUS_VALUES: Record<string, boolean> = {
+  done: true,
+  completed: true,
+  pending: false,
+  open: false,
+};
+
+const HAS_VALUES: Record<string, HasValue> = {
+  attachments: "attachments",
+  attachment: "attachments",
+  subtasks: "subtasks",
+  subtask: "subtasks",
+  labels: "labels",
+  label: "labels",
+  deadline: "deadline",
+  due: "deadline",
+};
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const DATE_KEYWORDS = ["today", "tomorrow", "yesterday", ...WEEKDAYS];
+
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+function addMonths(isoDate: string, months: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().split("T")[0];
+}
+
+function resolveDate(expression: string, today: string): string {
+  const value = expression.toLowerCase();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))) {
+    return value;
+  }
+  if (value === "today") return today;
+  if (value === "tomorrow") return addDays(today, 1);
+  if (value === "yesterday") return addDays(today, -1);
+
+  const weekday = WEEKDAYS.findIndex(
+    (name) => name === value || name.slice(0, 3) === value
+  );
+  if (weekday >= 0) {
+    const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+    return addDays(today, (weekday - todayWeekday + 7) % 7);
+  }
+
+  const offset = /^([+-]?\d+)([dwm])$/.exec(value);
+  if (offset) {
+    const amount = parseInt(offset[1]);
+    if (offset[2] === "m") return addMonths(today, amount);
+    return addDays(today, offset[2] === "w" ? amount * 7 : amount);
+  }
+
+  throw new SearchQueryError(`Invalid date: ${expression}`);
+}
+
+function parseDateFilter(
+  field: DateField,
+  value: string,
+  today: string
+): SearchNode {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const [from, to] = range;
+    if (!from && !to) {
+      throw new SearchQueryError(`Invalid date range: ${value}`);
+    }
+    return {
+      type: "date",
+      field,
+      from: from ? resolveDate(from, today) : undefined,
+      to: to ? resolveDate(to, today) : undefined,
+    };
+  }
+
+  const [, operator, expression] = /^(<=|>=|<|>)?(.*)$/.exec(value)!;
+  const date = resolveDate(expression, today);
+
+  switch (operator) {
+    case "<":
+      return { type: "date", field, to: addDays(date, -1) };
+    case "<=":
+      return { type: "date", field, to: date };
+    case ">":
+      return { type: "date", field, from: addDays(date, 1) };
+    case ">=":
+      return { type: "date", field, from: date };
+    default:
+      return { type: "date", field, from: date, to: date };
+  }
+}
+
+function parseFilter(key: FilterKey, value: string, today: string): SearchNode {
+  switch (key) {
+    case "priority": {
+      const priority = prioritySchema.safeParse(value.toLowerCase());
+      if (!priority.success) {
+        throw new SearchQueryError(`Unknown priority: ${value}`);
+      }
+      return { type: "priority", priority: priority.data };
+    }
+    case "list":
+      return { type: "list", name: value };
+    case "label":
+      return { type: "label", name: value };
+    case "due":
+    case "date":
+      return parseDateFilter(key, value, today);
+    case "is": {
+      const completed = STATUS_VALUES[value.toLowerCase()];
+      if (completed === undefined) {
+        throw new SearchQueryError(`Unknown status: ${value}`);
+      }
+      return { type: "status", completed };
+    }
+    case "has": {
+      const has = HAS_VALUES[value.toLowerCase()];
+      if (!has) throw new SearchQueryError(`Unknown has: value: ${value}`);
+      return { type: "has", value: has };
+    }
+  }
+}
+
+// Text without letters or digits matches nothing and is ignored
+function parseTerm(
+  token: Extract<Token, { type: "term" }>,
+  today: string
+): SearchNode | null {
+  const { text, quoted } = token;
+
+  if (quoted) {
+    return WORD_PATTERN.test(text)
+      ? { type: "text", text, phrase: true }
+      : null;
+  }
+  if (text.startsWith("#")) {
+    if (text.length === 1) throw new SearchQueryError("Missing label name");
+    return { type: "label", name: text.slice(1) };
+  }
+
+  const separator = text.indexOf(":");
+  if (separator > 0) {
+    const key = text.slice(0, separator).toLowerCase();
+    const value = text.slice(separator + 1);
+    if ((FILTER_KEYS as readonly string[]).includes(key)) {
+      if (!value) throw new SearchQueryError(`Missing value for ${key}:`);
+      return parseFilter(key as FilterKey, value, today);
+    }
+  }
+
+  if (text.toLowerCase() === "done") return { type: "status", completed: true };
+
+  return WORD_PATTERN.test(text) ? { type: "text", text, phrase: false } : null;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = () => {
+    const end = input.indexOf('"', i + 1);
+    const text = input.slice(i + 1, end < 0 ? input.length : end);
+    i = end < 0 ? input.length : end + 1;
+    return text;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen" });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < input.length &&
+      /\S/.test(input[i + 1])
+    ) {
+      tokens.push({ type: "not" });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: "term", text: readQuoted(), quoted: true });
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      let text = input.slice(start, i);
+
+      // Quoted filter values: list:"Side projects", #"Deep work"
+      if (input[i] === '"' && (text.endsWith(":") || text === "#")) {
+        text += readQuoted();
+      }
+
+      tokens.push(
+        text === "OR" ? { type: "or" } : { type: "term", text, quoted: false }
+      );
+    }
+  }
+
+  return tokens;
+}
+
+function combine(
+  type: "and" | "or",
+  nodes: (SearchNode | null)[]
+): SearchNode | null {
+  const children = nodes.filter((node): node is SearchNode => node !== null);
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+export function parseSearchQuery(
+  input: string,
+  today: string = new Date().toISOString().split("T")[0]
+): SearchNode | null {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const parseOr = (): SearchNode | null => {
+    const nodes = [parseAnd()];
+    while (tokens[position]?.type === "or") {
+      position++;
+      nodes.push(parseAnd());
+    }
+    return combine("or", nodes);
+  };
+
+  const parseAnd = (): SearchNode | null => {
+    const nodes: (SearchNode | null)[] = [];
+    while (
+      position < tokens.length &&
+      tokens[position].type !== "or" &&
+      tokens[position].type !== "rparen"
+    ) {
+      nodes.push(parseUnary());
+    }
+    if (nodes.length === 0) {
+      throw new SearchQueryError("Expected a search term");
+    }
+    return combine("and", nodes);
+  };
+
+  const parseUnary = (): SearchNode | null => {
+    const token = tokens[position++];
+
+    if (token.type === "not") {
+      if (position >= tokens.length) {
+        throw new SearchQueryError("Expected a search term after -");
+      }
+      const child = parseUnary();
+      return child && { type: "not", child };
+    }
+    if (token.type === "lparen") {
+      const node = parseOr();
+      if (tokens[position]?.type !== "rparen") {
+        throw new SearchQueryError("Missing closing parenthesis");
+      }
+      position++;
+      return node;
+    }
+    if (token.type === "term") {
+      return parseTerm(token, today);
+    }
+
+    throw new SearchQueryError("Expected a search term");
+  };
+
+  if (tokens.length === 0) return null;
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new SearchQueryError("Unexpected closing parenthesis");
+  }
+  return node;
+}
+
+// Text terms that are not negated; they decide the ranking of results
+export function getTextTerms(
+  node: SearchNode | null
+): Extract<SearchNode, { type: "text" }>[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case "text":
+      return [node];
+    case "and":
+    case "or":
+      return node.children.flatMap(getTextTerms);
+    default:
+      return [];
+  }
+}
+
+function quoteValue(value: string): string {
+  return /[\s()]/.test(value) ? `"${value}"` : value;
+}
+
+// Complete the term being typed at the end of the query
+export function getSearchCompletions(
+  input: string,
+  names: { lists: string[]; labels: string[] }
+): SearchCompletion[] {
+  const term = /[^\s()-][^\s()]*$/.exec(input)?.[0];
+  if (!term) return [];
+
+  const before = input.slice(0, input.length - term.length);
+  const matches = (candidate: string, prefix: string) =>
+    candidate.toLowerCase().startsWith(prefix.toLowerCase()) &&
+    candidate.toLowerCase() !== prefix.toLowerCase();
+
+  let completions: SearchCompletion[];
+
+  if (term.startsWith("#")) {
+    completions = names.labels
+      .filter((name) => matches(name, term.slice(1)))
+      .map((name) => ({
+        value: `${before}#${quoteValue(name)} `,
+        label: `#${name}`,
+      }));
+  } else if (term.includes(":")) {
+    const key = term.slice(0, term.indexOf(":")).toLowerCase();
+    const prefix = term.slice(key.length + 1).replace(/^(<=|>=|<|>)/, "");
+    const operator = term.slice(key.length + 1, term.length - prefix.length);
+    const values: Partial<Record<FilterKey, string[]>> = {
+      priority: prioritySchema.options,
+      list: names.lists,
+      label: names.labels,
+      due: DATE_KEYWORDS,
+      date: DATE_KEYWORDS,
+      is: ["done", "pending"],
+      has: ["attachments", "subtasks", "labels", "deadline"],
+    };
+
+    completions = (values[key as FilterKey] || [])
+      .filter((value) => matches(value, prefix))
+      .map((value) => ({
+        value: `${before}${key}:${operator}${quoteValue(value)} `,
+        label: `${key}:${operator}${value}`,
+      }));
+  } else {
+    completions = FILTER_KEYS.filter((key) => matches(key, term)).map(
+      (key) => ({ value: `${before}${key}:`, label: `${key}:` })
+    );
+  }
+
+  return completions.slice(0, 8);
+}
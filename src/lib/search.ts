@@ -0,0 +1,36 @@
+/**
+ * Full-text search helpers. Text terms of a search query are matched
+ * against the FTS5 index: phrases as a whole and words by prefix.
+ * Highlighted matches in titles and snippets are wrapped in the markers
+ * below.
+ */
+
+export const HIGHLIGHT_START = "<mark>";
+export const HIGHLIGHT_END = "</mark>";
+
+// Double quotes are the only special character inside an FTS5 string
+export function toFtsQuery(text: string, phrase: boolean): string {
+  const quoted = `"${text.trim().replace(/"/g, '""')}"`;
+  return phrase ? quoted : `${quoted}*`;
+}
+
+// Split highlighted text into plain and matched parts for rendering
+export function splitHighlights(
+  text: string
+): { text: string; highlighted: boolean }[] {
+  const parts: { text: string; highlighted: boolean }[] = [];
+
+  text.split(HIGHLIGHT_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, highlighted: false });
+      return;
+    }
+    const end = chunk.indexOf(HIGHLIGHT_END);
+    const match = end >= 0 ? chunk.slice(0, end) : chunk;
+    const rest = end >= 0 ? chunk.slice(end + HIGHLIGHT_END.length) : "";
+    if (match) parts.push({ text: match, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  });
+
+  return parts;
+}
@@ -0,0 +1,217 @@
+/**
+ * Keyboard shortcuts. Each shortcut belongs to a scope: global shortcuts
+ * work everywhere, list shortcuts while a task list is shown, form
+ * shortcuts while a form is open and modal shortcuts while a dialog is
+ * open. A task list stops taking shortcuts while a form or dialog is open
+ * over it, and dialog shortcuts come before form ones. Keys are written as
+ * `j`, `shift+j`, `#` or `mod+enter`, where `mod` is Ctrl, or Cmd on macOS.
+ */
+
+export type ShortcutScope = "global" | "list" | "form" | "modal";
+
+export interface Shortcut {
+  id: string;
+  title: string;
+  scope: ShortcutScope;
+  key: string; // Default key, which users may remap
+}
+
+// Keys chosen by the user, by shortcut ID
+export type KeyMap = Record<string, string>;
+
+export const SCOPE_NAMES: Record<ShortcutScope, string> = {
+  global: "Everywhere",
+  list: "Task lists",
+  form: "Forms",
+  modal: "Dialogs",
+};
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: "help", title: "Show keyboard shortcuts", scope: "global", key: "?" },
+  {
+    id: "command-palette",
+    title: "Open the command palette",
+    scope: "global",
+    key: "mod+k",
+  },
+  { id: "list.next", title: "Select the next task", scope: "list", key: "j" },
+  {
+    id: "list.previous",
+    title: "Select the previous task",
+    scope: "list",
+    key: "k",
+  },
+  {
+    id: "list.complete",
+    title: "Complete or reopen the selected task",
+    scope: "list",
+    key: "x",
+  },
+  { id: "list.edit", title: "Edit the selected task", scope: "list", key: "e" },
+  {
+    id: "list.date",
+    title: "Set the date of the selected task",
+    scope: "list",
+    key: "d",
+  },
+  {
+    id: "list.label",
+    title: "Label the selected task",
+    scope: "list",
+    key: "#",
+  },
+  { id: "form.submit", title: "Save", scope: "form", key: "mod+enter" },
+  { id: "form.cancel", title: "Cancel", scope: "form", key: "escape" },
+  { id: "modal.close", title: "Close", scope: "modal", key: "escape" },
+];
+
+const MODIFIERS = ["mod", "alt", "shift"];
+
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: "mod",
+  control: "mod",
+  cmd: "mod",
+  meta: "mod",
+  option: "alt",
+  esc: "escape",
+  return: "enter",
+  " ": "space",
+};
+
+const KEY_NAMES: Record<string, string> = {
+  mod: "Ctrl",
+  alt: "Alt",
+  shift: "Shift",
+  escape: "Esc",
+  enter: "Enter",
+  space: "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+};
+
+// The key in a canonical form, such as "mod+shift+k" for "Shift+Ctrl+K"
+export function normalizeKey(key: string): string {
+  const parts = key
+    .toLowerCase()
+    .split(/\+(?!$)/)
+    .map((part) => KEY_ALIASES[part] ?? part);
+  const modifiers = MODIFIERS.filter((modifier) => parts.includes(modifier));
+  const main = parts.filter((part) => !MODIFIERS.includes(part));
+  return [...modifiers, ...main].join("+");
+}
+
+// The key pressed, or undefined for a modifier on its own. Shift only
+// counts for letters and named keys, since it is part of symbols such as
+// "?" or "#".
+export function getEventKey(
+  event: Pick<
+    KeyboardEvent,
+    "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey"
+  >
+): string | undefined {
+  if (["Control", "Meta", "Alt", "Shift"].includes(event.key)) return undefined;
+
+  const key = KEY_ALIASES[event.key] ?? event.key.toLowerCase();
+  const isSymbol = event.key.length === 1 && !/[a-z]/i.test(event.key);
+  const parts = [
+    event.ctrlKey || event.metaKey ? "mod" : "",
+    event.altKey ? "alt" : "",
+    event.shiftKey && !isSymbol ? "shift" : "",
+    key,
+  ];
+  return parts.filter(Boolean).join("+");
+}
+
+// The key as shown to users, such as "Ctrl+Enter"
+export function formatKey(key: string): string {
+  return normalizeKey(key)
+    .split(/\+(?!$)/)
+    .map((part) => KEY_NAMES[part] ?? part.toUpperCase())
+    .join("+");
+}
+
+export function getKey(shortcut: Shortcut, keyMap: KeyMap): string {
+  return normalizeKey(keyMap[shortcut.id] ?? shortcut.key);
+}
+
+// The scopes whose shortcuts work, the most specific first
+export function getActiveScopes(open: {
+  modal: boolean;
+  form: boolean;
+  list: boolean;
+}): ShortcutScope[] {
+  if (open.modal) {
+    return open.form ? ["modal", "form", "global"] : ["modal", "global"];
+  }
+  if (open.form) return ["form", "global"];
+  if (open.list) return ["list", "global"];
+  return ["global"];
+}
+
+// Typing in a text field only triggers shortcuts with Ctrl, Cmd or Alt,
+// and Escape
+const worksWhileTyping = (key: string) =>
+  key === "escape" || key.startsWith("mod+") || key.startsWith("alt+");
+
+// The shortcut a key triggers, looking through the scopes in order
+export function findShortcut(
+  shortcuts: Shortcut[],
+  keyMap: KeyMap,
+  key: string,
+  scopes: ShortcutScope[],
+  isTyping = false
+): Shortcut | undefined {
+  if (isTyping && !worksWhileTyping(key)) return undefined;
+
+  for (const scope of scopes) {
+    const shortcut = shortcuts.find(
+      (item) => item.scope === scope && getKey(item, keyMap) === key
+    );
+    if (shortcut) return shortcut;
+  }
+  return undefined;
+}
+
+// Pairs of shortcuts with the same key that can be active together: in the
+// same scope, or one of them global
+export function findConflicts(
+  shortcuts: Shortcut[],
+  keyMap: KeyMap
+): [Shortcut, Shortcut][] {
+  const conflicts: [Shortcut, Shortcut][] = [];
+  shortcuts.forEach((shortcut, index) => {
+    shortcuts.slice(index + 1).forEach((other) => {
+      if (
+        getKey(shortcut, keyMap) === getKey(other, keyMap) &&
+        (shortcut.scope === other.scope ||
+          shortcut.scope === "global" ||
+          other.scope === "global")
+      ) {
+        conflicts.push([shortcut, other]);
+      }
+    });
+  });
+  return conflicts;
+}
+
+// The shortcut that would clash with giving `id` the key
+export function getConflict(
+  shortcuts: Shortcut[],
+  keyMap: KeyMap,
+  id: string,
+  key: string
+): Shortcut | undefined {
+  const pair = findConflicts(shortcuts, { ...keyMap, [id]: key }).find(
+    ([first, second]) => first.id === id || second.id === id
+  );
+  if (!pair) return undefined;
+  return pair[0].id === id ? pair[1] : pair[0];
+}
+
+// Whether keys pressed on the target type into a text field
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * A storage backend for attachment contents.
+ * Blobs are addressed by an opaque key; drivers decide where the bytes live.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+type StorageDriverFactory = () => StorageDriver;
+
+/**
+ * Stores blobs as files under a root directory, sharded by key prefix
+ */
+export class LocalDiskStorageDriver implements StorageDriver {
+  readonly name = "local";
+
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    // Keys are content hashes, but never trust them to stay inside the root
+    const safeKey = key.replace(/[^A-Za-z0-9_-]/g, "");
+    return path.join(this.rootDir, safeKey.slice(0, 2), safeKey);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so readers never see a partial blob
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+const driverFactories: Record<string, StorageDriverFactory> = {
+  local: () =>
+    new LocalDiskStorageDriver(
+      process.env.ATTACHMENTS_DIR || path.join(process.cwd(), "uploads")
+    ),
+};
+
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * Register an additional storage backend (e.g. S3) under a name
+ * that can be selected with the STORAGE_DRIVER environment variable
+ */
+export function registerStorageDriver(
+  name: string,
+  factory: StorageDriverFactory
+): void {
+  driverFactories[name] = factory;
+  if (activeDriver?.name === name) {
+    activeDriver = null;
+  }
+}
+
+/**
+ * Get the configured storage driver (defaults to local disk)
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!activeDriver) {
+    const name = process.env.STORAGE_DRIVER || "local";
+    const factory = driverFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown storage driver: ${name}`);
+    }
+    activeDriver = factory();
+  }
+  return activeDriver;
+}
+
+/**
+ * Compute the SHA-256 content hash used for blob keys and deduplication
+ */
+export function computeContentHash(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
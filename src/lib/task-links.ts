@@ -0,0 +1,42 @@
+import { getTaskReferences, TaskReference } from "@/lib/markdown";
+
+/**
+ * Links between tasks written in their descriptions as `[[Task title]]` or
+ * `#123`. Titles match ignoring case and surrounding spaces; when several
+ * tasks share a title, the first open one wins.
+ */
+
+type LinkableTask = {
+  id?: number;
+  title: string;
+  description?: string;
+  isCompleted?: boolean;
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+export function resolveTaskReference<T extends LinkableTask>(
+  ref: TaskReference,
+  tasks: T[]
+): T | undefined {
+  if ("id" in ref) return tasks.find((task) => task.id === ref.id);
+
+  const title = normalizeTitle(ref.title);
+  const matches = tasks.filter((task) => normalizeTitle(task.title) === title);
+  return matches.find((task) => !task.isCompleted) ?? matches[0];
+}
+
+// The other tasks whose description links to the task
+export function findBacklinks<T extends LinkableTask>(
+  task: Pick<LinkableTask, "id">,
+  tasks: T[]
+): T[] {
+  return tasks.filter(
+    (other) =>
+      other.id !== task.id &&
+      other.description &&
+      getTaskReferences(other.description).some(
+        (ref) => resolveTaskReference(ref, tasks)?.id === task.id
+      )
+  );
+}
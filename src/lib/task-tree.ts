@@ -0,0 +1,93 @@
+import type { SubTask } from "@/types/task";
+
+/**
+ * Task hierarchy. Tasks are nested under a parent through parentTaskId, to
+ * any depth. A task's completion rolls up from its subtasks and checklist
+ * items, which count equally; a subtask counts with its own rolled-up
+ * completion, and a completed task is always fully done.
+ */
+
+type TreeTask = {
+  id?: number;
+  parentTaskId?: number | null;
+};
+
+export type TaskNode<T extends TreeTask> = {
+  task: T;
+  depth: number;
+  children: TaskNode<T>[];
+};
+
+// Tasks whose parent is not among the given tasks become roots, so a
+// filtered list still shows every task; the order of tasks is kept
+export function buildTaskTree<T extends TreeTask>(tasks: T[]): TaskNode<T>[] {
+  const nodes = new Map<number, TaskNode<T>>();
+  for (const task of tasks) {
+    if (task.id !== undefined) {
+      nodes.set(task.id, { task, depth: 0, children: [] });
+    }
+  }
+
+  const roots: TaskNode<T>[] = [];
+  for (const task of tasks) {
+    const node =
+      task.id !== undefined
+        ? nodes.get(task.id)!
+        : { task, depth: 0, children: [] };
+    const parent =
+      task.parentTaskId != null ? nodes.get(task.parentTaskId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Tasks caught in a parent cycle are not reachable from any root
+  const placed = new Set<TaskNode<T>>();
+  const place = (node: TaskNode<T>, depth: number) => {
+    placed.add(node);
+    node.depth = depth;
+    node.children = node.children.filter((child) => !placed.has(child));
+    node.children.forEach((child) => place(child, depth + 1));
+  };
+  roots.forEach((root) => place(root, 0));
+  for (const node of nodes.values()) {
+    if (!placed.has(node)) {
+      roots.push(node);
+      place(node, 0);
+    }
+  }
+
+  return roots;
+}
+
+// Depth-first order, the order in which a tree is rendered
+export function flattenTaskTree<T extends TreeTask>(
+  nodes: TaskNode<T>[]
+): TaskNode<T>[] {
+  return nodes.flatMap((node) => [node, ...flattenTaskTree(node.children)]);
+}
+
+type CompletionTask = TreeTask & {
+  isCompleted: boolean;
+  subTasks?: Pick<SubTask, "isCompleted">[];
+};
+
+// Percentage (0-100) of the task that is done
+export function rollUpCompletion<T extends CompletionTask>(
+  node: TaskNode<T>
+): number {
+  return Math.round(getDoneFraction(node) * 100);
+}
+
+function getDoneFraction<T extends CompletionTask>(node: TaskNode<T>): number {
+  if (node.task.isCompleted) return 1;
+
+  const parts = [
+    ...(node.task.subTasks ?? []).map((item) => (item.isCompleted ? 1 : 0)),
+    ...node.children.map(getDoneFraction),
+  ];
+  if (parts.length === 0) return 0;
+  return parts.reduce((sum: number, part) => sum + part, 0) / parts.length;
+}
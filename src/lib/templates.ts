@@ -0,0 +1,161 @@
+import { getDaysBetween, shiftDate } from "./date-shift";
+import { sortByPosition } from "./ordering";
+import { buildTaskTree, TaskNode } from "./task-tree";
+import type {
+  TaskFormData,
+  TaskWithRelations,
+  TemplateList,
+  TemplateTask,
+} from "@/types/task";
+
+/**
+ * Templates. Tasks are saved with their dates as days after the earliest
+ * of them, so using a template on another day keeps the gaps between
+ * them. Titles, descriptions, checklist items and list names may hold
+ * {{variables}}: {{date}} and {{weekday}} are filled from the date the
+ * template is used on, optionally moved with {{date+7}} or {{date-1}},
+ * and any other name from the values given.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*(?:([+-])\s*(\d+)\s*)?\}\}/g;
+const BUILT_IN_VARIABLES = ["date", "weekday"];
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Fill the variables of a text; names without a value are left as they are
+export function fillTemplateText(
+  text: string,
+  date: string,
+  variables: Record<string, string> = {}
+): string {
+  return text.replace(VARIABLE_PATTERN, (match, name, sign, amount) => {
+    const days = amount ? Number(amount) * (sign === "-" ? -1 : 1) : 0;
+    switch (name) {
+      case "date":
+        return shiftDate(date, days);
+      case "weekday":
+        return WEEKDAYS[
+          new Date(`${shiftDate(date, days)}T00:00:00Z`).getUTCDay()
+        ];
+      default:
+        return variables[name] ?? match;
+    }
+  });
+}
+
+// Names of the variables used in a template that have to be given a value
+export function getTemplateVariables(
+  tasks: TemplateTask[],
+  list?: TemplateList
+): string[] {
+  const names = new Set<string>();
+  const collect = (text?: string) => {
+    for (const [, name] of (text ?? "").matchAll(VARIABLE_PATTERN)) {
+      if (!BUILT_IN_VARIABLES.includes(name)) names.add(name);
+    }
+  };
+  const visit = (task: TemplateTask) => {
+    collect(task.title);
+    collect(task.description);
+    task.checklist?.forEach(collect);
+    task.subtasks?.forEach(visit);
+  };
+
+  collect(list?.name);
+  list?.sections.forEach(collect);
+  tasks.forEach(visit);
+  return [...names];
+}
+
+// Save tasks, nested under their parents, as template tasks. Dates count
+// from the earliest task; sectionNames gives the sections of a list.
+export function toTemplateTasks(
+  tasks: TaskWithRelations[],
+  sectionNames: Map<number, string> = new Map()
+): TemplateTask[] {
+  if (tasks.length === 0) return [];
+  const startDate = tasks.map((task) => task.date).sort()[0];
+
+  const toTemplateTask = ({
+    task,
+    children,
+  }: TaskNode<TaskWithRelations>): TemplateTask => ({
+    title: task.title,
+    description: task.description || undefined,
+    priority: task.priority,
+    estimateHours: task.estimateHours || undefined,
+    estimateMinutes: task.estimateMinutes || undefined,
+    dateOffset: getDaysBetween(startDate, task.date),
+    deadlineOffset: task.deadline
+      ? getDaysBetween(startDate, task.deadline)
+      : undefined,
+    deadlineTime: task.deadline?.slice(11, 16) || undefined,
+    reminders: task.reminders?.map(({ at, ...reminder }) =>
+      at
+        ? {
+            atMinutes: Math.round(
+              (Date.parse(at) - Date.parse(`${task.date}T00:00:00Z`)) /
+                MINUTE_MS
+            ),
+          }
+        : reminder
+    ),
+    labelIds: task.labels?.map((label) => label.id),
+    checklist: sortByPosition(task.subTasks ?? []).map(
+      (subTask) => subTask.title
+    ),
+    sectionName: task.sectionId ? sectionNames.get(task.sectionId) : undefined,
+    subtasks: children.length > 0 ? children.map(toTemplateTask) : undefined,
+  });
+
+  return buildTaskTree(tasks).map(toTemplateTask);
+}
+
+// The task a template task creates when the template is used on `date`,
+// without its list, section and parent
+export function fromTemplateTask(
+  task: TemplateTask,
+  date: string,
+  variables: Record<string, string> = {}
+): TaskFormData {
+  const taskDate = shiftDate(date, task.dateOffset);
+  const fill = (text: string) => fillTemplateText(text, date, variables);
+
+  return {
+    title: fill(task.title),
+    description: task.description && fill(task.description),
+    date: taskDate,
+    deadline:
+      task.deadlineOffset !== undefined
+        ? shiftDate(date, task.deadlineOffset) +
+          (task.deadlineTime ? `T${task.deadlineTime}` : "")
+        : undefined,
+    estimateHours: task.estimateHours,
+    estimateMinutes: task.estimateMinutes,
+    priority: task.priority,
+    isRecurring: false,
+    reminders: task.reminders?.map(({ atMinutes, ...reminder }) =>
+      atMinutes !== undefined
+        ? {
+            at: new Date(
+              Date.parse(`${taskDate}T00:00:00Z`) + atMinutes * MINUTE_MS
+            ).toISOString(),
+          }
+        : reminder
+    ),
+    labels: task.labelIds,
+    subTasks: task.checklist?.map((title) => ({
+      title: fill(title),
+      isCompleted: false,
+      completedAt: null,
+    })),
+  };
+}
@@ -0,0 +1,14 @@
+import { TrashScheduler } from "../services/trash-scheduler";
+
+// Standalone trash purge worker.
+// Usage: bun src/lib/trash-worker.ts [--once]
+
+const scheduler = TrashScheduler.getInstance();
+
+if (process.argv.includes("--once")) {
+  const purged = await scheduler.runOnce();
+  console.log(`Purged ${purged} item(s) from the trash`);
+} else {
+  console.log("Trash worker started");
+  scheduler.start();
+}
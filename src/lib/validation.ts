@@ -1,14 +1,19 @@
 import { z } from "zod";
 import {
   Task,
+  TaskUpdate,
   List,
   Label,
   SubTask,
   Attachment,
+  CustomField,
+  CustomFieldValue,
+  customFieldValueSchema,
   prioritySchema,
   recurrenceTypeSchema,
   reminderSchema,
 } from "@/types/task";
+import { isValidRRule } from "@/lib/rrule";
 
 // Zod schemas for validation
 export const PrioritySchema = prioritySchema;
@@ -30,13 +35,23 @@ export const TaskSchema = z.object({
   actualMinutes: z.number().min(0).max(59).optional(),
   priority: PrioritySchema.default("none"),
   listId: z.number(),
+  parentTaskId: z.number().int().positive().nullable().optional(),
+  sectionId: z.number().int().positive().nullable().optional(),
   isCompleted: z.boolean().default(false),
   completedAt: z.string().optional(),
   isRecurring: z.boolean().default(false),
   recurrenceType: RecurrenceTypeSchema.optional(),
   recurrenceInterval: z.number().min(1).optional(),
   recurrenceEndDate: z.string().optional(),
+  recurrenceRule: z
+    .string()
+    .refine(isValidRRule, "Invalid recurrence rule")
+    .optional(),
+  recurrenceExceptions: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"))
+    .optional(),
   reminders: z.array(reminderSchema).optional(),
+  customValues: z.record(customFieldValueSchema.nullable()).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
 });
@@ -92,6 +107,51 @@ export const AttachmentSchema = z.object({
   createdAt: z.string().optional(),
 });
 
+// The value a custom field accepts, generated from its definition
+export const buildCustomFieldSchema = (
+  field: CustomField
+): z.ZodType<CustomFieldValue> => {
+  switch (field.type) {
+    case "text":
+      return z
+        .string()
+        .max(1000, `${field.name} must be less than 1000 characters`);
+    case "number":
+      return z.number({
+        invalid_type_error: `${field.name} must be a number`,
+      });
+    case "select":
+      return z
+        .string()
+        .refine(
+          (value) => field.options.includes(value),
+          `${field.name} must be one of ${field.options.join(", ")}`
+        );
+    case "date":
+      return z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, `${field.name} must be a date`);
+    case "checkbox":
+      return z.boolean({
+        invalid_type_error: `${field.name} must be checked or unchecked`,
+      });
+  }
+};
+
+// Custom values of a task keyed by field ID, checked against the fields of
+// its list. Null clears a value; IDs of other fields are rejected.
+export const buildCustomValuesSchema = (fields: CustomField[]) =>
+  z
+    .object(
+      Object.fromEntries(
+        fields.map((field) => [
+          field.id.toString(),
+          buildCustomFieldSchema(field).nullable().optional(),
+        ])
+      )
+    )
+    .strict("Unknown custom field");
+
 // Type-safe validation functions
 export const validateTask = (data: unknown): Task => {
   const parsed = TaskSchema.parse(data);
@@ -103,8 +163,25 @@ export const validateTask = (data: unknown): Task => {
   return parsed as Task;
 };
 
-export const validateTaskPartial = (data: unknown): Partial<Task> => {
-  return TaskSchema.partial().parse(data);
+export const validateTaskPartial = (data: unknown): TaskUpdate => {
+  const { shape } = TaskSchema;
+  return TaskSchema.partial()
+    .extend({
+      description: shape.description.nullable(),
+      deadline: shape.deadline.nullable(),
+      estimateHours: shape.estimateHours.nullable(),
+      estimateMinutes: shape.estimateMinutes.nullable(),
+      actualHours: shape.actualHours.nullable(),
+      actualMinutes: shape.actualMinutes.nullable(),
+      completedAt: shape.completedAt.nullable(),
+      recurrenceType: shape.recurrenceType.nullable(),
+      recurrenceInterval: shape.recurrenceInterval.nullable(),
+      recurrenceEndDate: shape.recurrenceEndDate.nullable(),
+      recurrenceRule: shape.recurrenceRule.nullable(),
+      recurrenceExceptions: shape.recurrenceExceptions.nullable(),
+      reminders: shape.reminders.nullable(),
+    })
+    .parse(data);
 };
 
 export const validateList = (data: unknown): List => {
@@ -204,13 +281,23 @@ export const validateTaskField = (
   }
 };
 
+// Empty values clear the field and are always valid
+export const validateCustomFieldValue = (
+  field: CustomField,
+  value: unknown
+): string | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const result = buildCustomFieldSchema(field).safeParse(value);
+  return result.success ? undefined : result.error.issues[0]?.message;
+};
+
 export const validateListField = (
   field: keyof List,
   value: unknown
 ): string | undefined => {
   try {
     const partialSchema = ListSchema.pick({ [field]: true } as Record<
-      keyof List,
+      Exclude<keyof List, "deletedAt" | "position" | "folderId" | "archivedAt">,
       true
     >);
     partialSchema.parse({ [field]: value });
@@ -229,7 +316,7 @@ export const validateLabelField = (
 ): string | undefined => {
   try {
     const partialSchema = LabelSchema.pick({ [field]: true } as Record<
-      keyof Label,
+      Exclude<keyof Label, "deletedAt">,
       true
     >);
     partialSchema.parse({ [field]: value });
@@ -0,0 +1,149 @@
+import { db } from "@/lib/db";
+import { buildTaskActivity } from "@/lib/activity";
+import { taskComments, tasks } from "@/lib/schema";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import {
+  TaskActivity,
+  TaskComment,
+  TaskCommentFormData,
+  TaskCommentUpdate,
+} from "@/types/task";
+import { AuditService } from "./audit-service";
+
+type TaskCommentRow = Omit<TaskComment, "edits"> & { edits: string };
+
+// Comments are written by whoever uses the app until it has accounts
+export const DEFAULT_COMMENT_AUTHOR = "Me";
+
+/**
+ * Comments on a task, oldest first. Like sections, every comment method
+ * takes the task the comment is addressed through and returns undefined
+ * when the comment is not on that task. Timestamps are ISO strings, as in
+ * the audit log they are interleaved with.
+ */
+export class CommentService {
+  private auditService = new AuditService();
+
+  // Undefined when the task is missing or trashed
+  async getComments(taskId: number): Promise<TaskComment[] | undefined> {
+    if (!(await this.isActiveTask(taskId))) return undefined;
+
+    const rows = (await db
+      .select()
+      .from(taskComments)
+      .where(eq(taskComments.taskId, taskId))
+      .orderBy(asc(taskComments.createdAt), asc(taskComments.id))
+      .all()) as TaskCommentRow[];
+    return rows.map((row) => this.toComment(row));
+  }
+
+  async getCommentById(
+    taskId: number,
+    id: number
+  ): Promise<TaskComment | undefined> {
+    const row = (await db
+      .select()
+      .from(taskComments)
+      .where(and(eq(taskComments.id, id), eq(taskComments.taskId, taskId)))
+      .get()) as TaskCommentRow | undefined;
+    return row && this.toComment(row);
+  }
+
+  // Comments interleaved with the task's history; undefined when the task
+  // is missing or trashed
+  async getActivity(taskId: number): Promise<TaskActivity[] | undefined> {
+    const comments = await this.getComments(taskId);
+    if (!comments) return undefined;
+    const changes = await this.auditService.getTaskHistory(taskId);
+    return buildTaskActivity(changes, comments);
+  }
+
+  // Undefined when the task is missing or trashed
+  async createComment(
+    taskId: number,
+    { author, body }: TaskCommentFormData
+  ): Promise<TaskComment | undefined> {
+    if (!(await this.isActiveTask(taskId))) return undefined;
+
+    try {
+      const now = new Date().toISOString();
+      const [row] = (await db
+        .insert(taskComments)
+        .values({
+          taskId,
+          author: author ?? DEFAULT_COMMENT_AUTHOR,
+          body,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning()
+        .all()) as TaskCommentRow[];
+      return this.toComment(row);
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      throw new Error("Failed to create comment");
+    }
+  }
+
+  // The replaced body is kept in the comment's edits
+  async updateComment(
+    taskId: number,
+    id: number,
+    { body }: TaskCommentUpdate
+  ): Promise<TaskComment | undefined> {
+    try {
+      const comment = await this.getCommentById(taskId, id);
+      if (!comment) return undefined;
+      if (comment.body === body) return comment;
+
+      const now = new Date().toISOString();
+      const [row] = (await db
+        .update(taskComments)
+        .set({
+          body,
+          edits: JSON.stringify([
+            ...comment.edits,
+            { body: comment.body, editedAt: now },
+          ]),
+          updatedAt: now,
+        })
+        .where(eq(taskComments.id, id))
+        .returning()
+        .all()) as TaskCommentRow[];
+      return this.toComment(row);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      throw new Error("Failed to update comment");
+    }
+  }
+
+  async deleteComment(taskId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(taskComments)
+        .where(and(eq(taskComments.id, id), eq(taskComments.taskId, taskId)))
+        .run();
+      return result.changes > 0;
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      throw new Error("Failed to delete comment");
+    }
+  }
+
+  async deleteCommentsForTask(taskId: number): Promise<void> {
+    await db.delete(taskComments).where(eq(taskComments.taskId, taskId)).run();
+  }
+
+  private toComment({ edits, ...row }: TaskCommentRow): TaskComment {
+    return { ...row, edits: JSON.parse(edits) };
+  }
+
+  private async isActiveTask(id: number): Promise<boolean> {
+    const task = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.id, id), isNull(tasks.deletedAt)))
+      .get();
+    return task !== undefined;
+  }
+}
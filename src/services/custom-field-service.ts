@@ -0,0 +1,213 @@
+import { db } from "@/lib/db";
+import { customFields, lists, taskCustomValues } from "@/lib/schema";
+import { and, asc, eq, inArray, isNull, notInArray, sql } from "drizzle-orm";
+import { buildCustomValuesSchema } from "@/lib/validation";
+import {
+  CustomField,
+  CustomFieldFormData,
+  CustomFieldUpdate,
+  Task,
+} from "@/types/task";
+
+type CustomFieldRow = Omit<CustomField, "options"> & { options: string };
+
+type CustomValues = NonNullable<Task["customValues"]>;
+
+/**
+ * Custom fields are task fields a list defines for its tasks. Like
+ * sections, every field method takes the list the field is addressed
+ * through and returns undefined when the field is not in that list.
+ * Values are kept when a task moves to another list, but only those of
+ * its current list's fields are read.
+ */
+export class CustomFieldService {
+  async getFields(listId: number): Promise<CustomField[]> {
+    const rows = (await db
+      .select()
+      .from(customFields)
+      .where(eq(customFields.listId, listId))
+      .orderBy(asc(customFields.id))
+      .all()) as CustomFieldRow[];
+    return rows.map((row) => this.toField(row));
+  }
+
+  async getFieldById(
+    listId: number,
+    id: number
+  ): Promise<CustomField | undefined> {
+    const row = (await db
+      .select()
+      .from(customFields)
+      .where(and(eq(customFields.id, id), eq(customFields.listId, listId)))
+      .get()) as CustomFieldRow | undefined;
+    return row && this.toField(row);
+  }
+
+  // Undefined when the list is missing or trashed
+  async createField(
+    listId: number,
+    { name, type, options }: CustomFieldFormData
+  ): Promise<CustomField | undefined> {
+    if (!(await this.isActiveList(listId))) return undefined;
+
+    const [row] = (await db
+      .insert(customFields)
+      .values({
+        listId,
+        name,
+        type,
+        options: JSON.stringify(type === "select" ? options : []),
+      })
+      .returning()
+      .all()) as CustomFieldRow[];
+    return this.toField(row);
+  }
+
+  // Values no longer among the options of a select field are cleared
+  async updateField(
+    listId: number,
+    id: number,
+    { name, options }: CustomFieldUpdate
+  ): Promise<CustomField | undefined> {
+    try {
+      const field = await this.getFieldById(listId, id);
+      if (!field) return undefined;
+      const newOptions = field.type === "select" ? options : undefined;
+
+      const [row] = (await db
+        .update(customFields)
+        .set({
+          name,
+          options: newOptions && JSON.stringify(newOptions),
+          updatedAt: sql`CURRENT_TIMESTAMP`,
+        })
+        .where(eq(customFields.id, id))
+        .returning()
+        .all()) as CustomFieldRow[];
+
+      if (newOptions) {
+        await db
+          .delete(taskCustomValues)
+          .where(
+            and(
+              eq(taskCustomValues.fieldId, id),
+              notInArray(
+                taskCustomValues.value,
+                newOptions.map((option) => JSON.stringify(option))
+              )
+            )
+          )
+          .run();
+      }
+
+      return this.toField(row);
+    } catch (error) {
+      console.error("Error updating custom field:", error);
+      throw new Error("Failed to update custom field");
+    }
+  }
+
+  // Deleting a field deletes the values tasks hold for it
+  async deleteField(listId: number, id: number): Promise<boolean> {
+    try {
+      if (!(await this.getFieldById(listId, id))) return false;
+
+      await db
+        .delete(taskCustomValues)
+        .where(eq(taskCustomValues.fieldId, id))
+        .run();
+      await db.delete(customFields).where(eq(customFields.id, id)).run();
+      return true;
+    } catch (error) {
+      console.error("Error deleting custom field:", error);
+      throw new Error("Failed to delete custom field");
+    }
+  }
+
+  async deleteFieldsForList(listId: number): Promise<void> {
+    const fieldIds = (await this.getFields(listId)).map((field) => field.id);
+    if (fieldIds.length === 0) return;
+
+    await db
+      .delete(taskCustomValues)
+      .where(inArray(taskCustomValues.fieldId, fieldIds))
+      .run();
+    await db.delete(customFields).where(eq(customFields.listId, listId)).run();
+  }
+
+  // Checks values against the fields of the list; throws a ZodError
+  async validateValues(
+    listId: number,
+    values: CustomValues
+  ): Promise<CustomValues> {
+    return buildCustomValuesSchema(await this.getFields(listId)).parse(
+      values
+    ) as CustomValues;
+  }
+
+  // Values should be validated first; null clears a value
+  async setValues(taskId: number, values: CustomValues): Promise<void> {
+    for (const [fieldId, value] of Object.entries(values)) {
+      if (value === null || value === undefined) {
+        await db
+          .delete(taskCustomValues)
+          .where(
+            and(
+              eq(taskCustomValues.taskId, taskId),
+              eq(taskCustomValues.fieldId, Number(fieldId))
+            )
+          )
+          .run();
+      } else {
+        await db
+          .insert(taskCustomValues)
+          .values({
+            taskId,
+            fieldId: Number(fieldId),
+            value: JSON.stringify(value),
+          })
+          .onConflictDoUpdate({
+            target: [taskCustomValues.taskId, taskCustomValues.fieldId],
+            set: { value: JSON.stringify(value) },
+          })
+          .run();
+      }
+    }
+  }
+
+  // Every value the task holds, for fields of any list
+  async copyValues(fromTaskId: number, toTaskId: number): Promise<void> {
+    const rows = (await db
+      .select()
+      .from(taskCustomValues)
+      .where(eq(taskCustomValues.taskId, fromTaskId))
+      .all()) as (typeof taskCustomValues.$inferSelect)[];
+    if (rows.length === 0) return;
+
+    await db
+      .insert(taskCustomValues)
+      .values(rows.map((row) => ({ ...row, taskId: toTaskId })))
+      .onConflictDoNothing()
+      .run();
+  }
+
+  async deleteValuesForTask(taskId: number): Promise<void> {
+    await db
+      .delete(taskCustomValues)
+      .where(eq(taskCustomValues.taskId, taskId))
+      .run();
+  }
+
+  private toField({ options, ...row }: CustomFieldRow): CustomField {
+    return { ...row, options: JSON.parse(options) };
+  }
+
+  private async isActiveList(id: number): Promise<boolean> {
+    const list = await db
+      .select({ id: lists.id })
+      .from(lists)
+      .where(and(eq(lists.id, id), isNull(lists.deletedAt)))
+      .get();
+    return list !== undefined;
+  }
+}
@@ -0,0 +1,157 @@
+import { db } from "@/lib/db";
+import { DatabaseService } from "@/lib/db-service";
+import { publishEvent } from "@/lib/events";
+import { findDependencyCycle, isTaskBlocked } from "@/lib/dependencies";
+import { taskDependencies } from "@/lib/schema";
+import { and, eq, or } from "drizzle-orm";
+import { TaskDependency, TaskWithRelations } from "@/types/task";
+import { AuditService } from "./audit-service";
+
+// Adding the dependency would make the tasks wait for each other
+export class DependencyCycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DependencyCycleError";
+  }
+}
+
+export class DependencyService {
+  private dbService = new DatabaseService();
+  private auditService = new AuditService();
+
+  // Returns undefined when the task does not exist
+  async getDependencies(
+    taskId: number
+  ): Promise<
+    { blockedBy: TaskDependency[]; blocking: TaskDependency[] } | undefined
+  > {
+    const task = await this.dbService.getTaskById(taskId);
+    if (!task || task.deletedAt) return undefined;
+    return { blockedBy: task.blockedBy ?? [], blocking: task.blocking ?? [] };
+  }
+
+  // Make taskId wait for blockerId. Returns the updated task, or undefined
+  // when either task does not exist
+  async addDependency(
+    taskId: number,
+    blockerId: number
+  ): Promise<TaskWithRelations | undefined> {
+    const [task, blocker] = await Promise.all([
+      this.dbService.getTaskById(taskId),
+      this.dbService.getTaskById(blockerId),
+    ]);
+    if (!task || task.deletedAt || !blocker || blocker.deletedAt) {
+      return undefined;
+    }
+
+    const edges = await db
+      .select({
+        taskId: taskDependencies.taskId,
+        blockerId: taskDependencies.blockerId,
+      })
+      .from(taskDependencies)
+      .all();
+    if (findDependencyCycle(edges, taskId, blockerId)) {
+      throw new DependencyCycleError(
+        taskId === blockerId
+          ? "A task cannot depend on itself"
+          : `"${blocker.title}" already depends on "${task.title}"`
+      );
+    }
+
+    try {
+      await db
+        .insert(taskDependencies)
+        .values({ taskId, blockerId })
+        .onConflictDoNothing()
+        .run();
+    } catch (error) {
+      console.error("Error adding task dependency:", error);
+      throw new Error("Failed to add task dependency");
+    }
+
+    const [updatedTask] = await this.publishTasks([taskId, blockerId]);
+    return updatedTask;
+  }
+
+  // Returns false when taskId did not wait for blockerId
+  async removeDependency(taskId: number, blockerId: number): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(taskDependencies)
+        .where(
+          and(
+            eq(taskDependencies.taskId, taskId),
+            eq(taskDependencies.blockerId, blockerId)
+          )
+        )
+        .run();
+      if (result.changes === 0) return false;
+    } catch (error) {
+      console.error("Error removing task dependency:", error);
+      throw new Error("Failed to remove task dependency");
+    }
+
+    await this.publishTasks([taskId, blockerId]);
+    return true;
+  }
+
+  // Completing or reopening a blocker changes the blocked state of the
+  // tasks waiting for it; each change is recorded in their history
+  async updateDependents(blocker: TaskWithRelations): Promise<void> {
+    const dependentIds = (blocker.blocking ?? []).map((task) => task.id);
+    const dependents = await this.publishTasks(dependentIds);
+
+    for (const dependent of dependents) {
+      const otherBlockers = (dependent.blockedBy ?? []).filter(
+        (task) => task.id !== blocker.id
+      );
+      if (
+        dependent.isCompleted ||
+        isTaskBlocked({ blockedBy: otherBlockers })
+      ) {
+        continue;
+      }
+
+      const blocked = isTaskBlocked(dependent);
+      await this.auditService.logChange(
+        dependent.id!,
+        "update",
+        { blocked: !blocked },
+        { blocked, blocker: { id: blocker.id, title: blocker.title } },
+        { blocked: { old: !blocked, new: blocked } }
+      );
+    }
+  }
+
+  // Trashing or restoring a task changes what the tasks around it show
+  async publishNeighbours(task: TaskWithRelations): Promise<void> {
+    await this.publishTasks([
+      ...(task.blockedBy ?? []).map((blocker) => blocker.id),
+      ...(task.blocking ?? []).map((dependent) => dependent.id),
+    ]);
+  }
+
+  async deleteDependenciesForTask(taskId: number): Promise<void> {
+    await db
+      .delete(taskDependencies)
+      .where(
+        or(
+          eq(taskDependencies.taskId, taskId),
+          eq(taskDependencies.blockerId, taskId)
+        )
+      )
+      .run();
+  }
+
+  private async publishTasks(ids: number[]): Promise<TaskWithRelations[]> {
+    const published: TaskWithRelations[] = [];
+    for (const id of ids) {
+      const task = await this.dbService.getTaskById(id);
+      if (!task || task.deletedAt) continue;
+      publishEvent({ type: "task_updated", data: task });
+      published.push(task);
+    }
+    return published;
+  }
+}
@@ -1,32 +1,31 @@
 import { db } from "@/lib/db";
 import { attachments } from "@/lib/schema";
-import { eq, sql } from "drizzle-orm";
+import { getStorageDriver, computeContentHash } from "@/lib/storage";
+import { eq, inArray } from "drizzle-orm";
 import { Attachment } from "@/types/task";
 
 export class FileService {
+  private storage = getStorageDriver();
+
   async uploadFile(file: File, taskId: number): Promise<Attachment> {
     try {
-      // In a real application, you would:
-      // 1. Save the file to a storage service (AWS S3, Google Cloud Storage, etc.)
-      // 2. Generate a secure URL for the file
-      // 3. Store metadata in the database
-
-      // For this demo, we'll simulate file upload
-      const fileName = file.name;
-      const mimeType = file.type;
-      const fileSize = file.size;
+      const data = Buffer.from(await file.arrayBuffer());
+      const contentHash = computeContentHash(data);
 
-      // Generate a mock file path/URL
-      const filePath = `/uploads/${Date.now()}_${fileName}`;
+      // Blobs are content-addressed, so identical uploads share storage
+      if (!(await this.storage.exists(contentHash))) {
+        await this.storage.put(contentHash, data);
+      }
 
       const [newAttachment] = (await db
         .insert(attachments)
         .values({
           taskId,
-          fileName,
-          filePath,
-          fileSize,
-          mimeType,
+          fileName: file.name,
+          filePath: contentHash,
+          fileSize: data.length,
+          mimeType: file.type || "application/octet-stream",
+          contentHash,
           createdAt: new Date().toISOString(),
         })
         .returning()
@@ -41,14 +40,57 @@ export class FileService {
 
   async deleteFile(id: number): Promise<void> {
     try {
-      // In a real application, you would also delete the actual file from storage
+      const attachment = await this.getFileById(id);
       await db.delete(attachments).where(eq(attachments.id, id)).run();
+
+      if (attachment) {
+        await this.removeOrphanedBlobs([attachment.contentHash]);
+      }
     } catch (error) {
       console.error("Error deleting file:", error);
       throw new Error("Failed to delete file");
     }
   }
 
+  async deleteAttachmentsForTask(taskId: number): Promise<void> {
+    try {
+      const taskAttachments = await this.getAttachmentsForTask(taskId);
+      await db.delete(attachments).where(eq(attachments.taskId, taskId)).run();
+
+      await this.removeOrphanedBlobs(
+        taskAttachments.map((attachment) => attachment.contentHash)
+      );
+    } catch (error) {
+      console.error("Error deleting task attachments:", error);
+      throw new Error("Failed to delete task attachments");
+    }
+  }
+
+  // Delete blobs that are no longer referenced by any attachment row
+  async removeOrphanedBlobs(contentHashes: Array<string | null>): Promise<void> {
+    const uniqueHashes = Array.from(
+      new Set(contentHashes.filter((hash): hash is string => !!hash))
+    );
+    if (uniqueHashes.length === 0) return;
+
+    const stillReferenced = (await db
+      .select({ contentHash: attachments.contentHash })
+      .from(attachments)
+      .where(inArray(attachments.contentHash, uniqueHashes))
+      .all()) as { contentHash: string }[];
+    const referencedSet = new Set(stillReferenced.map((row) => row.contentHash));
+
+    for (const hash of uniqueHashes) {
+      if (!referencedSet.has(hash)) {
+        await this.storage.delete(hash);
+      }
+    }
+  }
+
+  async readFileContents(attachment: Attachment): Promise<Buffer | null> {
+    return this.storage.get(attachment.contentHash || attachment.filePath);
+  }
+
   async getAttachmentsForTask(taskId: number): Promise<Attachment[]> {
     try {
       return db
@@ -107,11 +149,9 @@ export class FileService {
     return { isValid: true };
   }
 
-  // Generate a download URL (mock implementation)
-  generateDownloadUrl(attachment: Attachment): string {
-    // In a real application, this would generate a signed URL
-    // that expires after a certain time for security
-    return attachment.filePath;
+  // Downloads are streamed through the attachment route
+  generateDownloadUrl(attachment: Pick<Attachment, "id">): string {
+    return `/api/attachments/${attachment.id}?download=1`;
   }
 
   // Get file icon based on MIME type
@@ -2,6 +2,14 @@ export { TaskService } from "./task-service";
 export { ListService } from "./list-service";
 export { LabelService } from "./label-service";
 export { SearchService } from "./search-service";
+export { SavedFilterService } from "./saved-filter-service";
 export { FileService } from "./file-service";
 export { AuditService } from "./audit-service";
+export { DependencyService } from "./dependency-service";
 export { NotificationService } from "./notification-service";
+export { ReminderService } from "./reminder-service";
+export { RecurrenceScheduler } from "./recurrence-scheduler";
+export { TemplateService } from "./template-service";
+export { CustomFieldService } from "./custom-field-service";
+export { CommentService } from "./comment-service";
+export { PreferenceService } from "./preference-service";
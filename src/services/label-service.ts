@@ -1,11 +1,16 @@
 import { db } from "@/lib/db";
 import { labels } from "@/lib/schema";
-import { eq, sql } from "drizzle-orm";
+import { and, eq, isNotNull, isNull, sql } from "drizzle-orm";
 import { Label } from "@/types/task";
+import { publishEvent } from "@/lib/events";
 
 export class LabelService {
   async getLabels(): Promise<Label[]> {
-    return db.select().from(labels).all() as Label[];
+    return db
+      .select()
+      .from(labels)
+      .where(isNull(labels.deletedAt))
+      .all() as Label[];
   }
 
   async getLabelById(id: number): Promise<Label | undefined> {
@@ -20,6 +25,7 @@ export class LabelService {
       .values(label)
       .returning()
       .all()) as Label[];
+    publishEvent({ type: "label_created", data: newLabel });
     return newLabel;
   }
 
@@ -33,10 +39,35 @@ export class LabelService {
       .where(eq(labels.id, id))
       .returning()
       .all()) as Label[];
+    if (updatedLabel) {
+      publishEvent({ type: "label_updated", data: updatedLabel });
+    }
     return updatedLabel;
   }
 
+  // Moves the label to the trash; tasks keep it and get it back on restore
   async deleteLabel(id: number): Promise<void> {
-    await db.delete(labels).where(eq(labels.id, id)).run();
+    const [deletedLabel] = (await db
+      .update(labels)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(and(eq(labels.id, id), isNull(labels.deletedAt)))
+      .returning()
+      .all()) as Label[];
+    if (deletedLabel) {
+      publishEvent({ type: "label_deleted", data: deletedLabel });
+    }
+  }
+
+  async restoreLabel(id: number): Promise<Label | undefined> {
+    const [restoredLabel] = (await db
+      .update(labels)
+      .set({ deletedAt: null })
+      .where(and(eq(labels.id, id), isNotNull(labels.deletedAt)))
+      .returning()
+      .all()) as Label[];
+    if (restoredLabel) {
+      publishEvent({ type: "label_created", data: restoredLabel });
+    }
+    return restoredLabel;
   }
 }
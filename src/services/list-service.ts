@@ -1,11 +1,49 @@
 import { db } from "@/lib/db";
-import { lists } from "@/lib/schema";
-import { eq, sql } from "drizzle-orm";
-import { List } from "@/types/task";
+import { listFolders, lists, tasks } from "@/lib/schema";
+import { and, asc, count, eq, isNull, sql } from "drizzle-orm";
+import {
+  DuplicateListOptions,
+  List,
+  ListFolder,
+  ListFolderFormData,
+  ListFolderUpdate,
+  ListTree,
+  ListUpdate,
+  Placement,
+} from "@/types/task";
+import {
+  getLastPosition,
+  getPositionBetween,
+  withTransaction,
+} from "@/lib/db-utils";
+import { getDaysBetween, shiftTaskDates } from "@/lib/date-shift";
+import { sortByPosition } from "@/lib/ordering";
+import { buildTaskTree, flattenTaskTree } from "@/lib/task-tree";
+import { publishEvent } from "@/lib/events";
+import { CustomFieldService } from "./custom-field-service";
+import { SectionService } from "./section-service";
+import { TaskService } from "./task-service";
+
+// Another list not in the trash already has the name
+export class ListNameTakenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ListNameTakenError";
+  }
+}
 
 export class ListService {
+  private customFieldService = new CustomFieldService();
+  private taskService = new TaskService();
+  private sectionService = new SectionService();
+
   async getLists(): Promise<List[]> {
-    return db.select().from(lists).all() as List[];
+    return db
+      .select()
+      .from(lists)
+      .where(isNull(lists.deletedAt))
+      .orderBy(asc(lists.position))
+      .all() as List[];
   }
 
   async getListById(id: number): Promise<List | undefined> {
@@ -19,27 +57,342 @@ export class ListService {
   ): Promise<List> {
     const [newList] = (await db
       .insert(lists)
-      .values(list)
+      .values({ ...list, position: await getLastPosition(lists) })
       .returning()
       .all()) as List[];
+    publishEvent({ type: "list_created", data: newList });
     return newList;
   }
 
+  // Archived lists are hidden from the sidebar and the views but stay
+  // searchable. The Inbox cannot be archived.
   async updateList(
     id: number,
-    updates: Partial<List>
+    { archived, ...updates }: ListUpdate
   ): Promise<List | undefined> {
     const [updatedList] = (await db
       .update(lists)
-      .set({ ...updates, updatedAt: sql`CURRENT_TIMESTAMP` })
-      .where(eq(lists.id, id))
+      .set({
+        ...updates,
+        ...(archived !== undefined && {
+          archivedAt: archived ? new Date().toISOString() : null,
+        }),
+        updatedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(
+        and(eq(lists.id, id), archived ? eq(lists.isMagic, false) : undefined)
+      )
       .returning()
       .all()) as List[];
+    if (updatedList) {
+      publishEvent({ type: "list_updated", data: updatedList });
+    }
     return updatedList;
   }
 
+  // Manual ordering in the sidebar. Returns undefined when the list or a
+  // neighbour is missing.
+  async moveList(id: number, placement: Placement): Promise<List | undefined> {
+    const position = await getPositionBetween(lists, placement);
+    if (!position) return undefined;
+    return this.updateList(id, { position });
+  }
+
+  // Moves the list and its tasks to the trash together. The Inbox cannot
+  // be deleted.
   async deleteList(id: number): Promise<void> {
-    await db.delete(lists).where(eq(lists.id, id)).run();
+    const deletedAt = new Date().toISOString();
+    const [deletedList] = (await db
+      .update(lists)
+      .set({ deletedAt })
+      .where(
+        and(eq(lists.id, id), eq(lists.isMagic, false), isNull(lists.deletedAt))
+      )
+      .returning()
+      .all()) as List[];
+    if (!deletedList) return;
+
+    const listTasks: { id: number }[] = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.listId, id), isNull(tasks.deletedAt)))
+      .all();
+    for (const task of listTasks) {
+      await this.taskService.deleteTask(task.id, deletedAt);
+    }
+
+    publishEvent({ type: "list_deleted", data: deletedList });
+  }
+
+  // Take a list out of the trash along with the tasks trashed with it;
+  // tasks that were trashed on their own stay in the trash
+  async restoreList(id: number): Promise<List | undefined> {
+    const list = await this.getListById(id);
+    if (!list?.deletedAt) return undefined;
+
+    const [restoredList] = (await db
+      .update(lists)
+      .set({ deletedAt: null, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(lists.id, id))
+      .returning()
+      .all()) as List[];
+
+    const listTasks: { id: number }[] = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.listId, id), eq(tasks.deletedAt, list.deletedAt)))
+      .all();
+    for (const task of listTasks) {
+      await this.taskService.restoreTask(task.id);
+    }
+
+    publishEvent({ type: "list_created", data: restoredList });
+    return restoredList;
+  }
+
+  // Copy a list with its sections and tasks, including the tasks' labels,
+  // checklist items and reminders, all or nothing. With a start date every
+  // date moves so that the earliest task falls on it. Completed recurring
+  // tasks are copied as one-off tasks, as only the open occurrence carries
+  // the recurrence. Undefined when the list is missing.
+  async duplicateList(
+    id: number,
+    { name, startDate }: DuplicateListOptions = {}
+  ): Promise<List | undefined> {
+    try {
+      const source = await this.getListById(id);
+      if (!source || source.deletedAt) return undefined;
+
+      const copyName = name ?? (await this.getCopyName(source.name));
+      if (await this.isNameTaken(copyName)) {
+        throw new ListNameTakenError(`A list named "${copyName}" exists`);
+      }
+
+      return await withTransaction(async () => {
+        const newList = await this.createList({
+          name: copyName,
+          color: source.color,
+          emoji: source.emoji,
+          isMagic: false,
+          folderId: source.folderId ?? null,
+        });
+
+        const sectionIds = new Map<number, number>();
+        for (const section of await this.sectionService.getSections(id)) {
+          const newSection = await this.sectionService.createSection(
+            newList.id,
+            { name: section.name }
+          );
+          if (newSection) sectionIds.set(section.id, newSection.id);
+        }
+
+        const fieldIds = new Map<number, number>();
+        for (const field of await this.customFieldService.getFields(id)) {
+          const newField = await this.customFieldService.createField(
+            newList.id,
+            field
+          );
+          if (newField) fieldIds.set(field.id, newField.id);
+        }
+
+        const sourceTasks = [];
+        for (const task of await this.getActiveTasks(id)) {
+          const fullTask = await this.taskService.getTaskById(task.id);
+          if (fullTask) sourceTasks.push(fullTask);
+        }
+        const days =
+          startDate && sourceTasks.length > 0
+            ? getDaysBetween(
+                sourceTasks.map((task) => task.date).sort()[0],
+                startDate
+              )
+            : 0;
+
+        // Parents are copied before their subtasks
+        const taskIds = new Map<number, number>();
+        for (const { task } of flattenTaskTree(buildTaskTree(sourceTasks))) {
+          const shifted = shiftTaskDates(task, days);
+          // A completed occurrence copied as recurring would spawn another
+          // open occurrence next to the copy of the open one
+          const recurring = task.isRecurring && !task.isCompleted;
+          const newTask = await this.taskService.createTask({
+            title: task.title,
+            description: task.description,
+            date: shifted.date,
+            deadline: shifted.deadline || undefined,
+            estimateHours: task.estimateHours,
+            estimateMinutes: task.estimateMinutes,
+            actualHours: task.actualHours,
+            actualMinutes: task.actualMinutes,
+            priority: task.priority,
+            listId: newList.id,
+            sectionId: task.sectionId ? sectionIds.get(task.sectionId) : null,
+            parentTaskId: task.parentTaskId
+              ? taskIds.get(task.parentTaskId)
+              : null,
+            isCompleted: task.isCompleted,
+            completedAt: task.completedAt,
+            isRecurring: recurring,
+            ...(recurring && {
+              recurrenceType: task.recurrenceType,
+              recurrenceInterval: task.recurrenceInterval,
+              recurrenceEndDate: shifted.recurrenceEndDate || undefined,
+              recurrenceRule: shifted.recurrenceRule || undefined,
+              recurrenceExceptions: shifted.recurrenceExceptions,
+            }),
+            reminders: shifted.reminders,
+            labels: task.labels?.map((label) => label.id),
+            subTasks: sortByPosition(task.subTasks ?? []).map((subTask) => ({
+              title: subTask.title,
+              isCompleted: subTask.isCompleted,
+              completedAt: subTask.completedAt,
+            })),
+            customValues: Object.fromEntries(
+              Object.entries(task.customValues ?? {}).map(
+                ([fieldId, value]) => [fieldIds.get(Number(fieldId))!, value]
+              )
+            ),
+          });
+          taskIds.set(task.id!, newTask.id!);
+        }
+
+        return newList;
+      });
+    } catch (error) {
+      if (error instanceof ListNameTakenError) throw error;
+      console.error("Error duplicating list:", error);
+      throw new Error("Failed to duplicate list");
+    }
+  }
+
+  // Whether a list not in the trash has the name
+  async isNameTaken(name: string): Promise<boolean> {
+    const list = await db
+      .select({ id: lists.id })
+      .from(lists)
+      .where(and(eq(lists.name, name), isNull(lists.deletedAt)))
+      .get();
+    return list !== undefined;
+  }
+
+  // Put a list in a folder, or take it out with null. Undefined when the
+  // list or folder is missing; the Inbox stays out of folders.
+  async moveListToFolder(
+    id: number,
+    folderId: number | null
+  ): Promise<List | undefined> {
+    const list = await this.getListById(id);
+    if (!list || list.deletedAt || list.isMagic) return undefined;
+    if (folderId !== null && !(await this.getFolderRow(folderId))) {
+      return undefined;
+    }
+    return this.updateList(id, { folderId });
+  }
+
+  // Every folder with its lists, then the lists in no folder, each with
+  // its number of open tasks. The Inbox is left out.
+  async getListTree(): Promise<ListTree> {
+    const taskCounts = await this.getOpenTaskCounts();
+    const listsWithCounts = (await this.getLists())
+      .filter((list) => !list.isMagic)
+      .map((list) => ({ ...list, taskCount: taskCounts.get(list.id) ?? 0 }));
+
+    const folders = await this.getFolders();
+    return {
+      folders: folders.map((folder) => ({
+        ...folder,
+        lists: listsWithCounts.filter((list) => list.folderId === folder.id),
+      })),
+      lists: listsWithCounts.filter(
+        (list) =>
+          !list.folderId ||
+          !folders.some((folder) => folder.id === list.folderId)
+      ),
+    };
+  }
+
+  // Folders in sidebar order, archived ones included
+  async getFolders(): Promise<ListFolder[]> {
+    const rows = (await db
+      .select()
+      .from(listFolders)
+      .orderBy(asc(listFolders.position))
+      .all()) as Omit<ListFolder, "taskCount">[];
+    const taskCounts = await this.getFolderTaskCounts();
+    return rows.map((row) => ({
+      ...row,
+      taskCount: taskCounts.get(row.id) ?? 0,
+    }));
+  }
+
+  async getFolderById(id: number): Promise<ListFolder | undefined> {
+    const row = await this.getFolderRow(id);
+    if (!row) return undefined;
+    const taskCounts = await this.getFolderTaskCounts();
+    return { ...row, taskCount: taskCounts.get(id) ?? 0 };
+  }
+
+  // New folders go last
+  async createFolder(data: ListFolderFormData): Promise<ListFolder> {
+    const [newFolder] = (await db
+      .insert(listFolders)
+      .values({ ...data, position: await getLastPosition(listFolders) })
+      .returning()
+      .all()) as Omit<ListFolder, "taskCount">[];
+    return { ...newFolder, taskCount: 0 };
+  }
+
+  // Archived folders hide their lists and the tasks in them from the views
+  async updateFolder(
+    id: number,
+    { archived, ...updates }: ListFolderUpdate
+  ): Promise<ListFolder | undefined> {
+    const [updatedFolder] = (await db
+      .update(listFolders)
+      .set({
+        ...updates,
+        ...(archived !== undefined && {
+          archivedAt: archived ? new Date().toISOString() : null,
+        }),
+        updatedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(listFolders.id, id))
+      .returning()
+      .all()) as Omit<ListFolder, "taskCount">[];
+    if (!updatedFolder) return undefined;
+    return this.getFolderById(id);
+  }
+
+  // Manual ordering in the sidebar
+  async moveFolder(
+    id: number,
+    placement: Placement
+  ): Promise<ListFolder | undefined> {
+    const position = await getPositionBetween(listFolders, placement);
+    if (!position) return undefined;
+    return this.updateFolder(id, { position });
+  }
+
+  // The folder's lists stay, outside any folder
+  async deleteFolder(id: number): Promise<boolean> {
+    try {
+      if (!(await this.getFolderRow(id))) return false;
+
+      const folderLists: { id: number }[] = await db
+        .select({ id: lists.id })
+        .from(lists)
+        .where(eq(lists.folderId, id))
+        .all();
+      for (const list of folderLists) {
+        await this.updateList(list.id, { folderId: null });
+      }
+
+      await db.delete(listFolders).where(eq(listFolders.id, id)).run();
+      return true;
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      throw new Error("Failed to delete folder");
+    }
   }
 
   async getInboxList(): Promise<List | undefined> {
@@ -56,9 +409,60 @@ export class ListService {
         color: "#6366F1",
         emoji: "📥",
         isMagic: true,
+        position: await getLastPosition(lists),
       })
       .returning()
       .all()) as List[];
     return inboxList;
   }
+
+  private async getFolderRow(
+    id: number
+  ): Promise<Omit<ListFolder, "taskCount"> | undefined> {
+    return db.select().from(listFolders).where(eq(listFolders.id, id)).get();
+  }
+
+  // "Work (copy)", then "Work (copy 2)" and so on
+  private async getCopyName(name: string): Promise<string> {
+    let copyName = `${name} (copy)`;
+    for (let n = 2; await this.isNameTaken(copyName); n++) {
+      copyName = `${name} (copy ${n})`;
+    }
+    return copyName;
+  }
+
+  // Tasks of the list that are not in the trash, in manual order
+  private async getActiveTasks(listId: number): Promise<{ id: number }[]> {
+    return db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.listId, listId), isNull(tasks.deletedAt)))
+      .orderBy(asc(tasks.position))
+      .all();
+  }
+
+  // Open tasks that are not in the trash, by list
+  private async getOpenTaskCounts(): Promise<Map<number, number>> {
+    const rows: { listId: number; count: number }[] = await db
+      .select({ listId: tasks.listId, count: count() })
+      .from(tasks)
+      .where(and(isNull(tasks.deletedAt), eq(tasks.isCompleted, false)))
+      .groupBy(tasks.listId)
+      .all();
+    return new Map(rows.map((row) => [row.listId, row.count]));
+  }
+
+  // Open tasks in the active lists of each folder, by folder
+  private async getFolderTaskCounts(): Promise<Map<number, number>> {
+    const taskCounts = await this.getOpenTaskCounts();
+    const folderCounts = new Map<number, number>();
+    for (const list of await this.getLists()) {
+      if (!list.folderId || list.archivedAt) continue;
+      folderCounts.set(
+        list.folderId,
+        (folderCounts.get(list.folderId) ?? 0) + (taskCounts.get(list.id) ?? 0)
+      );
+    }
+    return folderCounts;
+  }
 }
@@ -1,8 +1,13 @@
-import { Task } from "@/types/task";
+import { DueReminder, ReminderAction, Task } from "@/types/task";
+
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
 
 export class NotificationService {
   private static instance: NotificationService;
 
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private shownReminderIds = new Set<number>();
+
   static getInstance(): NotificationService {
     if (!NotificationService.instance) {
       NotificationService.instance = new NotificationService();
@@ -62,54 +67,107 @@ export class NotificationService {
     }
   }
 
-  scheduleReminders(tasks: Task[]): void {
-    tasks.forEach((task) => {
-      if (task.reminders && task.reminders.length > 0) {
-        task.reminders.forEach((reminder) => {
-          const reminderTime = this.calculateReminderTime(
-            task.date,
-            reminder.time,
-            reminder.unit
-          );
-
-          const timeUntilReminder = reminderTime - Date.now();
-
-          if (timeUntilReminder > 0) {
-            setTimeout(() => {
-              this.showTaskReminder(task);
-            }, timeUntilReminder);
-          }
-        });
+  /**
+   * Poll the server reminder queue. Due reminders stay active until a tab
+   * dismisses or snoozes them, so every open tab shows them; the shared
+   * notification tag keeps the browser from stacking duplicates.
+   */
+  startReminderPolling(intervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    void this.checkDueReminders();
+    this.pollTimer = setInterval(
+      () => void this.checkDueReminders(),
+      intervalMs
+    );
+  }
+
+  stopReminderPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async checkDueReminders(): Promise<void> {
+    try {
+      const response = await fetch("/api/reminders");
+      if (!response.ok) {
+        throw new Error("Failed to fetch reminders");
       }
-    });
+
+      const reminders: DueReminder[] = await response.json();
+      const dueIds = new Set(reminders.map((reminder) => reminder.id));
+
+      // Forget reminders handled elsewhere so they show again once re-fired
+      this.shownReminderIds.forEach((id) => {
+        if (!dueIds.has(id)) {
+          this.shownReminderIds.delete(id);
+        }
+      });
+
+      reminders
+        .filter((reminder) => !this.shownReminderIds.has(reminder.id))
+        .forEach((reminder) => {
+          this.shownReminderIds.add(reminder.id);
+          this.showQueuedReminder(reminder);
+        });
+    } catch (error) {
+      console.error("Error checking reminders:", error);
+    }
   }
 
-  private calculateReminderTime(
-    taskDate: string,
-    time: number,
-    unit: "minutes" | "hours" | "days"
-  ): number {
-    const taskDateTime = new Date(taskDate).getTime();
-    const reminderOffset = this.getOffsetInMilliseconds(time, unit);
-    return taskDateTime - reminderOffset;
+  async dismissReminder(id: number): Promise<void> {
+    await this.updateReminder(id, { action: "dismiss" });
   }
 
-  private getOffsetInMilliseconds(
-    time: number,
-    unit: "minutes" | "hours" | "days"
-  ): number {
-    switch (unit) {
-      case "minutes":
-        return time * 60 * 1000;
-      case "hours":
-        return time * 60 * 60 * 1000;
-      case "days":
-        return time * 24 * 60 * 60 * 1000;
-      default:
-        return 0;
+  async snoozeReminder(id: number, minutes: number): Promise<void> {
+    await this.updateReminder(id, { action: "snooze", minutes });
+  }
+
+  private async updateReminder(
+    id: number,
+    action: ReminderAction
+  ): Promise<void> {
+    const response = await fetch(`/api/reminders/${id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(action),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to update reminder");
     }
   }
 
+  private showQueuedReminder(reminder: DueReminder): void {
+    if (Notification.permission !== "granted") {
+      return;
+    }
+
+    const notification = new Notification(
+      `Task Reminder: ${reminder.taskTitle}`,
+      {
+        body: reminder.taskDeadline
+          ? `Due ${new Date(reminder.taskDeadline).toLocaleString()}`
+          : reminder.taskDescription || "Time to work on this task!",
+        icon: "/favicon.ico",
+        tag: `reminder-${reminder.id}`,
+      }
+    );
+
+    // Clicking the notification in any tab dismisses it everywhere
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      void this.dismissReminder(reminder.id);
+    };
+  }
+
   checkDueTasks(tasks: Task[]): void {
     const now = new Date();
     const dueTasks = tasks.filter((task) => {
@@ -0,0 +1,34 @@
+import { db } from "@/lib/db";
+import { preferences } from "@/lib/schema";
+import { sql } from "drizzle-orm";
+import { Preferences } from "@/types/task";
+
+export class PreferenceService {
+  async getPreferences(): Promise<Preferences> {
+    const rows = (await db
+      .select()
+      .from(preferences)
+      .all()) as (typeof preferences.$inferSelect)[];
+    return Object.fromEntries(
+      rows.map((row) => [row.key, JSON.parse(row.value)])
+    );
+  }
+
+  async updatePreferences(updates: Preferences): Promise<Preferences> {
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      await db
+        .insert(preferences)
+        .values({ key, value: JSON.stringify(value) })
+        .onConflictDoUpdate({
+          target: preferences.key,
+          set: {
+            value: JSON.stringify(value),
+            updatedAt: sql`CURRENT_TIMESTAMP`,
+          },
+        })
+        .run();
+    }
+    return this.getPreferences();
+  }
+}
@@ -0,0 +1,63 @@
+import { TaskService } from "./task-service";
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+
+/**
+ * Periodically generates the next instance of completed recurring tasks.
+ * Completing a task through TaskService creates its successor right away;
+ * the sweep catches instances completed elsewhere or while the server was down.
+ */
+export class RecurrenceScheduler {
+  private static instance: RecurrenceScheduler;
+
+  private taskService = new TaskService();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  static getInstance(): RecurrenceScheduler {
+    if (!RecurrenceScheduler.instance) {
+      RecurrenceScheduler.instance = new RecurrenceScheduler();
+    }
+    return RecurrenceScheduler.instance;
+  }
+
+  start(
+    intervalSeconds: number = Number(process.env.RECURRENCE_SCHEDULER_INTERVAL) ||
+      DEFAULT_INTERVAL_SECONDS
+  ): void {
+    if (this.timer) {
+      return;
+    }
+
+    // Catch up immediately after startup, then sweep on an interval
+    void this.runOnce();
+    this.timer = setInterval(() => void this.runOnce(), intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const created = await this.taskService.processRecurringTasks();
+      if (created > 0) {
+        console.log(`Generated ${created} recurring task instance(s)`);
+      }
+      return created;
+    } catch (error) {
+      console.error("Error running recurrence scheduler:", error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
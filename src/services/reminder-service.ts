@@ -0,0 +1,206 @@
+import { db } from "@/lib/db";
+import { getReminderFireTime } from "@/lib/reminders";
+import { reminderQueue, tasks } from "@/lib/schema";
+import { and, asc, eq, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import {
+  DueReminder,
+  QueuedReminder,
+  Reminder,
+  ReminderAction,
+} from "@/types/task";
+
+/**
+ * Server-side reminder queue. Every reminder of an open task has a row
+ * holding its fire time and delivery state; fired reminders are delivered
+ * to every open tab until one of them dismisses or snoozes it.
+ */
+export class ReminderService {
+  // Rebuild the queue rows of a task after it was created or changed
+  async syncTaskReminders(taskId: number): Promise<void> {
+    const task = await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.id, taskId))
+      .get();
+    if (!task || task.isCompleted || task.deletedAt) {
+      await this.deleteRemindersForTask(taskId);
+      return;
+    }
+
+    const reminders: Reminder[] = task.reminders
+      ? JSON.parse(task.reminders)
+      : [];
+    const queued: QueuedReminder[] = await db
+      .select()
+      .from(reminderQueue)
+      .where(eq(reminderQueue.taskId, taskId));
+
+    for (const row of queued) {
+      if (row.reminderIndex >= reminders.length) {
+        await db
+          .delete(reminderQueue)
+          .where(eq(reminderQueue.id, row.id))
+          .run();
+      }
+    }
+
+    for (const [index, reminder] of reminders.entries()) {
+      const fireAt = getReminderFireTime(reminder, task);
+      const row = queued.find((queue) => queue.reminderIndex === index);
+
+      // Unchanged reminders keep their delivery state
+      if (row && row.fireAt === fireAt) {
+        continue;
+      }
+
+      if (!fireAt) {
+        if (row) {
+          await db
+            .delete(reminderQueue)
+            .where(eq(reminderQueue.id, row.id))
+            .run();
+        }
+        continue;
+      }
+
+      if (row) {
+        await db
+          .update(reminderQueue)
+          .set({
+            fireAt,
+            status: "pending",
+            firedAt: null,
+            snoozedUntil: null,
+            dismissedAt: null,
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(reminderQueue.id, row.id))
+          .run();
+      } else {
+        await db
+          .insert(reminderQueue)
+          .values({
+            taskId,
+            reminderIndex: index,
+            fireAt,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+          })
+          .run();
+      }
+    }
+  }
+
+  async deleteRemindersForTask(taskId: number): Promise<void> {
+    await db
+      .delete(reminderQueue)
+      .where(eq(reminderQueue.taskId, taskId))
+      .run();
+  }
+
+  /**
+   * Fire the reminders that are due and return every fired reminder that
+   * has not been dismissed or snoozed yet
+   */
+  async getDueReminders(now: Date = new Date()): Promise<DueReminder[]> {
+    try {
+      await this.queueMissingReminders();
+      await this.fireDueReminders(now);
+
+      const rows: Array<
+        Omit<DueReminder, keyof QueuedReminder> & { reminder: QueuedReminder }
+      > = await db
+        .select({
+          reminder: reminderQueue,
+          taskTitle: tasks.title,
+          taskDescription: tasks.description,
+          taskDeadline: tasks.deadline,
+        })
+        .from(reminderQueue)
+        .innerJoin(tasks, eq(reminderQueue.taskId, tasks.id))
+        .where(eq(reminderQueue.status, "fired"))
+        .orderBy(asc(reminderQueue.fireAt));
+
+      return rows.map(({ reminder, ...task }) => ({ ...reminder, ...task }));
+    } catch (error) {
+      console.error("Error getting due reminders:", error);
+      throw new Error("Failed to get due reminders");
+    }
+  }
+
+  async updateReminder(
+    id: number,
+    action: ReminderAction
+  ): Promise<QueuedReminder | undefined> {
+    try {
+      const now = new Date();
+      const [updatedReminder] = await db
+        .update(reminderQueue)
+        .set(
+          action.action === "snooze"
+            ? {
+                status: "pending",
+                snoozedUntil: new Date(
+                  now.getTime() + action.minutes * 60 * 1000
+                ).toISOString(),
+                updatedAt: now.toISOString(),
+              }
+            : {
+                status: "dismissed",
+                dismissedAt: now.toISOString(),
+                updatedAt: now.toISOString(),
+              }
+        )
+        .where(eq(reminderQueue.id, id))
+        .returning();
+
+      return updatedReminder;
+    } catch (error) {
+      console.error("Error updating reminder:", error);
+      throw new Error("Failed to update reminder");
+    }
+  }
+
+  private async fireDueReminders(now: Date): Promise<number> {
+    const result = await db
+      .update(reminderQueue)
+      .set({
+        status: "fired",
+        firedAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      })
+      .where(
+        and(
+          eq(reminderQueue.status, "pending"),
+          lte(
+            sql`COALESCE(${reminderQueue.snoozedUntil}, ${reminderQueue.fireAt})`,
+            now.toISOString()
+          )
+        )
+      )
+      .run();
+
+    return result.changes;
+  }
+
+  // Open tasks with reminders but no queue rows, e.g. from before the queue
+  private async queueMissingReminders(): Promise<void> {
+    const missing = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .leftJoin(reminderQueue, eq(reminderQueue.taskId, tasks.id))
+      .where(
+        and(
+          eq(tasks.isCompleted, false),
+          isNull(tasks.deletedAt),
+          isNotNull(tasks.reminders),
+          sql`${tasks.reminders} != '[]'`,
+          isNull(reminderQueue.id)
+        )
+      );
+
+    for (const { id } of missing) {
+      await this.syncTaskReminders(id);
+    }
+  }
+}
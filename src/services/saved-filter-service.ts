@@ -0,0 +1,127 @@
+import { db } from "@/lib/db";
+import { savedFilters } from "@/lib/schema";
+import { parseSearchQuery } from "@/lib/search-query";
+import { and, eq, ne, sql } from "drizzle-orm";
+import {
+  SavedFilter,
+  SavedFilterFormData,
+  TaskWithRelations,
+} from "@/types/task";
+import { SearchService } from "./search-service";
+
+type SavedFilterRow = Omit<SavedFilter, "filter" | "taskCount"> & {
+  filter: string;
+};
+
+export class SavedFilterNameTakenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SavedFilterNameTakenError";
+  }
+}
+
+export class SavedFilterService {
+  private searchService = new SearchService();
+
+  async getSavedFilters(): Promise<SavedFilter[]> {
+    const rows = (await db
+      .select()
+      .from(savedFilters)
+      .orderBy(savedFilters.name)
+      .all()) as SavedFilterRow[];
+    return Promise.all(rows.map((row) => this.toSavedFilter(row)));
+  }
+
+  async getSavedFilterById(id: number): Promise<SavedFilter | undefined> {
+    const row = (await db
+      .select()
+      .from(savedFilters)
+      .where(eq(savedFilters.id, id))
+      .get()) as SavedFilterRow | undefined;
+    return row && this.toSavedFilter(row);
+  }
+
+  async createSavedFilter(data: SavedFilterFormData): Promise<SavedFilter> {
+    // Reject filters whose search cannot be parsed before saving them
+    if (data.filter.search) parseSearchQuery(data.filter.search);
+    if (await this.isNameTaken(data.name)) {
+      throw new SavedFilterNameTakenError(
+        `A filter named "${data.name}" exists`
+      );
+    }
+
+    const [row] = (await db
+      .insert(savedFilters)
+      .values({ ...data, filter: JSON.stringify(data.filter) })
+      .returning()
+      .all()) as SavedFilterRow[];
+    return this.toSavedFilter(row);
+  }
+
+  async updateSavedFilter(
+    id: number,
+    updates: Partial<SavedFilterFormData>
+  ): Promise<SavedFilter | undefined> {
+    if (updates.filter?.search) parseSearchQuery(updates.filter.search);
+    if (
+      updates.name !== undefined &&
+      (await this.isNameTaken(updates.name, id))
+    ) {
+      throw new SavedFilterNameTakenError(
+        `A filter named "${updates.name}" exists`
+      );
+    }
+
+    const [row] = (await db
+      .update(savedFilters)
+      .set({
+        ...updates,
+        filter: updates.filter ? JSON.stringify(updates.filter) : undefined,
+        updatedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(savedFilters.id, id))
+      .returning()
+      .all()) as SavedFilterRow[];
+    return row && this.toSavedFilter(row);
+  }
+
+  async deleteSavedFilter(id: number): Promise<boolean> {
+    const result = await db
+      .delete(savedFilters)
+      .where(eq(savedFilters.id, id))
+      .run();
+    return result.changes > 0;
+  }
+
+  async getSavedFilterTasks(
+    id: number,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ results: TaskWithRelations[]; total: number } | undefined> {
+    const savedFilter = await this.getSavedFilterById(id);
+    if (!savedFilter) return undefined;
+    return this.searchService.getFilterTasks(savedFilter.filter, options);
+  }
+
+  // Names are unique; `exceptId` leaves out the filter being renamed
+  async isNameTaken(name: string, exceptId?: number): Promise<boolean> {
+    const filter = await db
+      .select({ id: savedFilters.id })
+      .from(savedFilters)
+      .where(
+        exceptId === undefined
+          ? eq(savedFilters.name, name)
+          : and(eq(savedFilters.name, name), ne(savedFilters.id, exceptId))
+      )
+      .get();
+    return filter !== undefined;
+  }
+
+  private async toSavedFilter(row: SavedFilterRow): Promise<SavedFilter> {
+    const filter = JSON.parse(row.filter);
+    return {
+      ...row,
+      filter,
+      taskCount: await this.searchService.countFilterTasks(filter),
+    };
+  }
+}
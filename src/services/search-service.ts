@@ -1,125 +1,84 @@
 import { db } from "@/lib/db";
-import { tasks, lists, labels, subTasks, attachments } from "@/lib/schema";
-import { and, asc, desc, eq, inArray, like, or, sql, count } from "drizzle-orm";
-import { TaskWithRelations } from "@/types/task";
+import { dbService } from "@/lib/db-service";
+import {
+  attachments,
+  labels,
+  lists,
+  subTasks,
+  taskCustomValues,
+  taskLabels,
+  tasks,
+} from "@/lib/schema";
+import { inVisibleList } from "@/lib/db-utils";
+import { HIGHLIGHT_END, HIGHLIGHT_START, toFtsQuery } from "@/lib/search";
+import {
+  getTextTerms,
+  parseSearchQuery,
+  SearchNode,
+  SearchQueryError,
+} from "@/lib/search-query";
+import {
+  and,
+  count,
+  eq,
+  exists,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lte,
+  not,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import {
+  CustomField,
+  CustomFieldValue,
+  Priority,
+  SavedFilterCriteria,
+  SearchMatch,
+  TaskWithRelations,
+} from "@/types/task";
+import { CustomFieldService } from "./custom-field-service";
+
+// bm25() weights for title, description, sub-tasks, labels and attachments
+const COLUMN_WEIGHTS = sql.raw("10.0, 5.0, 2.0, 2.0, 1.0");
+const SNIPPET_TOKENS = 12;
+
+type SearchFilter = {
+  listId?: number;
+  priority?: Priority;
+  completed?: boolean;
+  date?: string;
+  customFields?: { field: CustomField; value: CustomFieldValue }[];
+};
+
+type SearchOptions = SearchFilter & {
+  limit?: number;
+  offset?: number;
+};
 
 export class SearchService {
+  private customFieldService = new CustomFieldService();
+
   async searchAll(
     query: string,
-    options: {
-      limit?: number;
-      offset?: number;
-      orderBy?: keyof TaskWithRelations;
-      orderDirection?: "asc" | "desc";
-    } = {}
+    options: SearchOptions = {}
   ): Promise<{ results: TaskWithRelations[]; total: number }> {
     try {
-      const {
-        limit = 50,
-        offset = 0,
-        orderBy = "updatedAt",
-        orderDirection = "desc",
-      } = options;
-
-      const searchConditions = [
-        like(tasks.title, `%${query}%`),
-        like(tasks.description, `%${query}%`),
-        like(labels.name, `%${query}%`),
-        like(subTasks.title, `%${query}%`),
-        like(attachments.fileName, `%${query}%`),
-      ];
-
-      const whereClause = sql`(${searchConditions.join(" OR ")})`;
-
-      // Get total count
-      const totalResult = await db
-        .select({ count: count() })
-        .from(tasks)
-        .leftJoin(labels, eq(tasks.id, labels.id))
-        .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
-        .leftJoin(attachments, eq(tasks.id, attachments.taskId))
-        .where(whereClause)
-        .get();
-
-      const total = totalResult?.count || 0;
-
-      // Get search results with relations
-      const searchQuery = db
-        .select({
-          task: tasks,
-          list: lists,
-          labels: {
-            id: labels.id,
-            name: labels.name,
-            icon: labels.icon,
-            color: labels.color,
-          },
-          subTasks: subTasks,
-          attachments: attachments,
-        })
-        .from(tasks)
-        .leftJoin(lists, eq(tasks.listId, lists.id))
-        .leftJoin(labels, eq(tasks.id, labels.id))
-        .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
-        .leftJoin(attachments, eq(tasks.id, attachments.taskId))
-        .where(whereClause)
-        .orderBy(
-          orderDirection === "asc" ? asc(tasks.updatedAt) : desc(tasks.updatedAt)
-        )
-        .limit(limit)
-        .offset(offset);
-
-      const rawResults = await searchQuery.all();
-
-      // Group results by task
-      const tasksMap = new Map<number, TaskWithRelations>();
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      rawResults.forEach((row: any) => {
-        const taskId = row.task.id;
-
-        if (!tasksMap.has(taskId)) {
-          tasksMap.set(taskId, {
-            ...row.task,
-            list: row.list,
-            labels: [],
-            subTasks: [],
-            attachments: [],
-          });
-        }
-
-        const task = tasksMap.get(taskId)!;
-
-        // Add label if exists and not already added
-        if (row.labels) {
-          if (!task.labels) task.labels = [];
-          if (!task.labels.find((l) => l.id === row.labels.id)) {
-            task.labels.push(row.labels);
-          }
-        }
-
-        // Add subtask if exists and not already added
-        if (row.subTasks) {
-          if (!task.subTasks) task.subTasks = [];
-          if (!task.subTasks.find((s) => s.id === row.subTasks.id)) {
-            task.subTasks.push(row.subTasks);
-          }
-        }
+      const node = parseSearchQuery(query);
+      if (!node) return { results: [], total: 0 };
 
-        // Add attachment if exists and not already added
-        if (row.attachments) {
-          if (!task.attachments) task.attachments = [];
-          if (!task.attachments.find((a) => a.id === row.attachments.id)) {
-            task.attachments.push(row.attachments);
-          }
-        }
-      });
+      const whereClause = this.getWhereClause(node, options);
 
       return {
-        results: Array.from(tasksMap.values()),
-        total,
+        results: await this.getMatches(node, whereClause, options),
+        total: await this.countMatches(whereClause),
       };
     } catch (error) {
+      if (error instanceof SearchQueryError) throw error;
       console.error("Error searching:", error);
       throw new Error("Failed to search");
     }
@@ -127,108 +86,48 @@ export class SearchService {
 
   async searchTasks(
     query: string,
-    options: {
-      listId?: number;
-      priority?: string;
-      completed?: boolean;
-      limit?: number;
-      offset?: number;
-    } = {}
+    options: SearchOptions = {}
   ): Promise<TaskWithRelations[]> {
     try {
-      const searchConditions = [
-        like(tasks.title, `%${query}%`),
-        like(tasks.description, `%${query}%`),
-      ];
-
-      let whereClause = sql`(${searchConditions.join(" OR ")})`;
-
-      // Apply additional filters
-      if (options.listId) {
-        whereClause = sql`${whereClause} AND ${tasks.listId} = ${options.listId}`;
-      }
+      const node = parseSearchQuery(query);
+      if (!node) return [];
 
-      if (options.priority) {
-        whereClause = sql`${whereClause} AND ${tasks.priority} = ${options.priority}`;
-      }
-
-      if (options.completed !== undefined) {
-        whereClause = sql`${whereClause} AND ${tasks.isCompleted} = ${
-          options.completed ? 1 : 0
-        }`;
-      }
-
-      const searchQuery = db
-        .select({
-          task: tasks,
-          list: lists,
-          labels: {
-            id: labels.id,
-            name: labels.name,
-            icon: labels.icon,
-            color: labels.color,
-          },
-          subTasks: subTasks,
-          attachments: attachments,
-        })
-        .from(tasks)
-        .leftJoin(lists, eq(tasks.listId, lists.id))
-        .leftJoin(labels, eq(tasks.id, labels.id))
-        .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
-        .leftJoin(attachments, eq(tasks.id, attachments.taskId))
-        .where(whereClause)
-        .orderBy(desc(tasks.updatedAt));
-
-      const rawResults = await searchQuery.all();
-
-      // Group results by task
-      const tasksMap = new Map<number, TaskWithRelations>();
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      rawResults.forEach((row: any) => {
-        const taskId = row.task.id;
-
-        if (!tasksMap.has(taskId)) {
-          tasksMap.set(taskId, {
-            ...row.task,
-            list: row.list,
-            labels: [],
-            subTasks: [],
-            attachments: [],
-          });
-        }
-
-        const task = tasksMap.get(taskId)!;
-
-        // Add label if exists and not already added
-        if (row.labels) {
-          if (!task.labels) task.labels = [];
-          if (!task.labels.find((l) => l.id === row.labels.id)) {
-            task.labels.push(row.labels);
-          }
-        }
+      return this.getMatches(node, this.getWhereClause(node, options), options);
+    } catch (error) {
+      if (error instanceof SearchQueryError) throw error;
+      console.error("Error searching tasks:", error);
+      throw new Error("Failed to search tasks");
+    }
+  }
 
-        // Add subtask if exists and not already added
-        if (row.subTasks) {
-          if (!task.subTasks) task.subTasks = [];
-          if (!task.subTasks.find((s) => s.id === row.subTasks.id)) {
-            task.subTasks.push(row.subTasks);
-          }
-        }
+  // Tasks matching a saved filter; without a search every task matches
+  async getFilterTasks(
+    filter: SavedFilterCriteria,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ results: TaskWithRelations[]; total: number }> {
+    try {
+      const node = filter.search ? parseSearchQuery(filter.search) : null;
+      const whereClause = await this.getFilterWhereClause(node, filter);
 
-        // Add attachment if exists and not already added
-        if (row.attachments) {
-          if (!task.attachments) task.attachments = [];
-          if (!task.attachments.find((a) => a.id === row.attachments.id)) {
-            task.attachments.push(row.attachments);
-          }
-        }
-      });
+      return {
+        results: await this.getMatches(node, whereClause, options),
+        total: await this.countMatches(whereClause),
+      };
+    } catch (error) {
+      if (error instanceof SearchQueryError) throw error;
+      console.error("Error fetching filter tasks:", error);
+      throw new Error("Failed to fetch filter tasks");
+    }
+  }
 
-      return Array.from(tasksMap.values());
+  async countFilterTasks(filter: SavedFilterCriteria): Promise<number> {
+    try {
+      const node = filter.search ? parseSearchQuery(filter.search) : null;
+      return this.countMatches(await this.getFilterWhereClause(node, filter));
     } catch (error) {
-      console.error("Error searching tasks:", error);
-      throw new Error("Failed to search tasks");
+      if (error instanceof SearchQueryError) throw error;
+      console.error("Error counting filter tasks:", error);
+      throw new Error("Failed to count filter tasks");
     }
   }
 
@@ -237,7 +136,7 @@ export class SearchService {
       return db
         .select({ id: labels.id, name: labels.name })
         .from(labels)
-        .where(like(labels.name, `%${query}%`))
+        .where(and(like(labels.name, `%${query}%`), isNull(labels.deletedAt)))
         .limit(10)
         .all() as { id: number; name: string }[];
     } catch (error) {
@@ -251,7 +150,7 @@ export class SearchService {
       return db
         .select({ id: lists.id, name: lists.name })
         .from(lists)
-        .where(like(lists.name, `%${query}%`))
+        .where(and(like(lists.name, `%${query}%`), isNull(lists.deletedAt)))
         .limit(10)
         .all() as { id: number; name: string }[];
     } catch (error) {
@@ -259,4 +158,250 @@ export class SearchService {
       throw new Error("Failed to search lists");
     }
   }
-}
\ No newline at end of file
+
+  // Custom fields only filter with a list chosen, against its fields
+  private getFilterOptions(
+    filter: SavedFilterCriteria,
+    fields: CustomField[]
+  ): SearchFilter {
+    return {
+      listId: filter.listId,
+      priority: filter.priority,
+      completed:
+        filter.status && filter.status !== "all"
+          ? filter.status === "completed"
+          : undefined,
+      date: filter.date,
+      customFields: fields
+        .map((field) => ({ field, value: filter.customFields?.[field.id] }))
+        .filter(
+          (item): item is { field: CustomField; value: CustomFieldValue } =>
+            item.value !== undefined && item.value !== ""
+        ),
+    };
+  }
+
+  // Smart lists are views, so unlike search they leave out archived lists
+  // unless they pick a list by ID
+  private async getFilterWhereClause(
+    node: SearchNode | null,
+    filter: SavedFilterCriteria
+  ): Promise<SQL> {
+    const fields =
+      filter.listId && filter.customFields
+        ? await this.customFieldService.getFields(filter.listId)
+        : [];
+    const whereClause = this.getWhereClause(
+      node,
+      this.getFilterOptions(filter, fields)
+    );
+    return filter.listId ? whereClause : and(whereClause, inVisibleList())!;
+  }
+
+  private async countMatches(whereClause: SQL): Promise<number> {
+    const totalResult = await db
+      .select({ count: count() })
+      .from(tasks)
+      .where(whereClause)
+      .get();
+    return totalResult?.count || 0;
+  }
+
+  private getWhereClause(
+    node: SearchNode | null,
+    filter: SearchFilter
+  ): SQL {
+    const conditions = [isNull(tasks.deletedAt)];
+    if (node) {
+      conditions.push(this.compileNode(node));
+    }
+
+    if (filter.listId) {
+      conditions.push(eq(tasks.listId, filter.listId));
+    }
+    if (filter.priority) {
+      conditions.push(eq(tasks.priority, filter.priority));
+    }
+    if (filter.completed !== undefined) {
+      conditions.push(eq(tasks.isCompleted, filter.completed));
+    }
+    if (filter.date) {
+      conditions.push(eq(tasks.date, filter.date));
+    }
+    for (const { field, value } of filter.customFields ?? []) {
+      conditions.push(this.getCustomFieldCondition(field, value));
+    }
+
+    return and(...conditions)!;
+  }
+
+  // Matches like lib/custom-fields matchesCustomFields: text fields contain
+  // the value, ignoring case, and an unchecked checkbox matches tasks
+  // without a value
+  private getCustomFieldCondition(
+    field: CustomField,
+    value: CustomFieldValue
+  ): SQL {
+    const hasValue = (condition: SQL) =>
+      exists(
+        db
+          .select({ taskId: taskCustomValues.taskId })
+          .from(taskCustomValues)
+          .where(
+            and(
+              eq(taskCustomValues.taskId, tasks.id),
+              eq(taskCustomValues.fieldId, field.id),
+              condition
+            )
+          )
+      );
+
+    switch (field.type) {
+      case "text":
+        return hasValue(
+          sql`instr(lower(json_extract(${taskCustomValues.value}, '$')), lower(${value.toString()})) > 0`
+        );
+      case "checkbox":
+        return value
+          ? hasValue(eq(taskCustomValues.value, "true"))
+          : not(hasValue(eq(taskCustomValues.value, "true")));
+      default:
+        return hasValue(eq(taskCustomValues.value, JSON.stringify(value)));
+    }
+  }
+
+  // Compile a parsed search query into a condition on tasks
+  private compileNode(node: SearchNode): SQL {
+    switch (node.type) {
+      case "and":
+        return and(...node.children.map((child) => this.compileNode(child)))!;
+      case "or":
+        return or(...node.children.map((child) => this.compileNode(child)))!;
+      case "not":
+        return not(this.compileNode(node.child));
+      case "text":
+        return sql`${tasks.id} IN (SELECT rowid FROM task_search WHERE task_search MATCH ${toFtsQuery(node.text, node.phrase)})`;
+      case "priority":
+        return eq(tasks.priority, node.priority);
+      case "list":
+        return inArray(
+          tasks.listId,
+          db
+            .select({ id: lists.id })
+            .from(lists)
+            .where(sql`lower(${lists.name}) = lower(${node.name})`)
+        );
+      case "label":
+        return exists(
+          db
+            .select({ id: taskLabels.id })
+            .from(taskLabels)
+            .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+            .where(
+              and(
+                eq(taskLabels.taskId, tasks.id),
+                isNull(labels.deletedAt),
+                sql`lower(${labels.name}) = lower(${node.name})`
+              )
+            )
+        );
+      case "date": {
+        // Deadlines are date-times; compare their date part
+        const column =
+          node.field === "due"
+            ? sql`date(${tasks.deadline})`
+            : sql`${tasks.date}`;
+        return and(
+          node.from ? gte(column, node.from) : undefined,
+          node.to ? lte(column, node.to) : undefined
+        )!;
+      }
+      case "status":
+        return eq(tasks.isCompleted, node.completed);
+      case "has":
+        switch (node.value) {
+          case "attachments":
+            return exists(
+              db
+                .select({ id: attachments.id })
+                .from(attachments)
+                .where(eq(attachments.taskId, tasks.id))
+            );
+          case "subtasks":
+            return exists(
+              db
+                .select({ id: subTasks.id })
+                .from(subTasks)
+                .where(eq(subTasks.taskId, tasks.id))
+            );
+          case "labels":
+            return exists(
+              db
+                .select({ id: taskLabels.id })
+                .from(taskLabels)
+                .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+                .where(
+                  and(eq(taskLabels.taskId, tasks.id), isNull(labels.deletedAt))
+                )
+            );
+          case "deadline":
+            return isNotNull(tasks.deadline);
+        }
+    }
+  }
+
+  // Rank matching tasks by BM25 against the query's text terms and load
+  // the requested page with relations; without text terms the newest
+  // tasks come first
+  private async getMatches(
+    node: SearchNode | null,
+    whereClause: SQL,
+    options: SearchOptions
+  ): Promise<TaskWithRelations[]> {
+    const { limit = 50, offset = 0 } = options;
+
+    const rankQuery = getTextTerms(node)
+      .map((term) => toFtsQuery(term.text, term.phrase))
+      .join(" OR ");
+
+    const ranking = rankQuery
+      ? sql`LEFT JOIN (
+          SELECT
+            rowid,
+            bm25(task_search, ${COLUMN_WEIGHTS}) AS score,
+            highlight(task_search, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS title,
+            snippet(task_search, -1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', ${SNIPPET_TOKENS}) AS snippet
+          FROM task_search
+          WHERE task_search MATCH ${rankQuery}
+        ) AS ranked ON ranked.rowid = ${tasks.id}`
+      : sql`LEFT JOIN (
+          SELECT NULL AS rowid, NULL AS score, NULL AS title, NULL AS snippet
+        ) AS ranked ON 0`;
+
+    const matches = db.all(sql`
+      SELECT
+        ${tasks.id} AS taskId,
+        ranked.score AS score,
+        ranked.title AS title,
+        ranked.snippet AS snippet
+      FROM ${tasks}
+      ${ranking}
+      WHERE ${whereClause}
+      ORDER BY ranked.score IS NULL, ranked.score, ${tasks.updatedAt} DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `) as Array<
+      Omit<SearchMatch, "score"> & { taskId: number; score: number | null }
+    >;
+
+    const results: TaskWithRelations[] = [];
+    for (const { taskId, score, title, snippet } of matches) {
+      const task = await dbService.getTaskById(taskId);
+      if (!task) continue;
+      results.push(
+        score === null ? task : { ...task, match: { score, title, snippet } }
+      );
+    }
+
+    return results;
+  }
+}
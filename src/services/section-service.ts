@@ -0,0 +1,173 @@
+import { db } from "@/lib/db";
+import { lists, listSections, tasks } from "@/lib/schema";
+import { and, asc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { ListSection, ListSectionFormData, Placement } from "@/types/task";
+import { getLastPosition, getPositionBetween } from "@/lib/db-utils";
+import { TaskService } from "./task-service";
+
+/**
+ * Sections split a list into named, ordered groups of tasks. Every method
+ * takes the list the section is addressed through and returns undefined
+ * when the section is not in that list.
+ */
+export class SectionService {
+  private taskService = new TaskService();
+
+  async getSections(listId: number): Promise<ListSection[]> {
+    return db
+      .select()
+      .from(listSections)
+      .where(eq(listSections.listId, listId))
+      .orderBy(asc(listSections.position))
+      .all() as ListSection[];
+  }
+
+  async getSectionById(
+    listId: number,
+    id: number
+  ): Promise<ListSection | undefined> {
+    return db
+      .select()
+      .from(listSections)
+      .where(and(eq(listSections.id, id), eq(listSections.listId, listId)))
+      .get() as ListSection | undefined;
+  }
+
+  // New sections go last; undefined when the list is missing or trashed
+  async createSection(
+    listId: number,
+    data: ListSectionFormData
+  ): Promise<ListSection | undefined> {
+    if (!(await this.isActiveList(listId))) return undefined;
+
+    const [newSection] = (await db
+      .insert(listSections)
+      .values({
+        ...data,
+        listId,
+        position: await getLastPosition(
+          listSections,
+          eq(listSections.listId, listId)
+        ),
+      })
+      .returning()
+      .all()) as ListSection[];
+    return newSection;
+  }
+
+  async updateSection(
+    listId: number,
+    id: number,
+    updates: Partial<Pick<ListSection, "name" | "position">>
+  ): Promise<ListSection | undefined> {
+    const [updatedSection] = (await db
+      .update(listSections)
+      .set({ ...updates, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(and(eq(listSections.id, id), eq(listSections.listId, listId)))
+      .returning()
+      .all()) as ListSection[];
+    return updatedSection;
+  }
+
+  // Manual ordering within the list; undefined when the section or a
+  // neighbour is not in the list
+  async moveSection(
+    listId: number,
+    id: number,
+    placement: Placement
+  ): Promise<ListSection | undefined> {
+    for (const sectionId of [id, placement.afterId, placement.beforeId]) {
+      if (sectionId && !(await this.getSectionById(listId, sectionId))) {
+        return undefined;
+      }
+    }
+    const position = await getPositionBetween(listSections, placement);
+    if (!position) return undefined;
+    return this.updateSection(listId, id, { position });
+  }
+
+  // Move the section to the end of another list, taking its tasks along.
+  // Undefined when the section or the other list is not found.
+  async moveSectionToList(
+    listId: number,
+    id: number,
+    targetListId: number
+  ): Promise<ListSection | undefined> {
+    try {
+      if (!(await this.getSectionById(listId, id))) return undefined;
+      if (!(await this.isActiveList(targetListId))) return undefined;
+
+      const [movedSection] = (await db
+        .update(listSections)
+        .set({
+          listId: targetListId,
+          position: await getLastPosition(
+            listSections,
+            eq(listSections.listId, targetListId)
+          ),
+          updatedAt: sql`CURRENT_TIMESTAMP`,
+        })
+        .where(eq(listSections.id, id))
+        .returning()
+        .all()) as ListSection[];
+
+      for (const taskId of await this.getTaskIds(id)) {
+        await this.taskService.updateTask(taskId, {
+          listId: targetListId,
+          sectionId: id,
+        });
+      }
+      // Trashed tasks follow so that they come back in the section
+      await db
+        .update(tasks)
+        .set({ listId: targetListId })
+        .where(and(eq(tasks.sectionId, id), isNotNull(tasks.deletedAt)))
+        .run();
+
+      return movedSection;
+    } catch (error) {
+      console.error("Error moving section:", error);
+      throw new Error("Failed to move section");
+    }
+  }
+
+  // The section's tasks stay in the list without a section
+  async deleteSection(listId: number, id: number): Promise<boolean> {
+    try {
+      if (!(await this.getSectionById(listId, id))) return false;
+
+      for (const taskId of await this.getTaskIds(id)) {
+        await this.taskService.updateTask(taskId, { sectionId: null });
+      }
+      await db
+        .update(tasks)
+        .set({ sectionId: null })
+        .where(eq(tasks.sectionId, id))
+        .run();
+
+      await db.delete(listSections).where(eq(listSections.id, id)).run();
+      return true;
+    } catch (error) {
+      console.error("Error deleting section:", error);
+      throw new Error("Failed to delete section");
+    }
+  }
+
+  private async isActiveList(id: number): Promise<boolean> {
+    const list = await db
+      .select({ id: lists.id })
+      .from(lists)
+      .where(and(eq(lists.id, id), isNull(lists.deletedAt)))
+      .get();
+    return list !== undefined;
+  }
+
+  private async getTaskIds(sectionId: number): Promise<number[]> {
+    const sectionTasks = (await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.sectionId, sectionId), isNull(tasks.deletedAt)))
+      .all()) as { id: number }[];
+    return sectionTasks.map((task) => task.id);
+  }
+}
@@ -1,9 +1,30 @@
 import { db } from "@/lib/db";
 import { DatabaseService } from "@/lib/db-service";
+import {
+  getLastPosition,
+  getPositionBetween,
+  PositionConflictError,
+} from "@/lib/db-utils";
+import { publishEvent } from "@/lib/events";
+import { CommentService } from "@/services/comment-service";
+import { CustomFieldService } from "@/services/custom-field-service";
+import { DependencyService } from "@/services/dependency-service";
+import { FileService } from "@/services/file-service";
+import { ReminderService } from "@/services/reminder-service";
+import {
+  formatRRule,
+  getNextOccurrence,
+  getPreviousDate,
+  rebaseRRule,
+  recurrenceTypeToRRule,
+} from "@/lib/rrule";
+import { generateKeysAfter } from "@/lib/ordering";
 import {
   attachments,
   labels,
   lists,
+  listSections,
+  recurringSeries,
   subTasks,
   taskChanges,
   taskLabels,
@@ -15,17 +36,25 @@ import {
   count,
   desc,
   eq,
+  gte,
   inArray,
+  isNull,
   like,
+  ne,
+  notExists,
   sql,
   or,
   between,
 } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { z } from "zod";
 import {
   Attachment,
   Label,
   List,
+  Placement,
   Priority,
+  RecurrenceScope,
   RecurrenceType,
   Reminder,
   SubTask,
@@ -33,15 +62,40 @@ import {
   TaskChange,
   TaskFilter,
   TaskFormData,
+  TaskFormUpdate,
   TaskWithRelations,
 } from "@/types/task";
 
+// The requested parent would put a task inside its own subtree
+export class TaskHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskHierarchyError";
+  }
+}
+
 export class TaskService {
+  private commentService = new CommentService();
+  private customFieldService = new CustomFieldService();
   private dbService = new DatabaseService();
+  private dependencyService = new DependencyService();
+  private fileService = new FileService();
+  private reminderService = new ReminderService();
 
   // Task CRUD operations
   async createTask(taskData: TaskFormData): Promise<TaskWithRelations> {
     try {
+      if (taskData.parentTaskId) {
+        await this.checkParent(null, taskData.parentTaskId);
+      }
+      const placement = await this.placeInSection(taskData);
+      const customValues =
+        taskData.customValues &&
+        (await this.customFieldService.validateValues(
+          placement.listId || 1,
+          taskData.customValues
+        ));
+
       // Create the main task
       const [newTask] = await db
         .insert(tasks)
@@ -55,13 +109,20 @@ export class TaskService {
           actualHours: taskData.actualHours || null,
           actualMinutes: taskData.actualMinutes || null,
           priority: taskData.priority || "none",
-          listId: taskData.listId || 1,
+          listId: placement.listId || 1,
+          parentTaskId: taskData.parentTaskId || null,
+          sectionId: placement.sectionId || null,
+          position: await getLastPosition(tasks),
           isCompleted: taskData.isCompleted || false,
           completedAt: taskData.completedAt || null,
           isRecurring: taskData.isRecurring || false,
           recurrenceType: taskData.recurrenceType || null,
           recurrenceInterval: taskData.recurrenceInterval || null,
           recurrenceEndDate: taskData.recurrenceEndDate || null,
+          recurrenceRule: taskData.recurrenceRule || null,
+          recurrenceExceptions: taskData.recurrenceExceptions
+            ? JSON.stringify(taskData.recurrenceExceptions)
+            : null,
           reminders: taskData.reminders ? JSON.stringify(taskData.reminders) : null,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -79,9 +140,11 @@ export class TaskService {
 
       // Add subtasks if provided
       if (taskData.subTasks && taskData.subTasks.length > 0) {
-        const subTaskValues = taskData.subTasks.map((subTask) => ({
+        const positions = generateKeysAfter(null, taskData.subTasks.length);
+        const subTaskValues = taskData.subTasks.map((subTask, index) => ({
           ...subTask,
           taskId: newTask.id,
+          position: positions[index],
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         }));
@@ -98,15 +161,24 @@ export class TaskService {
         await db.insert(attachments).values(attachmentValues).run();
       }
 
+      if (customValues) {
+        await this.customFieldService.setValues(newTask.id, customValues);
+      }
+
       // Log the creation
       await this.logTaskChange(newTask.id, "create", null, newTask);
+      await this.reminderService.syncTaskReminders(newTask.id);
 
       const createdTask = await this.getTaskById(newTask.id);
       if (!createdTask) {
         throw new Error("Failed to retrieve created task");
       }
+      publishEvent({ type: "task_created", data: createdTask });
+      await this.publishAncestors(createdTask.parentTaskId);
       return createdTask;
     } catch (error) {
+      if (error instanceof TaskHierarchyError) throw error;
+      if (error instanceof z.ZodError) throw error;
       console.error("Error creating task:", error);
       throw new Error("Failed to create task");
     }
@@ -114,7 +186,7 @@ export class TaskService {
 
   async updateTask(
     id: number,
-    taskData: Partial<TaskFormData>
+    taskData: TaskFormUpdate
   ): Promise<TaskWithRelations | undefined> {
     try {
       // Get the current task for change logging
@@ -123,6 +195,18 @@ export class TaskService {
         return undefined;
       }
 
+      if (taskData.parentTaskId) {
+        await this.checkParent(id, taskData.parentTaskId);
+      }
+      const placement = await this.placeInSection(taskData, currentTask);
+      // Checked against the fields of the list the task ends up in
+      const customValues =
+        taskData.customValues &&
+        (await this.customFieldService.validateValues(
+          placement.listId ?? currentTask.listId,
+          taskData.customValues
+        ));
+
       // Update the main task
       const [updatedTask] = await db
         .update(tasks)
@@ -136,14 +220,20 @@ export class TaskService {
           actualHours: taskData.actualHours,
           actualMinutes: taskData.actualMinutes,
           priority: taskData.priority,
-          listId: taskData.listId,
+          listId: placement.listId,
+          parentTaskId: taskData.parentTaskId,
+          sectionId: placement.sectionId,
           isCompleted: taskData.isCompleted,
           completedAt: taskData.completedAt,
           isRecurring: taskData.isRecurring,
           recurrenceType: taskData.recurrenceType,
           recurrenceInterval: taskData.recurrenceInterval,
           recurrenceEndDate: taskData.recurrenceEndDate,
-          reminders: taskData.reminders ? JSON.stringify(taskData.reminders) : null,
+          recurrenceRule: taskData.recurrenceRule,
+          recurrenceExceptions:
+            taskData.recurrenceExceptions &&
+            JSON.stringify(taskData.recurrenceExceptions),
+          reminders: taskData.reminders && JSON.stringify(taskData.reminders),
           updatedAt: new Date().toISOString(),
         })
         .where(eq(tasks.id, id))
@@ -167,11 +257,13 @@ export class TaskService {
       if (taskData.subTasks !== undefined) {
         // Remove existing subtasks
         await db.delete(subTasks).where(eq(subTasks.taskId, id)).run();
-        // Add new subtasks
+        // Add new subtasks, in the order given
         if (taskData.subTasks && taskData.subTasks.length > 0) {
-          const subTaskValues = taskData.subTasks.map((subTask) => ({
+          const positions = generateKeysAfter(null, taskData.subTasks.length);
+          const subTaskValues = taskData.subTasks.map((subTask, index) => ({
             ...subTask,
             taskId: id,
+            position: positions[index],
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
           }));
@@ -182,6 +274,9 @@ export class TaskService {
       // Update attachments if provided
       if (taskData.attachments !== undefined) {
         // Remove existing attachments
+        const previousHashes = (currentTask.attachments || []).map(
+          (attachment) => attachment.contentHash
+        );
         await db.delete(attachments).where(eq(attachments.taskId, id)).run();
         // Add new attachments
         if (taskData.attachments && taskData.attachments.length > 0) {
@@ -192,42 +287,183 @@ export class TaskService {
           }));
           await db.insert(attachments).values(attachmentValues).run();
         }
+        // Blobs kept by the new attachment set are still referenced
+        await this.fileService.removeOrphanedBlobs(previousHashes);
+      }
+
+      // Fields left out keep their values
+      if (customValues) {
+        await this.customFieldService.setValues(id, customValues);
       }
 
       // Log the update
       await this.logTaskChange(id, "update", currentTask, updatedTask);
+      await this.reminderService.syncTaskReminders(id);
 
-      return this.getTaskById(id);
+      const task = await this.publishTaskEvent("task_updated", id);
+      // Completed or reopened through an edit rather than a toggle
+      if (task && task.isCompleted !== currentTask.isCompleted) {
+        await this.dependencyService.updateDependents(task);
+      }
+      await this.publishAncestors(currentTask.parentTaskId);
+      if (task && task.parentTaskId !== currentTask.parentTaskId) {
+        await this.publishAncestors(task.parentTaskId);
+      }
+      return task;
     } catch (error) {
+      if (error instanceof TaskHierarchyError) throw error;
+      if (error instanceof z.ZodError) throw error;
       console.error("Error updating task:", error);
       throw new Error("Failed to update task");
     }
   }
 
-  async deleteTask(id: number): Promise<boolean> {
+  // Moves the task to the trash; it can be restored until it is purged.
+  // Tasks trashed along with their list or parent share its deletedAt.
+  async deleteTask(
+    id: number,
+    deletedAt: string = new Date().toISOString()
+  ): Promise<boolean> {
     try {
-      // Get the current task for change logging
       const currentTask = await this.getTaskById(id);
-      if (!currentTask) {
+      if (!currentTask || currentTask.deletedAt) {
         return false;
       }
 
       // Log the deletion
       await this.logTaskChange(id, "delete", currentTask, null);
 
+      await db
+        .update(tasks)
+        .set({ deletedAt, updatedAt: new Date().toISOString() })
+        .where(eq(tasks.id, id))
+        .run();
+      await this.reminderService.deleteRemindersForTask(id);
+
+      publishEvent({
+        type: "task_deleted",
+        data: { ...currentTask, deletedAt },
+      });
+      await this.dependencyService.publishNeighbours(currentTask);
+
+      // Subtasks go to the trash with their parent
+      for (const childId of await this.getChildIds(id)) {
+        await this.deleteTask(childId, deletedAt);
+      }
+      await this.publishAncestors(currentTask.parentTaskId);
+
+      return true;
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      throw new Error("Failed to delete task");
+    }
+  }
+
+  // Take a task out of the trash. A task whose list is still in the trash
+  // goes back to the Inbox, and one whose parent is still in the trash
+  // becomes a top-level task.
+  async restoreTask(id: number): Promise<TaskWithRelations | undefined> {
+    try {
+      const currentTask = await this.getTaskById(id);
+      if (!currentTask || !currentTask.deletedAt) {
+        return undefined;
+      }
+
+      const inboxList = currentTask.list?.deletedAt
+        ? await db.select().from(lists).where(eq(lists.isMagic, true)).get()
+        : undefined;
+      const parent = currentTask.parentTaskId
+        ? await db
+            .select({ deletedAt: tasks.deletedAt })
+            .from(tasks)
+            .where(eq(tasks.id, currentTask.parentTaskId))
+            .get()
+        : undefined;
+
+      const [restoredTask] = await db
+        .update(tasks)
+        .set({
+          deletedAt: null,
+          listId: inboxList?.id ?? currentTask.listId,
+          sectionId: inboxList ? null : currentTask.sectionId,
+          parentTaskId:
+            parent && !parent.deletedAt ? currentTask.parentTaskId : null,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(tasks.id, id))
+        .returning();
+
+      await this.logTaskChange(id, "update", currentTask, restoredTask);
+      await this.reminderService.syncTaskReminders(id);
+
+      // Subtasks trashed along with this task come back with it
+      const trashedChildren = (await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(
+          and(
+            eq(tasks.parentTaskId, id),
+            eq(tasks.deletedAt, currentTask.deletedAt)
+          )
+        )
+        .all()) as { id: number }[];
+      for (const child of trashedChildren) {
+        await this.restoreTask(child.id);
+      }
+
+      const task = await this.publishTaskEvent("task_created", id);
+      if (task) await this.dependencyService.publishNeighbours(task);
+      await this.publishAncestors(task?.parentTaskId);
+      return task;
+    } catch (error) {
+      console.error("Error restoring task:", error);
+      throw new Error("Failed to restore task");
+    }
+  }
+
+  // Permanently delete a trashed task and everything attached to it
+  async purgeTask(id: number): Promise<boolean> {
+    try {
+      const currentTask = await this.getTaskById(id);
+      if (!currentTask || !currentTask.deletedAt) {
+        return false;
+      }
+
+      // Trashed subtasks are purged with their parent; restored ones are
+      // already top-level tasks
+      const children = (await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(eq(tasks.parentTaskId, id))
+        .all()) as { id: number }[];
+      for (const child of children) {
+        await this.purgeTask(child.id);
+      }
+
       // Delete related records (cascading)
       await db.delete(taskLabels).where(eq(taskLabels.taskId, id)).run();
       await db.delete(subTasks).where(eq(subTasks.taskId, id)).run();
-      await db.delete(attachments).where(eq(attachments.taskId, id)).run();
+      await this.dependencyService.deleteDependenciesForTask(id);
+      await this.fileService.deleteAttachmentsForTask(id);
+      await this.reminderService.deleteRemindersForTask(id);
+      await this.customFieldService.deleteValuesForTask(id);
+      await this.commentService.deleteCommentsForTask(id);
       await db.delete(taskChanges).where(eq(taskChanges.taskId, id)).run();
 
       // Delete the task
       const result = await db.delete(tasks).where(eq(tasks.id, id)).run();
 
+      // Keep the chain of recurring instances intact
+      await db
+        .update(tasks)
+        .set({ previousOccurrenceId: currentTask.previousOccurrenceId ?? null })
+        .where(eq(tasks.previousOccurrenceId, id))
+        .run();
+
       return result.changes > 0;
     } catch (error) {
-      console.error("Error deleting task:", error);
-      throw new Error("Failed to delete task");
+      console.error("Error purging task:", error);
+      throw new Error("Failed to purge task");
     }
   }
 
@@ -249,8 +485,16 @@ export class TaskService {
 
       // Log the completion
       await this.logTaskChange(id, "complete", null, completedTask);
+      await this.reminderService.deleteRemindersForTask(id);
+      await this.publishAncestors(completedTask.parentTaskId);
+
+      if (completedTask.isRecurring) {
+        await this.createNextOccurrence(completedTask);
+      }
 
-      return this.getTaskById(id);
+      const task = await this.publishTaskEvent("task_completed", id);
+      if (task) await this.dependencyService.updateDependents(task);
+      return task;
     } catch (error) {
       console.error("Error completing task:", error);
       throw new Error("Failed to complete task");
@@ -275,14 +519,148 @@ export class TaskService {
 
       // Log the uncompletion
       await this.logTaskChange(id, "uncomplete", null, uncompletedTask);
+      await this.removeNextOccurrence(id);
+      await this.reminderService.syncTaskReminders(id);
+      await this.publishAncestors(uncompletedTask.parentTaskId);
 
-      return this.getTaskById(id);
+      const task = await this.publishTaskEvent("task_updated", id);
+      if (task) await this.dependencyService.updateDependents(task);
+      return task;
     } catch (error) {
       console.error("Error uncompleting task:", error);
       throw new Error("Failed to uncomplete task");
     }
   }
 
+  // Turn a checklist item into a subtask of the task it belongs to
+  async convertSubTaskToTask(
+    subTaskId: number
+  ): Promise<TaskWithRelations | undefined> {
+    try {
+      const subTask = await db
+        .select()
+        .from(subTasks)
+        .where(eq(subTasks.id, subTaskId))
+        .get();
+      if (!subTask) {
+        return undefined;
+      }
+
+      const parent = await this.getTaskById(subTask.taskId);
+      if (!parent || parent.deletedAt) {
+        return undefined;
+      }
+
+      const task = await this.createTask({
+        title: subTask.title,
+        date: parent.date,
+        priority: "none",
+        listId: parent.listId,
+        sectionId: parent.sectionId,
+        parentTaskId: subTask.taskId,
+        isCompleted: subTask.isCompleted,
+        isRecurring: false,
+        completedAt: subTask.isCompleted ? new Date().toISOString() : undefined,
+      });
+
+      await db.delete(subTasks).where(eq(subTasks.id, subTaskId)).run();
+      await this.publishTaskEvent("task_updated", subTask.taskId);
+
+      return task;
+    } catch (error) {
+      console.error("Error converting subtask:", error);
+      throw new Error("Failed to convert subtask");
+    }
+  }
+
+  // Manual ordering: the task goes between two tasks of the list or day it
+  // is shown in. Returns undefined when the task or a neighbour is missing.
+  async moveTask(
+    id: number,
+    placement: Placement
+  ): Promise<TaskWithRelations | undefined> {
+    try {
+      const currentTask = await this.getTaskById(id);
+      if (!currentTask || currentTask.deletedAt) {
+        return undefined;
+      }
+
+      const position = await getPositionBetween(tasks, placement);
+      if (!position) {
+        return undefined;
+      }
+
+      await db
+        .update(tasks)
+        .set({ position, updatedAt: new Date().toISOString() })
+        .where(eq(tasks.id, id))
+        .run();
+
+      return await this.publishTaskEvent("task_updated", id);
+    } catch (error) {
+      if (error instanceof PositionConflictError) throw error;
+      console.error("Error moving task:", error);
+      throw new Error("Failed to move task");
+    }
+  }
+
+  // Reorder a checklist item within its task
+  async moveSubTask(
+    subTaskId: number,
+    placement: Placement
+  ): Promise<SubTask | undefined> {
+    try {
+      const position = await getPositionBetween(subTasks, placement);
+      if (!position) {
+        return undefined;
+      }
+
+      const [movedSubTask] = (await db
+        .update(subTasks)
+        .set({ position, updatedAt: new Date().toISOString() })
+        .where(eq(subTasks.id, subTaskId))
+        .returning()) as SubTask[];
+      if (!movedSubTask) {
+        return undefined;
+      }
+
+      await this.publishTaskEvent("task_updated", movedSubTask.taskId);
+      return movedSubTask;
+    } catch (error) {
+      if (error instanceof PositionConflictError) throw error;
+      console.error("Error moving subtask:", error);
+      throw new Error("Failed to move subtask");
+    }
+  }
+
+  // Move a subtask out of its parent to the top level
+  async promoteTask(id: number): Promise<TaskWithRelations | undefined> {
+    try {
+      const currentTask = await this.getTaskById(id);
+      if (!currentTask || currentTask.deletedAt) {
+        return undefined;
+      }
+      if (!currentTask.parentTaskId) {
+        return currentTask;
+      }
+
+      const [promotedTask] = await db
+        .update(tasks)
+        .set({ parentTaskId: null, updatedAt: new Date().toISOString() })
+        .where(eq(tasks.id, id))
+        .returning();
+
+      await this.logTaskChange(id, "update", currentTask, promotedTask);
+
+      const task = await this.publishTaskEvent("task_updated", id);
+      await this.publishAncestors(currentTask.parentTaskId);
+      return task;
+    } catch (error) {
+      console.error("Error promoting task:", error);
+      throw new Error("Failed to promote task");
+    }
+  }
+
   async getTaskById(id: number): Promise<TaskWithRelations | undefined> {
     return this.dbService.getTaskById(id);
   }
@@ -311,6 +689,10 @@ export class TaskService {
     return this.dbService.getInboxTasks();
   }
 
+  async getTrashedTasks(): Promise<TaskWithRelations[]> {
+    return this.dbService.getTrashedTasks();
+  }
+
   // Advanced filtering and search
   async searchTasks(
     query: string,
@@ -322,7 +704,7 @@ export class TaskService {
         like(tasks.description, `%${query}%`),
       ];
 
-      let whereClause = sql`(${searchConditions.join(" OR ")})`;
+      let whereClause = and(or(...searchConditions), isNull(tasks.deletedAt))!;
 
       // Apply additional filters
       if (filter.listId) {
@@ -356,7 +738,10 @@ export class TaskService {
         .from(tasks)
         .leftJoin(lists, eq(tasks.listId, lists.id))
         .leftJoin(taskLabels, eq(tasks.id, taskLabels.taskId))
-        .leftJoin(labels, eq(taskLabels.labelId, labels.id))
+        .leftJoin(
+          labels,
+          and(eq(taskLabels.labelId, labels.id), isNull(labels.deletedAt))
+        )
         .leftJoin(subTasks, eq(tasks.id, subTasks.taskId))
         .leftJoin(attachments, eq(tasks.id, attachments.taskId))
         .where(whereClause)
@@ -415,6 +800,100 @@ export class TaskService {
     }
   }
 
+  // Broadcast the current state of a task to every open tab
+  private async publishTaskEvent(
+    type: "task_created" | "task_updated" | "task_completed",
+    id: number
+  ): Promise<TaskWithRelations | undefined> {
+    const task = await this.getTaskById(id);
+    if (task) {
+      publishEvent({ type, data: task });
+    }
+    return task;
+  }
+
+  // A task can only be nested under an active task outside its own subtree
+  private async checkParent(
+    id: number | null,
+    parentTaskId: number
+  ): Promise<void> {
+    const parent = await db
+      .select({ deletedAt: tasks.deletedAt })
+      .from(tasks)
+      .where(eq(tasks.id, parentTaskId))
+      .get();
+    if (!parent || parent.deletedAt) {
+      throw new TaskHierarchyError("Parent task not found");
+    }
+
+    const visited = new Set<number>();
+    let ancestorId: number | null = parentTaskId;
+    while (ancestorId !== null && !visited.has(ancestorId)) {
+      if (ancestorId === id) {
+        throw new TaskHierarchyError(
+          "A task cannot be nested under itself or one of its subtasks"
+        );
+      }
+      visited.add(ancestorId);
+      const ancestor: { parentTaskId: number | null } | undefined = await db
+        .select({ parentTaskId: tasks.parentTaskId })
+        .from(tasks)
+        .where(eq(tasks.id, ancestorId))
+        .get();
+      ancestorId = ancestor?.parentTaskId ?? null;
+    }
+  }
+
+  // A task in a section belongs to the section's list, and leaves its
+  // section when it moves to another list. A missing section is dropped.
+  private async placeInSection(
+    taskData: TaskFormUpdate,
+    currentTask?: TaskWithRelations
+  ): Promise<Pick<Partial<TaskFormData>, "listId" | "sectionId">> {
+    if (taskData.sectionId) {
+      const section = await db
+        .select({ listId: listSections.listId })
+        .from(listSections)
+        .where(eq(listSections.id, taskData.sectionId))
+        .get();
+      return section
+        ? { listId: section.listId, sectionId: taskData.sectionId }
+        : { listId: taskData.listId, sectionId: null };
+    }
+
+    const movesList =
+      currentTask !== undefined &&
+      taskData.listId !== undefined &&
+      taskData.listId !== currentTask.listId;
+    return {
+      listId: taskData.listId,
+      sectionId: movesList ? null : taskData.sectionId,
+    };
+  }
+
+  private async getChildIds(id: number): Promise<number[]> {
+    const children = (await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.parentTaskId, id), isNull(tasks.deletedAt)))
+      .all()) as { id: number }[];
+    return children.map((child) => child.id);
+  }
+
+  // Every ancestor's rolled-up completion changes with its subtasks
+  private async publishAncestors(
+    parentTaskId: number | null | undefined
+  ): Promise<void> {
+    const visited = new Set<number>();
+    while (parentTaskId && !visited.has(parentTaskId)) {
+      visited.add(parentTaskId);
+      const parent = await this.getTaskById(parentTaskId);
+      if (!parent || parent.deletedAt) return;
+      publishEvent({ type: "task_updated", data: parent });
+      parentTaskId = parent.parentTaskId;
+    }
+  }
+
   // Task change logging
   private async logTaskChange(
     taskId: number,
@@ -474,6 +953,7 @@ export class TaskService {
   }> {
     try {
       const today = new Date().toISOString().split("T")[0];
+      const notTrashed = isNull(tasks.deletedAt);
 
       const [
         totalResult,
@@ -483,21 +963,23 @@ export class TaskService {
         upcomingResult,
         highPriorityResult,
       ] = await Promise.all([
-        db.select({ count: count() }).from(tasks).get(),
+        db.select({ count: count() }).from(tasks).where(notTrashed).get(),
         db
           .select({ count: count() })
           .from(tasks)
-          .where(eq(tasks.isCompleted, true))
+          .where(and(eq(tasks.isCompleted, true), notTrashed))
           .get(),
         db
           .select({ count: count() })
           .from(tasks)
-          .where(eq(tasks.isCompleted, false))
+          .where(and(eq(tasks.isCompleted, false), notTrashed))
           .get(),
         db
           .select({ count: count() })
           .from(tasks)
-          .where(and(eq(tasks.date, today), eq(tasks.isCompleted, false)))
+          .where(
+            and(eq(tasks.date, today), eq(tasks.isCompleted, false), notTrashed)
+          )
           .get(),
         db
           .select({ count: count() })
@@ -511,14 +993,21 @@ export class TaskService {
                   .toISOString()
                   .split("T")[0]
               ),
-              eq(tasks.isCompleted, false)
+              eq(tasks.isCompleted, false),
+              notTrashed
             )
           )
           .get(),
         db
           .select({ count: count() })
           .from(tasks)
-          .where(and(eq(tasks.priority, "high"), eq(tasks.isCompleted, false)))
+          .where(
+            and(
+              eq(tasks.priority, "high"),
+              eq(tasks.isCompleted, false),
+              notTrashed
+            )
+          )
           .get(),
       ]);
 
@@ -537,139 +1026,473 @@ export class TaskService {
   }
 
   // Recurring task management
-  async processRecurringTasks(): Promise<void> {
+
+  /**
+   * Create the missing successor of every completed recurring instance.
+   * Safe to run repeatedly: each instance gets at most one successor.
+   * Returns the number of instances created.
+   */
+  async processRecurringTasks(): Promise<number> {
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const nextOccurrence = alias(tasks, "next_occurrence");
 
-      // Get all completed recurring tasks
-      const recurringTasks = await db
-        .select()
+      const pendingTasks = await db
+        .select({ task: tasks })
         .from(tasks)
+        .leftJoin(
+          nextOccurrence,
+          eq(nextOccurrence.previousOccurrenceId, tasks.id)
+        )
         .where(
           and(
             eq(tasks.isRecurring, true),
             eq(tasks.isCompleted, true),
-            eq(tasks.date, today)
+            isNull(tasks.deletedAt),
+            isNull(nextOccurrence.id)
           )
-        );
-
-      for (const task of recurringTasks) {
-        const nextDate = this.calculateNextRecurringDate(
-          task.date,
-          task.recurrenceType || undefined,
-          task.recurrenceInterval || undefined
-        );
+        )
+        .orderBy(asc(tasks.date));
 
-        if (
-          nextDate &&
-          (!task.recurrenceEndDate || nextDate <= task.recurrenceEndDate)
-        ) {
-          // Create a new instance of the task
-          await db
-            .insert(tasks)
-            .values({
-              title: task.title,
-              description: task.description,
-              date: nextDate,
-              deadline: task.deadline,
-              estimateHours: task.estimateHours,
-              estimateMinutes: task.estimateMinutes,
-              actualHours: null,
-              actualMinutes: null,
-              priority: task.priority,
-              listId: task.listId,
-              isCompleted: false,
-              completedAt: null,
-              isRecurring: true,
-              recurrenceType: task.recurrenceType || undefined,
-              recurrenceInterval: task.recurrenceInterval,
-              recurrenceEndDate: task.recurrenceEndDate,
-              reminders: task.reminders,
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-            })
-            .run();
-
-          // Copy labels, subtasks, and attachments
-          await this.copyTaskRelations(task.id, nextDate);
+      let created = 0;
+      for (const { task } of pendingTasks) {
+        if (await this.createNextOccurrence(task)) {
+          created++;
         }
       }
+      return created;
     } catch (error) {
       console.error("Error processing recurring tasks:", error);
       throw new Error("Failed to process recurring tasks");
     }
   }
 
-  private calculateNextRecurringDate(
-    currentDate: string,
-    recurrenceType: RecurrenceType | undefined,
-    interval: number | undefined
-  ): string | null {
-    const date = new Date(currentDate);
-    const daysToAdd = interval || 1;
-
-    switch (recurrenceType) {
-      case "daily":
-        date.setDate(date.getDate() + daysToAdd);
-        return date.toISOString().split("T")[0];
-      case "weekly":
-        date.setDate(date.getDate() + daysToAdd * 7);
-        return date.toISOString().split("T")[0];
-      case "weekday":
-        // Add days until we reach a weekday (Monday to Friday)
-        let daysToAddWeekday = daysToAdd;
-        while (daysToAddWeekday > 0) {
-          date.setDate(date.getDate() + 1);
-          const dayOfWeek = date.getDay();
-          if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-            daysToAddWeekday--;
-          }
+  // Purge the instance created when a recurring task was completed, so that
+  // reopening it leaves one open instance. Kept once it has been changed in
+  // any way; completing the task again creates it anew.
+  private async removeNextOccurrence(id: number): Promise<void> {
+    const next = await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(
+        and(
+          eq(tasks.previousOccurrenceId, id),
+          notExists(
+            db
+              .select({ id: taskChanges.id })
+              .from(taskChanges)
+              .where(
+                and(
+                  eq(taskChanges.taskId, tasks.id),
+                  ne(taskChanges.changeType, "create")
+                )
+              )
+          )
+        )
+      )
+      .get();
+    if (next) {
+      await this.deleteTask(next.id);
+      await this.purgeTask(next.id);
+    }
+  }
+
+  private async createNextOccurrence(
+    task: typeof tasks.$inferSelect,
+    series?: typeof recurringSeries.$inferSelect | null
+  ): Promise<number | null> {
+    // New instances follow the series template, not the completed copy
+    series = series ?? (await this.getOrCreateSeries(task));
+    if (!series) {
+      return null;
+    }
+
+    // Occurrences missed while the task was overdue are skipped
+    const completedOn = task.completedAt?.split("T")[0];
+    const after =
+      completedOn && completedOn > task.date ? completedOn : task.date;
+    const nextDate = getNextOccurrence(
+      series.recurrenceRule,
+      series.startDate,
+      after,
+      this.parseRecurrenceExceptions(series.recurrenceExceptions)
+    );
+
+    if (
+      !nextDate ||
+      (series.recurrenceEndDate && nextDate > series.recurrenceEndDate)
+    ) {
+      return null;
+    }
+
+    // The unique previous_occurrence_id index makes concurrent runs a no-op
+    const [newTask] = await db
+      .insert(tasks)
+      .values({
+        title: series.title,
+        description: series.description,
+        date: nextDate,
+        deadline: task.deadline,
+        estimateHours: series.estimateHours,
+        estimateMinutes: series.estimateMinutes,
+        actualHours: null,
+        actualMinutes: null,
+        priority: series.priority,
+        listId: series.listId,
+        parentTaskId: task.parentTaskId,
+        sectionId: task.listId === series.listId ? task.sectionId : null,
+        position: await getLastPosition(tasks),
+        isCompleted: false,
+        completedAt: null,
+        isRecurring: true,
+        recurrenceType: task.recurrenceType,
+        recurrenceInterval: task.recurrenceInterval,
+        recurrenceEndDate: series.recurrenceEndDate,
+        // Keep COUNT describing the occurrences left in the series
+        recurrenceRule: formatRRule(
+          rebaseRRule(series.recurrenceRule, series.startDate, nextDate)
+        ),
+        recurrenceExceptions: series.recurrenceExceptions,
+        previousOccurrenceId: task.id,
+        seriesId: series.id,
+        reminders: series.reminders,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!newTask) {
+      return null;
+    }
+
+    // Subtasks and attachments are not copied as they are specific to
+    // each instance; custom field values carry over
+    await this.customFieldService.copyValues(task.id, newTask.id);
+    const labelIds = this.parseLabelIds(series.labelIds);
+    if (labelIds.length > 0) {
+      await db
+        .insert(taskLabels)
+        .values(labelIds.map((labelId) => ({ taskId: newTask.id, labelId })))
+        .run();
+    }
+
+    await this.logTaskChange(newTask.id, "create", null, newTask);
+    await this.reminderService.syncTaskReminders(newTask.id);
+    await this.publishTaskEvent("task_created", newTask.id);
+
+    return newTask.id;
+  }
+
+  // Tasks created before RRULE support only carry a recurrence type
+  private getRecurrenceRule(task: {
+    recurrenceRule: string | null;
+    recurrenceType: RecurrenceType | null;
+    recurrenceInterval: number | null;
+  }): string | null {
+    return (
+      task.recurrenceRule ||
+      recurrenceTypeToRRule(task.recurrenceType, task.recurrenceInterval)
+    );
+  }
+
+  private parseRecurrenceExceptions(value: string | null): string[] {
+    return value ? JSON.parse(value) : [];
+  }
+
+  private parseLabelIds(value: string | null): number[] {
+    return value ? JSON.parse(value) : [];
+  }
+
+  // Recurring series
+
+  /**
+   * Update a recurring instance along with other instances of its series.
+   * "following" splits the series at this instance so that earlier
+   * instances keep the old template; "all" rewrites the whole series.
+   */
+  async updateTaskInSeries(
+    id: number,
+    taskData: TaskFormUpdate,
+    scope: RecurrenceScope
+  ): Promise<TaskWithRelations | undefined> {
+    try {
+      const task = await db.select().from(tasks).where(eq(tasks.id, id)).get();
+      if (!task) {
+        return undefined;
+      }
+
+      const series =
+        scope === "this" ? null : await this.getOrCreateSeries(task);
+      if (!series) {
+        return this.updateTask(id, taskData);
+      }
+
+      // Checked before the series changes, so that invalid values leave it
+      // untouched
+      if (taskData.customValues) {
+        const placement = await this.placeInSection(taskData, task);
+        await this.customFieldService.validateValues(
+          placement.listId ?? task.listId,
+          taskData.customValues
+        );
+      }
+
+      const split = scope === "following" && task.date > series.startDate;
+      const seriesId = split
+        ? await this.splitSeries(series, task.date)
+        : series.id;
+      const startDate = split ? task.date : series.startDate;
+
+      await db
+        .update(recurringSeries)
+        .set({
+          ...this.getSeriesValues(taskData),
+          // Moving the first instance moves the start of the series
+          startDate:
+            taskData.date && task.date === startDate
+              ? taskData.date
+              : undefined,
+        })
+        .where(eq(recurringSeries.id, seriesId))
+        .run();
+
+      const instances = await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(and(eq(tasks.seriesId, seriesId), isNull(tasks.deletedAt)));
+
+      const seriesFields = this.getSeriesFields(taskData);
+      for (const instance of instances) {
+        if (instance.id !== id) {
+          await this.updateTask(instance.id, seriesFields);
         }
-        return date.toISOString().split("T")[0];
-      case "monthly":
-        date.setMonth(date.getMonth() + daysToAdd);
-        return date.toISOString().split("T")[0];
-      case "yearly":
-        date.setFullYear(date.getFullYear() + daysToAdd);
-        return date.toISOString().split("T")[0];
-      case "custom":
-        date.setDate(date.getDate() + daysToAdd);
-        return date.toISOString().split("T")[0];
-      default:
-        return null;
+      }
+
+      return this.updateTask(id, taskData);
+    } catch (error) {
+      if (error instanceof TaskHierarchyError) throw error;
+      if (error instanceof z.ZodError) throw error;
+      console.error("Error updating task series:", error);
+      throw new Error("Failed to update task series");
     }
   }
 
-  private async copyTaskRelations(
-    taskId: number,
-    newDate: string
-  ): Promise<void> {
-    // Copy labels
-    const labels = await db
-      .select()
-      .from(taskLabels)
-      .where(eq(taskLabels.taskId, taskId));
+  /**
+   * Delete a recurring instance, the instances following it, or the whole
+   * series. A deleted pending instance is skipped by the series and its
+   * next occurrence is created so the series carries on.
+   */
+  async deleteTaskInSeries(
+    id: number,
+    scope: RecurrenceScope
+  ): Promise<boolean> {
+    try {
+      const task = await db.select().from(tasks).where(eq(tasks.id, id)).get();
+      if (!task) {
+        return false;
+      }
+
+      const series = await this.getOrCreateSeries(task);
+      if (!series) {
+        return this.deleteTask(id);
+      }
 
-    if (labels.length > 0) {
-      // Get the new task ID based on the date
-      const newTask = await db
+      if (scope === "this") {
+        const [updatedSeries] = await db
+          .update(recurringSeries)
+          .set({
+            recurrenceExceptions: JSON.stringify([
+              ...this.parseRecurrenceExceptions(series.recurrenceExceptions),
+              task.date,
+            ]),
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(recurringSeries.id, series.id))
+          .returning();
+
+        if (!task.isCompleted) {
+          await this.createNextOccurrence(task, updatedSeries);
+        }
+        return this.deleteTask(id);
+      }
+
+      const instances = await db
         .select({ id: tasks.id })
         .from(tasks)
-        .where(and(eq(tasks.date, newDate), eq(tasks.isCompleted, false)))
-        .orderBy(desc(tasks.createdAt))
-        .get();
+        .where(
+          scope === "following"
+            ? and(eq(tasks.seriesId, series.id), gte(tasks.date, task.date))
+            : eq(tasks.seriesId, series.id)
+        );
 
-      if (newTask) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const labelValues = labels.map((label: any) => ({
-          taskId: newTask.id,
-          labelId: label.labelId,
-        }));
-        await db.insert(taskLabels).values(labelValues).run();
+      for (const instance of instances) {
+        await this.deleteTask(instance.id);
+      }
+
+      if (scope === "following" && task.date > series.startDate) {
+        await this.endSeriesBefore(series, task.date);
+      } else {
+        await db
+          .delete(recurringSeries)
+          .where(eq(recurringSeries.id, series.id))
+          .run();
       }
+
+      return true;
+    } catch (error) {
+      console.error("Error deleting task series:", error);
+      throw new Error("Failed to delete task series");
     }
+  }
+
+  // Recurring tasks created before series existed get one on first use
+  private async getOrCreateSeries(
+    task: typeof tasks.$inferSelect
+  ): Promise<typeof recurringSeries.$inferSelect | null> {
+    if (task.seriesId) {
+      const series = await db
+        .select()
+        .from(recurringSeries)
+        .where(eq(recurringSeries.id, task.seriesId))
+        .get();
+      if (series) {
+        return series;
+      }
+    }
+
+    const rule = this.getRecurrenceRule(task);
+    if (!task.isRecurring || !rule) {
+      return null;
+    }
+
+    const labelRows = await db
+      .select({ labelId: taskLabels.labelId })
+      .from(taskLabels)
+      .where(eq(taskLabels.taskId, task.id));
+
+    const [series] = await db
+      .insert(recurringSeries)
+      .values({
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        listId: task.listId,
+        estimateHours: task.estimateHours,
+        estimateMinutes: task.estimateMinutes,
+        reminders: task.reminders,
+        labelIds: JSON.stringify(
+          labelRows.map((row: { labelId: number }) => row.labelId)
+        ),
+        startDate: task.date,
+        recurrenceRule: rule,
+        recurrenceExceptions: task.recurrenceExceptions,
+        recurrenceEndDate: task.recurrenceEndDate,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      .returning();
+
+    await db
+      .update(tasks)
+      .set({ seriesId: series.id })
+      .where(eq(tasks.id, task.id))
+      .run();
+
+    return series;
+  }
+
+  // Move the instances from splitDate onwards to a copy of the series,
+  // end the original before them and return the copy's id
+  private async splitSeries(
+    series: typeof recurringSeries.$inferSelect,
+    splitDate: string
+  ): Promise<number> {
+    const [newSeries] = await db
+      .insert(recurringSeries)
+      .values({
+        title: series.title,
+        description: series.description,
+        priority: series.priority,
+        listId: series.listId,
+        estimateHours: series.estimateHours,
+        estimateMinutes: series.estimateMinutes,
+        reminders: series.reminders,
+        labelIds: series.labelIds,
+        startDate: splitDate,
+        recurrenceRule: formatRRule(
+          rebaseRRule(series.recurrenceRule, series.startDate, splitDate)
+        ),
+        recurrenceExceptions: series.recurrenceExceptions,
+        recurrenceEndDate: series.recurrenceEndDate,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      })
+      .returning();
+
+    await db
+      .update(tasks)
+      .set({ seriesId: newSeries.id })
+      .where(and(eq(tasks.seriesId, series.id), gte(tasks.date, splitDate)))
+      .run();
+
+    await this.endSeriesBefore(series, splitDate);
+
+    return newSeries.id;
+  }
+
+  private async endSeriesBefore(
+    series: typeof recurringSeries.$inferSelect,
+    date: string
+  ): Promise<void> {
+    const endDate = getPreviousDate(date);
+    await db
+      .update(recurringSeries)
+      .set({
+        recurrenceEndDate:
+          series.recurrenceEndDate && series.recurrenceEndDate < endDate
+            ? series.recurrenceEndDate
+            : endDate,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(recurringSeries.id, series.id))
+      .run();
+  }
+
+  // Template fields shared by every instance; the date, deadline and
+  // completion state stay per instance
+  private getSeriesFields(taskData: TaskFormUpdate): TaskFormUpdate {
+    return {
+      title: taskData.title,
+      description: taskData.description,
+      priority: taskData.priority,
+      listId: taskData.listId,
+      estimateHours: taskData.estimateHours,
+      estimateMinutes: taskData.estimateMinutes,
+      reminders: taskData.reminders,
+      labels: taskData.labels,
+      recurrenceRule: taskData.recurrenceRule,
+      recurrenceExceptions: taskData.recurrenceExceptions,
+      recurrenceEndDate: taskData.recurrenceEndDate,
+    };
+  }
 
-    // Note: Subtasks and attachments are not copied for recurring tasks
-    // as they might be specific to each instance
+  private getSeriesValues(taskData: TaskFormUpdate) {
+    return {
+      title: taskData.title,
+      description: taskData.description,
+      priority: taskData.priority,
+      listId: taskData.listId,
+      estimateHours: taskData.estimateHours,
+      estimateMinutes: taskData.estimateMinutes,
+      reminders: taskData.reminders && JSON.stringify(taskData.reminders),
+      labelIds: taskData.labels ? JSON.stringify(taskData.labels) : undefined,
+      // A series always has a rule
+      recurrenceRule: taskData.recurrenceRule ?? undefined,
+      recurrenceExceptions:
+        taskData.recurrenceExceptions &&
+        JSON.stringify(taskData.recurrenceExceptions),
+      recurrenceEndDate: taskData.recurrenceEndDate,
+      updatedAt: new Date().toISOString(),
+    };
   }
-}
\ No newline at end of file
+}
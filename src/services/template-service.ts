@@ -0,0 +1,267 @@
+import { db } from "@/lib/db";
+import { tasks, templates } from "@/lib/schema";
+import { and, asc, eq, inArray, isNull, sql } from "drizzle-orm";
+import {
+  AppliedTemplate,
+  ApplyTemplateOptions,
+  List,
+  TaskWithRelations,
+  Template,
+  TemplateSource,
+  TemplateTask,
+  TemplateUpdate,
+} from "@/types/task";
+import {
+  fillTemplateText,
+  fromTemplateTask,
+  getTemplateVariables,
+  toTemplateTasks,
+} from "@/lib/templates";
+import { LabelService } from "./label-service";
+import { ListNameTakenError, ListService } from "./list-service";
+import { SectionService } from "./section-service";
+import { TaskService } from "./task-service";
+
+type TemplateContent = Pick<Template, "tasks" | "list">;
+
+type TemplateRow = Omit<Template, keyof TemplateContent | "variables"> & {
+  content: string;
+};
+
+export class TemplateService {
+  private labelService = new LabelService();
+  private listService = new ListService();
+  private sectionService = new SectionService();
+  private taskService = new TaskService();
+
+  async getTemplates(): Promise<Template[]> {
+    const rows = (await db
+      .select()
+      .from(templates)
+      .orderBy(templates.name)
+      .all()) as TemplateRow[];
+    return rows.map((row) => this.toTemplate(row));
+  }
+
+  async getTemplateById(id: number): Promise<Template | undefined> {
+    const row = (await db
+      .select()
+      .from(templates)
+      .where(eq(templates.id, id))
+      .get()) as TemplateRow | undefined;
+    return row && this.toTemplate(row);
+  }
+
+  // Save a task with its subtasks, or a list with its sections and tasks.
+  // Undefined when the task or list is missing or in the trash.
+  async createTemplate({
+    name,
+    taskId,
+    listId,
+  }: TemplateSource): Promise<Template | undefined> {
+    try {
+      let content: TemplateContent;
+      if (taskId !== undefined) {
+        const task = await this.taskService.getTaskById(taskId);
+        if (!task || task.deletedAt) return undefined;
+        content = {
+          tasks: toTemplateTasks([task, ...(await this.getSubtasks(taskId))]),
+        };
+      } else {
+        const list = await this.listService.getListById(listId!);
+        if (!list || list.deletedAt) return undefined;
+        const sections = await this.sectionService.getSections(list.id);
+        content = {
+          tasks: toTemplateTasks(
+            await this.getListTasks(list.id),
+            new Map(sections.map((section) => [section.id, section.name]))
+          ),
+          list: {
+            name: list.name,
+            color: list.color,
+            emoji: list.emoji,
+            sections: sections.map((section) => section.name),
+          },
+        };
+      }
+
+      const [row] = (await db
+        .insert(templates)
+        .values({
+          name,
+          kind: content.list ? "list" : "task",
+          content: JSON.stringify(content),
+        })
+        .returning()
+        .all()) as TemplateRow[];
+      return this.toTemplate(row);
+    } catch (error) {
+      console.error("Error creating template:", error);
+      throw new Error("Failed to create template");
+    }
+  }
+
+  // The list of a task template cannot be set
+  async updateTemplate(
+    id: number,
+    { name, ...updates }: TemplateUpdate
+  ): Promise<Template | undefined> {
+    const template = await this.getTemplateById(id);
+    if (!template) return undefined;
+
+    const content: TemplateContent = {
+      tasks: updates.tasks ?? template.tasks,
+      list: template.list && (updates.list ?? template.list),
+    };
+    const [row] = (await db
+      .update(templates)
+      .set({
+        name,
+        content: JSON.stringify(content),
+        updatedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(templates.id, id))
+      .returning()
+      .all()) as TemplateRow[];
+    return row && this.toTemplate(row);
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const result = await db.delete(templates).where(eq(templates.id, id)).run();
+    return result.changes > 0;
+  }
+
+  // Create the tasks of a template, or its list. Undefined when the
+  // template or the list to add tasks to is missing.
+  async applyTemplate(
+    id: number,
+    {
+      date = new Date().toISOString().split("T")[0],
+      listId,
+      name,
+      variables = {},
+    }: ApplyTemplateOptions = {}
+  ): Promise<AppliedTemplate | undefined> {
+    try {
+      const template = await this.getTemplateById(id);
+      if (!template) return undefined;
+
+      let list: List | undefined;
+      const sectionIds = new Map<string, number>();
+      if (template.list) {
+        const listName =
+          name ?? fillTemplateText(template.list.name, date, variables);
+        if (await this.listService.isNameTaken(listName)) {
+          throw new ListNameTakenError(`A list named "${listName}" exists`);
+        }
+        list = await this.listService.createList({
+          name: listName,
+          color: template.list.color,
+          emoji: template.list.emoji,
+          isMagic: false,
+        });
+        for (const sectionName of template.list.sections) {
+          const section = await this.sectionService.createSection(list.id, {
+            name: fillTemplateText(sectionName, date, variables),
+          });
+          if (section) sectionIds.set(sectionName, section.id);
+        }
+      } else {
+        list = listId
+          ? await this.listService.getListById(listId)
+          : await this.listService.getInboxList();
+        if (!list || list.deletedAt) return undefined;
+      }
+
+      // Labels deleted since the template was saved are left out
+      const labelIds = new Set(
+        (await this.labelService.getLabels()).map((label) => label.id)
+      );
+      const createTask = async (
+        task: TemplateTask,
+        parentTaskId: number | null
+      ): Promise<number> => {
+        const taskData = fromTemplateTask(task, date, variables);
+        const newTask = await this.taskService.createTask({
+          ...taskData,
+          labels: taskData.labels?.filter((labelId) => labelIds.has(labelId)),
+          listId: list!.id,
+          sectionId: task.sectionName
+            ? (sectionIds.get(task.sectionName) ?? null)
+            : null,
+          parentTaskId,
+        });
+        for (const subtask of task.subtasks ?? []) {
+          await createTask(subtask, newTask.id!);
+        }
+        return newTask.id!;
+      };
+
+      const createdTasks: TaskWithRelations[] = [];
+      for (const task of template.tasks) {
+        // Read back once its subtasks exist, for its completion
+        const newTask = await this.taskService.getTaskById(
+          await createTask(task, null)
+        );
+        if (newTask) createdTasks.push(newTask);
+      }
+
+      return { list: template.list && list, tasks: createdTasks };
+    } catch (error) {
+      if (error instanceof ListNameTakenError) throw error;
+      console.error("Error applying template:", error);
+      throw new Error("Failed to apply template");
+    }
+  }
+
+  private toTemplate({ content, ...row }: TemplateRow): Template {
+    const { tasks, list }: TemplateContent = JSON.parse(content);
+    return {
+      ...row,
+      tasks,
+      list,
+      variables: getTemplateVariables(tasks, list),
+    };
+  }
+
+  // Tasks of the list that are not in the trash, in manual order
+  private async getListTasks(listId: number): Promise<TaskWithRelations[]> {
+    const rows = (await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.listId, listId), isNull(tasks.deletedAt)))
+      .orderBy(asc(tasks.position))
+      .all()) as { id: number }[];
+    return this.getTasksByIds(rows.map((row) => row.id));
+  }
+
+  // Subtasks of a task at every depth that are not in the trash
+  private async getSubtasks(id: number): Promise<TaskWithRelations[]> {
+    const subtaskIds: number[] = [];
+    let parentIds = [id];
+    while (parentIds.length > 0) {
+      const rows = (await db
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(
+          and(inArray(tasks.parentTaskId, parentIds), isNull(tasks.deletedAt))
+        )
+        .orderBy(asc(tasks.position))
+        .all()) as { id: number }[];
+      parentIds = rows
+        .map((row) => row.id)
+        .filter((childId) => childId !== id && !subtaskIds.includes(childId));
+      subtaskIds.push(...parentIds);
+    }
+    return this.getTasksByIds(subtaskIds);
+  }
+
+  private async getTasksByIds(ids: number[]): Promise<TaskWithRelations[]> {
+    const result: TaskWithRelations[] = [];
+    for (const id of ids) {
+      const task = await this.taskService.getTaskById(id);
+      if (task) result.push(task);
+    }
+    return result;
+  }
+}
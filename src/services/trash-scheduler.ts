@@ -0,0 +1,61 @@
+import { TrashService } from "./trash-service";
+
+const DEFAULT_INTERVAL_SECONDS = 3600;
+
+/**
+ * Periodically purges tasks, lists and labels that have been in the trash
+ * for longer than TRASH_RETENTION_DAYS.
+ */
+export class TrashScheduler {
+  private static instance: TrashScheduler;
+
+  private trashService = new TrashService();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  static getInstance(): TrashScheduler {
+    if (!TrashScheduler.instance) {
+      TrashScheduler.instance = new TrashScheduler();
+    }
+    return TrashScheduler.instance;
+  }
+
+  start(
+    intervalSeconds: number = Number(process.env.TRASH_PURGE_INTERVAL) ||
+      DEFAULT_INTERVAL_SECONDS
+  ): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.runOnce();
+    this.timer = setInterval(() => void this.runOnce(), intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const purged = await this.trashService.purgeExpired();
+      if (purged > 0) {
+        console.log(`Purged ${purged} item(s) from the trash`);
+      }
+      return purged;
+    } catch (error) {
+      console.error("Error running trash scheduler:", error);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { db } from "@/lib/db";
+import { labels, lists, listSections, taskLabels, tasks } from "@/lib/schema";
+import { and, desc, eq, isNotNull, isNull, lt } from "drizzle-orm";
+import {
+  Label,
+  List,
+  TaskWithRelations,
+  Trash,
+  TrashItemType,
+} from "@/types/task";
+import { CustomFieldService } from "./custom-field-service";
+import { LabelService } from "./label-service";
+import { ListService } from "./list-service";
+import { TaskService } from "./task-service";
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  return Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+}
+
+// Restoring would clash with the name of a list or label created since
+export class TrashConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashConflictError";
+  }
+}
+
+/**
+ * Deleted tasks, lists and labels are only marked with deletedAt by their
+ * services. The trash lists them, restores them, and purges them for good,
+ * either on request or once they are older than the retention period.
+ */
+export class TrashService {
+  private customFieldService = new CustomFieldService();
+  private taskService = new TaskService();
+  private listService = new ListService();
+  private labelService = new LabelService();
+
+  async getTrash(): Promise<Trash> {
+    try {
+      const [trashedTasks, trashedLists, trashedLabels] = await Promise.all([
+        this.taskService.getTrashedTasks(),
+        db
+          .select()
+          .from(lists)
+          .where(isNotNull(lists.deletedAt))
+          .orderBy(desc(lists.deletedAt))
+          .all() as Promise<List[]>,
+        db
+          .select()
+          .from(labels)
+          .where(isNotNull(labels.deletedAt))
+          .orderBy(desc(labels.deletedAt))
+          .all() as Promise<Label[]>,
+      ]);
+
+      return {
+        tasks: trashedTasks,
+        lists: trashedLists,
+        labels: trashedLabels,
+        retentionDays: getTrashRetentionDays(),
+      };
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      throw new Error("Failed to fetch trash");
+    }
+  }
+
+  // Returns undefined when the item is not in the trash
+  async restore(
+    type: TrashItemType,
+    id: number
+  ): Promise<TaskWithRelations | List | Label | undefined> {
+    try {
+      switch (type) {
+        case "tasks":
+          return await this.taskService.restoreTask(id);
+        case "lists": {
+          const list = await this.listService.getListById(id);
+          if (list && (await this.isNameTaken(lists, list.name))) {
+            throw new TrashConflictError(
+              `A list named "${list.name}" already exists`
+            );
+          }
+          return await this.listService.restoreList(id);
+        }
+        case "labels": {
+          const label = await this.labelService.getLabelById(id);
+          if (label && (await this.isNameTaken(labels, label.name))) {
+            throw new TrashConflictError(
+              `A label named "${label.name}" already exists`
+            );
+          }
+          return await this.labelService.restoreLabel(id);
+        }
+      }
+    } catch (error) {
+      if (error instanceof TrashConflictError) throw error;
+      console.error("Error restoring from trash:", error);
+      throw new Error("Failed to restore from trash");
+    }
+  }
+
+  // Returns false when the item is not in the trash
+  async purge(type: TrashItemType, id: number): Promise<boolean> {
+    try {
+      switch (type) {
+        case "tasks":
+          return await this.taskService.purgeTask(id);
+        case "lists":
+          return await this.purgeList(id);
+        case "labels":
+          return await this.purgeLabel(id);
+      }
+    } catch (error) {
+      console.error("Error purging from trash:", error);
+      throw new Error("Failed to purge from trash");
+    }
+  }
+
+  async emptyTrash(): Promise<number> {
+    return this.purgeDeletedBefore(new Date().toISOString());
+  }
+
+  // Purge everything trashed longer than the retention period ago
+  async purgeExpired(
+    retentionDays: number = getTrashRetentionDays()
+  ): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 86400000);
+    return this.purgeDeletedBefore(cutoff.toISOString());
+  }
+
+  private async purgeDeletedBefore(cutoff: string): Promise<number> {
+    try {
+      const [expiredTasks, expiredLists, expiredLabels] = await Promise.all([
+        db
+          .select({ id: tasks.id })
+          .from(tasks)
+          .where(lt(tasks.deletedAt, cutoff))
+          .all() as Promise<{ id: number }[]>,
+        db
+          .select({ id: lists.id })
+          .from(lists)
+          .where(lt(lists.deletedAt, cutoff))
+          .all() as Promise<{ id: number }[]>,
+        db
+          .select({ id: labels.id })
+          .from(labels)
+          .where(lt(labels.deletedAt, cutoff))
+          .all() as Promise<{ id: number }[]>,
+      ]);
+
+      let purged = 0;
+      for (const task of expiredTasks) {
+        if (await this.taskService.purgeTask(task.id)) purged++;
+      }
+      for (const list of expiredLists) {
+        if (await this.purgeList(list.id)) purged++;
+      }
+      for (const label of expiredLabels) {
+        if (await this.purgeLabel(label.id)) purged++;
+      }
+      return purged;
+    } catch (error) {
+      console.error("Error purging trash:", error);
+      throw new Error("Failed to purge trash");
+    }
+  }
+
+  // A trashed list takes the trashed tasks still pointing at it along
+  private async purgeList(id: number): Promise<boolean> {
+    const listTasks = (await db
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.listId, id), isNotNull(tasks.deletedAt)))
+      .all()) as { id: number }[];
+    for (const task of listTasks) {
+      await this.taskService.purgeTask(task.id);
+    }
+
+    const result = await db
+      .delete(lists)
+      .where(and(eq(lists.id, id), isNotNull(lists.deletedAt)))
+      .run();
+    if (result.changes === 0) return false;
+
+    await db.delete(listSections).where(eq(listSections.listId, id)).run();
+    await this.customFieldService.deleteFieldsForList(id);
+    return true;
+  }
+
+  private async purgeLabel(id: number): Promise<boolean> {
+    const result = await db
+      .delete(labels)
+      .where(and(eq(labels.id, id), isNotNull(labels.deletedAt)))
+      .run();
+    if (result.changes === 0) return false;
+
+    await db.delete(taskLabels).where(eq(taskLabels.labelId, id)).run();
+    return true;
+  }
+
+  private async isNameTaken(
+    table: typeof lists | typeof labels,
+    name: string
+  ): Promise<boolean> {
+    const existing = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(eq(table.name, name), isNull(table.deletedAt)))
+      .get();
+    return existing !== undefined;
+  }
+}
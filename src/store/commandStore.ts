@@ -0,0 +1,116 @@
+import { create } from "zustand";
+import { Command, CommandOption } from "@/lib/commands";
+import { TaskWithRelations } from "@/types/task";
+
+const MAX_TASK_RESULTS = 10;
+
+// The options of a command asking for a value, shown instead of the
+// commands
+export interface CommandPage {
+  title: string;
+  options: CommandOption[];
+}
+
+interface CommandState {
+  commands: Command[];
+  isOpen: boolean;
+  page: CommandPage | null;
+  taskQuery: string;
+  taskResults: TaskWithRelations[]; // Tasks matching taskQuery
+
+  setOpen: (isOpen: boolean) => void;
+  setPage: (page: CommandPage | null) => void;
+  // Adds commands, replacing those with the same ids; the returned
+  // function removes them again
+  registerCommands: (commands: Command[]) => () => void;
+  // Runs a command, or opens the palette on its options; task commands
+  // need the task
+  runCommand: (id: string, task?: TaskWithRelations) => void;
+  searchTasks: (query: string) => Promise<void>;
+}
+
+export const useCommandStore = create<CommandState>()((set, get) => ({
+  commands: [],
+  isOpen: false,
+  page: null,
+  taskQuery: "",
+  taskResults: [],
+
+  setOpen: (isOpen) => {
+    set(isOpen ? { isOpen } : { isOpen, page: null });
+  },
+
+  setPage: (page) => {
+    set({ page });
+  },
+
+  registerCommands: (commands) => {
+    const ids = new Set(commands.map((command) => command.id));
+    set((state) => ({
+      commands: [
+        ...state.commands.filter((command) => !ids.has(command.id)),
+        ...commands,
+      ],
+    }));
+
+    return () => {
+      set((state) => ({
+        commands: state.commands.filter(
+          (command) => !commands.includes(command)
+        ),
+      }));
+    };
+  },
+
+  runCommand: (id, task) => {
+    const command = get().commands.find((item) => item.id === id);
+    if (!command) return;
+
+    let options: CommandOption[] | undefined;
+    let run: (() => void | Promise<void>) | undefined;
+    if (command.forTask) {
+      if (!task) return;
+      options = command.getOptions?.(task);
+      run = command.run && (() => command.run?.(task));
+    } else {
+      options = command.getOptions?.();
+      run = command.run;
+    }
+
+    if (options) {
+      set({ isOpen: true, page: { title: command.title, options } });
+      return;
+    }
+    set({ isOpen: false, page: null });
+    void run?.();
+  },
+
+  searchTasks: async (query) => {
+    set({ taskQuery: query });
+    if (!query.trim()) {
+      set({ taskResults: [] });
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({
+        q: query,
+        type: "tasks",
+        limit: String(MAX_TASK_RESULTS),
+      });
+      const response = await fetch(`/api/search?${params.toString()}`);
+      // Half-typed queries, such as an open quote, are rejected
+      const results: TaskWithRelations[] = response.ok
+        ? await response.json()
+        : [];
+
+      // A later search may have finished first
+      if (get().taskQuery === query) {
+        set({ taskResults: results });
+      }
+    } catch (error) {
+      console.error("Task search failed:", error);
+      set({ taskResults: [] });
+    }
+  },
+}));
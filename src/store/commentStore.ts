@@ -0,0 +1,147 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { TaskActivity, TaskComment } from "@/types/task";
+
+// The activity streams of the tasks opened so far, keyed by task ID. Each
+// change to a comment fetches the task's stream again, so that it stays in
+// the server's order.
+interface CommentState {
+  activityByTask: Record<number, TaskActivity[]>;
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+
+  // API operations
+  fetchActivity: (taskId: number) => Promise<void>;
+  addComment: (taskId: number, body: string) => Promise<void>;
+  editComment: (comment: TaskComment, body: string) => Promise<void>;
+  deleteComment: (comment: TaskComment) => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+const getCommentUrl = (comment: TaskComment) =>
+  `/api/tasks/${comment.taskId}/comments/${comment.id}`;
+
+export const useCommentStore = create<CommentState>()(
+  immer((set, get) => ({
+    // Initial state
+    activityByTask: {},
+    loading: "idle",
+    error: null,
+
+    // Actions
+    fetchActivity: async (taskId) => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/activity`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch task activity");
+        }
+        const activity: TaskActivity[] = await response.json();
+
+        set((state) => {
+          state.activityByTask[taskId] = activity;
+          state.loading = "success";
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch task activity";
+        });
+      }
+    },
+
+    addComment: async (taskId, body) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/comments`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ body }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to add comment");
+        }
+
+        await get().fetchActivity(taskId);
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to add comment";
+        });
+      }
+    },
+
+    editComment: async (comment, body) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getCommentUrl(comment), {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ body }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to edit comment");
+        }
+
+        await get().fetchActivity(comment.taskId);
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to edit comment";
+        });
+      }
+    },
+
+    deleteComment: async (comment) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getCommentUrl(comment), {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete comment");
+        }
+
+        await get().fetchActivity(comment.taskId);
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to delete comment";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
@@ -0,0 +1,202 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import {
+  CustomField,
+  CustomFieldFormData,
+  CustomFieldUpdate,
+} from "@/types/task";
+import { useTaskStore } from "./taskStore";
+import { useViewStore } from "./viewStore";
+
+interface EntityState<T> {
+  byId: Record<number, T>;
+  allIds: number[];
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+// Custom fields of every list fetched so far, keyed by field ID
+interface CustomFieldState extends EntityState<CustomField> {
+  // API operations
+  fetchFields: (listId: number) => Promise<void>;
+  createField: (listId: number, data: CustomFieldFormData) => Promise<void>;
+  updateField: (id: number, updates: CustomFieldUpdate) => Promise<void>;
+  deleteField: (id: number) => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+const getFieldUrl = (field: CustomField) =>
+  `/api/lists/${field.listId}/fields/${field.id}`;
+
+// Tasks lose the values of deleted fields and of removed select options
+const refreshTasks = async () => {
+  await useTaskStore.getState().fetchTasks();
+  await useViewStore.getState().refreshAllViews();
+};
+
+export const useCustomFieldStore = create<CustomFieldState>()(
+  immer((set, get) => ({
+    // Initial state
+    byId: {},
+    allIds: [],
+    loading: "idle",
+    error: null,
+    lastUpdated: null,
+
+    // Actions
+    fetchFields: async (listId) => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/lists/${listId}/fields`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch custom fields");
+        }
+        const fields: CustomField[] = await response.json();
+
+        set((state) => {
+          state.loading = "success";
+          state.lastUpdated = Date.now();
+
+          // Replace the fields of this list only
+          state.allIds = state.allIds.filter((id) => {
+            if (state.byId[id].listId !== listId) return true;
+            delete state.byId[id];
+            return false;
+          });
+          fields.forEach((field) => {
+            state.byId[field.id] = field;
+            state.allIds.push(field.id);
+          });
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch custom fields";
+        });
+      }
+    },
+
+    createField: async (listId, data) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/lists/${listId}/fields`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to create custom field");
+        }
+
+        const newField: CustomField = await response.json();
+
+        set((state) => {
+          state.byId[newField.id] = newField;
+          state.allIds.push(newField.id);
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to create custom field";
+        });
+      }
+    },
+
+    updateField: async (id, updates) => {
+      const field = get().byId[id];
+      if (!field) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getFieldUrl(field), {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to update custom field");
+        }
+
+        const updatedField: CustomField = await response.json();
+
+        set((state) => {
+          state.byId[id] = updatedField;
+        });
+
+        if (updates.options) await refreshTasks();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to update custom field";
+        });
+      }
+    },
+
+    deleteField: async (id) => {
+      const field = get().byId[id];
+      if (!field) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getFieldUrl(field), {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete custom field");
+        }
+
+        set((state) => {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter((fieldId) => fieldId !== id);
+        });
+
+        await refreshTasks();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to delete custom field";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
@@ -0,0 +1,217 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { ListFolder, ListTree, Placement } from "@/types/task";
+import { useListStore } from "./listStore";
+
+interface EntityState<T> {
+  byId: Record<number, T>;
+  allIds: number[];
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+// Sidebar folders, archived ones included
+interface FolderState extends EntityState<ListFolder> {
+  // Open tasks by list ID, for the counts next to each list
+  listTaskCounts: Record<number, number>;
+
+  // API operations
+  fetchFolders: () => Promise<void>;
+  createFolder: (name: string) => Promise<void>;
+  updateFolder: (
+    id: number,
+    updates: { name?: string; archived?: boolean }
+  ) => Promise<void>;
+  deleteFolder: (id: number) => Promise<void>;
+  moveFolder: (id: number, placement: Placement) => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export const useFolderStore = create<FolderState>()(
+  immer((set) => ({
+    // Initial state
+    byId: {},
+    allIds: [],
+    listTaskCounts: {},
+    loading: "idle",
+    error: null,
+    lastUpdated: null,
+
+    // Actions
+    fetchFolders: async () => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/lists?groupBy=folder");
+        if (!response.ok) {
+          throw new Error("Failed to fetch folders");
+        }
+        const listTree: ListTree = await response.json();
+
+        set((state) => {
+          state.loading = "success";
+          state.lastUpdated = Date.now();
+
+          state.byId = {};
+          state.allIds = [];
+          state.listTaskCounts = {};
+          listTree.folders.forEach(({ lists, ...folder }) => {
+            state.byId[folder.id] = folder;
+            state.allIds.push(folder.id);
+            lists.forEach((list) => {
+              state.listTaskCounts[list.id] = list.taskCount;
+            });
+          });
+          listTree.lists.forEach((list) => {
+            state.listTaskCounts[list.id] = list.taskCount;
+          });
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error ? error.message : "Failed to fetch folders";
+        });
+      }
+    },
+
+    createFolder: async (name) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/folders", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ name }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to create folder");
+        }
+
+        const newFolder: ListFolder = await response.json();
+
+        set((state) => {
+          state.byId[newFolder.id] = newFolder;
+          state.allIds.push(newFolder.id);
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to create folder";
+        });
+      }
+    },
+
+    updateFolder: async (id, updates) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/folders/${id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to update folder");
+        }
+
+        const updatedFolder: ListFolder = await response.json();
+
+        set((state) => {
+          state.byId[id] = updatedFolder;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to update folder";
+        });
+      }
+    },
+
+    deleteFolder: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/folders/${id}`, {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete folder");
+        }
+
+        set((state) => {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter((folderId) => folderId !== id);
+        });
+
+        // Its lists were taken out of the folder
+        await useListStore.getState().fetchLists();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to delete folder";
+        });
+      }
+    },
+
+    moveFolder: async (id, placement) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/folders/${id}/position`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(placement),
+        });
+
+        // Neighbours reordered in another tab are reported by the API
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move folder");
+        }
+
+        const movedFolder: ListFolder = await response.json();
+
+        set((state) => {
+          state.byId[id] = movedFolder;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to move folder";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
@@ -0,0 +1,117 @@
+import { create } from "zustand";
+import { useUIStore } from "./uiStore";
+
+const MAX_HISTORY = 50;
+const UNDO_TOAST_DURATION = 6000;
+
+// A recorded mutation together with the operations that revert and repeat it
+export interface HistoryEntry {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  isReplaying: boolean;
+
+  record: (entry: HistoryEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryState>()((set, get) => ({
+  past: [],
+  future: [],
+  isReplaying: false,
+
+  record: (entry) => {
+    // Mutations made while undoing or redoing are not new history
+    if (get().isReplaying) return;
+
+    set((state) => ({
+      past: [...state.past, entry].slice(-MAX_HISTORY),
+      future: [],
+    }));
+
+    useUIStore.getState().addNotification({
+      type: "info",
+      message: entry.label,
+      duration: UNDO_TOAST_DURATION,
+      actions: [
+        {
+          label: "Undo",
+          onClick: () => {
+            // Only the latest change can be undone from its toast
+            const { past } = get();
+            if (past[past.length - 1] === entry) {
+              void get().undo();
+            }
+          },
+        },
+      ],
+    });
+  },
+
+  undo: async () => {
+    const { past, isReplaying } = get();
+    const entry = past[past.length - 1];
+    if (!entry || isReplaying) return;
+
+    if (!(await replay(entry, "undo"))) return;
+    set((state) => ({
+      past: state.past.slice(0, -1),
+      future: [...state.future, entry],
+    }));
+    useUIStore.getState().addNotification({
+      type: "info",
+      message: `Undone: ${entry.label}`,
+      duration: UNDO_TOAST_DURATION,
+    });
+  },
+
+  redo: async () => {
+    const { future, isReplaying } = get();
+    const entry = future[future.length - 1];
+    if (!entry || isReplaying) return;
+
+    if (!(await replay(entry, "redo"))) return;
+    set((state) => ({
+      past: [...state.past, entry],
+      future: state.future.slice(0, -1),
+    }));
+    useUIStore.getState().addNotification({
+      type: "info",
+      message: `Redone: ${entry.label}`,
+      duration: UNDO_TOAST_DURATION,
+    });
+  },
+
+  clear: () => {
+    set({ past: [], future: [] });
+  },
+}));
+
+// A failed replay keeps the entry where it was so it can be retried
+const replay = async (
+  entry: HistoryEntry,
+  direction: "undo" | "redo"
+): Promise<boolean> => {
+  useHistoryStore.setState({ isReplaying: true });
+  try {
+    await entry[direction]();
+    return true;
+  } catch (error) {
+    useUIStore.getState().addNotification({
+      type: "error",
+      message:
+        error instanceof Error ? error.message : `Failed to ${direction}`,
+      duration: UNDO_TOAST_DURATION,
+    });
+    return false;
+  } finally {
+    useHistoryStore.setState({ isReplaying: false });
+  }
+};
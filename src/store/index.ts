@@ -6,6 +6,8 @@ export { useUIStore } from "./uiStore";
 export { useSearchStore } from "./searchStore";
 export { useViewStore } from "./viewStore";
 export { useFormStore } from "./formStore";
+export { useHistoryStore } from "./historyStore";
+export { useTrashStore } from "./trashStore";
 
 // Import services for API integration
 export { TaskService } from "@/services/task-service";
@@ -2,6 +2,8 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
 import { Label } from "@/types/task";
+import { LabelEvent } from "@/types/api";
+import { useHistoryStore } from "./historyStore";
 import { validateLabel, validateLabelField } from "@/lib/validation";
 
 interface EntityState<T> {
@@ -29,6 +31,7 @@ interface LabelState extends EntityState<Label> {
   createLabel: (label: Omit<Label, "id" | "createdAt">) => Promise<void>;
   updateLabel: (id: number, updates: Partial<Label>) => Promise<void>;
   deleteLabel: (id: number) => Promise<void>;
+  restoreLabel: (id: number) => Promise<void>;
 
   // Form operations
   setFormError: (field: string, error: string) => void;
@@ -41,6 +44,9 @@ interface LabelState extends EntityState<Label> {
 
   // Clear error
   clearError: () => void;
+
+  // Real-time sync
+  applyLabelEvent: (event: LabelEvent) => void;
 }
 
 export const useLabelStore = create<LabelState>()(
@@ -130,6 +136,12 @@ export const useLabelStore = create<LabelState>()(
             state.form.errors = {};
             state.form.touched = {};
           });
+
+          useHistoryStore.getState().record({
+            label: `Created label "${newLabel.name}"`,
+            undo: () => replayAction(() => get().deleteLabel(newLabel.id)),
+            redo: () => replayAction(() => get().restoreLabel(newLabel.id)),
+          });
         } catch (error) {
           set((state) => {
             state.form.isSubmitting = false;
@@ -171,6 +183,19 @@ export const useLabelStore = create<LabelState>()(
             state.form.errors = {};
             state.form.touched = {};
           });
+
+          const previousValues = Object.fromEntries(
+            Object.keys(updates).map((key) => [
+              key,
+              currentLabel[key as keyof Label],
+            ])
+          ) as Partial<Label>;
+          useHistoryStore.getState().record({
+            label: `Edited label "${currentLabel.name}"`,
+            undo: () =>
+              replayAction(() => get().updateLabel(id, previousValues)),
+            redo: () => replayAction(() => get().updateLabel(id, updates)),
+          });
         } catch (error) {
           set((state) => {
             state.form.isSubmitting = false;
@@ -181,6 +206,8 @@ export const useLabelStore = create<LabelState>()(
       },
 
       deleteLabel: async (id) => {
+        const deletedLabel = get().byId[id];
+
         set((state) => {
           state.loading = "loading";
           state.error = null;
@@ -207,6 +234,14 @@ export const useLabelStore = create<LabelState>()(
               state.selectedLabelId = null;
             }
           });
+
+          if (deletedLabel) {
+            useHistoryStore.getState().record({
+              label: `Deleted label "${deletedLabel.name}"`,
+              undo: () => replayAction(() => get().restoreLabel(id)),
+              redo: () => replayAction(() => get().deleteLabel(id)),
+            });
+          }
         } catch (error) {
           set((state) => {
             state.loading = "error";
@@ -216,6 +251,38 @@ export const useLabelStore = create<LabelState>()(
         }
       },
 
+      restoreLabel: async (id) => {
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/trash/labels/${id}`, {
+            method: "POST",
+          });
+
+          // A name clash with a label created since is reported by the API
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? "Failed to restore label");
+          }
+
+          const restoredLabel = await response.json();
+
+          set((state) => {
+            if (!state.byId[restoredLabel.id]) {
+              state.allIds.push(restoredLabel.id);
+            }
+            state.byId[restoredLabel.id] = restoredLabel;
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error ? error.message : "Failed to restore label";
+          });
+        }
+      },
+
       setFormError: (field, error) => {
         set((state) => {
           state.form.errors[field] = error;
@@ -264,6 +331,27 @@ export const useLabelStore = create<LabelState>()(
           state.error = null;
         });
       },
+
+      applyLabelEvent: (event) => {
+        const label = event.data;
+        set((state) => {
+          if (event.type === "label_deleted") {
+            delete state.byId[label.id];
+            state.allIds = state.allIds.filter(
+              (labelId: number) => labelId !== label.id
+            );
+            if (state.selectedLabelId === label.id) {
+              state.selectedLabelId = null;
+            }
+            return;
+          }
+
+          if (!state.byId[label.id]) {
+            state.allIds.push(label.id);
+          }
+          state.byId[label.id] = label;
+        });
+      },
     }),
   )
 );
@@ -271,6 +359,15 @@ export const useLabelStore = create<LabelState>()(
 // Helper function to get store state (for use in actions)
 const get = () => useLabelStore.getState();
 
+// Store actions report failures through `error`; history needs them thrown
+const replayAction = async (action: () => Promise<void>) => {
+  await action();
+  const { error } = get();
+  if (error) {
+    throw new Error(error);
+  }
+};
+
 // Helper function for partial validation
 function validateLabelPartial(updates: Partial<Label>): Partial<Label> {
   const errors: Record<string, string> = {};
@@ -1,7 +1,12 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import { immer } from "zustand/middleware/immer";
-import { List } from "@/types/task";
+import { DuplicateListOptions, List, Placement } from "@/types/task";
+import { ListEvent } from "@/types/api";
+import { useHistoryStore } from "./historyStore";
+import { useTaskStore } from "./taskStore";
+import { useViewStore } from "./viewStore";
+import { getPlacement, sortByPosition } from "@/lib/ordering";
 import { validateList, validateListField } from "@/lib/validation";
 
 interface EntityState<T> {
@@ -31,6 +36,11 @@ interface ListState extends EntityState<List> {
   ) => Promise<void>;
   updateList: (id: number, updates: Partial<List>) => Promise<void>;
   deleteList: (id: number) => Promise<void>;
+  restoreList: (id: number) => Promise<void>;
+  moveList: (id: number, placement: Placement) => Promise<void>;
+  moveListToFolder: (id: number, folderId: number | null) => Promise<void>;
+  setListArchived: (id: number, archived: boolean) => Promise<void>;
+  duplicateList: (id: number, options?: DuplicateListOptions) => Promise<void>;
 
   // Form operations
   setFormError: (field: string, error: string) => void;
@@ -43,6 +53,9 @@ interface ListState extends EntityState<List> {
 
   // Clear error
   clearError: () => void;
+
+  // Real-time sync
+  applyListEvent: (event: ListEvent) => void;
 }
 
 export const useListStore = create<ListState>()(
@@ -132,6 +145,12 @@ export const useListStore = create<ListState>()(
             state.form.errors = {};
             state.form.touched = {};
           });
+
+          useHistoryStore.getState().record({
+            label: `Created list "${newList.name}"`,
+            undo: () => replayAction(() => get().deleteList(newList.id)),
+            redo: () => replayAction(() => get().restoreList(newList.id)),
+          });
         } catch (error) {
           set((state) => {
             state.form.isSubmitting = false;
@@ -173,6 +192,19 @@ export const useListStore = create<ListState>()(
             state.form.errors = {};
             state.form.touched = {};
           });
+
+          const previousValues = Object.fromEntries(
+            Object.keys(updates).map((key) => [
+              key,
+              currentList[key as keyof List],
+            ])
+          ) as Partial<List>;
+          useHistoryStore.getState().record({
+            label: `Edited list "${currentList.name}"`,
+            undo: () =>
+              replayAction(() => get().updateList(id, previousValues)),
+            redo: () => replayAction(() => get().updateList(id, updates)),
+          });
         } catch (error) {
           set((state) => {
             state.form.isSubmitting = false;
@@ -183,6 +215,8 @@ export const useListStore = create<ListState>()(
       },
 
       deleteList: async (id) => {
+        const deletedList = get().byId[id];
+
         set((state) => {
           state.loading = "loading";
           state.error = null;
@@ -209,6 +243,14 @@ export const useListStore = create<ListState>()(
               state.selectedListId = null;
             }
           });
+
+          if (deletedList) {
+            useHistoryStore.getState().record({
+              label: `Deleted list "${deletedList.name}"`,
+              undo: () => replayAction(() => get().restoreList(id)),
+              redo: () => replayAction(() => get().deleteList(id)),
+            });
+          }
         } catch (error) {
           set((state) => {
             state.loading = "error";
@@ -218,6 +260,224 @@ export const useListStore = create<ListState>()(
         }
       },
 
+      restoreList: async (id) => {
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/trash/lists/${id}`, {
+            method: "POST",
+          });
+
+          // A name clash with a list created since is reported by the API
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? "Failed to restore list");
+          }
+
+          const restoredList = await response.json();
+
+          set((state) => {
+            if (!state.byId[restoredList.id]) {
+              state.allIds.push(restoredList.id);
+            }
+            state.byId[restoredList.id] = restoredList;
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error ? error.message : "Failed to restore list";
+          });
+        }
+      },
+
+      moveList: async (id, placement) => {
+        const currentList = get().byId[id];
+        if (!currentList) return;
+        const previousPlacement = getPlacement(
+          sortByPosition(Object.values(get().byId)),
+          id
+        );
+
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/lists/${id}/position`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(placement),
+          });
+
+          // Neighbours reordered in another tab are reported by the API
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? "Failed to move list");
+          }
+
+          const movedList = await response.json();
+
+          set((state) => {
+            state.byId[id] = { ...currentList, ...movedList };
+          });
+
+          useHistoryStore.getState().record({
+            label: `Moved list "${currentList.name}"`,
+            undo: () =>
+              replayAction(() => get().moveList(id, previousPlacement)),
+            redo: () => replayAction(() => get().moveList(id, placement)),
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error ? error.message : "Failed to move list";
+          });
+        }
+      },
+
+      moveListToFolder: async (id, folderId) => {
+        const currentList = get().byId[id];
+        if (!currentList) return;
+        const previousFolderId = currentList.folderId ?? null;
+        if (previousFolderId === folderId) return;
+
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/lists/${id}/folder`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ folderId }),
+          });
+
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? "Failed to move list");
+          }
+
+          const movedList = await response.json();
+
+          set((state) => {
+            state.byId[id] = { ...currentList, ...movedList };
+          });
+
+          useHistoryStore.getState().record({
+            label: `Moved list "${currentList.name}"`,
+            undo: () =>
+              replayAction(() => get().moveListToFolder(id, previousFolderId)),
+            redo: () =>
+              replayAction(() => get().moveListToFolder(id, folderId)),
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error ? error.message : "Failed to move list";
+          });
+        }
+      },
+
+      setListArchived: async (id, archived) => {
+        const currentList = get().byId[id];
+        if (!currentList) return;
+
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/lists/${id}`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ archived }),
+          });
+
+          if (!response.ok) {
+            throw new Error(
+              archived ? "Failed to archive list" : "Failed to unarchive list"
+            );
+          }
+
+          const updatedList = await response.json();
+
+          set((state) => {
+            state.byId[id] = { ...currentList, ...updatedList };
+          });
+
+          // The list's tasks are hidden from or back in the views
+          void useTaskStore.getState().fetchTasks();
+          void useViewStore.getState().refreshAllViews();
+
+          const action = archived ? "Archived" : "Unarchived";
+          useHistoryStore.getState().record({
+            label: `${action} list "${currentList.name}"`,
+            undo: () =>
+              replayAction(() => get().setListArchived(id, !archived)),
+            redo: () => replayAction(() => get().setListArchived(id, archived)),
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error ? error.message : "Failed to archive list";
+          });
+        }
+      },
+
+      duplicateList: async (id, options = {}) => {
+        set((state) => {
+          state.error = null;
+        });
+
+        try {
+          const response = await fetch(`/api/lists/${id}/duplicate`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(options),
+          });
+
+          // A name already in use is reported by the API
+          if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? "Failed to duplicate list");
+          }
+
+          const newList = await response.json();
+
+          set((state) => {
+            if (!state.byId[newList.id]) {
+              state.allIds.push(newList.id);
+            }
+            state.byId[newList.id] = newList;
+          });
+
+          void useTaskStore.getState().fetchTasks();
+
+          useHistoryStore.getState().record({
+            label: `Duplicated list "${newList.name}"`,
+            undo: () => replayAction(() => get().deleteList(newList.id)),
+            redo: () => replayAction(() => get().restoreList(newList.id)),
+          });
+        } catch (error) {
+          set((state) => {
+            state.error =
+              error instanceof Error
+                ? error.message
+                : "Failed to duplicate list";
+          });
+        }
+      },
+
       setFormError: (field, error) => {
         set((state) => {
           state.form.errors[field] = error;
@@ -266,6 +526,27 @@ export const useListStore = create<ListState>()(
           state.error = null;
         });
       },
+
+      applyListEvent: (event) => {
+        const list = event.data;
+        set((state) => {
+          if (event.type === "list_deleted") {
+            delete state.byId[list.id];
+            state.allIds = state.allIds.filter(
+              (listId: number) => listId !== list.id
+            );
+            if (state.selectedListId === list.id) {
+              state.selectedListId = null;
+            }
+            return;
+          }
+
+          if (!state.byId[list.id]) {
+            state.allIds.push(list.id);
+          }
+          state.byId[list.id] = list;
+        });
+      },
     }),
   )
 );
@@ -273,6 +554,15 @@ export const useListStore = create<ListState>()(
 // Helper function to get store state (for use in actions)
 const get = () => useListStore.getState();
 
+// Store actions report failures through `error`; history needs them thrown
+const replayAction = async (action: () => Promise<void>) => {
+  await action();
+  const { error } = get();
+  if (error) {
+    throw new Error(error);
+  }
+};
+
 // Helper function for partial validation
 function validateListPartial(updates: Partial<List>): Partial<List> {
   const errors: Record<string, string> = {};
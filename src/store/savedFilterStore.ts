@@ -0,0 +1,185 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { SavedFilter, SavedFilterFormData } from "@/types/task";
+
+interface EntityState<T> {
+  byId: Record<number, T>;
+  allIds: number[];
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+interface SavedFilterState extends EntityState<SavedFilter> {
+  // API operations
+  fetchSavedFilters: () => Promise<void>;
+  createSavedFilter: (
+    filter: SavedFilterFormData
+  ) => Promise<SavedFilter | undefined>;
+  updateSavedFilter: (
+    id: number,
+    updates: Partial<SavedFilterFormData>
+  ) => Promise<void>;
+  deleteSavedFilter: (id: number) => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+// Read the API error message so invalid search queries can be shown
+async function getErrorMessage(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null);
+  return typeof body?.error === "string" ? body.error : fallback;
+}
+
+export const useSavedFilterStore = create<SavedFilterState>()(
+  immer((set) => ({
+    // Initial state
+    byId: {},
+    allIds: [],
+    loading: "idle",
+    error: null,
+    lastUpdated: null,
+
+    // Actions
+    fetchSavedFilters: async () => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/saved-filters");
+        if (!response.ok) {
+          throw new Error("Failed to fetch saved filters");
+        }
+        const filters = await response.json();
+
+        set((state) => {
+          state.loading = "success";
+          state.error = null;
+          state.lastUpdated = Date.now();
+
+          state.byId = {};
+          state.allIds = [];
+
+          filters.forEach((filter: SavedFilter) => {
+            state.byId[filter.id] = filter;
+            state.allIds.push(filter.id);
+          });
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch saved filters";
+        });
+      }
+    },
+
+    createSavedFilter: async (filterData) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/saved-filters", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(filterData),
+        });
+
+        if (!response.ok) {
+          throw new Error(
+            await getErrorMessage(response, "Failed to save filter")
+          );
+        }
+
+        const newFilter: SavedFilter = await response.json();
+
+        set((state) => {
+          state.byId[newFilter.id] = newFilter;
+          state.allIds.push(newFilter.id);
+        });
+        return newFilter;
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to save filter";
+        });
+        return undefined;
+      }
+    },
+
+    updateSavedFilter: async (id, updates) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/saved-filters/${id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          throw new Error(
+            await getErrorMessage(response, "Failed to update filter")
+          );
+        }
+
+        const updatedFilter: SavedFilter = await response.json();
+
+        set((state) => {
+          state.byId[id] = updatedFilter;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to update filter";
+        });
+      }
+    },
+
+    deleteSavedFilter: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/saved-filters/${id}`, {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete filter");
+        }
+
+        set((state) => {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter(
+            (filterId: number) => filterId !== id
+          );
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to delete filter";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
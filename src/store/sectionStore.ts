@@ -0,0 +1,258 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { ListSection, Placement } from "@/types/task";
+import { useTaskStore } from "./taskStore";
+
+interface EntityState<T> {
+  byId: Record<number, T>;
+  allIds: number[];
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+// Sections of every list fetched so far, keyed by section ID
+interface SectionState extends EntityState<ListSection> {
+  // API operations
+  fetchSections: (listId: number) => Promise<void>;
+  createSection: (listId: number, name: string) => Promise<void>;
+  renameSection: (id: number, name: string) => Promise<void>;
+  deleteSection: (id: number) => Promise<void>;
+  moveSection: (id: number, placement: Placement) => Promise<void>;
+  moveSectionToList: (id: number, listId: number) => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+const getSectionUrl = (section: ListSection) =>
+  `/api/lists/${section.listId}/sections/${section.id}`;
+
+export const useSectionStore = create<SectionState>()(
+  immer((set, get) => ({
+    // Initial state
+    byId: {},
+    allIds: [],
+    loading: "idle",
+    error: null,
+    lastUpdated: null,
+
+    // Actions
+    fetchSections: async (listId) => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/lists/${listId}/sections`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch sections");
+        }
+        const sections: ListSection[] = await response.json();
+
+        set((state) => {
+          state.loading = "success";
+          state.lastUpdated = Date.now();
+
+          // Replace the sections of this list only
+          state.allIds = state.allIds.filter((id) => {
+            if (state.byId[id].listId !== listId) return true;
+            delete state.byId[id];
+            return false;
+          });
+          sections.forEach((section) => {
+            state.byId[section.id] = section;
+            state.allIds.push(section.id);
+          });
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error ? error.message : "Failed to fetch sections";
+        });
+      }
+    },
+
+    createSection: async (listId, name) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/lists/${listId}/sections`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ name }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to create section");
+        }
+
+        const newSection: ListSection = await response.json();
+
+        set((state) => {
+          state.byId[newSection.id] = newSection;
+          state.allIds.push(newSection.id);
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to create section";
+        });
+      }
+    },
+
+    renameSection: async (id, name) => {
+      const section = get().byId[id];
+      if (!section) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getSectionUrl(section), {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ name }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to rename section");
+        }
+
+        const updatedSection: ListSection = await response.json();
+
+        set((state) => {
+          state.byId[id] = updatedSection;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to rename section";
+        });
+      }
+    },
+
+    deleteSection: async (id) => {
+      const section = get().byId[id];
+      if (!section) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getSectionUrl(section), {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete section");
+        }
+
+        set((state) => {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter((sectionId) => sectionId !== id);
+        });
+
+        // Its tasks are left without a section
+        await useTaskStore.getState().fetchTasks();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to delete section";
+        });
+      }
+    },
+
+    moveSection: async (id, placement) => {
+      const section = get().byId[id];
+      if (!section) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`${getSectionUrl(section)}/position`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(placement),
+        });
+
+        // Neighbours reordered in another tab are reported by the API
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move section");
+        }
+
+        const movedSection: ListSection = await response.json();
+
+        set((state) => {
+          state.byId[id] = movedSection;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to move section";
+        });
+      }
+    },
+
+    moveSectionToList: async (id, listId) => {
+      const section = get().byId[id];
+      if (!section) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`${getSectionUrl(section)}/move`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ listId }),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move section");
+        }
+
+        const movedSection: ListSection = await response.json();
+
+        set((state) => {
+          state.byId[id] = movedSection;
+        });
+
+        // Its tasks moved to the other list as well
+        await useTaskStore.getState().fetchTasks();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to move section";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
@@ -0,0 +1,136 @@
+import { create } from "zustand";
+import { KeyMap } from "@/lib/shortcuts";
+import { TaskWithRelations } from "@/types/task";
+
+type Handler = () => void;
+
+// A task list on screen, which list shortcuts move through and act on
+export interface ShortcutTaskList {
+  element: HTMLElement;
+  tasks: TaskWithRelations[]; // In the order shown
+  onToggle?: (task: TaskWithRelations) => void;
+  onEdit?: (task: TaskWithRelations) => void;
+}
+
+interface ShortcutState {
+  keyMap: KeyMap;
+  // Handlers by shortcut ID; the last one registered runs, so a dialog
+  // opened over another one closes first
+  handlers: Record<string, Handler[]>;
+  openForms: number;
+  openModals: number;
+  taskLists: ShortcutTaskList[];
+  isHelpOpen: boolean;
+  error: string | null;
+
+  // Each returns a function undoing it
+  registerHandlers: (handlers: Record<string, Handler>) => () => void;
+  enterScope: (scope: "form" | "modal") => () => void;
+  registerTaskList: (list: ShortcutTaskList) => () => void;
+
+  setHelpOpen: (isHelpOpen: boolean) => void;
+  fetchKeyMap: () => Promise<void>;
+  // Gives a shortcut another key, or its default one back with null
+  setKey: (id: string, key: string | null) => Promise<void>;
+}
+
+async function saveKeyMap(keyMap: KeyMap): Promise<KeyMap> {
+  const response = await fetch("/api/preferences", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ shortcuts: keyMap }),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? "Failed to save shortcuts");
+  }
+  return body.shortcuts ?? {};
+}
+
+export const useShortcutStore = create<ShortcutState>()((set, get) => ({
+  keyMap: {},
+  handlers: {},
+  openForms: 0,
+  openModals: 0,
+  taskLists: [],
+  isHelpOpen: false,
+  error: null,
+
+  registerHandlers: (handlers) => {
+    set((state) => {
+      const next = { ...state.handlers };
+      Object.entries(handlers).forEach(([id, handler]) => {
+        next[id] = [...(next[id] ?? []), handler];
+      });
+      return { handlers: next };
+    });
+
+    return () => {
+      set((state) => {
+        const next = { ...state.handlers };
+        Object.entries(handlers).forEach(([id, handler]) => {
+          next[id] = (next[id] ?? []).filter((item) => item !== handler);
+        });
+        return { handlers: next };
+      });
+    };
+  },
+
+  enterScope: (scope) => {
+    const key = scope === "form" ? "openForms" : "openModals";
+    set((state) => ({ [key]: state[key] + 1 }));
+    return () => {
+      set((state) => ({ [key]: state[key] - 1 }));
+    };
+  },
+
+  registerTaskList: (list) => {
+    set((state) => ({ taskLists: [...state.taskLists, list] }));
+    return () => {
+      set((state) => ({
+        taskLists: state.taskLists.filter((item) => item !== list),
+      }));
+    };
+  },
+
+  setHelpOpen: (isHelpOpen) => {
+    set({ isHelpOpen });
+  },
+
+  fetchKeyMap: async () => {
+    try {
+      const response = await fetch("/api/preferences");
+      if (!response.ok) {
+        throw new Error("Failed to fetch shortcuts");
+      }
+      const preferences = await response.json();
+      set({ keyMap: preferences.shortcuts ?? {}, error: null });
+    } catch (error) {
+      set({
+        error:
+          error instanceof Error ? error.message : "Failed to fetch shortcuts",
+      });
+    }
+  },
+
+  setKey: async (id, key) => {
+    const previous = get().keyMap;
+    const keyMap = { ...previous };
+    if (key === null) {
+      delete keyMap[id];
+    } else {
+      keyMap[id] = key;
+    }
+    set({ keyMap, error: null });
+
+    try {
+      set({ keyMap: await saveKeyMap(keyMap) });
+    } catch (error) {
+      set({
+        keyMap: previous,
+        error:
+          error instanceof Error ? error.message : "Failed to save shortcuts",
+      });
+    }
+  },
+}));
@@ -1,6 +1,20 @@
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
-import { Task, TaskWithRelations, TaskFilter, TaskSort } from "@/types/task";
+import {
+  Placement,
+  QuickAddInput,
+  RecurrenceScope,
+  Task,
+  TaskDependency,
+  TaskDestination,
+  TaskUpdate,
+  TaskWithRelations,
+  TaskFilter,
+  TaskSort,
+} from "@/types/task";
+import { TaskEvent } from "@/types/api";
+import { useHistoryStore } from "./historyStore";
+import { getPlacement, sortByPosition } from "@/lib/ordering";
 import {
   validateTask,
   validateTaskPartial,
@@ -40,9 +54,30 @@ export interface TaskState extends EntityState<TaskWithRelations> {
   // API operations
   fetchTasks: () => Promise<void>;
   createTask: (task: Omit<Task, "id">) => Promise<void>;
-  updateTask: (id: number, updates: Partial<Task>) => Promise<void>;
-  deleteTask: (id: number) => Promise<void>;
+  // Resolves to the task, or undefined when it could not be added
+  quickAddTask: (
+    input: QuickAddInput
+  ) => Promise<TaskWithRelations | undefined>;
+  updateTask: (
+    id: number,
+    updates: TaskUpdate,
+    scope?: RecurrenceScope
+  ) => Promise<void>;
+  setTaskLabels: (id: number, labelIds: number[]) => Promise<void>;
+  deleteTask: (id: number, scope?: RecurrenceScope) => Promise<void>;
+  restoreTask: (id: number) => Promise<void>;
   toggleTask: (id: number) => Promise<void>;
+  addDependency: (taskId: number, blockerId: number) => Promise<void>;
+  removeDependency: (taskId: number, blockerId: number) => Promise<void>;
+  convertSubTask: (subTaskId: number) => Promise<void>;
+  promoteTask: (id: number) => Promise<void>;
+  moveTask: (id: number, placement: Placement) => Promise<void>;
+  moveTaskTo: (id: number, destination: TaskDestination) => Promise<void>;
+  moveSubTask: (
+    taskId: number,
+    subTaskId: number,
+    placement: Placement
+  ) => Promise<void>;
 
   // Filtering and sorting operations
   setFilter: (filter: Partial<TaskFilter>) => void;
@@ -60,6 +95,9 @@ export interface TaskState extends EntityState<TaskWithRelations> {
 
   // Clear error
   clearError: () => void;
+
+  // Real-time sync
+  applyTaskEvent: (event: TaskEvent) => void;
 }
 
 export const useTaskStore = create<TaskState>()(
@@ -173,6 +211,12 @@ export const useTaskStore = create<TaskState>()(
           state.form.errors = {};
           state.form.touched = {};
         });
+
+        useHistoryStore.getState().record({
+          label: `Created "${newTask.title}"`,
+          undo: () => replayAction(() => get().deleteTask(newTask.id)),
+          redo: () => replayAction(() => get().restoreTask(newTask.id)),
+        });
       } catch (error) {
         set((state) => {
           state.form.isSubmitting = false;
@@ -182,7 +226,48 @@ export const useTaskStore = create<TaskState>()(
       }
     },
 
-    updateTask: async (id, updates) => {
+    quickAddTask: async (input) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/tasks/quick-add", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to add task");
+        }
+
+        const newTask: TaskWithRelations = await response.json();
+
+        set((state) => {
+          state.byId[newTask.id!] = newTask;
+          state.allIds.unshift(newTask.id!);
+        });
+
+        useHistoryStore.getState().record({
+          label: `Created "${newTask.title}"`,
+          undo: () => replayAction(() => get().deleteTask(newTask.id!)),
+          redo: () => replayAction(() => get().restoreTask(newTask.id!)),
+        });
+        return newTask;
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to add task";
+        });
+        return undefined;
+      }
+    },
+
+    updateTask: async (id, updates, scope) => {
       const currentTask = get().byId[id];
       if (!currentTask) return;
 
@@ -193,7 +278,7 @@ export const useTaskStore = create<TaskState>()(
 
       try {
         const validatedUpdates = validateTaskPartial(updates);
-        const response = await fetch(`/api/tasks/${id}`, {
+        const response = await fetch(getTaskUrl(id, scope), {
           method: "PUT",
           headers: {
             "Content-Type": "application/json",
@@ -214,6 +299,18 @@ export const useTaskStore = create<TaskState>()(
           state.form.errors = {};
           state.form.touched = {};
         });
+
+        // Other instances of the series changed as well
+        if (scope) {
+          await get().fetchTasks();
+        } else {
+          const previousValues = getPreviousValues(currentTask, updates);
+          useHistoryStore.getState().record({
+            label: `Edited "${currentTask.title}"`,
+            undo: () => replayAction(() => get().updateTask(id, previousValues)),
+            redo: () => replayAction(() => get().updateTask(id, updates)),
+          });
+        }
       } catch (error) {
         set((state) => {
           state.form.isSubmitting = false;
@@ -223,14 +320,55 @@ export const useTaskStore = create<TaskState>()(
       }
     },
 
-    deleteTask: async (id) => {
+    setTaskLabels: async (id, labelIds) => {
+      const currentTask = get().byId[id];
+      if (!currentTask) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(getTaskUrl(id), {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ labels: labelIds }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to update labels");
+        }
+
+        const updatedTask = await response.json();
+
+        set((state) => {
+          state.byId[id] = { ...currentTask, ...updatedTask };
+        });
+
+        const previousIds = (currentTask.labels ?? []).map((label) => label.id);
+        useHistoryStore.getState().record({
+          label: `Changed the labels of "${currentTask.title}"`,
+          undo: () => replayAction(() => get().setTaskLabels(id, previousIds)),
+          redo: () => replayAction(() => get().setTaskLabels(id, labelIds)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to update labels";
+        });
+      }
+    },
+
+    deleteTask: async (id, scope) => {
       set((state) => {
         state.loading = "loading";
         state.error = null;
       });
 
       try {
-        const response = await fetch(`/api/tasks/${id}`, {
+        const response = await fetch(getTaskUrl(id, scope), {
           method: "DELETE",
         });
 
@@ -238,6 +376,8 @@ export const useTaskStore = create<TaskState>()(
           throw new Error("Failed to delete task");
         }
 
+        const { task: deletedTask } = await response.json();
+
         set((state) => {
           delete state.byId[id];
           state.allIds = state.allIds.filter((taskId) => taskId !== id);
@@ -248,6 +388,17 @@ export const useTaskStore = create<TaskState>()(
             state.selectedTaskId = null;
           }
         });
+
+        // Other instances may have been removed or the next one scheduled
+        if (scope) {
+          await get().fetchTasks();
+        } else if (deletedTask) {
+          useHistoryStore.getState().record({
+            label: `Deleted "${deletedTask.title}"`,
+            undo: () => replayAction(() => get().restoreTask(id)),
+            redo: () => replayAction(() => get().deleteTask(id)),
+          });
+        }
       } catch (error) {
         set((state) => {
           state.loading = "error";
@@ -257,6 +408,36 @@ export const useTaskStore = create<TaskState>()(
       }
     },
 
+    restoreTask: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/trash/tasks/${id}`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to restore task");
+        }
+
+        const restoredTask = await response.json();
+
+        set((state) => {
+          if (!state.byId[restoredTask.id]) {
+            state.allIds.unshift(restoredTask.id);
+          }
+          state.byId[restoredTask.id] = restoredTask;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to restore task";
+        });
+      }
+    },
+
     toggleTask: async (id) => {
       const currentTask = get().byId[id];
       if (!currentTask) return;
@@ -275,6 +456,14 @@ export const useTaskStore = create<TaskState>()(
         set((state) => {
           state.byId[id] = { ...currentTask, ...updatedTask };
         });
+
+        useHistoryStore.getState().record({
+          label: `${updatedTask.isCompleted ? "Completed" : "Reopened"} "${
+            currentTask.title
+          }"`,
+          undo: () => replayAction(() => get().toggleTask(id)),
+          redo: () => replayAction(() => get().toggleTask(id)),
+        });
       } catch (error) {
         set((state) => {
           state.error =
@@ -283,6 +472,338 @@ export const useTaskStore = create<TaskState>()(
       }
     },
 
+    addDependency: async (taskId, blockerId) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ blockerId }),
+        });
+
+        // A dependency that would form a cycle is reported by the API
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to add dependency");
+        }
+
+        const updatedTask = await response.json();
+
+        set((state) => {
+          if (!state.byId[taskId]) {
+            state.allIds.unshift(taskId);
+          }
+          state.byId[taskId] = updatedTask;
+        });
+
+        const blocker = updatedTask.blockedBy?.find(
+          (task: TaskDependency) => task.id === blockerId
+        );
+        useHistoryStore.getState().record({
+          label: `Added dependency on "${blocker?.title}"`,
+          undo: () =>
+            replayAction(() => get().removeDependency(taskId, blockerId)),
+          redo: () =>
+            replayAction(() => get().addDependency(taskId, blockerId)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to add dependency";
+        });
+      }
+    },
+
+    removeDependency: async (taskId, blockerId) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(
+          `/api/tasks/${taskId}/dependencies/${blockerId}`,
+          { method: "DELETE" }
+        );
+
+        if (!response.ok) {
+          throw new Error("Failed to remove dependency");
+        }
+
+        const blocker = get().byId[taskId]?.blockedBy?.find(
+          (task) => task.id === blockerId
+        );
+        set((state) => {
+          const task = state.byId[taskId];
+          if (task) {
+            task.blockedBy = task.blockedBy?.filter(
+              (blocker) => blocker.id !== blockerId
+            );
+          }
+        });
+
+        useHistoryStore.getState().record({
+          label: `Removed dependency on "${blocker?.title ?? "task"}"`,
+          undo: () =>
+            replayAction(() => get().addDependency(taskId, blockerId)),
+          redo: () =>
+            replayAction(() => get().removeDependency(taskId, blockerId)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to remove dependency";
+        });
+      }
+    },
+
+    convertSubTask: async (subTaskId) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/subtasks/${subTaskId}/convert`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to convert subtask");
+        }
+
+        const newTask = await response.json();
+
+        set((state) => {
+          state.byId[newTask.id] = newTask;
+          state.allIds.unshift(newTask.id);
+
+          const parent = state.byId[newTask.parentTaskId];
+          if (parent) {
+            parent.subTasks = parent.subTasks?.filter(
+              (subTask) => subTask.id !== subTaskId
+            );
+          }
+        });
+
+        // The checklist item is gone, so undoing trashes the new subtask
+        useHistoryStore.getState().record({
+          label: `Converted "${newTask.title}" to a subtask`,
+          undo: () => replayAction(() => get().deleteTask(newTask.id)),
+          redo: () => replayAction(() => get().restoreTask(newTask.id)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to convert subtask";
+        });
+      }
+    },
+
+    promoteTask: async (id) => {
+      const currentTask = get().byId[id];
+      if (!currentTask?.parentTaskId) return;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${id}/promote`, {
+          method: "POST",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to promote task");
+        }
+
+        const promotedTask = await response.json();
+
+        set((state) => {
+          state.byId[id] = { ...currentTask, ...promotedTask };
+        });
+
+        const parentTaskId = currentTask.parentTaskId;
+        useHistoryStore.getState().record({
+          label: `Moved "${currentTask.title}" to the top level`,
+          undo: () =>
+            replayAction(() => get().updateTask(id, { parentTaskId })),
+          redo: () => replayAction(() => get().promoteTask(id)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to promote task";
+        });
+      }
+    },
+
+    moveTask: async (id, placement) => {
+      const currentTask = get().byId[id];
+      if (!currentTask) return;
+      // Neighbours among every loaded task, which puts it back in any view
+      const previousPlacement = getPlacement(
+        sortByPosition(Object.values(get().byId)),
+        id
+      );
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${id}/position`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(placement),
+        });
+
+        // Neighbours reordered in another tab are reported by the API
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move task");
+        }
+
+        const movedTask = await response.json();
+
+        set((state) => {
+          state.byId[id] = { ...currentTask, ...movedTask };
+        });
+
+        useHistoryStore.getState().record({
+          label: `Moved "${currentTask.title}"`,
+          undo: () => replayAction(() => get().moveTask(id, previousPlacement)),
+          redo: () => replayAction(() => get().moveTask(id, placement)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to move task";
+        });
+      }
+    },
+
+    moveTaskTo: async (id, destination) => {
+      const currentTask = get().byId[id];
+      if (!currentTask) return;
+      const previousValues = getPreviousValues(currentTask, destination);
+      // Dropped back on its own day or list
+      if (
+        Object.entries(destination).every(
+          ([key, value]) => previousValues[key as keyof Task] === value
+        )
+      ) {
+        return;
+      }
+
+      // Shown on the new day or list straight away, and put back if the
+      // API rejects the change
+      set((state) => {
+        state.byId[id] = { ...currentTask, ...destination };
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/tasks/${id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(validateTaskPartial(destination)),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move task");
+        }
+
+        const updatedTask = await response.json();
+
+        set((state) => {
+          state.byId[id] = { ...currentTask, ...updatedTask };
+        });
+
+        useHistoryStore.getState().record({
+          label: `Moved "${currentTask.title}"`,
+          undo: () => replayAction(() => get().moveTaskTo(id, previousValues)),
+          redo: () => replayAction(() => get().moveTaskTo(id, destination)),
+        });
+      } catch (error) {
+        set((state) => {
+          state.byId[id] = currentTask;
+          state.error =
+            error instanceof Error ? error.message : "Failed to move task";
+        });
+      }
+    },
+
+    moveSubTask: async (taskId, subTaskId, placement) => {
+      // Undo needs the checklist order, known once the task's relations
+      // are loaded
+      const checklist = get().byId[taskId]?.subTasks;
+      const previousPlacement = checklist
+        ? getPlacement(sortByPosition(checklist), subTaskId)
+        : undefined;
+
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/subtasks/${subTaskId}/position`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(placement),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to move subtask");
+        }
+
+        const movedSubTask = await response.json();
+
+        set((state) => {
+          const subTask = state.byId[taskId]?.subTasks?.find(
+            (item) => item.id === subTaskId
+          );
+          if (subTask) {
+            subTask.position = movedSubTask.position;
+          }
+        });
+
+        if (previousPlacement) {
+          useHistoryStore.getState().record({
+            label: `Moved "${movedSubTask.title}"`,
+            undo: () =>
+              replayAction(() =>
+                get().moveSubTask(taskId, subTaskId, previousPlacement)
+              ),
+            redo: () =>
+              replayAction(() =>
+                get().moveSubTask(taskId, subTaskId, placement)
+              ),
+          });
+        }
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to move subtask";
+        });
+      }
+    },
+
     setFilter: (filter) => {
       set((state) => {
         state.filter = { ...state.filter, ...filter };
@@ -350,8 +871,55 @@ export const useTaskStore = create<TaskState>()(
         state.error = null;
       });
     },
+
+    applyTaskEvent: (event) => {
+      const task = event.data;
+      const id = task.id;
+      if (id === undefined) return;
+
+      set((state) => {
+        if (event.type === "task_deleted") {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter((taskId) => taskId !== id);
+          if (state.selectedTaskId === id) {
+            state.selectedTaskId = null;
+          }
+          return;
+        }
+
+        if (!state.byId[id]) {
+          state.allIds.unshift(id);
+        }
+        state.byId[id] = task;
+      });
+    },
   }))
 );
 
 // Helper function to get store state (for use in actions)
-const get = () => useTaskStore.getState();
\ No newline at end of file
+const get = () => useTaskStore.getState();
+
+const getTaskUrl = (id: number, scope?: RecurrenceScope) =>
+  scope ? `/api/tasks/${id}?scope=${scope}` : `/api/tasks/${id}`;
+
+// Store actions report failures through `error`; history needs them thrown
+const replayAction = async (action: () => Promise<void>) => {
+  await action();
+  const { error } = get();
+  if (error) {
+    throw new Error(error);
+  }
+};
+
+// Values of the updated fields before the update, for undoing it. A field
+// that was empty is sent as null so that undoing clears it again.
+const getPreviousValues = (
+  task: TaskWithRelations,
+  updates: TaskUpdate
+): TaskUpdate =>
+  Object.fromEntries(
+    Object.keys(updates).map((key) => [
+      key,
+      task[key as keyof TaskWithRelations] ?? null,
+    ])
+  );
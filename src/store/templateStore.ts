@@ -0,0 +1,269 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import {
+  AppliedTemplate,
+  ApplyTemplateOptions,
+  Template,
+  TemplateSource,
+  TemplateUpdate,
+} from "@/types/task";
+import { useHistoryStore } from "./historyStore";
+import { useListStore } from "./listStore";
+import { useTaskStore } from "./taskStore";
+import { useViewStore } from "./viewStore";
+
+interface EntityState<T> {
+  byId: Record<number, T>;
+  allIds: number[];
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+  lastUpdated: number | null;
+}
+
+interface TemplateState extends EntityState<Template> {
+  // API operations
+  fetchTemplates: () => Promise<void>;
+  createTemplate: (source: TemplateSource) => Promise<Template | undefined>;
+  updateTemplate: (id: number, updates: TemplateUpdate) => Promise<void>;
+  deleteTemplate: (id: number) => Promise<void>;
+  applyTemplate: (
+    id: number,
+    options?: ApplyTemplateOptions
+  ) => Promise<AppliedTemplate | undefined>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+// Undoing goes through the task and list stores, which report failures
+// through `error`; history needs them thrown
+const replayIn = async (
+  store: { getState: () => { error: string | null } },
+  action: () => Promise<void>
+) => {
+  await action();
+  const { error } = store.getState();
+  if (error) {
+    throw new Error(error);
+  }
+};
+
+export const useTemplateStore = create<TemplateState>()(
+  immer((set) => ({
+    // Initial state
+    byId: {},
+    allIds: [],
+    loading: "idle",
+    error: null,
+    lastUpdated: null,
+
+    // Actions
+    fetchTemplates: async () => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/templates");
+        if (!response.ok) {
+          throw new Error("Failed to fetch templates");
+        }
+        const templates: Template[] = await response.json();
+
+        set((state) => {
+          state.loading = "success";
+          state.lastUpdated = Date.now();
+
+          state.byId = {};
+          state.allIds = [];
+
+          templates.forEach((template) => {
+            state.byId[template.id] = template;
+            state.allIds.push(template.id);
+          });
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to fetch templates";
+        });
+      }
+    },
+
+    createTemplate: async (source) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/templates", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(source),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to save template");
+        }
+
+        const newTemplate: Template = await response.json();
+
+        set((state) => {
+          state.byId[newTemplate.id] = newTemplate;
+          state.allIds.push(newTemplate.id);
+        });
+        return newTemplate;
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to save template";
+        });
+        return undefined;
+      }
+    },
+
+    updateTemplate: async (id, updates) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/templates/${id}`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(updates),
+        });
+
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to update template");
+        }
+
+        const updatedTemplate: Template = await response.json();
+
+        set((state) => {
+          state.byId[id] = updatedTemplate;
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to update template";
+        });
+      }
+    },
+
+    deleteTemplate: async (id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/templates/${id}`, {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete template");
+        }
+
+        set((state) => {
+          delete state.byId[id];
+          state.allIds = state.allIds.filter((templateId) => templateId !== id);
+        });
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to delete template";
+        });
+      }
+    },
+
+    applyTemplate: async (id, options = {}) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/templates/${id}/apply`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(options),
+        });
+
+        // A list name already in use is reported by the API
+        if (!response.ok) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error ?? "Failed to use template");
+        }
+
+        const applied: AppliedTemplate = await response.json();
+
+        void useTaskStore.getState().fetchTasks();
+        void useViewStore.getState().refreshAllViews();
+
+        const { list } = applied;
+        if (list) {
+          void useListStore.getState().fetchLists();
+          useHistoryStore.getState().record({
+            label: `Created list "${list.name}" from a template`,
+            undo: () =>
+              replayIn(useListStore, () =>
+                useListStore.getState().deleteList(list.id)
+              ),
+            redo: () =>
+              replayIn(useListStore, () =>
+                useListStore.getState().restoreList(list.id)
+              ),
+          });
+        } else {
+          // Subtasks go to the trash and come back with their parent
+          const taskIds = applied.tasks.map((task) => task.id!);
+          useHistoryStore.getState().record({
+            label: `Created "${applied.tasks[0]?.title}" from a template`,
+            undo: () =>
+              replayIn(useTaskStore, async () => {
+                for (const taskId of taskIds) {
+                  await useTaskStore.getState().deleteTask(taskId);
+                }
+              }),
+            redo: () =>
+              replayIn(useTaskStore, async () => {
+                for (const taskId of taskIds) {
+                  await useTaskStore.getState().restoreTask(taskId);
+                }
+              }),
+          });
+        }
+
+        return applied;
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to use template";
+        });
+        return undefined;
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
@@ -0,0 +1,149 @@
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+import { Label, List, TrashItemType } from "@/types/task";
+import { useTaskStore } from "./taskStore";
+import { useListStore } from "./listStore";
+import { useLabelStore } from "./labelStore";
+import { useViewStore } from "./viewStore";
+
+// Trashed tasks are shown through the "trash" view of the view store
+interface TrashState {
+  lists: List[];
+  labels: Label[];
+  retentionDays: number | null;
+  loading: "idle" | "loading" | "success" | "error";
+  error: string | null;
+
+  // API operations
+  fetchTrash: () => Promise<void>;
+  restore: (type: TrashItemType, id: number) => Promise<void>;
+  purge: (type: TrashItemType, id: number) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+
+  // Clear error
+  clearError: () => void;
+}
+
+export const useTrashStore = create<TrashState>()(
+  immer((set) => ({
+    // Initial state
+    lists: [],
+    labels: [],
+    retentionDays: null,
+    loading: "idle",
+    error: null,
+
+    // Actions
+    fetchTrash: async () => {
+      set((state) => {
+        state.loading = "loading";
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/trash");
+        if (!response.ok) {
+          throw new Error("Failed to fetch trash");
+        }
+        const trash = await response.json();
+
+        set((state) => {
+          state.lists = trash.lists;
+          state.labels = trash.labels;
+          state.retentionDays = trash.retentionDays;
+          state.loading = "success";
+        });
+      } catch (error) {
+        set((state) => {
+          state.loading = "error";
+          state.error =
+            error instanceof Error ? error.message : "Failed to fetch trash";
+        });
+      }
+    },
+
+    // Restoring goes through the entity stores so they pick the item back up
+    restore: async (type, id) => {
+      let error: string | null = null;
+
+      switch (type) {
+        case "tasks":
+          await useTaskStore.getState().restoreTask(id);
+          error = useTaskStore.getState().error;
+          break;
+        case "lists":
+          await useListStore.getState().restoreList(id);
+          error = useListStore.getState().error;
+          break;
+        case "labels":
+          await useLabelStore.getState().restoreLabel(id);
+          error = useLabelStore.getState().error;
+          break;
+      }
+
+      set((state) => {
+        state.error = error;
+      });
+      await refreshTrash();
+    },
+
+    purge: async (type, id) => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch(`/api/trash/${type}/${id}`, {
+          method: "DELETE",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to delete permanently");
+        }
+
+        await refreshTrash();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error
+              ? error.message
+              : "Failed to delete permanently";
+        });
+      }
+    },
+
+    emptyTrash: async () => {
+      set((state) => {
+        state.error = null;
+      });
+
+      try {
+        const response = await fetch("/api/trash", { method: "DELETE" });
+
+        if (!response.ok) {
+          throw new Error("Failed to empty trash");
+        }
+
+        await refreshTrash();
+      } catch (error) {
+        set((state) => {
+          state.error =
+            error instanceof Error ? error.message : "Failed to empty trash";
+        });
+      }
+    },
+
+    clearError: () => {
+      set((state) => {
+        state.error = null;
+      });
+    },
+  }))
+);
+
+const refreshTrash = async () => {
+  await useTrashStore.getState().fetchTrash();
+  if (useViewStore.getState().currentView === "trash") {
+    await useViewStore.getState().refreshView();
+  }
+};
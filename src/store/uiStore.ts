@@ -55,6 +55,12 @@ interface UIState {
   // Sidebar
   sidebarCollapsed: boolean;
 
+  // List sections folded away in list views, by section ID
+  collapsedSections: Record<number, boolean>;
+
+  // Sidebar folders folded away, by folder ID
+  collapsedFolders: Record<number, boolean>;
+
   // Actions
   setTheme: (theme: "light" | "dark" | "system") => void;
   setIsDarkMode: (isDarkMode: boolean) => void;
@@ -69,6 +75,8 @@ interface UIState {
   clearNotifications: () => void;
   toggleSidebar: () => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
+  toggleSectionCollapsed: (sectionId: number) => void;
+  toggleFolderCollapsed: (folderId: number) => void;
 }
 
 export const useUIStore = create<UIState>()(
@@ -95,6 +103,9 @@ export const useUIStore = create<UIState>()(
 
       sidebarCollapsed: false,
 
+      collapsedSections: {},
+      collapsedFolders: {},
+
       setTheme: (theme) => set({ theme }),
       setIsDarkMode: (isDarkMode) => set({ isDarkMode }),
 
@@ -179,5 +190,23 @@ export const useUIStore = create<UIState>()(
       setSidebarCollapsed: (collapsed) => {
         set({ sidebarCollapsed: collapsed });
       },
+
+      toggleSectionCollapsed: (sectionId) => {
+        set((state) => ({
+          collapsedSections: {
+            ...state.collapsedSections,
+            [sectionId]: !state.collapsedSections[sectionId],
+          },
+        }));
+      },
+
+      toggleFolderCollapsed: (folderId) => {
+        set((state) => ({
+          collapsedFolders: {
+            ...state.collapsedFolders,
+            [folderId]: !state.collapsedFolders[folderId],
+          },
+        }));
+      },
   })
 );
@@ -1,8 +1,76 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import { TaskWithRelations } from "@/types/task";
+import { TaskEvent } from "@/types/api";
 
-type ViewType = "today" | "next7days" | "upcoming" | "all" | "inbox";
+type BuiltInView =
+  | "today"
+  | "next7days"
+  | "upcoming"
+  | "all"
+  | "inbox"
+  | "trash";
+
+// Saved filters are selectable as views named after their id
+export type SavedFilterView = `filter-${number}`;
+
+export type ViewType = BuiltInView | SavedFilterView;
+
+type ViewTasks = {
+  tasks: TaskWithRelations[];
+  total: number;
+};
+
+const VIEW_DAYS: Partial<Record<ViewType, number>> = {
+  next7days: 7,
+  upcoming: 30,
+};
+
+export function getSavedFilterView(id: number): SavedFilterView {
+  return `filter-${id}`;
+}
+
+export function getSavedFilterId(view: ViewType): number | undefined {
+  return view.startsWith("filter-") ? parseInt(view.slice(7)) : undefined;
+}
+
+function getViewUrl(view: ViewType): string {
+  const savedFilterId = getSavedFilterId(view);
+  if (savedFilterId !== undefined) {
+    return `/api/saved-filters/${savedFilterId}/tasks`;
+  }
+  return `/api/views/${view === "next7days" ? "next-7-days" : view}`;
+}
+
+// Decide locally which views a changed task belongs to, using the same
+// date windows as the view endpoints; saved filters are evaluated by the
+// server, so membership is unknown for them
+function isTaskInView(
+  view: ViewType,
+  task: TaskWithRelations
+): boolean | undefined {
+  const today = new Date().toISOString().split("T")[0];
+
+  if (getSavedFilterId(view) !== undefined) return undefined;
+
+  switch (view) {
+    case "today":
+      return task.date === today;
+    case "next7days":
+    case "upcoming": {
+      const endDate = new Date(Date.now() + VIEW_DAYS[view]! * 86400000)
+        .toISOString()
+        .split("T")[0];
+      return task.date >= today && task.date <= endDate;
+    }
+    case "inbox":
+      return Boolean(task.list?.isMagic);
+    case "trash":
+      return Boolean(task.deletedAt);
+    default:
+      return true;
+  }
+}
 
 interface ViewState {
   currentView: ViewType;
@@ -11,28 +79,8 @@ interface ViewState {
   error: string | null;
 
   // View-specific data
-  viewData: {
-    today: {
-      tasks: TaskWithRelations[];
-      total: number;
-    };
-    next7days: {
-      tasks: TaskWithRelations[];
-      total: number;
-    };
-    upcoming: {
-      tasks: TaskWithRelations[];
-      total: number;
-    };
-    all: {
-      tasks: TaskWithRelations[];
-      total: number;
-    };
-    inbox: {
-      tasks: TaskWithRelations[];
-      total: number;
-    };
-  };
+  viewData: Record<BuiltInView, ViewTasks> &
+    Partial<Record<SavedFilterView, ViewTasks>>;
 
   // Actions
   setView: (view: ViewType) => Promise<void>;
@@ -41,6 +89,9 @@ interface ViewState {
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
+
+  // Real-time sync
+  applyTaskEvent: (event: TaskEvent) => void;
 }
 
 export const useViewStore = create<ViewState>()(
@@ -56,6 +107,7 @@ export const useViewStore = create<ViewState>()(
         upcoming: { tasks: [], total: 0 },
         all: { tasks: [], total: 0 },
         inbox: { tasks: [], total: 0 },
+        trash: { tasks: [], total: 0 },
       },
 
       setView: async (view) => {
@@ -65,7 +117,7 @@ export const useViewStore = create<ViewState>()(
           let tasks: TaskWithRelations[] = [];
 
           // Fetch tasks from API based on view
-          const response = await fetch(`/api/views/${view}`);
+          const response = await fetch(getViewUrl(view));
 
           if (!response.ok) {
             throw new Error("Failed to load view");
@@ -114,6 +166,7 @@ export const useViewStore = create<ViewState>()(
 
           set((state) => ({
             viewData: {
+              ...state.viewData,
               today: { tasks: today, total: today.length },
               next7days: { tasks: next7days, total: next7days.length },
               upcoming: { tasks: upcoming, total: upcoming.length },
@@ -136,5 +189,46 @@ export const useViewStore = create<ViewState>()(
       setLoading: (loading) => set({ loading }),
       setError: (error) => set({ error }),
       clearError: () => set({ error: null }),
+
+      applyTaskEvent: (event) => {
+        const task = event.data;
+
+        set((state) => {
+          const viewData = { ...state.viewData };
+
+          (Object.keys(viewData) as ViewType[]).forEach((view) => {
+            const tasks = [...viewData[view]!.tasks];
+            const index = tasks.findIndex((t) => t.id === task.id);
+            // Deleted tasks leave every view but the trash
+            const belongs =
+              view === "trash"
+                ? isTaskInView(view, task)
+                : event.type !== "task_deleted" &&
+                  (isTaskInView(view, task) ?? index >= 0);
+
+            if (index >= 0 && belongs) {
+              tasks[index] = task;
+            } else if (index >= 0) {
+              tasks.splice(index, 1);
+            } else if (belongs) {
+              tasks.push(task);
+            } else {
+              return;
+            }
+
+            viewData[view] = { tasks, total: tasks.length };
+          });
+
+          return {
+            viewData,
+            tasks: viewData[state.currentView]?.tasks ?? state.tasks,
+          };
+        });
+
+        // Tasks may have started or stopped matching the saved filter
+        if (getSavedFilterId(get().currentView) !== undefined) {
+          void get().refreshView();
+        }
+      },
   })
 );
@@ -47,8 +47,9 @@ export interface CreateTaskRequest {
   recurrenceInterval?: number;
   recurrenceEndDate?: string;
   reminders?: Array<{
-    time: number;
-    unit: "minutes" | "hours" | "days";
+    time?: number;
+    unit?: "minutes" | "hours" | "days";
+    at?: string;
   }>;
   labels?: number[];
   subTasks?: Array<{
@@ -169,7 +170,7 @@ export interface UseMutationOptions<TData = unknown, TVariables = unknown> {
   onSettled?: () => void;
 }
 
-// WebSocket Events
+// Real-time sync events, streamed to every open tab from /api/events
 export interface TaskEvent {
   type: "task_created" | "task_updated" | "task_deleted" | "task_completed";
   data: TaskWithRelations;
@@ -191,6 +192,8 @@ export interface LabelEvent {
   userId?: string;
 }
 
+export type SyncEvent = TaskEvent | ListEvent | LabelEvent;
+
 // File Upload Types
 export interface FileUploadProgress {
   loaded: number;
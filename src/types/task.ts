@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidRRule } from "@/lib/rrule";
 
 export const prioritySchema = z.enum(["none", "low", "medium", "high"]);
 
@@ -15,13 +16,44 @@ export const recurrenceTypeSchema = z.enum([
 
 export type RecurrenceType = z.infer<typeof recurrenceTypeSchema>;
 
-export const reminderSchema = z.object({
-  time: z.number().min(1),
-  unit: z.enum(["minutes", "hours", "days"]),
-});
+// Which instances of a recurring series an edit or delete applies to
+export const recurrenceScopeSchema = z.enum(["this", "following", "all"]);
+
+export type RecurrenceScope = z.infer<typeof recurrenceScopeSchema>;
+
+// Either an offset before the task's deadline or an absolute time
+export const reminderSchema = z
+  .object({
+    time: z.number().min(1).optional(),
+    unit: z.enum(["minutes", "hours", "days"]).optional(),
+    at: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine(
+    (reminder) =>
+      reminder.at !== undefined ||
+      (reminder.time !== undefined && reminder.unit !== undefined),
+    "Reminder needs an offset or an absolute time"
+  );
 
 export type Reminder = z.infer<typeof reminderSchema>;
 
+export const reminderActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("dismiss") }),
+  z.object({ action: z.literal("snooze"), minutes: z.number().int().min(1) }),
+]);
+
+export type ReminderAction = z.infer<typeof reminderActionSchema>;
+
+// A task's value for a custom field: text, select and date fields hold
+// strings, number fields numbers and checkbox fields booleans
+export const customFieldValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+]);
+
+export type CustomFieldValue = z.infer<typeof customFieldValueSchema>;
+
 export const taskSchema = z.object({
   id: z.number().optional(),
   title: z.string().min(1, "Title is required"),
@@ -34,25 +66,66 @@ export const taskSchema = z.object({
   actualMinutes: z.number().min(0).max(59).optional(),
   priority: prioritySchema.default("none"),
   listId: z.number(),
+  parentTaskId: z.number().int().positive().nullable().optional(), // Task this one is nested under
+  sectionId: z.number().int().positive().nullable().optional(), // Section of its list
   isCompleted: z.boolean().default(false),
   completedAt: z.string().optional(),
   isRecurring: z.boolean().default(false),
   recurrenceType: recurrenceTypeSchema.optional(),
   recurrenceInterval: z.number().min(1).optional(),
   recurrenceEndDate: z.string().optional(),
+  recurrenceRule: z
+    .string()
+    .refine(isValidRRule, "Invalid recurrence rule")
+    .optional(),
+  recurrenceExceptions: z
+    .array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format"))
+    .optional(),
   reminders: z.array(reminderSchema).optional(),
+  // Values of the custom fields of its list, keyed by field ID; null
+  // clears a value. Checked against the fields by lib/validation.
+  customValues: z.record(customFieldValueSchema.nullable()).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
 });
 
 export type Task = z.infer<typeof taskSchema>;
 
+// Fields left out of an update keep their values and null clears the
+// optional ones; `labels` replaces the task's labels
+export const updateTaskSchema = taskSchema.partial().extend({
+  description: taskSchema.shape.description.nullable(),
+  deadline: taskSchema.shape.deadline.nullable(),
+  estimateHours: taskSchema.shape.estimateHours.nullable(),
+  estimateMinutes: taskSchema.shape.estimateMinutes.nullable(),
+  actualHours: taskSchema.shape.actualHours.nullable(),
+  actualMinutes: taskSchema.shape.actualMinutes.nullable(),
+  completedAt: taskSchema.shape.completedAt.nullable(),
+  recurrenceType: taskSchema.shape.recurrenceType.nullable(),
+  recurrenceInterval: taskSchema.shape.recurrenceInterval.nullable(),
+  recurrenceEndDate: taskSchema.shape.recurrenceEndDate.nullable(),
+  recurrenceRule: taskSchema.shape.recurrenceRule.nullable(),
+  recurrenceExceptions: taskSchema.shape.recurrenceExceptions.nullable(),
+  reminders: taskSchema.shape.reminders.nullable(),
+  labels: z.array(z.number().int().positive()).optional(),
+});
+
+export type TaskUpdate = Omit<z.infer<typeof updateTaskSchema>, "labels">;
+
 export type TaskWithRelations = Omit<Task, "reminders"> & {
   reminders?: Reminder[];
+  previousOccurrenceId?: number | null;
+  seriesId?: number | null;
+  deletedAt?: string | null; // Set while the task is in the trash
+  position?: string; // Manual order, see lib/ordering
   list?: List;
   labels?: Label[];
   subTasks?: SubTask[];
   attachments?: Attachment[];
+  blockedBy?: TaskDependency[]; // Tasks that must be completed first
+  blocking?: TaskDependency[]; // Tasks waiting for this one
+  completion?: number; // Percentage done, rolled up from subtasks and checklist
+  match?: SearchMatch; // Set on full-text search results
 };
 
 export type TaskFormData = Omit<
@@ -75,22 +148,143 @@ export type TaskFormData = Omit<
   completedAt?: string;
 };
 
+// Fields of a task an update clears with null
+type ClearableField =
+  | "description"
+  | "deadline"
+  | "estimateHours"
+  | "estimateMinutes"
+  | "actualHours"
+  | "actualMinutes"
+  | "completedAt"
+  | "recurrenceType"
+  | "recurrenceInterval"
+  | "recurrenceEndDate"
+  | "recurrenceRule"
+  | "recurrenceExceptions"
+  | "reminders";
+
+// Changes to a task: fields left out keep their values and null clears the
+// optional ones
+export type TaskFormUpdate = Omit<Partial<TaskFormData>, ClearableField> &
+  Pick<TaskUpdate, ClearableField>;
+
+// A task written as one line of text, see lib/quick-add. Relative dates
+// count from `date`, today by default.
+export const quickAddSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "Text is required")
+    .max(500, "Text must be less than 500 characters"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+    .optional(),
+});
+
+export type QuickAddInput = z.infer<typeof quickAddSchema>;
+
 export type List = {
   id: number;
   name: string;
   color: string;
   emoji: string;
   isMagic: boolean;
+  position?: string; // Sidebar order, see lib/ordering
+  folderId?: number | null; // Folder the list is grouped under
+  archivedAt?: string | null; // Set while the list is archived
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+};
+
+export type ListUpdate = Partial<List> & { archived?: boolean };
+
+export type ListFolder = {
+  id: number;
+  name: string;
+  position?: string; // Sidebar order, see lib/ordering
+  archivedAt?: string | null; // Set while the folder is archived
+  taskCount: number; // Open tasks in the folder's lists
   createdAt: string;
   updatedAt: string;
 };
 
+// Lists grouped as in the sidebar: every folder with its lists, then the
+// lists that are in no folder
+export type ListTree = {
+  folders: (ListFolder & { lists: (List & { taskCount: number })[] })[];
+  lists: (List & { taskCount: number })[];
+};
+
+export type ListSection = {
+  id: number;
+  listId: number;
+  name: string;
+  position?: string; // Order within the list, see lib/ordering
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const customFieldTypeSchema = z.enum([
+  "text",
+  "number",
+  "select",
+  "date",
+  "checkbox",
+]);
+
+export type CustomFieldType = z.infer<typeof customFieldTypeSchema>;
+
+// A task field defined by a list, such as "Customer" or "Story points"
+export type CustomField = {
+  id: number;
+  listId: number;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Choices of a select field
+  createdAt: string;
+  updatedAt: string;
+};
+
+const customFieldNameSchema = z
+  .string()
+  .min(1, "Name is required")
+  .max(100, "Name must be less than 100 characters");
+
+const customFieldOptionsSchema = z
+  .array(z.string().min(1, "Options cannot be empty"))
+  .min(1, "A select field needs options");
+
+export const customFieldSchema = z
+  .object({
+    name: customFieldNameSchema,
+    type: customFieldTypeSchema,
+    options: z.array(z.string().min(1, "Options cannot be empty")).optional(),
+  })
+  .refine(
+    (field) => field.type !== "select" || (field.options?.length ?? 0) > 0,
+    { message: "A select field needs options", path: ["options"] }
+  );
+
+export type CustomFieldFormData = z.infer<typeof customFieldSchema>;
+
+// The type of a field cannot change once tasks may hold values for it
+export const updateCustomFieldSchema = z.object({
+  name: customFieldNameSchema.optional(),
+  options: customFieldOptionsSchema.optional(),
+});
+
+export type CustomFieldUpdate = z.infer<typeof updateCustomFieldSchema>;
+
 export type Label = {
   id: number;
   name: string;
   icon: string;
   color: string;
   createdAt: string;
+  deletedAt?: string | null;
 };
 
 export type SubTask = {
@@ -99,6 +293,7 @@ export type SubTask = {
   title: string;
   isCompleted: boolean;
   completedAt: string | null;
+  position?: string; // Order within the task
   createdAt: string;
   updatedAt: string;
 };
@@ -110,9 +305,38 @@ export type Attachment = {
   filePath: string;
   fileSize: number | null;
   mimeType: string;
+  contentHash: string | null;
   createdAt: string;
 };
 
+// The task on the other end of a dependency
+export type TaskDependency = {
+  id: number;
+  title: string;
+  isCompleted: boolean;
+};
+
+export const taskDependencySchema = z.object({
+  blockerId: z.number().int().positive(),
+});
+
+// Neighbours of a task, sub-task or list moved by drag and drop; either
+// side may be left out at the start or end
+export const reorderSchema = z
+  .object({
+    afterId: z.number().int().positive().nullable().optional(),
+    beforeId: z.number().int().positive().nullable().optional(),
+  })
+  .refine(
+    (placement) => placement.afterId || placement.beforeId,
+    "A neighbour is required"
+  );
+
+export type Placement = z.infer<typeof reorderSchema>;
+
+// Where a task was dropped: another day, another list, or both
+export type TaskDestination = Partial<Pick<Task, "date" | "listId">>;
+
 export type TaskChange = {
   id: number;
   taskId: number;
@@ -124,6 +348,78 @@ export type TaskChange = {
   createdAt: string;
 };
 
+// A body a comment had before it was edited, and when it was replaced
+export type CommentEdit = {
+  body: string;
+  editedAt: string;
+};
+
+export type TaskComment = {
+  id: number;
+  taskId: number;
+  author: string;
+  body: string; // Markdown
+  edits: CommentEdit[]; // Oldest first
+  createdAt: string;
+  updatedAt: string;
+};
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, "Comment cannot be empty")
+  .max(10000, "Comment must be less than 10000 characters");
+
+export const taskCommentSchema = z.object({
+  author: z
+    .string()
+    .min(1, "Author is required")
+    .max(100, "Author must be less than 100 characters")
+    .optional(),
+  body: commentBodySchema,
+});
+
+export type TaskCommentFormData = z.infer<typeof taskCommentSchema>;
+
+// Only the body of a comment can be edited
+export const updateTaskCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+export type TaskCommentUpdate = z.infer<typeof updateTaskCommentSchema>;
+
+// An entry of the activity stream of a task
+export type TaskActivity =
+  | { type: "comment"; createdAt: string; comment: TaskComment }
+  | { type: "change"; createdAt: string; change: TaskChange };
+
+export type QueuedReminder = {
+  id: number;
+  taskId: number;
+  reminderIndex: number;
+  fireAt: string;
+  status: "pending" | "fired" | "dismissed";
+  firedAt: string | null;
+  snoozedUntil: string | null;
+  dismissedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// A fired reminder as delivered to the browser
+export type DueReminder = QueuedReminder & {
+  taskTitle: string;
+  taskDescription: string | null;
+  taskDeadline: string | null;
+};
+
+// BM25 rank (lower is better) and highlighted text of a search result
+export type SearchMatch = {
+  score: number;
+  title: string;
+  snippet: string;
+};
+
 export type TaskFilter = {
   search?: string;
   priority?: Priority;
@@ -133,16 +429,264 @@ export type TaskFilter = {
   date?: string;
   limit?: number;
   offset?: number;
-  orderBy?: keyof Task;
+  orderBy?: Exclude<keyof Task, "customValues">; // Columns of the tasks table
   orderDirection?: "asc" | "desc";
   completed?: boolean;
+  // Values the custom fields of `listId` must have, keyed by field ID;
+  // text fields match when they contain the value
+  customFields?: Record<string, CustomFieldValue>;
+};
+
+// The criteria a saved filter stores; `search` accepts the search query
+// language
+export const savedFilterCriteriaSchema = z.object({
+  search: z.string().optional(),
+  priority: prioritySchema.optional(),
+  status: z.enum(["all", "completed", "pending"]).optional(),
+  listId: z.number().optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+    .optional(),
+  // Values the custom fields of `listId` must have, as in TaskFilter
+  customFields: z.record(customFieldValueSchema).optional(),
+});
+
+export const savedFilterSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Invalid color"),
+  emoji: z.string().min(1, "Emoji is required").max(4),
+  filter: savedFilterCriteriaSchema,
+});
+
+export const listSectionSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+});
+
+export type ListSectionFormData = z.infer<typeof listSectionSchema>;
+
+// Another list for a section to move to, taking its tasks along
+export const moveSectionSchema = z.object({
+  listId: z.number().int().positive(),
+});
+
+export const listFolderSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+});
+
+export type ListFolderFormData = z.infer<typeof listFolderSchema>;
+
+export const updateListFolderSchema = listFolderSchema
+  .extend({ archived: z.boolean() })
+  .partial();
+
+export type ListFolderUpdate = z.infer<typeof updateListFolderSchema> & {
+  position?: string;
 };
 
+// A copy of a list, optionally moved so that its earliest task falls on
+// startDate
+export const duplicateListSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters")
+    .optional(),
+  startDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+    .optional(),
+});
+
+export type DuplicateListOptions = z.infer<typeof duplicateListSchema>;
+
+// A reminder in a template: an offset before the deadline, or a time of
+// day given in minutes after midnight (UTC) of the task's date
+export const templateReminderSchema = z
+  .object({
+    time: z.number().min(1).optional(),
+    unit: z.enum(["minutes", "hours", "days"]).optional(),
+    atMinutes: z.number().int().optional(),
+  })
+  .refine(
+    (reminder) =>
+      reminder.atMinutes !== undefined ||
+      (reminder.time !== undefined && reminder.unit !== undefined),
+    "Reminder needs an offset or a time of day"
+  );
+
+export type TemplateReminder = z.infer<typeof templateReminderSchema>;
+
+// A task saved in a template. Dates are days after the date the template
+// is used on, and text may hold {{variables}}.
+export type TemplateTask = {
+  title: string;
+  description?: string;
+  priority: Priority;
+  estimateHours?: number;
+  estimateMinutes?: number;
+  dateOffset: number;
+  deadlineOffset?: number;
+  deadlineTime?: string; // HH:mm, for deadlines with a time
+  reminders?: TemplateReminder[];
+  labelIds?: number[];
+  checklist?: string[]; // Checklist item titles, in order
+  sectionName?: string; // Section of a list template the task goes in
+  subtasks?: TemplateTask[];
+};
+
+export const templateTaskSchema: z.ZodType<TemplateTask> = z.lazy(() =>
+  z.object({
+    title: z.string().min(1, "Title is required"),
+    description: z.string().optional(),
+    priority: prioritySchema,
+    estimateHours: z.number().min(0).max(23).optional(),
+    estimateMinutes: z.number().min(0).max(59).optional(),
+    dateOffset: z.number().int(),
+    deadlineOffset: z.number().int().optional(),
+    deadlineTime: z
+      .string()
+      .regex(/^\d{2}:\d{2}$/, "Invalid time format")
+      .optional(),
+    reminders: z.array(templateReminderSchema).optional(),
+    labelIds: z.array(z.number().int().positive()).optional(),
+    checklist: z.array(z.string().min(1)).optional(),
+    sectionName: z.string().min(1).optional(),
+    subtasks: z.array(templateTaskSchema).optional(),
+  })
+);
+
+// The list a list template creates, with its sections in order
+export const templateListSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters"),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/, "Invalid color"),
+  emoji: z.string().min(1, "Emoji is required").max(4),
+  sections: z.array(z.string().min(1)),
+});
+
+export type TemplateList = z.infer<typeof templateListSchema>;
+
+export type TemplateKind = "task" | "list";
+
+export type Template = {
+  id: number;
+  name: string;
+  kind: TemplateKind;
+  tasks: TemplateTask[]; // One task, with its subtasks, for task templates
+  list?: TemplateList; // Set on list templates
+  variables: string[]; // {{variables}} to fill in other than the built-in ones
+  createdAt: string;
+  updatedAt: string;
+};
+
+const templateNameSchema = z
+  .string()
+  .min(1, "Name is required")
+  .max(100, "Name must be less than 100 characters");
+
+// A template is saved from an existing task, with its subtasks, or list
+export const createTemplateSchema = z
+  .object({
+    name: templateNameSchema,
+    taskId: z.number().int().positive().optional(),
+    listId: z.number().int().positive().optional(),
+  })
+  .refine(
+    (data) => (data.taskId === undefined) !== (data.listId === undefined),
+    "Either a task or a list is required"
+  );
+
+export type TemplateSource = z.infer<typeof createTemplateSchema>;
+
+export const updateTemplateSchema = z.object({
+  name: templateNameSchema.optional(),
+  tasks: z.array(templateTaskSchema).min(1).optional(),
+  list: templateListSchema.optional(),
+});
+
+export type TemplateUpdate = z.infer<typeof updateTemplateSchema>;
+
+// Creating tasks or a list from a template. Dates count from `date`,
+// today by default; task templates go in `listId`, the Inbox by default,
+// and list templates create a list named `name`.
+export const applyTemplateSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+    .optional(),
+  listId: z.number().int().positive().optional(),
+  name: templateNameSchema.optional(),
+  variables: z.record(z.string()).optional(),
+});
+
+export type ApplyTemplateOptions = z.infer<typeof applyTemplateSchema>;
+
+// What using a template created: the list of a list template, and the
+// top-level tasks
+export type AppliedTemplate = {
+  list?: List;
+  tasks: TaskWithRelations[];
+};
+
+// The folder to put a list in; null takes it out of its folder
+export const moveListToFolderSchema = z.object({
+  folderId: z.number().int().positive().nullable(),
+});
+
+export type SavedFilterCriteria = z.infer<typeof savedFilterCriteriaSchema>;
+
+export type SavedFilterFormData = z.infer<typeof savedFilterSchema>;
+
+export type SavedFilter = SavedFilterFormData & {
+  id: number;
+  taskCount: number; // Tasks currently matching the filter
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Kinds of items that are moved to the trash instead of being deleted
+export const trashItemTypeSchema = z.enum(["tasks", "lists", "labels"]);
+
+export type TrashItemType = z.infer<typeof trashItemTypeSchema>;
+
+export type Trash = {
+  tasks: TaskWithRelations[];
+  lists: List[];
+  labels: Label[];
+  retentionDays: number; // Trashed items are purged after this many days
+};
+
+// Settings kept between sessions. Updates replace the values they hold
+// and keep the others.
+export const preferencesSchema = z
+  .object({
+    // Keys chosen for keyboard shortcuts, by shortcut ID
+    shortcuts: z.record(z.string(), z.string().min(1).max(50)),
+  })
+  .partial();
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
 export type TaskSort = {
   field: keyof Task;
   direction: "asc" | "desc";
 };
 
+// Tasks without a value for the field go last either way
+export type CustomFieldSort = {
+  fieldId: number;
+  direction: "asc" | "desc";
+};
+
 export type DatabaseStats = {
   totalTasks: number;
   completedTasks: number;